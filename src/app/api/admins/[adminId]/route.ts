@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { isAdminRole, requirePermission } from '@/lib/permissions';
+import { auditActor, recordAudit } from '@/lib/audit';
+
+// PATCH /api/admins/[adminId] - Change an admin's role (owners only)
+// The new role takes effect on that admin's next request.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ adminId: string }> }
+) {
+  try {
+    const { admin, error: authError } = await requirePermission(request, 'admins:manage');
+    if (authError) return authError;
+
+    const { adminId } = await params;
+    const { role } = await request.json();
+
+    if (!isAdminRole(role)) {
+      return NextResponse.json(
+        { error: 'Role must be one of: owner, operator, support, billing' },
+        { status: 400 }
+      );
+    }
+
+    // Never leave the platform without an owner
+    if (adminId === admin.userId && role !== 'owner') {
+      const { count: ownerCount } = await supabase
+        .from('users')
+        .select('*', { count: 'exact', head: true })
+        .eq('role', 'owner');
+
+      if ((ownerCount || 0) <= 1) {
+        return NextResponse.json(
+          { error: 'Cannot demote the last owner' },
+          { status: 409 }
+        );
+      }
+    }
+
+    const { data: current } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', adminId)
+      .single();
+
+    const { data: updated, error } = await supabase
+      .from('users')
+      .update({ role })
+      .eq('id', adminId)
+      .select('id, email, name, role')
+      .single();
+
+    if (error || !updated) {
+      return NextResponse.json(
+        { error: 'Admin not found or update failed' },
+        { status: 404 }
+      );
+    }
+
+    console.log(`[Auth] ${admin.username || admin.email} set role of ${updated.email} to ${role}`);
+
+    await recordAudit(request, auditActor(admin), {
+      action: 'admin.role_change',
+      targetType: 'admin',
+      targetId: updated.id,
+      before: { role: current?.role ?? null },
+      after: { role: updated.role },
+    });
+
+    return NextResponse.json({
+      success: true,
+      admin: {
+        id: updated.id,
+        email: updated.email,
+        name: updated.name,
+        role: updated.role,
+      },
+    });
+  } catch (error) {
+    console.error('Error updating admin role:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
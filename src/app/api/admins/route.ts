@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { requirePermission } from '@/lib/permissions';
+
+// GET /api/admins - List admin accounts and their roles (owners only)
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requirePermission(request, 'admins:manage');
+    if (authError) return authError;
+
+    const { data: admins, error } = await supabase
+      .from('users')
+      .select('id, email, name, role, created_at')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching admins:', error);
+      return NextResponse.json(
+        { error: 'Failed to fetch admins' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      admins: (admins || []).map((a) => ({
+        id: a.id,
+        username: a.email.split('@')[0],
+        email: a.email,
+        name: a.name,
+        role: a.role,
+        createdAt: a.created_at,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching admins:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { requirePermission } from "@/lib/permissions";
+import { auditActor, recordAudit } from "@/lib/audit";
+
+// PATCH /api/alerts/[alertId] - Acknowledge an alert
+// Acknowledging only marks it as seen; it still resolves on its own.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ alertId: string }> }
+) {
+  try {
+    const { admin, error: authError } = await requirePermission(request, "alerts:manage");
+    if (authError) return authError;
+
+    const { alertId } = await params;
+    const acknowledgedAt = new Date().toISOString();
+
+    const { data: alert, error } = await supabase
+      .from("alerts")
+      .update({ acknowledged_at: acknowledgedAt, acknowledged_by: admin.userId })
+      .eq("id", alertId)
+      .is("acknowledged_at", null)
+      .select("id, device_id")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Alert acknowledge error:", error);
+      return NextResponse.json(
+        { error: "Failed to acknowledge alert" },
+        { status: 500 }
+      );
+    }
+
+    if (!alert) {
+      return NextResponse.json(
+        { error: "Alert not found or already acknowledged" },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(request, auditActor(admin), {
+      action: "alert.acknowledge",
+      targetType: "alert",
+      targetId: alertId,
+      after: { deviceId: alert.device_id, acknowledgedAt },
+    });
+
+    return NextResponse.json({ success: true, acknowledgedAt });
+  } catch (error) {
+    console.error("PATCH alert error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
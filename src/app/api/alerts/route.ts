@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { requirePermission } from "@/lib/permissions";
+
+// GET /api/alerts - Alerts inbox
+// Filters: status (firing | resolved), deviceId, limit
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requirePermission(request, "devices:read");
+    if (authError) return authError;
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status");
+    const deviceId = searchParams.get("deviceId");
+    const limit = Math.min(parseInt(searchParams.get("limit") || "100", 10), 500);
+
+    let query = supabase
+      .from("alerts")
+      .select("*, alert_rules(name, rule_type, severity), devices(name)")
+      .order("fired_at", { ascending: false })
+      .limit(limit);
+
+    if (status) {
+      query = query.eq("status", status);
+    }
+    if (deviceId) {
+      query = query.eq("device_id", deviceId);
+    }
+
+    const { data: alerts, error } = await query;
+
+    if (error) {
+      console.error("Alerts fetch error:", error);
+      return NextResponse.json(
+        { error: "Database error" },
+        { status: 500 }
+      );
+    }
+
+    // Inbox badge counts, independent of the filters above
+    const { count: firing } = await supabase
+      .from("alerts")
+      .select("*", { count: "exact", head: true })
+      .eq("status", "firing");
+
+    const { count: unacknowledged } = await supabase
+      .from("alerts")
+      .select("*", { count: "exact", head: true })
+      .eq("status", "firing")
+      .is("acknowledged_at", null);
+
+    return NextResponse.json({
+      alerts: (alerts || []).map((a) => ({
+        id: a.id,
+        ruleId: a.rule_id,
+        ruleName: a.alert_rules?.name,
+        ruleType: a.alert_rules?.rule_type,
+        severity: a.alert_rules?.severity,
+        deviceId: a.device_id,
+        deviceName: a.devices?.name || a.device_id,
+        status: a.status,
+        message: a.message,
+        value: a.value,
+        firedAt: a.fired_at,
+        lastEvaluatedAt: a.last_evaluated_at,
+        resolvedAt: a.resolved_at,
+        acknowledgedAt: a.acknowledged_at,
+      })),
+      counts: {
+        firing: firing || 0,
+        unacknowledged: unacknowledged || 0,
+      },
+    });
+  } catch (error) {
+    console.error("GET alerts error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
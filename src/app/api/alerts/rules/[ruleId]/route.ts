@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { requirePermission } from "@/lib/permissions";
+import { auditActor, recordAudit } from "@/lib/audit";
+import { AlertRule, toAlertRuleResponse, validateAlertRule } from "@/lib/alerts";
+
+// PATCH /api/alerts/rules/[ruleId] - Update an alert rule
+// Body: any of { name, threshold, expectedFirmware, severity, enabled }
+// Disabling a rule resolves its firing alerts.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  try {
+    const { admin, error: authError } = await requirePermission(request, "alerts:manage");
+    if (authError) return authError;
+
+    const { ruleId } = await params;
+    const body = await request.json();
+
+    const { data, error } = await supabase
+      .from("alert_rules")
+      .select("*")
+      .eq("id", ruleId)
+      .single();
+
+    if (error || !data) {
+      return NextResponse.json(
+        { error: "Alert rule not found" },
+        { status: 404 }
+      );
+    }
+
+    const current = data as AlertRule;
+
+    const validationError = validateAlertRule({
+      type: current.rule_type,
+      threshold: body.threshold ?? current.threshold,
+      expectedFirmware: body.expectedFirmware ?? current.expected_firmware,
+    });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    if (body.severity !== undefined && !["warning", "critical"].includes(body.severity)) {
+      return NextResponse.json(
+        { error: "Severity must be warning or critical" },
+        { status: 400 }
+      );
+    }
+
+    const updateData: Record<string, unknown> = {};
+    if (typeof body.name === "string" && body.name.trim()) updateData.name = body.name.trim();
+    if (current.rule_type === "firmware_mismatch") {
+      if (body.expectedFirmware !== undefined) updateData.expected_firmware = body.expectedFirmware.trim();
+    } else if (body.threshold !== undefined) {
+      updateData.threshold = body.threshold;
+    }
+    if (body.severity !== undefined) updateData.severity = body.severity;
+    if (typeof body.enabled === "boolean") updateData.enabled = body.enabled;
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json(
+        { error: "No valid fields to update" },
+        { status: 400 }
+      );
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from("alert_rules")
+      .update(updateData)
+      .eq("id", ruleId)
+      .select()
+      .single();
+
+    if (updateError || !updated) {
+      console.error("Alert rule update error:", updateError);
+      return NextResponse.json(
+        { error: "Failed to update alert rule" },
+        { status: 500 }
+      );
+    }
+
+    if (updateData.enabled === false) {
+      const now = new Date().toISOString();
+      await supabase
+        .from("alerts")
+        .update({ status: "resolved", resolved_at: now, last_evaluated_at: now })
+        .eq("rule_id", ruleId)
+        .eq("status", "firing");
+    }
+
+    await recordAudit(request, auditActor(admin), {
+      action: "alert_rule.update",
+      targetType: "alert_rule",
+      targetId: ruleId,
+      before: toAlertRuleResponse(current),
+      after: toAlertRuleResponse(updated),
+    });
+
+    return NextResponse.json({
+      success: true,
+      rule: toAlertRuleResponse(updated),
+    });
+  } catch (error) {
+    console.error("PATCH alert rule error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/alerts/rules/[ruleId] - Delete an alert rule and its alerts
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ ruleId: string }> }
+) {
+  try {
+    const { admin, error: authError } = await requirePermission(request, "alerts:manage");
+    if (authError) return authError;
+
+    const { ruleId } = await params;
+
+    const { data: deleted, error } = await supabase
+      .from("alert_rules")
+      .delete()
+      .eq("id", ruleId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error("Alert rule delete error:", error);
+      return NextResponse.json(
+        { error: "Failed to delete alert rule" },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Alert rule not found" },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(request, auditActor(admin), {
+      action: "alert_rule.delete",
+      targetType: "alert_rule",
+      targetId: ruleId,
+      before: toAlertRuleResponse(deleted),
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("DELETE alert rule error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
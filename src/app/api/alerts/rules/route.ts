@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { requirePermission } from "@/lib/permissions";
+import { auditActor, recordAudit } from "@/lib/audit";
+import { AlertRule, toAlertRuleResponse, validateAlertRule } from "@/lib/alerts";
+
+// GET /api/alerts/rules - List alert rules with their firing counts
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requirePermission(request, "devices:read");
+    if (authError) return authError;
+
+    const { data: rules, error } = await supabase
+      .from("alert_rules")
+      .select("*")
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Alert rules fetch error:", error);
+      return NextResponse.json(
+        { error: "Database error" },
+        { status: 500 }
+      );
+    }
+
+    const { data: firing } = await supabase
+      .from("alerts")
+      .select("rule_id")
+      .eq("status", "firing");
+
+    const firingCounts = new Map<string, number>();
+    for (const a of firing || []) {
+      firingCounts.set(a.rule_id, (firingCounts.get(a.rule_id) || 0) + 1);
+    }
+
+    return NextResponse.json({
+      rules: ((rules || []) as AlertRule[]).map((r) => ({
+        ...toAlertRuleResponse(r),
+        firing: firingCounts.get(r.id) || 0,
+      })),
+    });
+  } catch (error) {
+    console.error("GET alert rules error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/alerts/rules - Create an alert rule
+// Body: { name, type, threshold?, expectedFirmware?, severity? }
+export async function POST(request: NextRequest) {
+  try {
+    const { admin, error: authError } = await requirePermission(request, "alerts:manage");
+    if (authError) return authError;
+
+    const data = await request.json();
+
+    if (!data.name || typeof data.name !== "string" || !data.name.trim()) {
+      return NextResponse.json(
+        { error: "Rule name is required" },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateAlertRule(data);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const severity = data.severity ?? "warning";
+    if (!["warning", "critical"].includes(severity)) {
+      return NextResponse.json(
+        { error: "Severity must be warning or critical" },
+        { status: 400 }
+      );
+    }
+
+    const { data: rule, error: insertError } = await supabase
+      .from("alert_rules")
+      .insert({
+        name: data.name.trim(),
+        rule_type: data.type,
+        threshold: data.type === "firmware_mismatch" ? null : data.threshold,
+        expected_firmware: data.type === "firmware_mismatch" ? data.expectedFirmware.trim() : null,
+        severity,
+        created_by: admin.userId,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error("Alert rule insert error:", insertError);
+      return NextResponse.json(
+        { error: "Failed to create alert rule" },
+        { status: 500 }
+      );
+    }
+
+    console.log(`[Alert] Created rule ${rule.name} (${rule.rule_type})`);
+
+    await recordAudit(request, auditActor(admin), {
+      action: "alert_rule.create",
+      targetType: "alert_rule",
+      targetId: rule.id,
+      after: toAlertRuleResponse(rule),
+    });
+
+    return NextResponse.json({
+      success: true,
+      rule: toAlertRuleResponse(rule),
+    });
+  } catch (error) {
+    console.error("Alert rule creation error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
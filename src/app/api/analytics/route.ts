@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/permissions";
+import { getFleetAnalytics, parseAnalyticsWindow } from "@/lib/analytics";
+
+// GET /api/analytics - Fleet block, device and availability statistics
+// Query: from, to (ISO timestamps, default the last 7 days). Points are hourly
+// for windows up to 3 days and daily beyond.
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requirePermission(request, "devices:read");
+    if (authError) return authError;
+
+    const query = parseAnalyticsWindow(new URL(request.url).searchParams);
+    if ("error" in query) {
+      return NextResponse.json(
+        { error: query.error },
+        { status: 400 }
+      );
+    }
+
+    const analytics = await getFleetAnalytics(query);
+    if (!analytics) {
+      return NextResponse.json(
+        { error: "Database error" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(analytics);
+  } catch (error) {
+    console.error("GET analytics error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
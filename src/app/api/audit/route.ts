@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { requirePermission } from "@/lib/permissions";
+
+// GET /api/audit - Query the audit log
+// Filters: actorId, actorType, action (prefix match, e.g. "device."),
+// targetType, targetId, from, to (ISO timestamps), limit, offset
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requirePermission(request, "audit:read");
+    if (authError) return authError;
+
+    const { searchParams } = new URL(request.url);
+
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50", 10), 500);
+    const offset = parseInt(searchParams.get("offset") || "0", 10);
+
+    let query = supabase
+      .from("audit_log")
+      .select("*", { count: "exact" })
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    const actorId = searchParams.get("actorId");
+    const actorType = searchParams.get("actorType");
+    const action = searchParams.get("action");
+    const targetType = searchParams.get("targetType");
+    const targetId = searchParams.get("targetId");
+    const from = searchParams.get("from");
+    const to = searchParams.get("to");
+
+    if (actorId) query = query.eq("actor_id", actorId);
+    if (actorType) query = query.eq("actor_type", actorType);
+    if (action) {
+      query = action.endsWith(".")
+        ? query.like("action", `${action}%`)
+        : query.eq("action", action);
+    }
+    if (targetType) query = query.eq("target_type", targetType);
+    if (targetId) query = query.eq("target_id", targetId);
+    if (from) query = query.gte("created_at", from);
+    if (to) query = query.lte("created_at", to);
+
+    const { data: entries, count, error } = await query;
+
+    if (error) {
+      console.error("Audit log fetch error:", error);
+      return NextResponse.json(
+        { error: "Database error" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      total: count || 0,
+      entries: (entries || []).map((e) => ({
+        id: e.id,
+        createdAt: e.created_at,
+        actor: {
+          type: e.actor_type,
+          id: e.actor_id,
+          name: e.actor_name,
+        },
+        action: e.action,
+        targetType: e.target_type,
+        targetId: e.target_id,
+        before: e.before,
+        after: e.after,
+        sourceIp: e.source_ip,
+      })),
+    });
+  } catch (error) {
+    console.error("GET audit log error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
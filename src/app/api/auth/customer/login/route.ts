@@ -76,7 +76,7 @@ export async function POST(request: NextRequest) {
       email: user.email,
       name: user.name,
       created_at: user.created_at,
-    });
+    }, 'customer');
 
     console.log(`[Auth] Customer logged in: ${email}`);
 
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
+import { recordAudit } from '@/lib/audit';
 import {
   hashPassword,
   generateToken,
@@ -97,10 +98,17 @@ export async function POST(request: NextRequest) {
       email: newUser.email,
       name: newUser.name,
       created_at: newUser.created_at,
-    });
+    }, 'customer');
 
     console.log(`[Auth] New customer created: ${email}`);
 
+    await recordAudit(request, { type: 'customer', id: newUser.id, name: newUser.email }, {
+      action: 'customer.signup',
+      targetType: 'customer',
+      targetId: newUser.id,
+      after: { email: newUser.email, name: newUser.name },
+    });
+
     return NextResponse.json(
       {
         success: true,
@@ -63,8 +63,9 @@ export async function POST(request: NextRequest) {
       id: user.id,
       username: usernameFromEmail,
       name: user.name,
+      role: user.role,
       created_at: user.created_at,
-    });
+    }, 'admin');
 
     // Create response with httpOnly cookie
     const response = NextResponse.json({
@@ -75,6 +76,7 @@ export async function POST(request: NextRequest) {
         id: user.id,
         username: usernameFromEmail,
         name: user.name,
+        role: user.role,
       },
     });
 
@@ -17,7 +17,8 @@ export async function GET(request: NextRequest) {
     // Verify token
     const payload = await verifyToken(token);
 
-    if (!payload) {
+    // Only admin sessions belong in the dashboard cookie
+    if (!payload || payload.type !== 'admin') {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
         { status: 401 }
@@ -27,7 +28,7 @@ export async function GET(request: NextRequest) {
     // Fetch user from database
     const { data: user, error: fetchError } = await supabase
       .from('users')
-      .select('id, email, name, created_at')
+      .select('id, email, name, role, created_at')
       .eq('id', payload.userId)
       .single();
 
@@ -46,6 +47,7 @@ export async function GET(request: NextRequest) {
         id: user.id,
         username,
         name: user.name,
+        role: user.role,
         createdAt: user.created_at,
       },
     });
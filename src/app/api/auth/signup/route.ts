@@ -6,13 +6,36 @@ import {
   isValidEmail,
   isValidPassword,
 } from '@/lib/auth';
+import { isAdminRole, requirePermission } from '@/lib/permissions';
+import { auditActor, recordAudit } from '@/lib/audit';
 
 // Admin signup - for ThreatZapper staff only
 // Creates account in users table (NOT customer_users - that's for device owners)
+// The first account bootstraps as owner; after that only owners can add admins.
 export async function POST(request: NextRequest) {
   try {
+    const { count: adminCount } = await supabase
+      .from('users')
+      .select('*', { count: 'exact', head: true });
+
+    const bootstrap = !adminCount;
+    let creator = null;
+    if (!bootstrap) {
+      const { admin, error } = await requirePermission(request, 'admins:manage');
+      if (error) return error;
+      creator = admin;
+    }
+
     const body = await request.json();
     const { email, password, name } = body;
+    const role = bootstrap ? 'owner' : body.role ?? 'support';
+
+    if (!isAdminRole(role)) {
+      return NextResponse.json(
+        { error: 'Role must be one of: owner, operator, support, billing' },
+        { status: 400 }
+      );
+    }
 
     // Validate input
     if (!email || !password) {
@@ -63,6 +86,7 @@ export async function POST(request: NextRequest) {
         email: email.toLowerCase(),
         password_hash: passwordHash,
         name: name || null,
+        role,
       })
       .select()
       .single();
@@ -75,13 +99,45 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    console.log(`[Auth] New admin user created: ${email} (${role})`);
+
+    // The bootstrap owner is recorded as creating their own account
+    await recordAudit(
+      request,
+      creator ? auditActor(creator) : { type: 'admin', id: newUser.id, name: newUser.email },
+      {
+        action: 'admin.create',
+        targetType: 'admin',
+        targetId: newUser.id,
+        after: { email: newUser.email, name: newUser.name, role: newUser.role },
+      }
+    );
+
+    // An owner adding a colleague stays logged in as themselves
+    if (!bootstrap) {
+      return NextResponse.json(
+        {
+          success: true,
+          message: 'Admin account created successfully',
+          user: {
+            id: newUser.id,
+            email: newUser.email,
+            name: newUser.name,
+            role: newUser.role,
+          },
+        },
+        { status: 201 }
+      );
+    }
+
     // Generate JWT token
     const token = await generateToken({
       id: newUser.id,
       email: newUser.email,
       name: newUser.name,
+      role: newUser.role,
       created_at: newUser.created_at,
-    });
+    }, 'admin');
 
     // Create response with httpOnly cookie
     const response = NextResponse.json(
@@ -93,6 +149,7 @@ export async function POST(request: NextRequest) {
           id: newUser.id,
           email: newUser.email,
           name: newUser.name,
+          role: newUser.role,
         },
       },
       { status: 201 }
@@ -107,8 +164,6 @@ export async function POST(request: NextRequest) {
       path: '/',
     });
 
-    console.log(`[Auth] New admin user created: ${email}`);
-
     return response;
   } catch (error) {
     console.error('Admin signup error:', error);
@@ -0,0 +1,47 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { runPeriodicSweeps } from "@/lib/sweeps";
+
+// Compare digests so the check takes the same time whatever the input
+function secretMatches(presented: string, expected: string): boolean {
+  const a = createHash("sha256").update(presented).digest();
+  const b = createHash("sha256").update(expected).digest();
+  return timingSafeEqual(a, b);
+}
+
+// GET /api/cron/sweep - Run the periodic sweeps (offline marking, schedules,
+// command lifecycle, rollouts, alerts, webhook deliveries, metrics rollups).
+// Called every minute by a scheduler with Authorization: Bearer <CRON_SECRET>.
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      console.error("[Cron] CRON_SECRET is not set, refusing to run sweeps");
+      return NextResponse.json(
+        { error: "Cron is not configured" },
+        { status: 503 }
+      );
+    }
+
+    const authHeader = request.headers.get("authorization") || "";
+    const presented = authHeader.startsWith("Bearer ") ? authHeader.slice(7).trim() : "";
+    if (!presented || !secretMatches(presented, cronSecret)) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const started = Date.now();
+    await runPeriodicSweeps();
+    console.log(`[Cron] Sweeps finished in ${Date.now() - started}ms`);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Cron sweep error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
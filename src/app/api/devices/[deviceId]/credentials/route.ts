@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { requirePermission } from "@/lib/permissions";
+import { auditActor, recordAudit } from "@/lib/audit";
+
+// POST /api/devices/[deviceId]/credentials - Rotate the device's API key
+// The device receives its new key in the response to its next check-in.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ deviceId: string }> }
+) {
+  try {
+    const { admin, error: authError } = await requirePermission(request, "devices:write");
+    if (authError) return authError;
+
+    const { deviceId } = await params;
+
+    const { data: device, error } = await supabase
+      .from("devices")
+      .select("device_id, api_key_hash")
+      .eq("device_id", deviceId)
+      .single();
+
+    if (error || !device) {
+      return NextResponse.json(
+        { error: "Device not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!device.api_key_hash) {
+      return NextResponse.json(
+        { error: "Device has no active API key. Re-register it to issue a new one." },
+        { status: 409 }
+      );
+    }
+
+    const requestedAt = new Date().toISOString();
+    const { error: updateError } = await supabase
+      .from("devices")
+      .update({ api_key_rotate_requested_at: requestedAt })
+      .eq("device_id", deviceId);
+
+    if (updateError) {
+      console.error("Key rotation error:", updateError);
+      return NextResponse.json(
+        { error: "Failed to rotate API key" },
+        { status: 500 }
+      );
+    }
+
+    console.log(`[Credentials] Rotation requested for ${deviceId}`);
+
+    await recordAudit(request, auditActor(admin), {
+      action: "device.credentials_rotate",
+      targetType: "device",
+      targetId: deviceId,
+      after: { rotationRequestedAt: requestedAt },
+    });
+
+    return NextResponse.json({
+      success: true,
+      rotationRequestedAt: requestedAt,
+    });
+  } catch (error) {
+    console.error("POST credentials error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/devices/[deviceId]/credentials - Revoke the device's API key
+// The device is rejected at check-in until its owner registers it again.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ deviceId: string }> }
+) {
+  try {
+    const { admin, error: authError } = await requirePermission(request, "devices:write");
+    if (authError) return authError;
+
+    const { deviceId } = await params;
+    const revokedAt = new Date().toISOString();
+
+    const { data: device, error } = await supabase
+      .from("devices")
+      .update({
+        api_key_hash: null,
+        api_key_pending_hash: null,
+        api_key_rotate_requested_at: null,
+        api_key_revoked_at: revokedAt,
+      })
+      .eq("device_id", deviceId)
+      .select("device_id")
+      .single();
+
+    if (error || !device) {
+      return NextResponse.json(
+        { error: "Device not found or revoke failed" },
+        { status: 404 }
+      );
+    }
+
+    console.log(`[Credentials] Revoked API key for ${deviceId}`);
+
+    await recordAudit(request, auditActor(admin), {
+      action: "device.credentials_revoke",
+      targetType: "device",
+      targetId: deviceId,
+      after: { revokedAt },
+    });
+
+    return NextResponse.json({
+      success: true,
+      revokedAt,
+    });
+  } catch (error) {
+    console.error("DELETE credentials error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
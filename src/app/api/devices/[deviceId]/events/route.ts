@@ -1,15 +1,50 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { requirePermission } from "@/lib/permissions";
+import { fetchBlockBuckets, parseMetricsQuery } from "@/lib/metrics";
 
 // GET /api/devices/[deviceId]/events - Get device block events
+// Query: limit and since for the latest events, or from, to and resolution
+// (as for the metrics API) for block deltas summed per bucket
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ deviceId: string }> }
 ) {
   try {
+    const { error: authError } = await requirePermission(request, "devices:read");
+    if (authError) return authError;
+
     const { deviceId } = await params;
     const { searchParams } = new URL(request.url);
 
+    // Summed per bucket, to chart alongside the metrics API
+    if (searchParams.has("resolution")) {
+      const query = parseMetricsQuery(searchParams);
+      if ("error" in query) {
+        return NextResponse.json(
+          { error: query.error },
+          { status: 400 }
+        );
+      }
+
+      const buckets = await fetchBlockBuckets(deviceId, query);
+      if (!buckets) {
+        return NextResponse.json(
+          { error: "Database error" },
+          { status: 500 }
+        );
+      }
+
+      return NextResponse.json({
+        deviceId,
+        from: query.from.toISOString(),
+        to: query.to.toISOString(),
+        resolution: query.resolution,
+        count: buckets.length,
+        buckets,
+      });
+    }
+
     const limit = parseInt(searchParams.get("limit") || "50", 10);
     const since = searchParams.get("since"); // ISO timestamp
 
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/permissions";
+import { getNetworkHistory, toNetworkHistoryResponse } from "@/lib/network-history";
+
+// GET /api/devices/[deviceId]/network - Public IP and location history, newest first
+// Query: limit (default 50, max 500)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ deviceId: string }> }
+) {
+  try {
+    const { error: authError } = await requirePermission(request, "devices:read");
+    if (authError) return authError;
+
+    const { deviceId } = await params;
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50", 10), 500);
+
+    const intervals = await getNetworkHistory(deviceId, limit);
+    if (!intervals) {
+      return NextResponse.json(
+        { error: "Database error" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      deviceId,
+      history: toNetworkHistoryResponse(intervals),
+    });
+  } catch (error) {
+    console.error("GET network history error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/permissions";
+import { getReboots, toRebootResponse } from "@/lib/reboots";
+
+// GET /api/devices/[deviceId]/reboots - Detected reboots, newest first
+// Query: from, to (ISO timestamps, optional), limit (default 50, max 500)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ deviceId: string }> }
+) {
+  try {
+    const { error: authError } = await requirePermission(request, "devices:read");
+    if (authError) return authError;
+
+    const { deviceId } = await params;
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50", 10), 500);
+    const from = searchParams.get("from");
+    const to = searchParams.get("to");
+
+    if ((from && isNaN(new Date(from).getTime())) || (to && isNaN(new Date(to).getTime()))) {
+      return NextResponse.json(
+        { error: "from and to must be ISO timestamps" },
+        { status: 400 }
+      );
+    }
+
+    const reboots = await getReboots(deviceId, {
+      from: from || undefined,
+      to: to || undefined,
+      limit,
+    });
+    if (!reboots) {
+      return NextResponse.json(
+        { error: "Database error" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      deviceId,
+      reboots: reboots.map(toRebootResponse),
+    });
+  } catch (error) {
+    console.error("GET reboots error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { requirePermission } from "@/lib/permissions";
+import { auditActor, recordAudit } from "@/lib/audit";
+import { normalizeTags, TAG_RULES } from "@/lib/device-groups";
+import { deleteDevice } from "@/lib/devices";
 
 // GET /api/devices/[deviceId] - Get single device with details
 export async function GET(
@@ -7,6 +11,9 @@ export async function GET(
   { params }: { params: Promise<{ deviceId: string }> }
 ) {
   try {
+    const { error: authError } = await requirePermission(request, "devices:read");
+    if (authError) return authError;
+
     const { deviceId } = await params;
 
     // Fetch device with owner info
@@ -67,6 +74,47 @@ export async function GET(
       .order("created_at", { ascending: false })
       .limit(20);
 
+    // Fetch broadcasts delivered to this device (last 20)
+    const { data: deliveries } = await supabase
+      .from("command_deliveries")
+      .select("*, device_commands(command_type, created_at)")
+      .eq("device_id", deviceId)
+      .order("sent_at", { ascending: false })
+      .limit(20);
+
+    const recentCommands = [
+      ...(commands || []).map((c) => ({
+        id: c.id,
+        type: c.command_type,
+        status: c.status,
+        createdAt: c.created_at,
+        sentAt: c.sent_at,
+        acknowledgedAt: c.acknowledged_at,
+        completedAt: c.completed_at,
+        expiresAt: c.expires_at,
+        retryCount: c.retry_count,
+        maxRetries: c.max_retries,
+        result: c.result,
+        output: c.output,
+        reviewNote: c.review_note,
+        broadcast: false,
+      })),
+      ...(deliveries || []).map((d) => ({
+        id: d.command_id,
+        type: d.device_commands?.command_type,
+        status: d.status,
+        createdAt: d.device_commands?.created_at,
+        sentAt: d.sent_at,
+        acknowledgedAt: d.acknowledged_at,
+        completedAt: d.completed_at,
+        result: d.result,
+        output: d.output,
+        broadcast: true,
+      })),
+    ]
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .slice(0, 20);
+
     // Transform to frontend format
     const deviceDetail = {
       id: device.device_id,
@@ -82,15 +130,28 @@ export async function GET(
       wifiSsid: device.wifi_ssid,
       wifiSignal: device.wifi_signal,
       status: device.status,
+      statusReason: device.status_reason,
       macAddress: device.mac_address,
+      tags: device.tags || [],
       firstSeen: device.created_at,
       lastReboot: device.last_reboot,
       // Geo/Network info
       publicIp: device.public_ip,
       publicCity: device.public_city,
       publicCountry: device.public_country,
+      publicCountryCode: device.public_country_code,
+      publicAsn: device.public_asn,
+      publicIsp: device.public_isp,
       publicLat: device.public_lat,
       publicLng: device.public_lng,
+      // API key status (never the key or its hash)
+      credentials: {
+        hasKey: !!device.api_key_hash,
+        issuedAt: device.api_key_issued_at,
+        rotationRequestedAt: device.api_key_rotate_requested_at,
+        rotationPending: !!device.api_key_rotate_requested_at || !!device.api_key_pending_hash,
+        revokedAt: device.api_key_revoked_at,
+      },
       metrics: latestMetrics ? {
         id: latestMetrics.id,
         deviceId: latestMetrics.device_id,
@@ -111,15 +172,7 @@ export async function GET(
         totalInbound: e.total_inbound,
         totalOutbound: e.total_outbound,
       })),
-      recentCommands: (commands || []).map((c) => ({
-        id: c.id,
-        type: c.command_type,
-        status: c.status,
-        createdAt: c.created_at,
-        sentAt: c.sent_at,
-        completedAt: c.completed_at,
-        result: c.result,
-      })),
+      recentCommands,
       owner,
     };
 
@@ -133,12 +186,15 @@ export async function GET(
   }
 }
 
-// PATCH /api/devices/[deviceId] - Update device (rename)
+// PATCH /api/devices/[deviceId] - Update device (rename, tags)
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ deviceId: string }> }
 ) {
   try {
+    const { admin, error: authError } = await requirePermission(request, "devices:write");
+    if (authError) return authError;
+
     const { deviceId } = await params;
     const body = await request.json();
 
@@ -150,11 +206,23 @@ export async function PATCH(
       );
     }
 
+    // Tags replace the whole list
+    const tags = body.tags !== undefined ? normalizeTags(body.tags) : undefined;
+    if (tags === null) {
+      return NextResponse.json(
+        { error: TAG_RULES },
+        { status: 400 }
+      );
+    }
+
     // Build update object
-    const updateData: Record<string, string | null> = {};
+    const updateData: Record<string, string | string[] | null> = {};
     if (body.name !== undefined) {
       updateData.name = body.name.trim() || null;
     }
+    if (tags !== undefined) {
+      updateData.tags = tags;
+    }
 
     if (Object.keys(updateData).length === 0) {
       return NextResponse.json(
@@ -163,6 +231,12 @@ export async function PATCH(
       );
     }
 
+    const { data: current } = await supabase
+      .from("devices")
+      .select("name, tags")
+      .eq("device_id", deviceId)
+      .single();
+
     const { data: device, error } = await supabase
       .from("devices")
       .update(updateData)
@@ -177,13 +251,34 @@ export async function PATCH(
       );
     }
 
-    console.log(`[Device] Renamed ${deviceId} to "${device.name}"`);
+    if (updateData.name !== undefined) {
+      console.log(`[Device] Renamed ${deviceId} to "${device.name}"`);
+
+      await recordAudit(request, auditActor(admin), {
+        action: "device.rename",
+        targetType: "device",
+        targetId: deviceId,
+        before: { name: current?.name ?? null },
+        after: { name: device.name },
+      });
+    }
+
+    if (tags !== undefined) {
+      await recordAudit(request, auditActor(admin), {
+        action: "device.tags",
+        targetType: "device",
+        targetId: deviceId,
+        before: { tags: current?.tags ?? [] },
+        after: { tags: device.tags },
+      });
+    }
 
     return NextResponse.json({
       success: true,
       device: {
         id: device.device_id,
         name: device.name,
+        tags: device.tags,
       },
     });
   } catch (error) {
@@ -201,55 +296,36 @@ export async function DELETE(
   { params }: { params: Promise<{ deviceId: string }> }
 ) {
   try {
-    const { deviceId } = await params;
+    const { admin, error: authError } = await requirePermission(request, "devices:write");
+    if (authError) return authError;
 
-    // First verify the device exists
-    const { data: device, error: findError } = await supabase
-      .from("devices")
-      .select("device_id")
-      .eq("device_id", deviceId)
-      .single();
+    const { deviceId } = await params;
 
-    if (findError || !device) {
+    let device;
+    try {
+      device = await deleteDevice(deviceId);
+    } catch (deleteError) {
+      console.error("Failed to delete device:", deleteError);
       return NextResponse.json(
-        { error: "Device not found" },
-        { status: 404 }
+        { error: "Failed to delete device" },
+        { status: 500 }
       );
     }
 
-    // Delete related data first (due to foreign key constraints)
-    // Delete block events
-    await supabase
-      .from("block_events")
-      .delete()
-      .eq("device_id", deviceId);
-
-    // Delete device metrics
-    await supabase
-      .from("device_metrics")
-      .delete()
-      .eq("device_id", deviceId);
-
-    // Delete device commands
-    await supabase
-      .from("device_commands")
-      .delete()
-      .eq("device_id", deviceId);
-
-    // Finally delete the device
-    const { error: deleteError } = await supabase
-      .from("devices")
-      .delete()
-      .eq("device_id", deviceId);
-
-    if (deleteError) {
-      console.error("Failed to delete device:", deleteError);
+    if (!device) {
       return NextResponse.json(
-        { error: "Failed to delete device" },
-        { status: 500 }
+        { error: "Device not found" },
+        { status: 404 }
       );
     }
 
+    await recordAudit(request, auditActor(admin), {
+      action: "device.delete",
+      targetType: "device",
+      targetId: deviceId,
+      before: device,
+    });
+
     return NextResponse.json({ success: true, message: "Device deleted" });
   } catch (error) {
     console.error("DELETE device error:", error);
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/permissions";
+import { getDeviceAvailability, getStatusHistory } from "@/lib/sla";
+import { getReboots, toRebootResponse } from "@/lib/reboots";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// GET /api/devices/[deviceId]/status-history - Status changes and reboots,
+// newest first, with the device's availability over the last 30 days
+// Query: limit (default 50, max 500)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ deviceId: string }> }
+) {
+  try {
+    const { error: authError } = await requirePermission(request, "devices:read");
+    if (authError) return authError;
+
+    const { deviceId } = await params;
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50", 10), 500);
+
+    const now = new Date();
+    const [history, reboots, availability] = await Promise.all([
+      getStatusHistory(deviceId, limit),
+      getReboots(deviceId, { limit }),
+      getDeviceAvailability(deviceId, new Date(now.getTime() - 30 * DAY_MS), now),
+    ]);
+
+    if (!history || !reboots || !availability) {
+      return NextResponse.json(
+        { error: "Database error" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      deviceId,
+      availability,
+      history,
+      reboots: reboots.map(toRebootResponse),
+    });
+  } catch (error) {
+    console.error("GET status history error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,326 @@
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { Permission, hasPermission, requirePermission } from "@/lib/permissions";
+import { auditActor, recordAudit } from "@/lib/audit";
+import { emitWebhookEvent } from "@/lib/webhooks";
+import { defaultTimeoutSeconds, isFleetWideTarget, requiresApproval } from "@/lib/commands";
+import { validateCommandPayload } from "@/lib/command-schema";
+import { normalizeTags, TAG_RULES } from "@/lib/device-groups";
+import { deleteDevice } from "@/lib/devices";
+
+const BULK_ACTIONS: Record<string, Permission> = {
+  rename: "devices:write",
+  tag: "devices:write",
+  reassign_owner: "devices:write",
+  delete: "devices:write",
+  reboot: "commands:send",
+  update_blocklist: "commands:send",
+};
+
+const MAX_BULK_DEVICES = 500;
+
+interface BulkResult {
+  deviceId: string;
+  success: boolean;
+  error?: string;
+  commandId?: string;
+}
+
+// Expand a rename pattern: {n} is the 1-based position in the selection,
+// {id} the device ID and {name} the current name
+function applyNamePattern(pattern: string, index: number, device: { device_id: string; name: string | null }) {
+  return pattern
+    .replace(/\{n\}/g, String(index + 1))
+    .replace(/\{id\}/g, device.device_id)
+    .replace(/\{name\}/g, device.name || device.device_id)
+    .trim();
+}
+
+// POST /api/devices/bulk - Apply one action to many devices
+// Body: { action, deviceIds, ...params } where params depend on the action:
+//   rename { pattern }, tag { addTags?, removeTags? }, reassign_owner { customerUserId | null },
+//   update_blocklist { url }, reboot and delete take none.
+// Reports success or failure per device. Commands share one batchId and go
+// through the same approval rules as commands sent to a group.
+export async function POST(request: NextRequest) {
+  try {
+    // Every bulk action works on devices the caller can see; the permission
+    // the action itself needs is checked once the body says which it is
+    const { admin, error: authError } = await requirePermission(request, "devices:read");
+    if (authError) return authError;
+
+    const data = await request.json();
+
+    const permission = BULK_ACTIONS[data.action];
+    if (!permission) {
+      return NextResponse.json(
+        { error: `Invalid action. Must be one of: ${Object.keys(BULK_ACTIONS).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (!hasPermission(admin.role, permission)) {
+      console.log(`[Auth] ${admin.username || admin.email} (${admin.role}) denied ${permission}`);
+      return NextResponse.json(
+        { error: `Forbidden: the ${admin.role} role cannot perform this action` },
+        { status: 403 }
+      );
+    }
+
+    const deviceIds: string[] = Array.isArray(data.deviceIds)
+      ? Array.from(new Set(data.deviceIds.filter((id: unknown): id is string => typeof id === "string" && id !== "")))
+      : [];
+
+    if (deviceIds.length === 0) {
+      return NextResponse.json(
+        { error: "deviceIds must be a non-empty array" },
+        { status: 400 }
+      );
+    }
+
+    if (deviceIds.length > MAX_BULK_DEVICES) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BULK_DEVICES} devices per request` },
+        { status: 400 }
+      );
+    }
+
+    // Validate action parameters before touching any device
+    const pattern = typeof data.pattern === "string" ? data.pattern.trim() : "";
+    if (data.action === "rename") {
+      if (!pattern) {
+        return NextResponse.json(
+          { error: "pattern is required" },
+          { status: 400 }
+        );
+      }
+      if (deviceIds.length > 1 && !/\{(n|id|name)\}/.test(pattern)) {
+        return NextResponse.json(
+          { error: "pattern must include {n}, {id} or {name} when renaming several devices" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const addTags = data.addTags !== undefined ? normalizeTags(data.addTags) : [];
+    const removeTags = data.removeTags !== undefined ? normalizeTags(data.removeTags) : [];
+    if (data.action === "tag") {
+      if (addTags === null || removeTags === null) {
+        return NextResponse.json(
+          { error: TAG_RULES },
+          { status: 400 }
+        );
+      }
+      if (addTags.length === 0 && removeTags.length === 0) {
+        return NextResponse.json(
+          { error: "addTags or removeTags is required" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const customerUserId: string | null = data.customerUserId || null;
+    if (data.action === "reassign_owner") {
+      if (data.customerUserId === undefined) {
+        return NextResponse.json(
+          { error: "customerUserId is required (null to unassign)" },
+          { status: 400 }
+        );
+      }
+      if (customerUserId) {
+        const { data: customer } = await supabase
+          .from("customer_users")
+          .select("id")
+          .eq("id", customerUserId)
+          .single();
+
+        if (!customer) {
+          return NextResponse.json(
+            { error: "Customer not found" },
+            { status: 404 }
+          );
+        }
+      }
+    }
+
+    const commandPayload = data.action === "update_blocklist" ? { url: data.url } : {};
+    if (data.action === "update_blocklist") {
+      const payloadError = validateCommandPayload("update_blocklist", commandPayload);
+      if (payloadError) {
+        return NextResponse.json(
+          { error: payloadError },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { data: found, error: fetchError } = await supabase
+      .from("devices")
+      .select("device_id, name, tags, customer_user_id")
+      .in("device_id", deviceIds);
+
+    if (fetchError) {
+      console.error("Bulk device fetch error:", fetchError);
+      return NextResponse.json(
+        { error: "Database error" },
+        { status: 500 }
+      );
+    }
+
+    const devicesById = new Map((found || []).map((d) => [d.device_id, d]));
+    const results: BulkResult[] = [];
+    const existing = deviceIds.filter((id) => {
+      if (devicesById.has(id)) return true;
+      results.push({ deviceId: id, success: false, error: "Device not found" });
+      return false;
+    });
+
+    let batchId: string | undefined;
+    let approvalRequired: boolean | undefined;
+
+    if (data.action === "reboot" || data.action === "update_blocklist") {
+      batchId = randomUUID();
+      // A selection covering most of the fleet is approved like a broadcast
+      approvalRequired = requiresApproval(data.action, await isFleetWideTarget(existing.length));
+      const { data: commands, error: insertError } = await supabase
+        .from("device_commands")
+        .insert(existing.map((id) => ({
+          device_id: id,
+          command_type: data.action,
+          payload: commandPayload,
+          status: approvalRequired ? "pending_approval" : "pending",
+          timeout_seconds: defaultTimeoutSeconds(data.action),
+          batch_id: batchId,
+          requested_by: admin.userId,
+        })))
+        .select("id, device_id, command_type");
+
+      if (insertError || !commands) {
+        console.error("Bulk command insert error:", insertError);
+        for (const id of existing) {
+          results.push({ deviceId: id, success: false, error: "Failed to queue command" });
+        }
+      } else {
+        for (const c of commands) {
+          results.push({ deviceId: c.device_id, success: true, commandId: c.id });
+
+          // Unapproved commands are announced once approved
+          if (approvalRequired) continue;
+          await emitWebhookEvent("command.queued", {
+            commandId: c.id,
+            deviceId: c.device_id,
+            type: c.command_type,
+            broadcast: false,
+            batchId,
+          });
+        }
+
+        await recordAudit(request, auditActor(admin), {
+          action: "command.create",
+          targetType: "batch",
+          targetId: batchId,
+          after: {
+            batchId,
+            type: data.action,
+            payload: commandPayload,
+            deviceIds: commands.map((c) => c.device_id),
+            status: approvalRequired ? "pending_approval" : "pending",
+          },
+        });
+      }
+    } else {
+      // Per-device updates, so one failure doesn't stop the rest
+      for (const [index, id] of existing.entries()) {
+        const device = devicesById.get(id)!;
+
+        try {
+          if (data.action === "delete") {
+            const deleted = await deleteDevice(id);
+            if (!deleted) {
+              results.push({ deviceId: id, success: false, error: "Device not found" });
+              continue;
+            }
+
+            await recordAudit(request, auditActor(admin), {
+              action: "device.delete",
+              targetType: "device",
+              targetId: id,
+              before: deleted,
+            });
+            results.push({ deviceId: id, success: true });
+            continue;
+          }
+
+          let update: Record<string, unknown>;
+          let audit: { action: string; before: Record<string, unknown>; after: Record<string, unknown> };
+
+          if (data.action === "rename") {
+            const name = applyNamePattern(pattern, index, device).slice(0, 100) || null;
+            update = { name };
+            audit = { action: "device.rename", before: { name: device.name }, after: { name } };
+          } else if (data.action === "tag") {
+            const current: string[] = device.tags || [];
+            const tags = normalizeTags([
+              ...current.filter((t) => !removeTags!.includes(t)),
+              ...addTags!,
+            ]);
+            if (!tags) {
+              results.push({ deviceId: id, success: false, error: "Device would exceed the tag limit" });
+              continue;
+            }
+            update = { tags };
+            audit = { action: "device.tags", before: { tags: current }, after: { tags } };
+          } else {
+            update = { customer_user_id: customerUserId };
+            audit = {
+              action: "device.reassign",
+              before: { customerUserId: device.customer_user_id },
+              after: { customerUserId },
+            };
+          }
+
+          const { error: updateError } = await supabase
+            .from("devices")
+            .update(update)
+            .eq("device_id", id);
+
+          if (updateError) {
+            console.error(`Bulk ${data.action} error for ${id}:`, updateError);
+            results.push({ deviceId: id, success: false, error: "Update failed" });
+            continue;
+          }
+
+          await recordAudit(request, auditActor(admin), {
+            ...audit,
+            targetType: "device",
+            targetId: id,
+          });
+          results.push({ deviceId: id, success: true });
+        } catch (error) {
+          console.error(`Bulk ${data.action} error for ${id}:`, error);
+          results.push({ deviceId: id, success: false, error: "Internal error" });
+        }
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    console.log(`[Device] Bulk ${data.action}: ${succeeded}/${deviceIds.length} succeeded`);
+
+    return NextResponse.json({
+      success: succeeded === deviceIds.length,
+      action: data.action,
+      batchId,
+      approvalRequired,
+      succeeded,
+      failed: deviceIds.length - succeeded,
+      results,
+    });
+  } catch (error) {
+    console.error("Bulk device action error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,72 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
-
-// Device API key - devices must include this in Authorization header
-const DEVICE_API_KEY = process.env.DEVICE_API_KEY || "tz_dev_key_change_me";
-
-// Get public IP from request headers
-function getPublicIP(request: NextRequest): string | null {
-  // Vercel/Cloudflare provide these headers
-  const forwardedFor = request.headers.get("x-forwarded-for");
-  if (forwardedFor) {
-    // x-forwarded-for can contain multiple IPs, take the first (client) one
-    return forwardedFor.split(",")[0].trim();
-  }
-
-  const realIP = request.headers.get("x-real-ip");
-  if (realIP) {
-    return realIP.trim();
-  }
-
-  return null;
-}
-
-// Simple IP geolocation using ip-api.com (free, no key required, 45 req/min)
-async function geolocateIP(ip: string): Promise<{ lat: number; lng: number; city: string; country: string } | null> {
-  try {
-    // Skip private IPs
-    if (ip.startsWith("10.") || ip.startsWith("192.168.") || ip.startsWith("172.")) {
-      return null;
-    }
-
-    const response = await fetch(`http://ip-api.com/json/${ip}?fields=status,country,city,lat,lon`, {
-      next: { revalidate: 86400 } // Cache for 24 hours
-    });
-
-    if (!response.ok) return null;
-
-    const data = await response.json();
-    if (data.status !== "success") return null;
-
-    return {
-      lat: data.lat,
-      lng: data.lon,
-      city: data.city || "",
-      country: data.country || "",
-    };
-  } catch (error) {
-    console.error("Geolocation error:", error);
-    return null;
-  }
-}
-
-function verifyApiKey(request: NextRequest): boolean {
-  const authHeader = request.headers.get("authorization");
-  if (!authHeader) return false;
-
-  // Support both "Bearer <key>" and just "<key>"
-  const key = authHeader.startsWith("Bearer ")
-    ? authHeader.slice(7)
-    : authHeader;
-
-  return key === DEVICE_API_KEY;
-}
+import {
+  authenticateDevice,
+  getDeviceKey,
+  issuePendingDeviceKey,
+  promotePendingDeviceKey,
+} from "@/lib/device-auth";
+import { claimPendingCommands, recordCommandResults } from "@/lib/commands";
+import { trackRolloutCheckin } from "@/lib/firmware-rollout";
+import { requirePermission } from "@/lib/permissions";
+import { getPublicIP } from "@/lib/client-ip";
+import { lookupGeoIP, type GeoIPResult } from "@/lib/geoip";
+import { recordNetworkCheckin } from "@/lib/network-history";
+import { CRASH_LOOP_REBOOTS, CRASH_LOOP_WINDOW_MINUTES, countRecentCrashes, detectReboot, recordReboot } from "@/lib/reboots";
+import { evaluateCheckinAlerts } from "@/lib/alerts";
+import { emitWebhookEvent } from "@/lib/webhooks";
+import type { DeviceCommand } from "@/lib/types";
 
 export async function POST(request: NextRequest) {
   try {
-    // Verify API key
-    if (!verifyApiKey(request)) {
-      console.log("[Checkin] Unauthorized - invalid or missing API key");
+    // Devices must include their API key in the Authorization header
+    const apiKey = getDeviceKey(request.headers.get("authorization"));
+    if (!apiKey) {
+      console.log("[Checkin] Unauthorized - missing API key");
       return NextResponse.json(
         { error: "Unauthorized" },
         { status: 401 }
@@ -83,19 +39,47 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // The key must belong to the device it claims to be
+    const auth = await authenticateDevice(data.deviceId, apiKey);
+    if (!auth.authenticated) {
+      console.log(`[Checkin] Unauthorized - invalid API key for ${data.deviceId}`);
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
     const now = new Date().toISOString();
 
     // Get public IP and geolocate
     const publicIP = getPublicIP(request);
-    let geoData: { lat: number; lng: number; city: string; country: string } | null = null;
+    let geoData: GeoIPResult | null = null;
 
     if (publicIP) {
-      geoData = await geolocateIP(publicIP);
+      geoData = await lookupGeoIP(publicIP);
       if (geoData) {
         console.log(`[Geo] Device ${data.deviceId} at ${geoData.city}, ${geoData.country} (${publicIP})`);
       }
     }
 
+    const { data: previous } = await supabase
+      .from("devices")
+      .select("status, status_reason, uptime, last_seen")
+      .eq("device_id", data.deviceId)
+      .maybeSingle();
+
+    // Compare the reported uptime with the previous check-in's before the
+    // upsert overwrites it
+    const detected = previous && typeof data.uptime === "number"
+      ? detectReboot(previous, data.uptime, now)
+      : null;
+    const reboot = detected ? await recordReboot(data.deviceId, detected, data.uptime, now) : null;
+
+    // A crash loop keeps the device in warning until it stops rebooting
+    const wasCrashLooping = previous?.status_reason === "crash_loop";
+    const crashes = reboot || wasCrashLooping ? await countRecentCrashes(data.deviceId, now) : 0;
+    const crashLoop = crashes === null ? wasCrashLooping : crashes >= CRASH_LOOP_REBOOTS;
+
     // Upsert device
     const { data: device, error: deviceError } = await supabase
       .from("devices")
@@ -112,11 +96,16 @@ export async function POST(request: NextRequest) {
           wifi_signal: data.wifiSignal || null,
           mac_address: data.macAddress || null,
           public_ip: publicIP,
-          public_lat: geoData?.lat || null,
-          public_lng: geoData?.lng || null,
-          public_city: geoData?.city || null,
-          public_country: geoData?.country || null,
-          status: "online",
+          public_lat: geoData?.lat ?? null,
+          public_lng: geoData?.lng ?? null,
+          public_city: geoData?.city ?? null,
+          public_country: geoData?.country ?? null,
+          public_country_code: geoData?.countryCode ?? null,
+          public_asn: geoData?.asn ?? null,
+          public_isp: geoData?.isp ?? null,
+          status: crashLoop ? "warning" : "online",
+          status_reason: crashLoop ? "crash_loop" : "checkin",
+          ...(reboot && { last_reboot: reboot.rebooted_at }),
           last_seen: now,
         },
         { onConflict: "device_id" }
@@ -132,6 +121,42 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (previous?.status === "offline") {
+      await emitWebhookEvent("device.online", {
+        deviceId: data.deviceId,
+        name: device.name,
+        firmware: device.firmware,
+        publicIp: publicIP,
+      });
+    }
+
+    if (reboot) {
+      console.log(`[Reboot] Device ${data.deviceId} rebooted at ${reboot.rebooted_at} (${reboot.kind})`);
+      await emitWebhookEvent("device.rebooted", {
+        deviceId: data.deviceId,
+        name: device.name,
+        rebootedAt: reboot.rebooted_at,
+        kind: reboot.kind,
+        commandId: reboot.command_id,
+        previousUptime: reboot.previous_uptime,
+      });
+    }
+
+    if (crashLoop && !wasCrashLooping) {
+      console.log(`[Reboot] Device ${data.deviceId} is crash looping - ${crashes} unexpected reboots in ${CRASH_LOOP_WINDOW_MINUTES} minutes`);
+      await emitWebhookEvent("device.crash_loop", {
+        deviceId: data.deviceId,
+        name: device.name,
+        reboots: crashes,
+        windowMinutes: CRASH_LOOP_WINDOW_MINUTES,
+      });
+    }
+
+    // Extend or open the public IP interval for the network history
+    const network = publicIP
+      ? await recordNetworkCheckin(data.deviceId, publicIP, geoData, now)
+      : undefined;
+
     // Insert device metrics if present
     if (data.metrics) {
       const { error: metricsError } = await supabase
@@ -144,6 +169,7 @@ export async function POST(request: NextRequest) {
           mem_used_mb: data.metrics.memUsedMb,
           cpu_load: data.metrics.cpuLoad,
           temp_celsius: data.metrics.tempCelsius,
+          wifi_signal: data.wifiSignal ?? null,
         });
 
       if (metricsError) {
@@ -176,46 +202,43 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Handle command results if device is reporting back
-    if (data.commandResults && Array.isArray(data.commandResults)) {
-      for (const result of data.commandResults) {
-        if (result.id && result.status) {
-          await supabase
-            .from("device_commands")
-            .update({
-              status: result.status,
-              result: result.message || null,
-              completed_at: now,
-            })
-            .eq("id", result.id);
-
-          console.log(`[Command] ${data.deviceId} - ${result.id}: ${result.status}`);
-        }
+    // Finish or start a key rotation. Devices still on the shared key are
+    // enrolled by issuing them their own key.
+    let issuedApiKey: string | null = null;
+    if (auth.usedPendingKey) {
+      await promotePendingDeviceKey(data.deviceId);
+      console.log(`[Credentials] Device ${data.deviceId} switched to its new API key`);
+    } else if (auth.usedLegacyKey || auth.rotationRequested) {
+      issuedApiKey = await issuePendingDeviceKey(data.deviceId);
+      if (issuedApiKey) {
+        console.log(`[Credentials] Issued new API key to ${data.deviceId}`);
       }
     }
 
-    // Fetch pending commands for this device (including broadcasts where device_id is null)
-    const { data: pendingCommands, error: commandsError } = await supabase
-      .from("device_commands")
-      .select("id, command_type, payload")
-      .or(`device_id.eq.${data.deviceId},device_id.is.null`)
-      .eq("status", "pending")
-      .order("created_at", { ascending: true })
-      .limit(10);
-
-    if (commandsError) {
-      console.error("Commands fetch error:", commandsError);
+    // Handle command results if device is reporting back
+    if (data.commandResults && Array.isArray(data.commandResults)) {
+      await recordCommandResults(data.deviceId, data.commandResults, now);
     }
 
-    // Mark commands as sent
-    const commands = pendingCommands || [];
-    if (commands.length > 0) {
-      const commandIds = commands.map((c) => c.id);
-      await supabase
-        .from("device_commands")
-        .update({ status: "sent", sent_at: now })
-        .in("id", commandIds);
+    // Settle any firmware rollout this device is part of
+    await trackRolloutCheckin(data.deviceId, device.firmware, device.uptime, now);
+
+    // Fire or resolve alert rules against what the device just reported
+    await evaluateCheckinAlerts(
+      {
+        deviceId: data.deviceId,
+        firmware: device.firmware,
+        metrics: data.metrics,
+        blockDelta: deltaIn + deltaOut,
+        network,
+      },
+      now
+    );
 
+    // Hand out pending commands for this device, including broadcasts it
+    // hasn't received yet
+    const commands = await claimPendingCommands(data.deviceId, device.created_at, now);
+    if (commands.length > 0) {
       console.log(`[Commands] Sent ${commands.length} commands to ${data.deviceId}`);
     }
 
@@ -234,7 +257,8 @@ export async function POST(request: NextRequest) {
         id: c.id,
         command_type: c.command_type,
         payload: c.payload,
-      })),
+      }) as DeviceCommand),
+      ...(issuedApiKey && { credentials: { apiKey: issuedApiKey } }),
     });
   } catch (error) {
     console.error("Checkin error:", error);
@@ -245,11 +269,11 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET - list all devices (for dashboard) - no auth required for dashboard
-export async function GET() {
+// GET - list all devices (for dashboard) - requires devices:read
+export async function GET(request: NextRequest) {
   try {
-    // Mark offline devices (no check-in for 5+ minutes)
-    await supabase.rpc("mark_offline_devices");
+    const { error: authError } = await requirePermission(request, "devices:read");
+    if (authError) return authError;
 
     // Fetch all devices with owner info
     const { data: devices, error: devicesError } = await supabase
@@ -308,6 +332,7 @@ export async function GET() {
       wifiSsid: d.wifi_ssid,
       wifiSignal: d.wifi_signal,
       status: d.status,
+      tags: d.tags || [],
       ownerEmail: d.customer_users?.email || null,
       ownerId: d.customer_users?.id || null,
     }));
@@ -0,0 +1,292 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { hasPermission, requirePermission } from "@/lib/permissions";
+import { auditActor, recordAudit } from "@/lib/audit";
+import { emitWebhookEvent } from "@/lib/webhooks";
+
+// GET /api/devices/commands/[commandId] - Get a command with per-device deliveries
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ commandId: string }> }
+) {
+  try {
+    const { error: authError } = await requirePermission(request, "commands:read");
+    if (authError) return authError;
+
+    const { commandId } = await params;
+
+    const { data: command, error } = await supabase
+      .from("device_commands")
+      .select("*")
+      .eq("id", commandId)
+      .single();
+
+    if (error || !command) {
+      return NextResponse.json(
+        { error: "Command not found" },
+        { status: 404 }
+      );
+    }
+
+    let delivery = null;
+    let deliveries: Record<string, unknown>[] = [];
+
+    if (command.device_id === null) {
+      const { data: summary } = await supabase
+        .from("broadcast_delivery_summary")
+        .select("*")
+        .eq("command_id", commandId)
+        .single();
+
+      if (summary) {
+        delivery = {
+          targeted: summary.targeted,
+          delivered: summary.delivered,
+          completed: summary.completed,
+          failed: summary.failed,
+        };
+      }
+
+      // Optional ?status=failed to list just the failures
+      const { searchParams } = new URL(request.url);
+      const status = searchParams.get("status");
+
+      let query = supabase
+        .from("command_deliveries")
+        .select("*, devices(name)")
+        .eq("command_id", commandId)
+        .order("sent_at", { ascending: false })
+        .limit(1000);
+
+      if (status) {
+        query = query.eq("status", status);
+      }
+
+      const { data: rows, error: deliveriesError } = await query;
+
+      if (deliveriesError) {
+        console.error("Deliveries fetch error:", deliveriesError);
+      }
+
+      deliveries = (rows || []).map((d) => ({
+        deviceId: d.device_id,
+        deviceName: d.devices?.name || d.device_id,
+        status: d.status,
+        result: d.result,
+        output: d.output,
+        sentAt: d.sent_at,
+        acknowledgedAt: d.acknowledged_at,
+        completedAt: d.completed_at,
+      }));
+    }
+
+    return NextResponse.json({
+      command: {
+        id: command.id,
+        deviceId: command.device_id,
+        type: command.command_type,
+        payload: command.payload,
+        status: command.status,
+        result: command.result,
+        output: command.output,
+        createdAt: command.created_at,
+        sentAt: command.sent_at,
+        acknowledgedAt: command.acknowledged_at,
+        completedAt: command.completed_at,
+        expiresAt: command.expires_at,
+        timeoutSeconds: command.timeout_seconds,
+        maxRetries: command.max_retries,
+        retryCount: command.retry_count,
+        requestedBy: command.requested_by,
+        reviewedBy: command.reviewed_by,
+        reviewedAt: command.reviewed_at,
+        reviewNote: command.review_note,
+        delivery,
+      },
+      deliveries,
+    });
+  } catch (error) {
+    console.error("GET command error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/devices/commands/[commandId] - Cancel, approve or reject a command
+// Body: { action: "cancel" } for a pending or unapproved command, or
+// { action: "approve" | "reject", note? } for one awaiting approval. Reviews
+// cover the whole batch and must come from an admin other than the requester.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ commandId: string }> }
+) {
+  try {
+    // Reviewing or cancelling a command takes the permission it took to send
+    // it: send for every command, exec as well for scripts, checked once the
+    // command is loaded
+    const { admin, error: authError } = await requirePermission(request, "commands:send");
+    if (authError) return authError;
+
+    const { commandId } = await params;
+    const { action, note } = await request.json();
+
+    if (action !== "cancel" && action !== "approve" && action !== "reject") {
+      return NextResponse.json(
+        { error: "Invalid action. Must be one of: cancel, approve, reject" },
+        { status: 400 }
+      );
+    }
+
+    const { data: command, error } = await supabase
+      .from("device_commands")
+      .select("id, device_id, command_type, status, batch_id, requested_by")
+      .eq("id", commandId)
+      .single();
+
+    if (error || !command) {
+      return NextResponse.json(
+        { error: "Command not found" },
+        { status: 404 }
+      );
+    }
+
+    if (command.command_type === "exec" && !hasPermission(admin.role, "commands:exec")) {
+      console.log(`[Auth] ${admin.username || admin.email} (${admin.role}) denied commands:exec`);
+      return NextResponse.json(
+        { error: `Forbidden: the ${admin.role} role cannot perform this action` },
+        { status: 403 }
+      );
+    }
+
+    if (action === "cancel") {
+      // A broadcast stays pending while open; cancelling stops further deliveries
+      const { data: cancelled, error: updateError } = await supabase
+        .from("device_commands")
+        .update({ status: "cancelled", completed_at: new Date().toISOString() })
+        .eq("id", commandId)
+        .in("status", ["pending", "pending_approval"])
+        .select("id");
+
+      if (updateError) {
+        console.error("Command cancel error:", updateError);
+        return NextResponse.json(
+          { error: "Failed to cancel command" },
+          { status: 500 }
+        );
+      }
+
+      if (!cancelled || cancelled.length === 0) {
+        return NextResponse.json(
+          { error: `Cannot cancel a ${command.status} command` },
+          { status: 409 }
+        );
+      }
+
+      console.log(`[Command] Cancelled ${command.command_type} ${commandId}`);
+
+      await recordAudit(request, auditActor(admin), {
+        action: "command.cancel",
+        targetType: command.device_id ? "device" : "fleet",
+        targetId: command.device_id,
+        before: { commandId, status: command.status },
+        after: { commandId, status: "cancelled" },
+      });
+
+      return NextResponse.json({ success: true });
+    }
+
+    if (command.status !== "pending_approval") {
+      return NextResponse.json(
+        { error: `Cannot ${action} a ${command.status} command` },
+        { status: 409 }
+      );
+    }
+
+    if (command.requested_by === admin.userId) {
+      return NextResponse.json(
+        { error: "Commands must be reviewed by a different admin than the one who requested them" },
+        { status: 403 }
+      );
+    }
+
+    const now = new Date().toISOString();
+    const reviewNote = typeof note === "string" ? note.trim().slice(0, 500) || null : null;
+
+    // Claim the review so two admins acting at once can't both apply it
+    let query = supabase
+      .from("device_commands")
+      .update({
+        status: action === "approve" ? "pending" : "rejected",
+        reviewed_by: admin.userId,
+        reviewed_at: now,
+        review_note: reviewNote,
+        ...(action === "reject" ? { completed_at: now } : {}),
+      })
+      .eq("status", "pending_approval");
+
+    query = command.batch_id ? query.eq("batch_id", command.batch_id) : query.eq("id", commandId);
+
+    const { data: reviewed, error: updateError } = await query.select("id, device_id, command_type");
+
+    if (updateError) {
+      console.error("Command review error:", updateError);
+      return NextResponse.json(
+        { error: `Failed to ${action} command` },
+        { status: 500 }
+      );
+    }
+
+    if (!reviewed || reviewed.length === 0) {
+      return NextResponse.json(
+        { error: "Command was already reviewed" },
+        { status: 409 }
+      );
+    }
+
+    const targetDesc = command.batch_id ? `batch ${command.batch_id} (${reviewed.length} commands)` : commandId;
+    console.log(`[Command] ${action === "approve" ? "Approved" : "Rejected"} ${command.command_type} ${targetDesc}`);
+
+    // Delivery starts now, so this is when the command counts as queued
+    if (action === "approve") {
+      for (const c of reviewed) {
+        await emitWebhookEvent("command.queued", {
+          commandId: c.id,
+          deviceId: c.device_id,
+          type: c.command_type,
+          broadcast: c.device_id === null,
+          batchId: command.batch_id ?? undefined,
+        });
+      }
+    }
+
+    await recordAudit(request, auditActor(admin), {
+      action: action === "approve" ? "command.approve" : "command.reject",
+      targetType: command.batch_id ? "batch" : command.device_id ? "device" : "fleet",
+      targetId: command.batch_id ?? command.device_id,
+      before: {
+        commandIds: reviewed.map((c) => c.id),
+        type: command.command_type,
+        status: "pending_approval",
+        requestedBy: command.requested_by,
+      },
+      after: {
+        status: action === "approve" ? "pending" : "rejected",
+        note: reviewNote ?? undefined,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      status: action === "approve" ? "pending" : "rejected",
+      commandIds: reviewed.map((c) => c.id),
+    });
+  } catch (error) {
+    console.error("PATCH command error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
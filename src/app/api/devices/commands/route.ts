@@ -1,31 +1,121 @@
+import { randomUUID } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { hasPermission, requirePermission } from "@/lib/permissions";
+import { auditActor, recordAudit } from "@/lib/audit";
+import { emitWebhookEvent } from "@/lib/webhooks";
+import { MAX_COMMAND_RETRIES, defaultTimeoutSeconds, isFleetWideTarget, requiresApproval } from "@/lib/commands";
+import { COMMAND_TYPES, isCommandType, validateCommandPayload } from "@/lib/command-schema";
+import { resolveTargetDeviceIds } from "@/lib/device-groups";
+import { getTemplateVersion, renderTemplate } from "@/lib/command-templates";
 
-// Valid command types
-const VALID_COMMANDS = [
-  "update_blocklist",
-  "exec",
-  "reboot",
-  "update_firmware",
-  "set_config",
-  "file_download",
-];
-
-// POST - create a new command for a device
+interface CommandRow {
+  id: string;
+  command_type: string;
+  device_id: string | null;
+  payload: Record<string, unknown>;
+  status: string;
+  created_at: string;
+  expires_at: string | null;
+  timeout_seconds: number;
+  max_retries: number;
+  batch_id: string | null;
+  template_id: string | null;
+  template_version: number | null;
+  requested_by: string | null;
+}
+
+function toCommandResponse(command: CommandRow) {
+  return {
+    id: command.id,
+    type: command.command_type,
+    deviceId: command.device_id,
+    status: command.status,
+    createdAt: command.created_at,
+    expiresAt: command.expires_at,
+    timeoutSeconds: command.timeout_seconds,
+    maxRetries: command.max_retries,
+    batchId: command.batch_id,
+    templateId: command.template_id,
+    templateVersion: command.template_version,
+    requestedBy: command.requested_by,
+  };
+}
+
+// POST - create a new command
+// Target one of: deviceId, groupId, tag, or none for a broadcast to all devices.
+// Group and tag targets queue one command per matching device under a batchId.
+// Instead of type and payload, send templateId (and optionally templateVersion)
+// with args to render a saved template.
+// Scripts, firmware updates, broadcasts and group or tag targets covering most
+// of the fleet start as pending_approval and are only delivered once a
+// different admin approves them.
 export async function POST(request: NextRequest) {
   try {
+    // Every command needs send; scripts also need exec, checked once the
+    // type is known (a template decides it only when rendered)
+    const { admin, error: authError } = await requirePermission(request, "commands:send");
+    if (authError) return authError;
+
     const data = await request.json();
 
+    let templateRef: { template_id: string; template_version: number } | null = null;
+    if (data.templateId) {
+      if (data.type !== undefined || data.payload !== undefined) {
+        return NextResponse.json(
+          { error: "Send either templateId with args, or type and payload" },
+          { status: 400 }
+        );
+      }
+
+      const found = await getTemplateVersion(data.templateId, data.templateVersion);
+      if (!found || (found.template.archived_at && data.templateVersion === undefined)) {
+        return NextResponse.json(
+          { error: "Template not found" },
+          { status: 404 }
+        );
+      }
+
+      const rendered = renderTemplate(found.version, data.args || {});
+      if ("error" in rendered) {
+        return NextResponse.json(
+          { error: rendered.error },
+          { status: 400 }
+        );
+      }
+
+      data.type = rendered.type;
+      data.payload = rendered.payload;
+      templateRef = { template_id: found.template.id, template_version: found.version.version };
+    }
+
     // Validate command type
-    if (!data.type || !VALID_COMMANDS.includes(data.type)) {
+    if (!isCommandType(data.type)) {
+      return NextResponse.json(
+        { error: `Invalid command type. Must be one of: ${COMMAND_TYPES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // Shell scripts need a role allowed to exec
+    if (data.type === "exec" && !hasPermission(admin.role, "commands:exec")) {
+      console.log(`[Auth] ${admin.username || admin.email} (${admin.role}) denied commands:exec`);
+      return NextResponse.json(
+        { error: `Forbidden: the ${admin.role} role cannot perform this action` },
+        { status: 403 }
+      );
+    }
+
+    if ([data.deviceId, data.groupId, data.tag].filter(Boolean).length > 1) {
       return NextResponse.json(
-        { error: `Invalid command type. Must be one of: ${VALID_COMMANDS.join(", ")}` },
+        { error: "Specify at most one of deviceId, groupId or tag" },
         { status: 400 }
       );
     }
 
     // deviceId is optional - null means broadcast to all devices
     const deviceId = data.deviceId || null;
+    const isBroadcast = !deviceId && !data.groupId && !data.tag;
 
     // If deviceId provided, verify device exists
     if (deviceId) {
@@ -43,58 +133,152 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Build payload based on command type
-    let payload = data.payload || {};
+    // Validate payload for the command type
+    const payload = data.payload || {};
 
-    // Validate payload for specific command types
-    switch (data.type) {
-      case "update_blocklist":
-      case "update_firmware":
-        if (!payload.url) {
-          return NextResponse.json(
-            { error: "Payload must include 'url'" },
-            { status: 400 }
-          );
-        }
-        break;
-      case "exec":
-        if (!payload.script) {
-          return NextResponse.json(
-            { error: "Payload must include 'script'" },
-            { status: 400 }
-          );
-        }
-        break;
-      case "file_download":
-        if (!payload.url || !payload.path) {
-          return NextResponse.json(
-            { error: "Payload must include 'url' and 'path'" },
-            { status: 400 }
-          );
-        }
-        break;
-      case "set_config":
-        if (!payload.key || payload.value === undefined) {
-          return NextResponse.json(
-            { error: "Payload must include 'key' and 'value'" },
-            { status: 400 }
-          );
+    const payloadError = validateCommandPayload(data.type, payload);
+    if (payloadError) {
+      return NextResponse.json(
+        { error: payloadError },
+        { status: 400 }
+      );
+    }
+
+    // Lifecycle: optional TTL while pending, result deadline once sent, retries on timeout
+    const { ttlSeconds, timeoutSeconds, maxRetries } = data;
+
+    if (ttlSeconds !== undefined && (!Number.isInteger(ttlSeconds) || ttlSeconds <= 0)) {
+      return NextResponse.json(
+        { error: "ttlSeconds must be a positive integer" },
+        { status: 400 }
+      );
+    }
+
+    if (timeoutSeconds !== undefined && (!Number.isInteger(timeoutSeconds) || timeoutSeconds <= 0)) {
+      return NextResponse.json(
+        { error: "timeoutSeconds must be a positive integer" },
+        { status: 400 }
+      );
+    }
+
+    if (maxRetries !== undefined && (!Number.isInteger(maxRetries) || maxRetries < 0 || maxRetries > MAX_COMMAND_RETRIES)) {
+      return NextResponse.json(
+        { error: `maxRetries must be an integer from 0 to ${MAX_COMMAND_RETRIES}` },
+        { status: 400 }
+      );
+    }
+
+    // Broadcasts deliver once per device, so there is nothing to retry
+    if (isBroadcast && maxRetries) {
+      return NextResponse.json(
+        { error: "Retries are only supported for commands sent to a single device" },
+        { status: 400 }
+      );
+    }
+
+    const fields = {
+      command_type: data.type,
+      payload: payload,
+      expires_at: ttlSeconds ? new Date(Date.now() + ttlSeconds * 1000).toISOString() : null,
+      timeout_seconds: timeoutSeconds ?? defaultTimeoutSeconds(data.type),
+      max_retries: maxRetries ?? 0,
+      template_id: templateRef?.template_id ?? null,
+      template_version: templateRef?.template_version ?? null,
+      requested_by: admin.userId,
+    };
+
+    // Group or tag: one command per device, resolved now
+    if (data.groupId || data.tag) {
+      const resolved = await resolveTargetDeviceIds({ groupId: data.groupId, tag: data.tag });
+      if ("error" in resolved) {
+        return NextResponse.json(
+          { error: resolved.error },
+          { status: resolved.status }
+        );
+      }
+
+      if (resolved.deviceIds.length === 0) {
+        return NextResponse.json(
+          { error: "Target matches no devices" },
+          { status: 400 }
+        );
+      }
+
+      // A group or tag covering most of the fleet is approved like a broadcast
+      const needsApproval = requiresApproval(data.type, await isFleetWideTarget(resolved.deviceIds.length));
+      const status = needsApproval ? "pending_approval" : "pending";
+
+      const batchId = randomUUID();
+      const { data: commands, error: batchError } = await supabase
+        .from("device_commands")
+        .insert(resolved.deviceIds.map((id) => ({
+          ...fields,
+          status,
+          device_id: id,
+          batch_id: batchId,
+          group_id: resolved.group?.id ?? null,
+        })))
+        .select()
+        .returns<CommandRow[]>();
+
+      if (batchError || !commands) {
+        console.error("Batch command insert error:", batchError);
+        return NextResponse.json(
+          { error: "Failed to create commands" },
+          { status: 500 }
+        );
+      }
+
+      const targetDesc = resolved.group ? `group ${resolved.group.name}` : `tag ${data.tag}`;
+      console.log(`[Command] Created ${data.type} for ${commands.length} devices in ${targetDesc}${needsApproval ? ", awaiting approval" : ""}`);
+
+      // Unapproved commands are announced once approved
+      if (!needsApproval) {
+        for (const c of commands) {
+          await emitWebhookEvent("command.queued", {
+            commandId: c.id,
+            deviceId: c.device_id,
+            type: c.command_type,
+            broadcast: false,
+            batchId,
+          });
         }
-        break;
-      // reboot doesn't need payload validation
+      }
+
+      await recordAudit(request, auditActor(admin), {
+        action: "command.create",
+        targetType: resolved.group ? "group" : "tag",
+        targetId: resolved.group ? resolved.group.id : data.tag,
+        after: {
+          batchId,
+          type: data.type,
+          payload,
+          deviceCount: commands.length,
+          status,
+          expiresAt: fields.expires_at,
+          maxRetries: fields.max_retries,
+          templateId: fields.template_id ?? undefined,
+          templateVersion: fields.template_version ?? undefined,
+        },
+      });
+
+      return NextResponse.json({
+        success: true,
+        batchId,
+        approvalRequired: needsApproval,
+        targeted: commands.length,
+        commands: commands.map(toCommandResponse),
+      });
     }
 
+    const needsApproval = requiresApproval(data.type, isBroadcast);
+
     // Insert command
     const { data: command, error: insertError } = await supabase
       .from("device_commands")
-      .insert({
-        device_id: deviceId,
-        command_type: data.type,
-        payload: payload,
-        status: "pending",
-      })
+      .insert({ ...fields, status: needsApproval ? "pending_approval" : "pending", device_id: deviceId })
       .select()
-      .single();
+      .single<CommandRow>();
 
     if (insertError) {
       console.error("Command insert error:", insertError);
@@ -105,18 +289,38 @@ export async function POST(request: NextRequest) {
     }
 
     const targetDesc = deviceId ? `device ${deviceId}` : "all devices";
-    console.log(`[Command] Created ${data.type} for ${targetDesc}`);
+    console.log(`[Command] Created ${data.type} for ${targetDesc}${needsApproval ? ", awaiting approval" : ""}`);
 
-    return NextResponse.json({
-      success: true,
-      command: {
-        id: command.id,
-        type: command.command_type,
+    if (!needsApproval) {
+      await emitWebhookEvent("command.queued", {
+        commandId: command.id,
         deviceId: command.device_id,
+        type: command.command_type,
+        broadcast: command.device_id === null,
+      });
+    }
+
+    await recordAudit(request, auditActor(admin), {
+      action: "command.create",
+      targetType: deviceId ? "device" : "fleet",
+      targetId: deviceId,
+      after: {
+        commandId: command.id,
+        type: command.command_type,
+        payload: command.payload,
         status: command.status,
-        createdAt: command.created_at,
+        expiresAt: command.expires_at,
+        maxRetries: command.max_retries,
+        templateId: command.template_id ?? undefined,
+        templateVersion: command.template_version ?? undefined,
       },
     });
+
+    return NextResponse.json({
+      success: true,
+      approvalRequired: needsApproval,
+      command: toCommandResponse(command),
+    });
   } catch (error) {
     console.error("Command creation error:", error);
     return NextResponse.json(
@@ -126,16 +330,22 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET - list commands (optionally filtered by device)
+// GET - list commands (optionally filtered by device, status, batch or a from/to window)
 export async function GET(request: NextRequest) {
   try {
+    const { error: authError } = await requirePermission(request, "commands:read");
+    if (authError) return authError;
+
     const { searchParams } = new URL(request.url);
     const deviceId = searchParams.get("deviceId");
     const status = searchParams.get("status");
+    const batchId = searchParams.get("batchId");
+    const from = searchParams.get("from");
+    const to = searchParams.get("to");
 
     let query = supabase
       .from("device_commands")
-      .select("*")
+      .select("*, requester:users!device_commands_requested_by_fkey(email), reviewer:users!device_commands_reviewed_by_fkey(email)")
       .order("created_at", { ascending: false })
       .limit(100);
 
@@ -147,6 +357,18 @@ export async function GET(request: NextRequest) {
       query = query.eq("status", status);
     }
 
+    if (batchId) {
+      query = query.eq("batch_id", batchId);
+    }
+
+    if (from) {
+      query = query.gte("created_at", from);
+    }
+
+    if (to) {
+      query = query.lt("created_at", to);
+    }
+
     const { data: commands, error } = await query;
 
     if (error) {
@@ -157,6 +379,32 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Delivery progress for broadcasts
+    const broadcastIds = (commands || [])
+      .filter((c) => c.device_id === null)
+      .map((c) => c.id);
+
+    const deliveryByCommand = new Map<string, { targeted: number; delivered: number; completed: number; failed: number }>();
+    if (broadcastIds.length > 0) {
+      const { data: summaries, error: summaryError } = await supabase
+        .from("broadcast_delivery_summary")
+        .select("*")
+        .in("command_id", broadcastIds);
+
+      if (summaryError) {
+        console.error("Delivery summary fetch error:", summaryError);
+      }
+
+      for (const s of summaries || []) {
+        deliveryByCommand.set(s.command_id, {
+          targeted: s.targeted,
+          delivered: s.delivered,
+          completed: s.completed,
+          failed: s.failed,
+        });
+      }
+    }
+
     return NextResponse.json({
       commands: (commands || []).map((c) => ({
         id: c.id,
@@ -165,9 +413,27 @@ export async function GET(request: NextRequest) {
         payload: c.payload,
         status: c.status,
         result: c.result,
+        output: c.output,
         createdAt: c.created_at,
         sentAt: c.sent_at,
+        acknowledgedAt: c.acknowledged_at,
         completedAt: c.completed_at,
+        expiresAt: c.expires_at,
+        timeoutSeconds: c.timeout_seconds,
+        maxRetries: c.max_retries,
+        retryCount: c.retry_count,
+        batchId: c.batch_id,
+        groupId: c.group_id,
+        templateId: c.template_id,
+        templateVersion: c.template_version,
+        requestedBy: c.requested_by,
+        requestedByUsername: c.requester?.email?.split("@")[0] ?? null,
+        reviewedBy: c.reviewed_by,
+        reviewedByUsername: c.reviewer?.email?.split("@")[0] ?? null,
+        reviewedAt: c.reviewed_at,
+        reviewNote: c.review_note,
+        // Only present for broadcasts, e.g. delivered to 412/530, failed on 3
+        delivery: deliveryByCommand.get(c.id),
       })),
     });
   } catch (error) {
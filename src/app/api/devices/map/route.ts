@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { requirePermission } from "@/lib/permissions";
+
+interface MapDeviceRow {
+  device_id: string;
+  name: string | null;
+  status: string;
+  firmware: string | null;
+  last_seen: string | null;
+  public_lat: number | null;
+  public_lng: number | null;
+  public_city: string | null;
+  public_country: string | null;
+  public_country_code: string | null;
+  customer_users: { id: string; email: string } | null;
+}
+
+// GET /api/devices/map - Every device with its location, status, firmware and owner
+// for the fleet map. Devices without a location are included with null lat/lng.
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requirePermission(request, "devices:read");
+    if (authError) return authError;
+
+    const { data: devices, error } = await supabase
+      .from("devices")
+      .select(`
+        device_id, name, status, firmware, last_seen,
+        public_lat, public_lng, public_city, public_country, public_country_code,
+        customer_users:customer_user_id (
+          id,
+          email
+        )
+      `)
+      .order("device_id", { ascending: true })
+      .returns<MapDeviceRow[]>();
+
+    if (error) {
+      console.error("Map devices fetch error:", error);
+      return NextResponse.json(
+        { error: "Database error" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      devices: (devices || []).map((d) => ({
+        id: d.device_id,
+        name: d.name,
+        status: d.status,
+        firmware: d.firmware,
+        lastSeen: d.last_seen,
+        lat: d.public_lat,
+        lng: d.public_lng,
+        city: d.public_city,
+        country: d.public_country,
+        countryCode: d.public_country_code,
+        ownerId: d.customer_users?.id || null,
+        ownerEmail: d.customer_users?.email || null,
+      })),
+    });
+  } catch (error) {
+    console.error("Map devices error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
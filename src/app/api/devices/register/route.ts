@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
-import { verifyToken } from "@/lib/auth";
+import { verifyCustomerToken } from "@/lib/api-auth";
+import { auditActor, recordAudit } from "@/lib/audit";
+import { emitWebhookEvent } from "@/lib/webhooks";
+import { authenticateDevice, generateDeviceKey, getDeviceKey, hashDeviceKey } from "@/lib/device-auth";
 
 // POST /api/devices/register - Register a device to a user account
+// Body: deviceId, token (or Authorization header), deviceKey (or X-Device-Key
+// header) - the device's current key, required to claim an unowned device
+// that has already checked in
 export async function POST(request: NextRequest) {
   try {
     // Parse body - handle requests without Content-Type header (from uclient-fetch)
@@ -21,7 +27,7 @@ export async function POST(request: NextRequest) {
         );
       }
     }
-    const { deviceId, token: bodyToken } = body;
+    const { deviceId, token: bodyToken, deviceKey: bodyDeviceKey } = body;
 
     // Get auth token from header OR body (uclient-fetch can't send headers)
     const authHeader = request.headers.get("Authorization");
@@ -40,7 +46,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const payload = await verifyToken(token);
+    // Devices are registered by their owner, never with an admin token
+    const payload = await verifyCustomerToken(token);
 
     if (!payload) {
       return NextResponse.json(
@@ -59,10 +66,21 @@ export async function POST(request: NextRequest) {
     // The JWT userId IS the customer_user_id (from customer_users table)
     const customerUserId = payload.userId;
 
+    // Every registration issues the device its own API key, replacing any
+    // previous one. Only the hash is stored; the key is returned once.
+    const apiKey = generateDeviceKey();
+    const credentialFields = {
+      api_key_hash: hashDeviceKey(apiKey),
+      api_key_pending_hash: null,
+      api_key_issued_at: new Date().toISOString(),
+      api_key_rotate_requested_at: null,
+      api_key_revoked_at: null,
+    };
+
     // Check if device exists
     const { data: existingDevice } = await supabase
       .from("devices")
-      .select("device_id, customer_user_id")
+      .select("device_id, customer_user_id, api_key_hash, last_seen")
       .eq("device_id", deviceId)
       .single();
 
@@ -75,11 +93,28 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      // Claiming an unowned device that has already checked in replaces the
+      // key it is using, so the caller must prove they hold that device by
+      // presenting its current key (header, or body for uclient-fetch)
+      if (!existingDevice.customer_user_id && (existingDevice.api_key_hash || existingDevice.last_seen)) {
+        const presentedKey = getDeviceKey(request.headers.get("x-device-key")) || bodyDeviceKey || null;
+        const deviceAuth = presentedKey ? await authenticateDevice(deviceId, presentedKey) : null;
+
+        if (!deviceAuth?.authenticated) {
+          console.log(`[Register] Rejected claim of ${deviceId} without its device key`);
+          return NextResponse.json(
+            { success: false, error: "This device has already checked in. Register it from the device itself so it can present its current key." },
+            { status: 403 }
+          );
+        }
+      }
+
       // Update device to link to this customer
       const { error: updateError } = await supabase
         .from("devices")
         .update({
           customer_user_id: customerUserId,
+          ...credentialFields,
         })
         .eq("device_id", deviceId);
 
@@ -99,7 +134,9 @@ export async function POST(request: NextRequest) {
           customer_user_id: customerUserId,
           name: `Device ${deviceId.slice(-6)}`,
           status: "offline",
+          status_reason: "registered",
           mode: "router", // Default to router mode (setup mode)
+          ...credentialFields,
         });
 
       if (insertError) {
@@ -111,9 +148,24 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    await emitWebhookEvent("device.registered", {
+      deviceId,
+      customerUserId,
+      reRegistration: !!existingDevice,
+    });
+
+    await recordAudit(request, auditActor(payload), {
+      action: "device.register",
+      targetType: "device",
+      targetId: deviceId,
+      before: { customerUserId: existingDevice?.customer_user_id ?? null },
+      after: { customerUserId, apiKeyIssuedAt: credentialFields.api_key_issued_at },
+    });
+
     return NextResponse.json({
       success: true,
       deviceId,
+      apiKey,
       message: "Device registered successfully",
     });
   } catch (error) {
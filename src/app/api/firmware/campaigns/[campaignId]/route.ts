@@ -0,0 +1,226 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import {
+  FirmwareCampaign,
+  getCampaignProgress,
+  pauseCampaign,
+  resolveCohort,
+  resumeCampaign,
+  startNextWave,
+  toCampaignResponse,
+} from "@/lib/firmware-rollout";
+import { requirePermission } from "@/lib/permissions";
+import { auditActor, recordAudit } from "@/lib/audit";
+
+// GET /api/firmware/campaigns/[campaignId] - Campaign with enrolled devices
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ campaignId: string }> }
+) {
+  try {
+    const { error: authError } = await requirePermission(request, "devices:read");
+    if (authError) return authError;
+
+    const { campaignId } = await params;
+
+    const { data: campaign, error } = await supabase
+      .from("firmware_campaigns")
+      .select("*")
+      .eq("id", campaignId)
+      .single();
+
+    if (error || !campaign) {
+      return NextResponse.json(
+        { error: "Campaign not found" },
+        { status: 404 }
+      );
+    }
+
+    const { data: devices, error: devicesError } = await supabase
+      .from("firmware_campaign_devices")
+      .select("*, devices(name, firmware, status)")
+      .eq("campaign_id", campaignId)
+      .order("started_at", { ascending: false });
+
+    if (devicesError) {
+      console.error("Campaign devices fetch error:", devicesError);
+    }
+
+    // Devices in the cohort that haven't been enrolled yet
+    const enrolledIds = new Set((devices || []).map((d) => d.device_id));
+    const remaining = (await resolveCohort(campaign)).filter((d) => !enrolledIds.has(d.device_id)).length;
+
+    return NextResponse.json({
+      campaign: {
+        ...toCampaignResponse(campaign),
+        progress: await getCampaignProgress(campaignId),
+        remaining,
+      },
+      devices: (devices || []).map((d) => ({
+        deviceId: d.device_id,
+        deviceName: d.devices?.name || d.device_id,
+        currentFirmware: d.devices?.firmware,
+        deviceStatus: d.devices?.status,
+        wave: d.wave,
+        commandId: d.command_id,
+        status: d.status,
+        previousFirmware: d.previous_firmware,
+        failureReason: d.failure_reason,
+        startedAt: d.started_at,
+        finishedAt: d.finished_at,
+      })),
+    });
+  } catch (error) {
+    console.error("GET campaign error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/firmware/campaigns/[campaignId] - Control a campaign
+// Body: { action: "start" | "next_wave" | "pause" | "resume" | "cancel" }
+// Each wave's updates wait for a second admin to approve them.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ campaignId: string }> }
+) {
+  try {
+    const { admin, error: authError } = await requirePermission(request, "firmware:manage");
+    if (authError) return authError;
+
+    const { campaignId } = await params;
+    const { action } = await request.json();
+
+    const { data, error } = await supabase
+      .from("firmware_campaigns")
+      .select("*")
+      .eq("id", campaignId)
+      .single();
+
+    if (error || !data) {
+      return NextResponse.json(
+        { error: "Campaign not found" },
+        { status: 404 }
+      );
+    }
+
+    const campaign = data as FirmwareCampaign;
+
+    // Which statuses each action may be applied from
+    const allowedFrom: Record<string, FirmwareCampaign["status"][]> = {
+      start: ["draft"],
+      next_wave: ["running"],
+      pause: ["running"],
+      resume: ["paused"],
+      cancel: ["draft", "running", "paused"],
+    };
+
+    if (!allowedFrom[action]) {
+      return NextResponse.json(
+        { error: `Invalid action. Must be one of: ${Object.keys(allowedFrom).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (!allowedFrom[action].includes(campaign.status)) {
+      return NextResponse.json(
+        { error: `Cannot ${action.replace("_", " ")} a ${campaign.status} campaign` },
+        { status: 409 }
+      );
+    }
+
+    let update: Record<string, unknown> | null = null;
+
+    switch (action) {
+      case "start":
+      case "next_wave": {
+        const result = await startNextWave(campaign, admin.userId);
+        if ("error" in result) {
+          return NextResponse.json({ error: result.error }, { status: 409 });
+        }
+        break;
+      }
+      case "pause":
+      case "resume": {
+        const ok = action === "pause"
+          ? await pauseCampaign(campaign, "Paused by operator")
+          : await resumeCampaign(campaign);
+        if (!ok) {
+          return NextResponse.json(
+            { error: "Failed to update campaign" },
+            { status: 500 }
+          );
+        }
+        break;
+      }
+      case "cancel": {
+        // Withdraw updates that haven't reached their device yet, including
+        // any held by a pause
+        const { data: updating } = await supabase
+          .from("firmware_campaign_devices")
+          .select("command_id")
+          .eq("campaign_id", campaignId)
+          .eq("status", "updating");
+
+        const commandIds = (updating || []).map((d) => d.command_id).filter(Boolean);
+        if (commandIds.length > 0) {
+          await supabase
+            .from("device_commands")
+            .update({ status: "cancelled", result: "Rollout campaign cancelled" })
+            .in("id", commandIds)
+            .in("status", ["pending_approval", "pending", "held"]);
+        }
+
+        update = { status: "cancelled", completed_at: new Date().toISOString() };
+        break;
+      }
+    }
+
+    if (update) {
+      const { error: updateError } = await supabase
+        .from("firmware_campaigns")
+        .update(update)
+        .eq("id", campaignId);
+
+      if (updateError) {
+        console.error("Campaign update error:", updateError);
+        return NextResponse.json(
+          { error: "Failed to update campaign" },
+          { status: 500 }
+        );
+      }
+    }
+
+    console.log(`[Rollout] ${campaign.name} - ${action}`);
+
+    const { data: updated } = await supabase
+      .from("firmware_campaigns")
+      .select("*")
+      .eq("id", campaignId)
+      .single();
+
+    await recordAudit(request, auditActor(admin), {
+      action: `firmware_campaign.${action}`,
+      targetType: "firmware_campaign",
+      targetId: campaignId,
+      before: { status: campaign.status, currentWave: campaign.current_wave },
+      after: { status: updated?.status, currentWave: updated?.current_wave },
+    });
+
+    return NextResponse.json({
+      success: true,
+      campaign: {
+        ...toCampaignResponse(updated),
+        progress: await getCampaignProgress(campaignId),
+      },
+    });
+  } catch (error) {
+    console.error("PATCH campaign error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
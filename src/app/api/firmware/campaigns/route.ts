@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import {
+  FirmwareCampaign,
+  getCampaignProgress,
+  toCampaignResponse,
+} from "@/lib/firmware-rollout";
+import { requirePermission } from "@/lib/permissions";
+import { auditActor, recordAudit } from "@/lib/audit";
+
+// GET /api/firmware/campaigns - List rollout campaigns with progress
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requirePermission(request, "devices:read");
+    if (authError) return authError;
+
+    const { data: campaigns, error } = await supabase
+      .from("firmware_campaigns")
+      .select("*")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Campaigns fetch error:", error);
+      return NextResponse.json(
+        { error: "Database error" },
+        { status: 500 }
+      );
+    }
+
+    const result = await Promise.all(
+      ((campaigns || []) as FirmwareCampaign[]).map(async (c) => ({
+        ...toCampaignResponse(c),
+        progress: await getCampaignProgress(c.id),
+      }))
+    );
+
+    return NextResponse.json({ campaigns: result });
+  } catch (error) {
+    console.error("GET campaigns error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/firmware/campaigns - Create a draft campaign
+export async function POST(request: NextRequest) {
+  try {
+    const { admin, error: authError } = await requirePermission(request, "firmware:manage");
+    if (authError) return authError;
+
+    const data = await request.json();
+
+    if (!data.name || typeof data.name !== "string") {
+      return NextResponse.json(
+        { error: "Campaign name is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!data.firmwareUrl || !/^https?:\/\/\S+$/.test(data.firmwareUrl)) {
+      return NextResponse.json(
+        { error: "firmwareUrl must be an http(s) URL" },
+        { status: 400 }
+      );
+    }
+
+    if (!data.sha256 || !/^[a-f0-9]{64}$/i.test(data.sha256)) {
+      return NextResponse.json(
+        { error: "sha256 must be a 64-character hex digest" },
+        { status: 400 }
+      );
+    }
+
+    if (!data.targetVersion || typeof data.targetVersion !== "string") {
+      return NextResponse.json(
+        { error: "targetVersion is required (the firmware string devices report once updated)" },
+        { status: 400 }
+      );
+    }
+
+    const percentage = data.cohort?.percentage ?? 100;
+    if (!Number.isInteger(percentage) || percentage < 1 || percentage > 100) {
+      return NextResponse.json(
+        { error: "cohort.percentage must be an integer from 1 to 100" },
+        { status: 400 }
+      );
+    }
+
+    const waves: number[] = data.wavePercentages ?? [5, 25, 50, 100];
+    const wavesValid =
+      Array.isArray(waves) &&
+      waves.length > 0 &&
+      waves.every((w, i) => Number.isInteger(w) && w > 0 && w <= 100 && (i === 0 || w > waves[i - 1])) &&
+      waves[waves.length - 1] === 100;
+    if (!wavesValid) {
+      return NextResponse.json(
+        { error: "wavePercentages must be increasing integers ending in 100" },
+        { status: 400 }
+      );
+    }
+
+    const threshold = data.failureThreshold ?? 0.1;
+    if (typeof threshold !== "number" || threshold <= 0 || threshold > 1) {
+      return NextResponse.json(
+        { error: "failureThreshold must be between 0 and 1" },
+        { status: 400 }
+      );
+    }
+
+    const { data: campaign, error: insertError } = await supabase
+      .from("firmware_campaigns")
+      .insert({
+        name: data.name.trim(),
+        firmware_url: data.firmwareUrl,
+        sha256: data.sha256.toLowerCase(),
+        target_version: data.targetVersion.trim(),
+        cohort_percentage: percentage,
+        cohort_firmware: data.cohort?.firmware || null,
+        cohort_country: data.cohort?.country || null,
+        cohort_customer_user_id: data.cohort?.customerUserId || null,
+        wave_percentages: waves,
+        auto_advance: !!data.autoAdvance,
+        failure_threshold: threshold,
+        min_sample_size: data.minSampleSize ?? 3,
+        update_timeout_minutes: data.updateTimeoutMinutes ?? 30,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error("Campaign insert error:", insertError);
+      return NextResponse.json(
+        { error: "Failed to create campaign" },
+        { status: 500 }
+      );
+    }
+
+    console.log(`[Rollout] Created campaign ${campaign.name} -> ${campaign.target_version}`);
+
+    await recordAudit(request, auditActor(admin), {
+      action: "firmware_campaign.create",
+      targetType: "firmware_campaign",
+      targetId: campaign.id,
+      after: toCampaignResponse(campaign),
+    });
+
+    return NextResponse.json({
+      success: true,
+      campaign: toCampaignResponse(campaign),
+    });
+  } catch (error) {
+    console.error("Campaign creation error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,262 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { requirePermission } from "@/lib/permissions";
+import { auditActor, recordAudit } from "@/lib/audit";
+import {
+  DeviceGroup,
+  resolveGroupDeviceIds,
+  toGroupResponse,
+  validateGroupFilter,
+} from "@/lib/device-groups";
+
+async function getGroup(groupId: string): Promise<DeviceGroup | null> {
+  const { data } = await supabase
+    .from("device_groups")
+    .select("*")
+    .eq("id", groupId)
+    .single();
+
+  return data as DeviceGroup | null;
+}
+
+// GET /api/groups/[groupId] - A group with the devices currently in it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string }> }
+) {
+  try {
+    const { error: authError } = await requirePermission(request, "devices:read");
+    if (authError) return authError;
+
+    const { groupId } = await params;
+
+    const group = await getGroup(groupId);
+    if (!group) {
+      return NextResponse.json(
+        { error: "Group not found" },
+        { status: 404 }
+      );
+    }
+
+    const deviceIds = await resolveGroupDeviceIds(group);
+
+    let devices: Record<string, unknown>[] = [];
+    if (deviceIds.length > 0) {
+      const { data, error } = await supabase
+        .from("devices")
+        .select("device_id, name, firmware, mode, status, public_country, tags")
+        .in("device_id", deviceIds)
+        .order("name", { ascending: true });
+
+      if (error) {
+        console.error("Group devices fetch error:", error);
+      }
+
+      devices = (data || []).map((d) => ({
+        id: d.device_id,
+        name: d.name,
+        firmware: d.firmware,
+        mode: d.mode,
+        status: d.status,
+        publicCountry: d.public_country,
+        tags: d.tags,
+      }));
+    }
+
+    return NextResponse.json({
+      group: { ...toGroupResponse(group), deviceCount: deviceIds.length },
+      devices,
+    });
+  } catch (error) {
+    console.error("GET group error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/groups/[groupId] - Update a group
+// Body: any of { name, description, filter (dynamic), addDeviceIds, removeDeviceIds (static) }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string }> }
+) {
+  try {
+    const { admin, error: authError } = await requirePermission(request, "devices:write");
+    if (authError) return authError;
+
+    const { groupId } = await params;
+    const body = await request.json();
+
+    const current = await getGroup(groupId);
+    if (!current) {
+      return NextResponse.json(
+        { error: "Group not found" },
+        { status: 404 }
+      );
+    }
+
+    const updateData: Record<string, unknown> = {};
+    if (typeof body.name === "string" && body.name.trim()) updateData.name = body.name.trim();
+    if (body.description !== undefined) {
+      updateData.description = typeof body.description === "string" ? body.description.trim() || null : null;
+    }
+
+    if (body.filter !== undefined) {
+      if (current.kind !== "dynamic") {
+        return NextResponse.json(
+          { error: "Only dynamic groups have a filter" },
+          { status: 400 }
+        );
+      }
+      const filterError = validateGroupFilter(body.filter);
+      if (filterError) {
+        return NextResponse.json({ error: filterError }, { status: 400 });
+      }
+      updateData.filter = body.filter;
+    }
+
+    const addDeviceIds: string[] = Array.isArray(body.addDeviceIds) ? body.addDeviceIds : [];
+    const removeDeviceIds: string[] = Array.isArray(body.removeDeviceIds) ? body.removeDeviceIds : [];
+
+    if ((addDeviceIds.length > 0 || removeDeviceIds.length > 0) && current.kind !== "static") {
+      return NextResponse.json(
+        { error: "Dynamic group membership comes from its filter" },
+        { status: 400 }
+      );
+    }
+
+    if (Object.keys(updateData).length === 0 && addDeviceIds.length === 0 && removeDeviceIds.length === 0) {
+      return NextResponse.json(
+        { error: "No valid fields to update" },
+        { status: 400 }
+      );
+    }
+
+    let updated = current;
+    if (Object.keys(updateData).length > 0) {
+      const { data, error: updateError } = await supabase
+        .from("device_groups")
+        .update(updateData)
+        .eq("id", groupId)
+        .select()
+        .single();
+
+      if (updateError || !data) {
+        if (updateError?.code === "23505") {
+          return NextResponse.json(
+            { error: "A group with that name already exists" },
+            { status: 409 }
+          );
+        }
+        console.error("Group update error:", updateError);
+        return NextResponse.json(
+          { error: "Failed to update group" },
+          { status: 500 }
+        );
+      }
+      updated = data as DeviceGroup;
+    }
+
+    if (addDeviceIds.length > 0) {
+      const { error: addError } = await supabase
+        .from("device_group_members")
+        .upsert(
+          addDeviceIds.map((deviceId) => ({ group_id: groupId, device_id: deviceId })),
+          { onConflict: "group_id,device_id", ignoreDuplicates: true }
+        );
+
+      if (addError) {
+        console.error("Group members insert error:", addError);
+        return NextResponse.json(
+          { error: "Failed to add devices" },
+          { status: 500 }
+        );
+      }
+    }
+
+    if (removeDeviceIds.length > 0) {
+      await supabase
+        .from("device_group_members")
+        .delete()
+        .eq("group_id", groupId)
+        .in("device_id", removeDeviceIds);
+    }
+
+    await recordAudit(request, auditActor(admin), {
+      action: "group.update",
+      targetType: "group",
+      targetId: groupId,
+      before: toGroupResponse(current),
+      after: {
+        ...toGroupResponse(updated),
+        addedDeviceIds: addDeviceIds.length > 0 ? addDeviceIds : undefined,
+        removedDeviceIds: removeDeviceIds.length > 0 ? removeDeviceIds : undefined,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      group: toGroupResponse(updated),
+    });
+  } catch (error) {
+    console.error("PATCH group error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/groups/[groupId] - Delete a group (devices are not affected)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ groupId: string }> }
+) {
+  try {
+    const { admin, error: authError } = await requirePermission(request, "devices:write");
+    if (authError) return authError;
+
+    const { groupId } = await params;
+
+    const { data: deleted, error } = await supabase
+      .from("device_groups")
+      .delete()
+      .eq("id", groupId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error("Group delete error:", error);
+      return NextResponse.json(
+        { error: "Failed to delete group" },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Group not found" },
+        { status: 404 }
+      );
+    }
+
+    console.log(`[Group] Deleted ${deleted.name}`);
+
+    await recordAudit(request, auditActor(admin), {
+      action: "group.delete",
+      targetType: "group",
+      targetId: groupId,
+      before: toGroupResponse(deleted),
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("DELETE group error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { requirePermission } from "@/lib/permissions";
+import { auditActor, recordAudit } from "@/lib/audit";
+import {
+  DeviceGroup,
+  getTargetableDevices,
+  resolveGroupDeviceIds,
+  toGroupResponse,
+  validateGroupFilter,
+} from "@/lib/device-groups";
+
+// GET /api/groups - List device groups with their current device counts
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requirePermission(request, "devices:read");
+    if (authError) return authError;
+
+    const { data: groups, error } = await supabase
+      .from("device_groups")
+      .select("*")
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error("Groups fetch error:", error);
+      return NextResponse.json(
+        { error: "Database error" },
+        { status: 500 }
+      );
+    }
+
+    // One device fetch serves every dynamic group
+    const typed = (groups || []) as DeviceGroup[];
+    const devices = typed.some((g) => g.kind === "dynamic") ? await getTargetableDevices() : [];
+
+    return NextResponse.json({
+      groups: await Promise.all(
+        typed.map(async (g) => ({
+          ...toGroupResponse(g),
+          deviceCount: (await resolveGroupDeviceIds(g, devices)).length,
+        }))
+      ),
+    });
+  } catch (error) {
+    console.error("GET groups error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/groups - Create a group
+// Body: { name, description?, kind: "static", deviceIds? } or { name, description?, kind: "dynamic", filter }
+export async function POST(request: NextRequest) {
+  try {
+    const { admin, error: authError } = await requirePermission(request, "devices:write");
+    if (authError) return authError;
+
+    const data = await request.json();
+
+    if (!data.name || typeof data.name !== "string" || !data.name.trim()) {
+      return NextResponse.json(
+        { error: "Group name is required" },
+        { status: 400 }
+      );
+    }
+
+    if (data.kind !== "static" && data.kind !== "dynamic") {
+      return NextResponse.json(
+        { error: "kind must be static or dynamic" },
+        { status: 400 }
+      );
+    }
+
+    if (data.kind === "dynamic") {
+      const filterError = validateGroupFilter(data.filter);
+      if (filterError) {
+        return NextResponse.json({ error: filterError }, { status: 400 });
+      }
+    }
+
+    const deviceIds: string[] = data.kind === "static" && Array.isArray(data.deviceIds) ? data.deviceIds : [];
+
+    const { data: group, error: insertError } = await supabase
+      .from("device_groups")
+      .insert({
+        name: data.name.trim(),
+        description: typeof data.description === "string" ? data.description.trim() || null : null,
+        kind: data.kind,
+        filter: data.kind === "dynamic" ? data.filter : null,
+        created_by: admin.userId,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      if (insertError.code === "23505") {
+        return NextResponse.json(
+          { error: "A group with that name already exists" },
+          { status: 409 }
+        );
+      }
+      console.error("Group insert error:", insertError);
+      return NextResponse.json(
+        { error: "Failed to create group" },
+        { status: 500 }
+      );
+    }
+
+    if (deviceIds.length > 0) {
+      const { error: membersError } = await supabase
+        .from("device_group_members")
+        .insert(deviceIds.map((deviceId) => ({ group_id: group.id, device_id: deviceId })));
+
+      if (membersError) {
+        console.error("Group members insert error:", membersError);
+      }
+    }
+
+    console.log(`[Group] Created ${data.kind} group ${group.name}`);
+
+    await recordAudit(request, auditActor(admin), {
+      action: "group.create",
+      targetType: "group",
+      targetId: group.id,
+      after: { ...toGroupResponse(group), deviceIds: data.kind === "static" ? deviceIds : undefined },
+    });
+
+    return NextResponse.json({
+      success: true,
+      group: toGroupResponse(group),
+    });
+  } catch (error) {
+    console.error("Group creation error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { requireCustomer } from "@/lib/api-auth";
+import { getOwnedDevice } from "@/lib/portal";
+
+// GET /api/portal/devices/[deviceId]/events - Block history for an owned device
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ deviceId: string }> }
+) {
+  try {
+    const { customer, error: authError } = await requireCustomer(request);
+    if (authError) return authError;
+
+    const { deviceId } = await params;
+
+    if (!(await getOwnedDevice(customer.userId, deviceId))) {
+      return NextResponse.json(
+        { error: "Device not found" },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50", 10), 500);
+    const since = searchParams.get("since"); // ISO timestamp
+
+    let query = supabase
+      .from("block_events")
+      .select("id, created_at, delta_inbound, delta_outbound")
+      .eq("device_id", deviceId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (since) {
+      query = query.gte("created_at", since);
+    }
+
+    const { data: events, error } = await query;
+
+    if (error) {
+      console.error("Portal events fetch error:", error);
+      return NextResponse.json(
+        { error: "Database error" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      deviceId,
+      count: (events || []).length,
+      events: (events || []).map((e) => ({
+        id: e.id,
+        timestamp: e.created_at,
+        inbound: e.delta_inbound,
+        outbound: e.delta_outbound,
+      })),
+    });
+  } catch (error) {
+    console.error("GET portal events error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireCustomer } from "@/lib/api-auth";
+import { getOwnedDevice } from "@/lib/portal";
+import { fetchDeviceMetrics, parseMetricsQuery } from "@/lib/metrics";
+
+// GET /api/portal/devices/[deviceId]/metrics - Health metrics for an owned device
+// Query: from, to and resolution, as for the admin metrics API
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ deviceId: string }> }
+) {
+  try {
+    const { customer, error: authError } = await requireCustomer(request);
+    if (authError) return authError;
+
+    const { deviceId } = await params;
+
+    if (!(await getOwnedDevice(customer.userId, deviceId))) {
+      return NextResponse.json(
+        { error: "Device not found" },
+        { status: 404 }
+      );
+    }
+
+    const query = parseMetricsQuery(new URL(request.url).searchParams);
+    if ("error" in query) {
+      return NextResponse.json(
+        { error: query.error },
+        { status: 400 }
+      );
+    }
+
+    const metrics = await fetchDeviceMetrics(deviceId, query);
+    if (!metrics) {
+      return NextResponse.json(
+        { error: "Database error" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      deviceId,
+      from: query.from.toISOString(),
+      to: query.to.toISOString(),
+      resolution: query.resolution,
+      count: metrics.length,
+      metrics,
+    });
+  } catch (error) {
+    console.error("GET portal metrics error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { requireCustomer } from "@/lib/api-auth";
+import { getOwnedDevice, toPortalDevice } from "@/lib/portal";
+import { auditActor, recordAudit } from "@/lib/audit";
+
+// GET /api/portal/devices/[deviceId] - Get one of the customer's devices
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ deviceId: string }> }
+) {
+  try {
+    const { customer, error: authError } = await requireCustomer(request);
+    if (authError) return authError;
+
+    const { deviceId } = await params;
+    const device = await getOwnedDevice(customer.userId, deviceId);
+
+    if (!device) {
+      return NextResponse.json(
+        { error: "Device not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ device: toPortalDevice(device) });
+  } catch (error) {
+    console.error("GET portal device error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/portal/devices/[deviceId] - Rename one of the customer's devices
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ deviceId: string }> }
+) {
+  try {
+    const { customer, error: authError } = await requireCustomer(request);
+    if (authError) return authError;
+
+    const { deviceId } = await params;
+    const body = await request.json();
+
+    if (typeof body.name !== "string") {
+      return NextResponse.json(
+        { error: "Name must be a string" },
+        { status: 400 }
+      );
+    }
+
+    const name = body.name.trim() || null;
+
+    if (name && name.length > 64) {
+      return NextResponse.json(
+        { error: "Name must be 64 characters or fewer" },
+        { status: 400 }
+      );
+    }
+
+    const current = await getOwnedDevice(customer.userId, deviceId);
+
+    // Ownership is part of the update filter, so another customer's device
+    // simply isn't matched
+    const { data: updated, error } = await supabase
+      .from("devices")
+      .update({ name })
+      .eq("device_id", deviceId)
+      .eq("customer_user_id", customer.userId)
+      .select("device_id")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Portal rename error:", error);
+      return NextResponse.json(
+        { error: "Failed to rename device" },
+        { status: 500 }
+      );
+    }
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Device not found" },
+        { status: 404 }
+      );
+    }
+
+    console.log(`[Portal] ${customer.email} renamed ${deviceId} to "${name}"`);
+
+    await recordAudit(request, auditActor(customer), {
+      action: "device.rename",
+      targetType: "device",
+      targetId: deviceId,
+      before: { name: current?.name ?? null },
+      after: { name },
+    });
+
+    const device = await getOwnedDevice(customer.userId, deviceId);
+
+    return NextResponse.json({
+      success: true,
+      device: device ? toPortalDevice(device) : null,
+    });
+  } catch (error) {
+    console.error("PATCH portal device error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/portal/devices/[deviceId] - Release ownership of a device
+// The device keeps protecting its network; it can be registered to a new
+// owner through the setup wizard.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ deviceId: string }> }
+) {
+  try {
+    const { customer, error: authError } = await requireCustomer(request);
+    if (authError) return authError;
+
+    const { deviceId } = await params;
+
+    const { data: released, error } = await supabase
+      .from("devices")
+      .update({ customer_user_id: null })
+      .eq("device_id", deviceId)
+      .eq("customer_user_id", customer.userId)
+      .select("device_id")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Portal release error:", error);
+      return NextResponse.json(
+        { error: "Failed to release device" },
+        { status: 500 }
+      );
+    }
+
+    if (!released) {
+      return NextResponse.json(
+        { error: "Device not found" },
+        { status: 404 }
+      );
+    }
+
+    console.log(`[Portal] ${customer.email} released ownership of ${deviceId}`);
+
+    await recordAudit(request, auditActor(customer), {
+      action: "device.release",
+      targetType: "device",
+      targetId: deviceId,
+      before: { customerUserId: customer.userId },
+      after: { customerUserId: null },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("DELETE portal device error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
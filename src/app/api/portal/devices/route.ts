@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireCustomer } from "@/lib/api-auth";
+import { listOwnedDevices, toPortalDevice } from "@/lib/portal";
+
+// GET /api/portal/devices - List the calling customer's devices
+export async function GET(request: NextRequest) {
+  try {
+    const { customer, error: authError } = await requireCustomer(request);
+    if (authError) return authError;
+
+    const { data: devices, error } = await listOwnedDevices(customer.userId);
+
+    if (error) {
+      console.error("Portal devices fetch error:", error);
+      return NextResponse.json(
+        { error: "Database error" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      devices: (devices || []).map(toPortalDevice),
+    });
+  } catch (error) {
+    console.error("GET portal devices error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { AdminRole, hasPermission, requirePermission } from "@/lib/permissions";
+import type { JWTPayload } from "@/lib/auth";
+import { auditActor, recordAudit } from "@/lib/audit";
+import { validateCommandPayload } from "@/lib/command-schema";
+import {
+  CommandSchedule,
+  computeNextRun,
+  toScheduleResponse,
+  validateScheduleTiming,
+} from "@/lib/schedules";
+
+async function getSchedule(scheduleId: string): Promise<CommandSchedule | null> {
+  const { data } = await supabase
+    .from("command_schedules")
+    .select("*")
+    .eq("id", scheduleId)
+    .single();
+
+  return data as CommandSchedule | null;
+}
+
+// Changing a script schedule takes exec on top of the send every schedule needs
+function checkExecPermission(admin: JWTPayload & { role: AdminRole }, schedule: CommandSchedule): NextResponse | null {
+  if (schedule.command_type !== "exec" || hasPermission(admin.role, "commands:exec")) {
+    return null;
+  }
+
+  console.log(`[Auth] ${admin.username || admin.email} (${admin.role}) denied commands:exec`);
+  return NextResponse.json(
+    { error: `Forbidden: the ${admin.role} role cannot perform this action` },
+    { status: 403 }
+  );
+}
+
+// PATCH /api/schedules/[scheduleId] - Update a schedule
+// Body: any of { name, payload, cron, notBefore, ttlSeconds, enabled }
+// Changing the timing or re-enabling recomputes the next run.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ scheduleId: string }> }
+) {
+  try {
+    const { admin, error: authError } = await requirePermission(request, "commands:send");
+    if (authError) return authError;
+
+    const { scheduleId } = await params;
+    const body = await request.json();
+
+    const current = await getSchedule(scheduleId);
+    if (!current) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    const execError = checkExecPermission(admin, current);
+    if (execError) return execError;
+
+    const timing = {
+      cron: body.cron !== undefined ? (body.cron ? String(body.cron).trim() : null) : current.cron,
+      not_before: body.notBefore !== undefined ? body.notBefore || null : current.not_before,
+    };
+
+    const validationError =
+      (body.payload !== undefined ? validateCommandPayload(current.command_type, body.payload || {}) : null) ??
+      validateScheduleTiming({
+        cron: timing.cron,
+        notBefore: timing.not_before,
+        ttlSeconds: body.ttlSeconds,
+      });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const updateData: Record<string, unknown> = {};
+    if (typeof body.name === "string" && body.name.trim()) updateData.name = body.name.trim();
+    if (body.payload !== undefined) updateData.payload = body.payload || {};
+    if (body.ttlSeconds !== undefined) updateData.ttl_seconds = body.ttlSeconds;
+    if (typeof body.enabled === "boolean") updateData.enabled = body.enabled;
+
+    const timingChanged = body.cron !== undefined || body.notBefore !== undefined;
+    if (timingChanged) {
+      updateData.cron = timing.cron;
+      updateData.not_before = timing.not_before ? new Date(timing.not_before).toISOString() : null;
+    }
+
+    const enabled = (updateData.enabled as boolean | undefined) ?? current.enabled;
+    if (!enabled) {
+      updateData.next_run_at = null;
+    } else if (timingChanged || (updateData.enabled && !current.enabled)) {
+      updateData.next_run_at = computeNextRun(timing, new Date())?.toISOString() ?? null;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json(
+        { error: "No valid fields to update" },
+        { status: 400 }
+      );
+    }
+
+    // The editor becomes the requester of the commands the schedule queues
+    updateData.updated_by = admin.userId;
+
+    const { data: updated, error: updateError } = await supabase
+      .from("command_schedules")
+      .update(updateData)
+      .eq("id", scheduleId)
+      .select()
+      .single();
+
+    if (updateError || !updated) {
+      console.error("Schedule update error:", updateError);
+      return NextResponse.json(
+        { error: "Failed to update schedule" },
+        { status: 500 }
+      );
+    }
+
+    await recordAudit(request, auditActor(admin), {
+      action: "schedule.update",
+      targetType: "schedule",
+      targetId: scheduleId,
+      before: toScheduleResponse(current),
+      after: toScheduleResponse(updated),
+    });
+
+    return NextResponse.json({
+      success: true,
+      schedule: toScheduleResponse(updated),
+    });
+  } catch (error) {
+    console.error("PATCH schedule error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/schedules/[scheduleId] - Delete a schedule
+// Commands it already queued are left as they are.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ scheduleId: string }> }
+) {
+  try {
+    const { admin, error: authError } = await requirePermission(request, "commands:send");
+    if (authError) return authError;
+
+    const { scheduleId } = await params;
+
+    const current = await getSchedule(scheduleId);
+    if (!current) {
+      return NextResponse.json(
+        { error: "Schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    const execError = checkExecPermission(admin, current);
+    if (execError) return execError;
+
+    const { error } = await supabase
+      .from("command_schedules")
+      .delete()
+      .eq("id", scheduleId);
+
+    if (error) {
+      console.error("Schedule delete error:", error);
+      return NextResponse.json(
+        { error: "Failed to delete schedule" },
+        { status: 500 }
+      );
+    }
+
+    console.log(`[Schedule] Deleted ${current.name}`);
+
+    await recordAudit(request, auditActor(admin), {
+      action: "schedule.delete",
+      targetType: "schedule",
+      targetId: scheduleId,
+      before: toScheduleResponse(current),
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("DELETE schedule error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { hasPermission, requirePermission } from "@/lib/permissions";
+import { auditActor, recordAudit } from "@/lib/audit";
+import { COMMAND_TYPES, isCommandType, validateCommandPayload } from "@/lib/command-schema";
+import {
+  CommandSchedule,
+  computeNextRun,
+  toScheduleResponse,
+  validateScheduleTiming,
+} from "@/lib/schedules";
+
+// GET /api/schedules - List command schedules with the status of their last run
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requirePermission(request, "commands:read");
+    if (authError) return authError;
+
+    const { data: schedules, error } = await supabase
+      .from("command_schedules")
+      .select("*, devices(name)")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Schedules fetch error:", error);
+      return NextResponse.json(
+        { error: "Database error" },
+        { status: 500 }
+      );
+    }
+
+    const lastCommandIds = (schedules || [])
+      .map((s) => s.last_command_id)
+      .filter(Boolean);
+
+    const lastStatus = new Map<string, string>();
+    if (lastCommandIds.length > 0) {
+      const { data: commands } = await supabase
+        .from("device_commands")
+        .select("id, status")
+        .in("id", lastCommandIds);
+
+      for (const c of commands || []) {
+        lastStatus.set(c.id, c.status);
+      }
+    }
+
+    return NextResponse.json({
+      schedules: (schedules || []).map((s) => ({
+        ...toScheduleResponse(s as CommandSchedule),
+        deviceName: s.devices?.name || s.device_id,
+        lastCommandStatus: s.last_command_id ? lastStatus.get(s.last_command_id) ?? null : null,
+      })),
+    });
+  } catch (error) {
+    console.error("GET schedules error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/schedules - Create a schedule
+// Body: { name, type, payload?, deviceId?, cron?, notBefore?, ttlSeconds? }
+export async function POST(request: NextRequest) {
+  try {
+    // Every schedule needs send; script schedules also need exec
+    const { admin, error: authError } = await requirePermission(request, "commands:send");
+    if (authError) return authError;
+
+    const data = await request.json();
+
+    if (!isCommandType(data.type)) {
+      return NextResponse.json(
+        { error: `Invalid command type. Must be one of: ${COMMAND_TYPES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (data.type === "exec" && !hasPermission(admin.role, "commands:exec")) {
+      console.log(`[Auth] ${admin.username || admin.email} (${admin.role}) denied commands:exec`);
+      return NextResponse.json(
+        { error: `Forbidden: the ${admin.role} role cannot perform this action` },
+        { status: 403 }
+      );
+    }
+
+    if (!data.name || typeof data.name !== "string" || !data.name.trim()) {
+      return NextResponse.json(
+        { error: "Schedule name is required" },
+        { status: 400 }
+      );
+    }
+
+    const payload = data.payload || {};
+    const validationError =
+      validateCommandPayload(data.type, payload) ?? validateScheduleTiming(data);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    // deviceId is optional - null means broadcast to all devices
+    const deviceId = data.deviceId || null;
+
+    if (deviceId) {
+      const { data: device } = await supabase
+        .from("devices")
+        .select("device_id")
+        .eq("device_id", deviceId)
+        .single();
+
+      if (!device) {
+        return NextResponse.json(
+          { error: "Device not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    const timing = {
+      cron: data.cron ? data.cron.trim() : null,
+      not_before: data.notBefore ? new Date(data.notBefore).toISOString() : null,
+    };
+
+    const { data: schedule, error: insertError } = await supabase
+      .from("command_schedules")
+      .insert({
+        name: data.name.trim(),
+        device_id: deviceId,
+        command_type: data.type,
+        payload,
+        ...timing,
+        ttl_seconds: data.ttlSeconds ?? null,
+        next_run_at: computeNextRun(timing, new Date())?.toISOString() ?? null,
+        created_by: admin.userId,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error("Schedule insert error:", insertError);
+      return NextResponse.json(
+        { error: "Failed to create schedule" },
+        { status: 500 }
+      );
+    }
+
+    console.log(`[Schedule] Created ${schedule.name} (${schedule.cron || `once at ${schedule.not_before}`})`);
+
+    await recordAudit(request, auditActor(admin), {
+      action: "schedule.create",
+      targetType: "schedule",
+      targetId: schedule.id,
+      after: toScheduleResponse(schedule),
+    });
+
+    return NextResponse.json({
+      success: true,
+      schedule: toScheduleResponse(schedule),
+    });
+  } catch (error) {
+    console.error("Schedule creation error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
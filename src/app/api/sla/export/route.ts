@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/permissions";
+import { devicesToCsv, getSlaReport, incidentsToCsv, parseSlaWindow } from "@/lib/sla";
+
+// GET /api/sla/export - SLA report as a CSV download
+// Query: same as /api/sla, plus report=incidents (default) or devices
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requirePermission(request, "devices:read");
+    if (authError) return authError;
+
+    const { searchParams } = new URL(request.url);
+    const kind = searchParams.get("report") || "incidents";
+    if (kind !== "incidents" && kind !== "devices") {
+      return NextResponse.json(
+        { error: "report must be incidents or devices" },
+        { status: 400 }
+      );
+    }
+
+    const query = parseSlaWindow(searchParams);
+    if ("error" in query) {
+      return NextResponse.json(
+        { error: query.error },
+        { status: 400 }
+      );
+    }
+
+    const report = await getSlaReport(query);
+    if (!report) {
+      return NextResponse.json(
+        { error: "Database error" },
+        { status: 500 }
+      );
+    }
+
+    const filename = `sla-${kind}-${report.from.slice(0, 10)}-to-${report.to.slice(0, 10)}.csv`;
+    return new NextResponse(kind === "devices" ? devicesToCsv(report) : incidentsToCsv(report), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("GET SLA export error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
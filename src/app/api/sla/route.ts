@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/permissions";
+import { getSlaReport, parseSlaWindow } from "@/lib/sla";
+
+// GET /api/sla - Availability per customer and device, with downtime incidents
+// Query: from, to (ISO timestamps, default the last 30 days), customer (customer user id)
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requirePermission(request, "devices:read");
+    if (authError) return authError;
+
+    const query = parseSlaWindow(new URL(request.url).searchParams);
+    if ("error" in query) {
+      return NextResponse.json(
+        { error: query.error },
+        { status: 400 }
+      );
+    }
+
+    const report = await getSlaReport(query);
+    if (!report) {
+      return NextResponse.json(
+        { error: "Database error" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("GET SLA report error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,13 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { supabase } from "@/lib/supabase";
+import { requirePermission } from "@/lib/permissions";
 
 // GET /api/stats - Get platform overview statistics
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    const { error: authError } = await requirePermission(request, "devices:read");
+    if (authError) return authError;
+
     // Count total users
     const { count: totalUsers } = await supabase
       .from("customer_users")
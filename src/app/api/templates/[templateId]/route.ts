@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { hasPermission, requirePermission } from "@/lib/permissions";
+import { auditActor, recordAudit } from "@/lib/audit";
+import {
+  getTemplateVersion,
+  toTemplateResponse,
+  validateTemplateDefinition,
+} from "@/lib/command-templates";
+
+// GET /api/templates/[templateId] - A template with its version history
+// Query: version=N for that version instead of the current one
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { error: authError } = await requirePermission(request, "commands:read");
+    if (authError) return authError;
+
+    const { templateId } = await params;
+    const versionParam = request.nextUrl.searchParams.get("version");
+
+    const found = await getTemplateVersion(templateId, versionParam ? Number(versionParam) : undefined);
+    if (!found) {
+      return NextResponse.json(
+        { error: "Template not found" },
+        { status: 404 }
+      );
+    }
+
+    const { data: versions } = await supabase
+      .from("command_template_versions")
+      .select("version, command_type, created_by, created_at")
+      .eq("template_id", templateId)
+      .order("version", { ascending: false });
+
+    return NextResponse.json({
+      template: toTemplateResponse(found.template, found.version),
+      versions: (versions || []).map((v) => ({
+        version: v.version,
+        type: v.command_type,
+        createdBy: v.created_by,
+        createdAt: v.created_at,
+      })),
+    });
+  } catch (error) {
+    console.error("GET template error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/templates/[templateId] - Update a template
+// Body: any of { name, description, archived } in place, or { type, payload, params }
+// as a new version. Commands already sent keep the version they used.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { admin, error: authError } = await requirePermission(request, "commands:send");
+    if (authError) return authError;
+
+    const { templateId } = await params;
+    const body = await request.json();
+
+    const current = await getTemplateVersion(templateId);
+    if (!current) {
+      return NextResponse.json(
+        { error: "Template not found" },
+        { status: 404 }
+      );
+    }
+
+    // Editing an exec template, or turning one into exec, needs the same
+    // role as running a script
+    const nextType = body.type ?? current.version.command_type;
+    if ((nextType === "exec" || current.version.command_type === "exec") && !hasPermission(admin.role, "commands:exec")) {
+      console.log(`[Auth] ${admin.username || admin.email} (${admin.role}) denied commands:exec`);
+      return NextResponse.json(
+        { error: `Forbidden: the ${admin.role} role cannot perform this action` },
+        { status: 403 }
+      );
+    }
+
+    const updateData: Record<string, unknown> = {};
+    if (typeof body.name === "string" && body.name.trim()) updateData.name = body.name.trim();
+    if (body.description !== undefined) {
+      updateData.description = typeof body.description === "string" ? body.description.trim() || null : null;
+    }
+    if (typeof body.archived === "boolean") {
+      updateData.archived_at = body.archived ? new Date().toISOString() : null;
+    }
+
+    const nextPayload = body.payload ?? current.version.payload;
+    const nextParams = body.params ?? current.version.params;
+
+    // Saving an unchanged definition doesn't bump the version
+    const newVersion = nextType !== current.version.command_type ||
+      JSON.stringify(nextPayload) !== JSON.stringify(current.version.payload) ||
+      JSON.stringify(nextParams) !== JSON.stringify(current.version.params);
+
+    if (newVersion) {
+      const definitionError = validateTemplateDefinition(nextType, nextPayload, nextParams);
+      if (definitionError) {
+        return NextResponse.json({ error: definitionError }, { status: 400 });
+      }
+
+      const { error: versionError } = await supabase
+        .from("command_template_versions")
+        .insert({
+          template_id: templateId,
+          version: current.template.current_version + 1,
+          command_type: nextType,
+          payload: nextPayload,
+          params: nextParams,
+          created_by: admin.userId,
+        });
+
+      if (versionError) {
+        // A concurrent edit took this version number first
+        if (versionError.code === "23505") {
+          return NextResponse.json(
+            { error: "Template was changed by someone else, reload and try again" },
+            { status: 409 }
+          );
+        }
+        console.error("Template version insert error:", versionError);
+        return NextResponse.json(
+          { error: "Failed to save template" },
+          { status: 500 }
+        );
+      }
+
+      updateData.current_version = current.template.current_version + 1;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json(
+        { error: "No valid fields to update" },
+        { status: 400 }
+      );
+    }
+
+    updateData.updated_at = new Date().toISOString();
+
+    const { error: updateError } = await supabase
+      .from("command_templates")
+      .update(updateData)
+      .eq("id", templateId);
+
+    if (updateError) {
+      if (updateError.code === "23505") {
+        return NextResponse.json(
+          { error: "A template with that name already exists" },
+          { status: 409 }
+        );
+      }
+      console.error("Template update error:", updateError);
+      return NextResponse.json(
+        { error: "Failed to update template" },
+        { status: 500 }
+      );
+    }
+
+    const updated = await getTemplateVersion(templateId);
+    const response = updated ? toTemplateResponse(updated.template, updated.version) : null;
+
+    await recordAudit(request, auditActor(admin), {
+      action: "template.update",
+      targetType: "template",
+      targetId: templateId,
+      before: toTemplateResponse(current.template, current.version),
+      after: response ?? undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      template: response,
+    });
+  } catch (error) {
+    console.error("PATCH template error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { hasPermission, requirePermission } from "@/lib/permissions";
+import { auditActor, recordAudit } from "@/lib/audit";
+import {
+  CommandTemplate,
+  CommandTemplateVersion,
+  toTemplateResponse,
+  validateTemplateDefinition,
+} from "@/lib/command-templates";
+
+// GET /api/templates - List command templates at their current version
+// Query: includeArchived=true to also list archived templates
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requirePermission(request, "commands:read");
+    if (authError) return authError;
+
+    const includeArchived = request.nextUrl.searchParams.get("includeArchived") === "true";
+
+    let query = supabase
+      .from("command_templates")
+      .select("*")
+      .order("name", { ascending: true });
+
+    if (!includeArchived) {
+      query = query.is("archived_at", null);
+    }
+
+    const { data: templates, error } = await query;
+
+    if (error) {
+      console.error("Templates fetch error:", error);
+      return NextResponse.json(
+        { error: "Database error" },
+        { status: 500 }
+      );
+    }
+
+    const typed = (templates || []) as CommandTemplate[];
+    const { data: versions } = typed.length > 0
+      ? await supabase
+          .from("command_template_versions")
+          .select("*")
+          .in("template_id", typed.map((t) => t.id))
+      : { data: [] };
+
+    const current = new Map(
+      ((versions || []) as CommandTemplateVersion[]).map((v) => [`${v.template_id}:${v.version}`, v])
+    );
+
+    return NextResponse.json({
+      templates: typed.flatMap((t) => {
+        const v = current.get(`${t.id}:${t.current_version}`);
+        return v ? [toTemplateResponse(t, v)] : [];
+      }),
+    });
+  } catch (error) {
+    console.error("GET templates error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/templates - Create a template
+// Body: { name, description?, type, payload, params }
+export async function POST(request: NextRequest) {
+  try {
+    const { admin, error: authError } = await requirePermission(request, "commands:send");
+    if (authError) return authError;
+
+    const data = await request.json();
+
+    // Saving an exec template needs the same role as running a script
+    if (data.type === "exec" && !hasPermission(admin.role, "commands:exec")) {
+      console.log(`[Auth] ${admin.username || admin.email} (${admin.role}) denied commands:exec`);
+      return NextResponse.json(
+        { error: `Forbidden: the ${admin.role} role cannot perform this action` },
+        { status: 403 }
+      );
+    }
+
+    if (!data.name || typeof data.name !== "string" || !data.name.trim()) {
+      return NextResponse.json(
+        { error: "Template name is required" },
+        { status: 400 }
+      );
+    }
+
+    const params = data.params ?? [];
+    const definitionError = validateTemplateDefinition(data.type, data.payload, params);
+    if (definitionError) {
+      return NextResponse.json({ error: definitionError }, { status: 400 });
+    }
+
+    const { data: template, error: insertError } = await supabase
+      .from("command_templates")
+      .insert({
+        name: data.name.trim(),
+        description: typeof data.description === "string" ? data.description.trim() || null : null,
+        current_version: 1,
+        created_by: admin.userId,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      if (insertError.code === "23505") {
+        return NextResponse.json(
+          { error: "A template with that name already exists" },
+          { status: 409 }
+        );
+      }
+      console.error("Template insert error:", insertError);
+      return NextResponse.json(
+        { error: "Failed to create template" },
+        { status: 500 }
+      );
+    }
+
+    const { data: version, error: versionError } = await supabase
+      .from("command_template_versions")
+      .insert({
+        template_id: template.id,
+        version: 1,
+        command_type: data.type,
+        payload: data.payload,
+        params,
+        created_by: admin.userId,
+      })
+      .select()
+      .single();
+
+    if (versionError || !version) {
+      console.error("Template version insert error:", versionError);
+      await supabase.from("command_templates").delete().eq("id", template.id);
+      return NextResponse.json(
+        { error: "Failed to create template" },
+        { status: 500 }
+      );
+    }
+
+    console.log(`[Template] Created ${template.name}`);
+
+    const response = toTemplateResponse(template, version);
+
+    await recordAudit(request, auditActor(admin), {
+      action: "template.create",
+      targetType: "template",
+      targetId: template.id,
+      after: response,
+    });
+
+    return NextResponse.json({
+      success: true,
+      template: response,
+    });
+  } catch (error) {
+    console.error("Template creation error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,22 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
-import { verifyToken } from '@/lib/auth';
+import { requirePermission } from '@/lib/permissions';
+import { auditActor, recordAudit } from '@/lib/audit';
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ userId: string }> }
 ) {
   try {
-    // Verify authentication
-    const token = request.cookies.get('auth_token')?.value;
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const payload = await verifyToken(token);
-    if (!payload) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
-    }
+    // Verify authentication and role
+    const { error: authError } = await requirePermission(request, 'users:read');
+    if (authError) return authError;
 
     const { userId } = await params;
 
@@ -86,16 +80,9 @@ export async function PATCH(
   { params }: { params: Promise<{ userId: string }> }
 ) {
   try {
-    // Verify authentication
-    const token = request.cookies.get('auth_token')?.value;
-    if (!token) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const payload = await verifyToken(token);
-    if (!payload) {
-      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
-    }
+    // Verify authentication and role
+    const { admin, error: authError } = await requirePermission(request, 'users:write');
+    if (authError) return authError;
 
     const { userId } = await params;
     const body = await request.json();
@@ -121,6 +108,13 @@ export async function PATCH(
       updateData.subscription_expires_at = body.subscriptionExpiresAt;
     }
 
+    // Snapshot the fields being changed for the audit log
+    const { data: currentUser } = await supabase
+      .from('customer_users')
+      .select('*')
+      .eq('id', userId)
+      .single();
+
     // Update user in database
     const { data: updatedUser, error: updateError } = await supabase
       .from('customer_users')
@@ -137,6 +131,16 @@ export async function PATCH(
       );
     }
 
+    await recordAudit(request, auditActor(admin), {
+      action: 'customer.update',
+      targetType: 'customer',
+      targetId: userId,
+      before: Object.fromEntries(
+        Object.keys(updateData).map((key) => [key, currentUser?.[key] ?? null])
+      ),
+      after: updateData,
+    });
+
     // Return updated user
     return NextResponse.json({
       id: updatedUser.id,
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from "next/server"
 import { supabase } from "@/lib/supabase"
+import { requirePermission } from "@/lib/permissions"
 
 export async function GET(request: NextRequest) {
   try {
+    const { error: authError } = await requirePermission(request, "users:read")
+    if (authError) return authError
+
     const { searchParams } = new URL(request.url)
     const search = searchParams.get("search") || ""
 
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { requirePermission } from "@/lib/permissions";
+
+// GET /api/webhooks/[webhookId]/deliveries - Delivery log for an endpoint
+// Filters: status (pending | delivered | failed), limit
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  try {
+    const { error: authError } = await requirePermission(request, "webhooks:manage");
+    if (authError) return authError;
+
+    const { webhookId } = await params;
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status");
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50", 10), 500);
+
+    let query = supabase
+      .from("webhook_deliveries")
+      .select("*")
+      .eq("endpoint_id", webhookId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (status) {
+      query = query.eq("status", status);
+    }
+
+    const { data: deliveries, error } = await query;
+
+    if (error) {
+      console.error("Webhook deliveries fetch error:", error);
+      return NextResponse.json(
+        { error: "Database error" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      deliveries: (deliveries || []).map((d) => ({
+        id: d.id,
+        event: d.event_type,
+        payload: d.payload,
+        status: d.status,
+        attempts: d.attempts,
+        nextAttemptAt: d.next_attempt_at,
+        lastStatusCode: d.last_status_code,
+        lastError: d.last_error,
+        createdAt: d.created_at,
+        deliveredAt: d.delivered_at,
+      })),
+    });
+  } catch (error) {
+    console.error("GET webhook deliveries error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
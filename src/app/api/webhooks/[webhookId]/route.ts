@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { requirePermission } from "@/lib/permissions";
+import { auditActor, recordAudit } from "@/lib/audit";
+import {
+  generateWebhookSecret,
+  toWebhookResponse,
+  validateWebhook,
+} from "@/lib/webhooks";
+
+// PATCH /api/webhooks/[webhookId] - Update a webhook endpoint
+// Body: any of { name, url, events, enabled, rotateSecret: true }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  try {
+    const { admin, error: authError } = await requirePermission(request, "webhooks:manage");
+    if (authError) return authError;
+
+    const { webhookId } = await params;
+    const body = await request.json();
+
+    const validationError = await validateWebhook(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const { data: current, error } = await supabase
+      .from("webhook_endpoints")
+      .select("*")
+      .eq("id", webhookId)
+      .single();
+
+    if (error || !current) {
+      return NextResponse.json(
+        { error: "Webhook not found" },
+        { status: 404 }
+      );
+    }
+
+    const updateData: Record<string, unknown> = {};
+    if (typeof body.name === "string" && body.name.trim()) updateData.name = body.name.trim();
+    if (body.url !== undefined) updateData.url = body.url;
+    if (body.events !== undefined) updateData.events = body.events;
+    if (typeof body.enabled === "boolean") updateData.enabled = body.enabled;
+
+    let secret: string | null = null;
+    if (body.rotateSecret === true) {
+      secret = generateWebhookSecret();
+      updateData.secret = secret;
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json(
+        { error: "No valid fields to update" },
+        { status: 400 }
+      );
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from("webhook_endpoints")
+      .update(updateData)
+      .eq("id", webhookId)
+      .select()
+      .single();
+
+    if (updateError || !updated) {
+      console.error("Webhook update error:", updateError);
+      return NextResponse.json(
+        { error: "Failed to update webhook" },
+        { status: 500 }
+      );
+    }
+
+    await recordAudit(request, auditActor(admin), {
+      action: secret ? "webhook.rotate_secret" : "webhook.update",
+      targetType: "webhook",
+      targetId: webhookId,
+      before: toWebhookResponse(current),
+      after: toWebhookResponse(updated),
+    });
+
+    return NextResponse.json({
+      success: true,
+      webhook: toWebhookResponse(updated),
+      ...(secret && { secret }),
+    });
+  } catch (error) {
+    console.error("PATCH webhook error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/webhooks/[webhookId] - Delete a webhook endpoint and its delivery log
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  try {
+    const { admin, error: authError } = await requirePermission(request, "webhooks:manage");
+    if (authError) return authError;
+
+    const { webhookId } = await params;
+
+    const { data: deleted, error } = await supabase
+      .from("webhook_endpoints")
+      .delete()
+      .eq("id", webhookId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error("Webhook delete error:", error);
+      return NextResponse.json(
+        { error: "Failed to delete webhook" },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Webhook not found" },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(request, auditActor(admin), {
+      action: "webhook.delete",
+      targetType: "webhook",
+      targetId: webhookId,
+      before: toWebhookResponse(deleted),
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("DELETE webhook error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabase } from "@/lib/supabase";
+import { requirePermission } from "@/lib/permissions";
+import { auditActor, recordAudit } from "@/lib/audit";
+import {
+  WebhookEndpoint,
+  generateWebhookSecret,
+  toWebhookResponse,
+  validateWebhook,
+} from "@/lib/webhooks";
+
+// GET /api/webhooks - List webhook endpoints with delivery counts
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requirePermission(request, "webhooks:manage");
+    if (authError) return authError;
+
+    const { data: endpoints, error } = await supabase
+      .from("webhook_endpoints")
+      .select("*")
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Webhooks fetch error:", error);
+      return NextResponse.json(
+        { error: "Database error" },
+        { status: 500 }
+      );
+    }
+
+    // Delivery outcomes over the last 24 hours
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    const { data: recent } = await supabase
+      .from("webhook_deliveries")
+      .select("endpoint_id, status")
+      .gte("created_at", since);
+
+    const stats = new Map<string, { delivered: number; pending: number; failed: number }>();
+    for (const d of recent || []) {
+      const s = stats.get(d.endpoint_id) || { delivered: 0, pending: 0, failed: 0 };
+      s[d.status as "delivered" | "pending" | "failed"]++;
+      stats.set(d.endpoint_id, s);
+    }
+
+    return NextResponse.json({
+      webhooks: ((endpoints || []) as WebhookEndpoint[]).map((w) => ({
+        ...toWebhookResponse(w),
+        last24h: stats.get(w.id) || { delivered: 0, pending: 0, failed: 0 },
+      })),
+    });
+  } catch (error) {
+    console.error("GET webhooks error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/webhooks - Create a webhook endpoint
+// Body: { name, url, events? } - events defaults to all
+// The signing secret is returned once, in this response.
+export async function POST(request: NextRequest) {
+  try {
+    const { admin, error: authError } = await requirePermission(request, "webhooks:manage");
+    if (authError) return authError;
+
+    const data = await request.json();
+
+    if (!data.name || typeof data.name !== "string" || !data.name.trim()) {
+      return NextResponse.json(
+        { error: "Webhook name is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!data.url) {
+      return NextResponse.json(
+        { error: "url is required" },
+        { status: 400 }
+      );
+    }
+
+    const validationError = await validateWebhook(data);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const secret = generateWebhookSecret();
+
+    const { data: endpoint, error: insertError } = await supabase
+      .from("webhook_endpoints")
+      .insert({
+        name: data.name.trim(),
+        url: data.url,
+        secret,
+        events: data.events || [],
+        created_by: admin.userId,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error("Webhook insert error:", insertError);
+      return NextResponse.json(
+        { error: "Failed to create webhook" },
+        { status: 500 }
+      );
+    }
+
+    console.log(`[Webhook] Created endpoint ${endpoint.name} -> ${endpoint.url}`);
+
+    await recordAudit(request, auditActor(admin), {
+      action: "webhook.create",
+      targetType: "webhook",
+      targetId: endpoint.id,
+      after: toWebhookResponse(endpoint),
+    });
+
+    return NextResponse.json({
+      success: true,
+      webhook: toWebhookResponse(endpoint),
+      secret,
+    });
+  } catch (error) {
+    console.error("Webhook creation error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
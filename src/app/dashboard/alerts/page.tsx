@@ -0,0 +1,425 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import {
+  Bell,
+  BellOff,
+  RefreshCw,
+  Plus,
+  Check,
+  Trash2,
+  CheckCircle,
+} from "lucide-react"
+
+type RuleType = "offline" | "temperature" | "disk_usage" | "block_spike" | "firmware_mismatch" | "relocation" | "ip_conflict"
+
+interface Alert {
+  id: string
+  ruleId: string
+  ruleName: string
+  ruleType: RuleType
+  severity: "warning" | "critical"
+  deviceId: string
+  deviceName: string
+  status: "firing" | "resolved"
+  message: string
+  firedAt: string
+  lastEvaluatedAt: string
+  resolvedAt: string | null
+  acknowledgedAt: string | null
+}
+
+interface AlertRule {
+  id: string
+  name: string
+  type: RuleType
+  threshold: number | null
+  expectedFirmware: string | null
+  severity: "warning" | "critical"
+  enabled: boolean
+  firing: number
+}
+
+// Label and threshold unit per rule type
+const RULE_TYPES: Record<RuleType, { label: string; unit: string; placeholder: string }> = {
+  offline: { label: "Offline longer than", unit: "minutes", placeholder: "15" },
+  temperature: { label: "Temperature above", unit: "°C", placeholder: "75" },
+  disk_usage: { label: "Disk usage above", unit: "%", placeholder: "90" },
+  block_spike: { label: "Blocks per check-in above", unit: "× 24h average", placeholder: "5" },
+  firmware_mismatch: { label: "Firmware is not", unit: "", placeholder: "1.4.0" },
+  relocation: { label: "Country changed within", unit: "hours", placeholder: "6" },
+  ip_conflict: { label: "Two public IPs taking turns within", unit: "minutes", placeholder: "15" },
+}
+
+const SEVERITY_STYLES: Record<Alert["severity"], string> = {
+  warning: "bg-orange-100 dark:bg-orange-500/20 text-orange-700 dark:text-orange-400",
+  critical: "bg-red-100 dark:bg-red-500/20 text-red-700 dark:text-red-400",
+}
+
+export default function AlertsPage() {
+  const [alerts, setAlerts] = useState<Alert[]>([])
+  const [rules, setRules] = useState<AlertRule[]>([])
+  const [counts, setCounts] = useState({ firing: 0, unacknowledged: 0 })
+  const [statusFilter, setStatusFilter] = useState<"firing" | "resolved" | "">("firing")
+  const [loading, setLoading] = useState(true)
+  const [lastRefresh, setLastRefresh] = useState<Date>(new Date())
+  const [createModal, setCreateModal] = useState(false)
+
+  const fetchAlerts = async () => {
+    try {
+      const url = statusFilter ? `/api/alerts?status=${statusFilter}` : "/api/alerts"
+      const [alertsRes, rulesRes] = await Promise.all([fetch(url), fetch("/api/alerts/rules")])
+      const alertsData = await alertsRes.json()
+      const rulesData = await rulesRes.json()
+      setAlerts(alertsData.alerts || [])
+      setCounts(alertsData.counts || { firing: 0, unacknowledged: 0 })
+      setRules(rulesData.rules || [])
+      setLastRefresh(new Date())
+    } catch (error) {
+      console.error("Failed to fetch alerts:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchAlerts()
+    const interval = setInterval(fetchAlerts, 15000)
+    return () => clearInterval(interval)
+  }, [statusFilter])
+
+  const acknowledge = async (alertId: string) => {
+    try {
+      const res = await fetch(`/api/alerts/${alertId}`, { method: "PATCH" })
+      if (!res.ok) {
+        const data = await res.json()
+        alert("Failed: " + (data.error || "Unknown error"))
+      }
+      fetchAlerts()
+    } catch (error) {
+      console.error("Acknowledge failed:", error)
+    }
+  }
+
+  const updateRule = async (ruleId: string, update: Partial<AlertRule>) => {
+    try {
+      const res = await fetch(`/api/alerts/rules/${ruleId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        alert("Failed: " + (data.error || "Unknown error"))
+      }
+      fetchAlerts()
+    } catch (error) {
+      console.error("Rule update failed:", error)
+    }
+  }
+
+  const deleteRule = async (rule: AlertRule) => {
+    if (!confirm(`Delete rule "${rule.name}" and its alert history?`)) return
+
+    try {
+      const res = await fetch(`/api/alerts/rules/${rule.id}`, { method: "DELETE" })
+      if (!res.ok) {
+        const data = await res.json()
+        alert("Failed: " + (data.error || "Unknown error"))
+      }
+      fetchAlerts()
+    } catch (error) {
+      console.error("Rule delete failed:", error)
+    }
+  }
+
+  const formatDate = (date: string | null) => {
+    if (!date) return "—"
+    const d = new Date(date)
+    return d.toLocaleDateString() + " " + d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  }
+
+  const describeRule = (rule: AlertRule) => {
+    const { label, unit } = RULE_TYPES[rule.type]
+    return rule.type === "firmware_mismatch"
+      ? `${label} ${rule.expectedFirmware}`
+      : `${label} ${rule.threshold} ${unit}`
+  }
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Alerts</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            {counts.firing} firing, {counts.unacknowledged} unacknowledged
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-gray-500 dark:text-slate-500">
+            Updated {lastRefresh.toLocaleTimeString()}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={fetchAlerts}
+            className="h-9 px-3 text-gray-500 dark:text-slate-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        {/* Inbox */}
+        <div className="xl:col-span-2 bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-200 dark:border-slate-700 flex items-center justify-between">
+            <h2 className="text-sm font-semibold text-gray-900 dark:text-white">Inbox</h2>
+            <div className="flex items-center gap-1">
+              {([["firing", "Firing"], ["resolved", "Resolved"], ["", "All"]] as const).map(([value, label]) => (
+                <button
+                  key={label}
+                  onClick={() => setStatusFilter(value)}
+                  className={`text-xs px-2.5 py-1 rounded ${
+                    statusFilter === value
+                      ? "bg-gray-900 dark:bg-white text-white dark:text-gray-900"
+                      : "text-gray-500 dark:text-slate-400 hover:bg-gray-100 dark:hover:bg-slate-700"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="p-12 text-center">
+              <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-3 text-gray-500 dark:text-slate-500" />
+              <p className="text-sm text-gray-500 dark:text-slate-400">Loading alerts...</p>
+            </div>
+          ) : alerts.length === 0 ? (
+            <div className="p-12 text-center">
+              <CheckCircle className="h-10 w-10 text-gray-300 dark:text-slate-600 mx-auto mb-3" />
+              <p className="text-sm text-gray-600 dark:text-slate-400 mb-1">
+                {statusFilter === "firing" ? "Nothing is firing" : "No alerts"}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-slate-500">
+                {rules.length === 0 && "Create a rule to start alerting on device health"}
+              </p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200 dark:divide-slate-700">
+              {alerts.map((a) => (
+                <div key={a.id} className={`px-4 py-3 flex items-start justify-between gap-4 ${a.status === "resolved" ? "opacity-60" : ""}`}>
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className={`text-xs px-2 py-0.5 rounded ${SEVERITY_STYLES[a.severity] || SEVERITY_STYLES.warning}`}>
+                        {a.severity}
+                      </span>
+                      <span className="text-sm font-medium text-gray-900 dark:text-white">{a.ruleName}</span>
+                      {a.status === "resolved" && (
+                        <span className="text-xs px-2 py-0.5 rounded bg-green-100 dark:bg-green-500/20 text-green-700 dark:text-green-400">
+                          resolved
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-600 dark:text-slate-400">
+                      <Link href={`/dashboard/devices/${a.deviceId}`} className="font-medium text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400">
+                        {a.deviceName}
+                      </Link>
+                      {" · "}{a.message}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-slate-500 mt-0.5">
+                      Fired {formatDate(a.firedAt)}
+                      {a.resolvedAt && ` · Resolved ${formatDate(a.resolvedAt)}`}
+                      {a.acknowledgedAt && ` · Acknowledged ${formatDate(a.acknowledgedAt)}`}
+                    </p>
+                  </div>
+                  {a.status === "firing" && !a.acknowledgedAt && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => acknowledge(a.id)}
+                      className="h-8 px-3 text-blue-600 dark:text-blue-400 text-xs shrink-0"
+                    >
+                      <Check className="h-3.5 w-3.5 mr-1.5" />
+                      Acknowledge
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Rules */}
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 overflow-hidden h-fit">
+          <div className="px-4 py-3 border-b border-gray-200 dark:border-slate-700 flex items-center justify-between">
+            <h2 className="text-sm font-semibold text-gray-900 dark:text-white">Rules</h2>
+            <Button
+              size="sm"
+              onClick={() => setCreateModal(true)}
+              className="h-8 px-3 bg-blue-600 hover:bg-blue-700 text-white text-xs"
+            >
+              <Plus className="h-3.5 w-3.5 mr-1.5" />
+              New Rule
+            </Button>
+          </div>
+
+          {rules.length === 0 ? (
+            <div className="p-8 text-center">
+              <Bell className="h-8 w-8 text-gray-300 dark:text-slate-600 mx-auto mb-2" />
+              <p className="text-xs text-gray-500 dark:text-slate-500">No alert rules yet</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200 dark:divide-slate-700">
+              {rules.map((rule) => (
+                <div key={rule.id} className="px-4 py-3 flex items-start justify-between gap-2">
+                  <div className={rule.enabled ? "" : "opacity-50"}>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-gray-900 dark:text-white">{rule.name}</span>
+                      {rule.firing > 0 && (
+                        <span className="text-xs px-1.5 py-0.5 rounded bg-red-100 dark:bg-red-500/20 text-red-700 dark:text-red-400">
+                          {rule.firing}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-slate-400 mt-0.5">
+                      {describeRule(rule)} · {rule.severity}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      onClick={() => updateRule(rule.id, { enabled: !rule.enabled })}
+                      title={rule.enabled ? "Disable" : "Enable"}
+                      className="p-1.5 rounded text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-slate-700"
+                    >
+                      {rule.enabled ? <BellOff className="h-3.5 w-3.5" /> : <Bell className="h-3.5 w-3.5" />}
+                    </button>
+                    <button
+                      onClick={() => deleteRule(rule)}
+                      title="Delete"
+                      className="p-1.5 rounded text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-slate-700"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {createModal && (
+        <CreateRuleModal
+          onClose={() => setCreateModal(false)}
+          onCreated={() => { setCreateModal(false); fetchAlerts() }}
+        />
+      )}
+    </div>
+  )
+}
+
+function CreateRuleModal({ onClose, onCreated }: { onClose: () => void; onCreated: () => void }) {
+  const [name, setName] = useState("")
+  const [type, setType] = useState<RuleType>("offline")
+  const [value, setValue] = useState("")
+  const [severity, setSeverity] = useState<"warning" | "critical">("warning")
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  const createRule = async () => {
+    setSaving(true)
+    setError("")
+
+    try {
+      const res = await fetch("/api/alerts/rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          type,
+          severity,
+          ...(type === "firmware_mismatch"
+            ? { expectedFirmware: value.trim() }
+            : { threshold: parseFloat(value) }),
+        }),
+      })
+
+      const data = await res.json()
+      if (data.success) {
+        onCreated()
+      } else {
+        setError(data.error || "Failed to create rule")
+      }
+    } catch {
+      setError("Network error")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = "w-full h-9 px-3 text-sm bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white"
+  const labelClass = "text-xs text-gray-600 dark:text-slate-400 mb-1.5 block"
+  const { label, unit, placeholder } = RULE_TYPES[type]
+
+  return (
+    <div className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 w-full max-w-md shadow-xl">
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-slate-700 flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white">New Alert Rule</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-900 dark:hover:text-white text-xl">×</button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <label className={labelClass}>Name</label>
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Device overheating" className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Condition</label>
+            <select value={type} onChange={(e) => { setType(e.target.value as RuleType); setValue("") }} className={inputClass}>
+              {(Object.keys(RULE_TYPES) as RuleType[]).map((t) => (
+                <option key={t} value={t}>{RULE_TYPES[t].label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>{label}{unit && ` (${unit})`}</label>
+            <input
+              type={type === "firmware_mismatch" ? "text" : "number"}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder={placeholder}
+              className={`${inputClass} ${type === "firmware_mismatch" ? "font-mono" : ""}`}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Severity</label>
+            <select value={severity} onChange={(e) => setSeverity(e.target.value as "warning" | "critical")} className={inputClass}>
+              <option value="warning">Warning</option>
+              <option value="critical">Critical</option>
+            </select>
+          </div>
+
+          {error && (
+            <div className="text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/20 rounded-lg px-3 py-2">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onClose} className="flex-1 h-9">Cancel</Button>
+            <Button onClick={createRule} disabled={saving || !name || !value} className="flex-1 h-9 bg-blue-600 hover:bg-blue-700 text-white">
+              {saving ? "Creating..." : "Create Rule"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,384 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import {
+  RefreshCw,
+  Shield,
+  ArrowDownLeft,
+  ArrowUpRight,
+  Activity,
+} from "lucide-react"
+import { TimeSeriesChart } from "@/components/time-series-chart"
+
+type Preset = "24h" | "7d" | "30d" | "90d" | "custom"
+
+const PRESETS: { value: Exclude<Preset, "custom">; ms: number }[] = [
+  { value: "24h", ms: 24 * 60 * 60 * 1000 },
+  { value: "7d", ms: 7 * 24 * 60 * 60 * 1000 },
+  { value: "30d", ms: 30 * 24 * 60 * 60 * 1000 },
+  { value: "90d", ms: 90 * 24 * 60 * 60 * 1000 },
+]
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+interface TopDevice {
+  deviceId: string
+  name: string | null
+  inbound: number
+  outbound: number
+  total: number
+  onlineHours: number
+  blocksPerHour: number | null
+}
+
+interface Analytics {
+  from: string
+  to: string
+  bucket: "hour" | "day"
+  totals: { inbound: number; outbound: number }
+  blocks: { time: string; inbound: number; outbound: number }[]
+  availability: { time: string; online: number; total: number; ratio: number | null }[]
+  topDevices: TopDevice[]
+  topRates: TopDevice[]
+  firmware: { version: string; devices: number; online: number }[]
+}
+
+function formatNumber(num: number) {
+  if (num >= 1000000) return (num / 1000000).toFixed(1) + "M"
+  if (num >= 1000) return (num / 1000).toFixed(1) + "K"
+  return Math.round(num).toString()
+}
+
+// yyyy-mm-dd in local time, for date inputs
+function toDateInput(date: Date) {
+  const offset = date.getTimezoneOffset() * 60 * 1000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10)
+}
+
+export default function AnalyticsPage() {
+  const [preset, setPreset] = useState<Preset>("7d")
+  const [customFrom, setCustomFrom] = useState(toDateInput(new Date(Date.now() - 7 * DAY_MS)))
+  const [customTo, setCustomTo] = useState(toDateInput(new Date()))
+  const [analytics, setAnalytics] = useState<Analytics | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState("")
+  const [hover, setHover] = useState<number | null>(null)
+
+  const fetchAnalytics = async () => {
+    let from: Date
+    let to: Date
+    if (preset === "custom") {
+      from = new Date(`${customFrom}T00:00:00`)
+      // Through the end of the last selected day
+      to = new Date(new Date(`${customTo}T00:00:00`).getTime() + DAY_MS)
+      if (isNaN(from.getTime()) || isNaN(to.getTime())) return
+    } else {
+      to = new Date()
+      from = new Date(to.getTime() - PRESETS.find((p) => p.value === preset)!.ms)
+    }
+
+    setLoading(true)
+    setError("")
+    try {
+      const res = await fetch(`/api/analytics?from=${encodeURIComponent(from.toISOString())}&to=${encodeURIComponent(to.toISOString())}`)
+      const data = await res.json()
+      if (res.ok) {
+        setAnalytics(data)
+      } else {
+        setError(data.error || "Failed to load analytics")
+      }
+    } catch (error) {
+      console.error("Failed to fetch analytics:", error)
+      setError("Network error")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setHover(null)
+    fetchAnalytics()
+  }, [preset, customFrom, customTo])
+
+  const from = analytics ? new Date(analytics.from).getTime() : 0
+  const to = analytics ? new Date(analytics.to).getTime() : 0
+  const step = analytics?.bucket === "hour" ? HOUR_MS : DAY_MS
+  const formatTime = (time: number) => {
+    const date = new Date(time)
+    return analytics?.bucket === "hour"
+      ? date.toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })
+      : date.toLocaleDateString([], { month: "short", day: "numeric" })
+  }
+
+  const total = analytics ? analytics.totals.inbound + analytics.totals.outbound : 0
+  const inboundShare = total > 0 ? analytics!.totals.inbound / total : 0
+  const ratios = (analytics?.availability || []).map((a) => a.ratio).filter((r): r is number => r !== null)
+  const averageOnline = ratios.length > 0 ? ratios.reduce((sum, r) => sum + r, 0) / ratios.length : null
+  const firmwareTotal = (analytics?.firmware || []).reduce((sum, f) => sum + f.devices, 0)
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Analytics</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Blocks, device activity and availability across the fleet
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {preset === "custom" && (
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={customFrom}
+                max={customTo}
+                onChange={(e) => setCustomFrom(e.target.value)}
+                className="h-8 px-2 text-xs bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white"
+              />
+              <span className="text-xs text-gray-500 dark:text-slate-400">to</span>
+              <input
+                type="date"
+                value={customTo}
+                min={customFrom}
+                onChange={(e) => setCustomTo(e.target.value)}
+                className="h-8 px-2 text-xs bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white"
+              />
+            </div>
+          )}
+          <div className="flex rounded-lg border border-gray-200 dark:border-slate-700 overflow-hidden">
+            {[...PRESETS.map((p) => p.value), "custom" as const].map((value) => (
+              <button
+                key={value}
+                onClick={() => setPreset(value)}
+                className={`px-3 py-1.5 text-xs font-medium ${
+                  preset === value
+                    ? "bg-gray-900 dark:bg-white text-white dark:text-gray-900"
+                    : "bg-white dark:bg-slate-800 text-gray-600 dark:text-slate-400 hover:bg-gray-100 dark:hover:bg-slate-700"
+                }`}
+              >
+                {value === "custom" ? "Custom" : value}
+              </button>
+            ))}
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={fetchAnalytics}
+            className="h-9 px-3 text-gray-500 dark:text-slate-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 p-12 text-center">
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      ) : !analytics ? (
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 p-12 text-center">
+          <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-3 text-gray-500 dark:text-slate-500" />
+          <p className="text-sm text-gray-500 dark:text-slate-400">Loading analytics...</p>
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+            <SummaryCard icon={<Shield className="h-4 w-4 text-gray-500" />} label="Total Blocks" value={formatNumber(total)} />
+            <SummaryCard
+              icon={<ArrowDownLeft className="h-4 w-4 text-red-500" />}
+              label="Inbound"
+              value={formatNumber(analytics.totals.inbound)}
+              detail={total > 0 ? `${Math.round(inboundShare * 100)}%` : undefined}
+            />
+            <SummaryCard
+              icon={<ArrowUpRight className="h-4 w-4 text-orange-500" />}
+              label="Outbound"
+              value={formatNumber(analytics.totals.outbound)}
+              detail={total > 0 ? `${Math.round((1 - inboundShare) * 100)}%` : undefined}
+            />
+            <SummaryCard
+              icon={<Activity className="h-4 w-4 text-green-500" />}
+              label="Average Online"
+              value={averageOnline === null ? "—" : `${Math.round(averageOnline * 100)}%`}
+            />
+          </div>
+
+          {/* Blocks over time */}
+          <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 p-5 mb-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-white">Blocks per {analytics.bucket}</h2>
+              {total > 0 && (
+                <div className="flex items-center gap-2 w-48">
+                  <div className="flex-1 h-2 rounded-full overflow-hidden flex bg-gray-100 dark:bg-slate-700">
+                    <div className="bg-red-500" style={{ width: `${inboundShare * 100}%` }} />
+                    <div className="bg-amber-500" style={{ width: `${(1 - inboundShare) * 100}%` }} />
+                  </div>
+                  <span className="text-xs text-gray-500 dark:text-slate-400">in / out</span>
+                </div>
+              )}
+            </div>
+            <TimeSeriesChart
+              title="Fleet-wide"
+              format={(v) => formatNumber(v)}
+              zeroBased
+              bars
+              series={[
+                { label: "Inbound", color: "#ef4444", values: analytics.blocks.map((b) => b.inbound) },
+                { label: "Outbound", color: "#f59e0b", values: analytics.blocks.map((b) => b.outbound) },
+              ]}
+              times={analytics.blocks.map((b) => new Date(b.time).getTime())}
+              from={from}
+              to={to}
+              step={step}
+              formatTime={formatTime}
+              hover={hover}
+              onHover={setHover}
+            />
+          </div>
+
+          {/* Online ratio */}
+          <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 p-5 mb-6">
+            <h2 className="text-sm font-semibold text-gray-900 dark:text-white mb-4">Online Ratio</h2>
+            {analytics.availability.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-slate-400 text-center py-6">No availability history for this window yet</p>
+            ) : (
+              <TimeSeriesChart
+                title="Devices online"
+                format={(v) => `${Math.round(v)}%`}
+                zeroBased
+                series={[
+                  { label: "Online", color: "#10b981", values: analytics.availability.map((a) => (a.ratio === null ? null : a.ratio * 100)) },
+                ]}
+                times={analytics.availability.map((a) => new Date(a.time).getTime())}
+                from={from}
+                to={to}
+                step={step}
+                formatTime={formatTime}
+                hover={hover}
+                onHover={setHover}
+              />
+            )}
+          </div>
+
+          {/* Top devices */}
+          <div className="grid lg:grid-cols-2 gap-6 mb-6">
+            <DeviceTable
+              title="Top Devices by Blocks"
+              devices={analytics.topDevices}
+              columns={["Inbound", "Outbound", "Total"]}
+              cells={(d) => [formatNumber(d.inbound), formatNumber(d.outbound), formatNumber(d.total)]}
+            />
+            <DeviceTable
+              title="Highest Block Rate"
+              subtitle="Blocks per hour the device was online"
+              devices={analytics.topRates}
+              columns={["Blocks/h", "Hours online", "Total"]}
+              cells={(d) => [
+                d.blocksPerHour === null ? "—" : d.blocksPerHour.toFixed(1),
+                d.onlineHours.toFixed(1),
+                formatNumber(d.total),
+              ]}
+            />
+          </div>
+
+          {/* Firmware distribution */}
+          <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 p-5">
+            <h2 className="text-sm font-semibold text-gray-900 dark:text-white mb-1">Firmware Distribution</h2>
+            <p className="text-xs text-gray-500 dark:text-slate-400 mb-4">Current versions across {firmwareTotal} devices</p>
+            {analytics.firmware.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-slate-400 text-center py-4">No devices</p>
+            ) : (
+              <div className="space-y-2.5">
+                {analytics.firmware.map((f) => (
+                  <div key={f.version}>
+                    <div className="flex items-center justify-between text-xs mb-1">
+                      <span className="font-mono text-gray-900 dark:text-white">{f.version}</span>
+                      <span className="text-gray-500 dark:text-slate-400">
+                        {f.devices} devices · {f.online} online · {Math.round((f.devices / firmwareTotal) * 100)}%
+                      </span>
+                    </div>
+                    <div className="h-2 rounded-full bg-gray-100 dark:bg-slate-700 overflow-hidden">
+                      <div className="h-full bg-blue-500" style={{ width: `${(f.devices / firmwareTotal) * 100}%` }} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+function SummaryCard({ icon, label, value, detail }: { icon: React.ReactNode; label: string; value: string; detail?: string }) {
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 p-4">
+      <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-slate-400 mb-2">
+        {icon}
+        {label}
+      </div>
+      <div className="flex items-baseline gap-2">
+        <span className="text-2xl font-bold text-gray-900 dark:text-white">{value}</span>
+        {detail && <span className="text-xs text-gray-500 dark:text-slate-400">{detail}</span>}
+      </div>
+    </div>
+  )
+}
+
+function DeviceTable({
+  title,
+  subtitle,
+  devices,
+  columns,
+  cells,
+}: {
+  title: string
+  subtitle?: string
+  devices: TopDevice[]
+  columns: string[]
+  cells: (device: TopDevice) => string[]
+}) {
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 overflow-hidden">
+      <div className="px-5 py-3 border-b border-gray-200 dark:border-slate-700">
+        <h2 className="text-sm font-semibold text-gray-900 dark:text-white">{title}</h2>
+        {subtitle && <p className="text-xs text-gray-500 dark:text-slate-400 mt-0.5">{subtitle}</p>}
+      </div>
+      {devices.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-slate-400 text-center py-8">No blocks in this window</p>
+      ) : (
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-slate-700 bg-gray-50 dark:bg-slate-900/50">
+              {["Device", ...columns].map((heading, i) => (
+                <th key={heading} className={`px-4 py-2.5 text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider ${i === 0 ? "text-left" : "text-right"}`}>
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+            {devices.map((d) => (
+              <tr key={d.deviceId}>
+                <td className="px-4 py-2.5">
+                  <Link href={`/dashboard/devices/${d.deviceId}`} className="text-sm font-medium text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400">
+                    {d.name || d.deviceId}
+                  </Link>
+                </td>
+                {cells(d).map((cell, i) => (
+                  <td key={columns[i]} className="px-4 py-2.5 text-right text-sm text-gray-700 dark:text-slate-300">{cell}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,221 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import {
+  ShieldCheck,
+  RefreshCw,
+  Check,
+  X,
+  ChevronDown,
+  ChevronUp,
+} from "lucide-react"
+import { COMMAND_SCHEMAS, type CommandType } from "@/lib/command-schema"
+
+interface PendingCommand {
+  id: string
+  deviceId: string | null
+  type: CommandType
+  payload: Record<string, unknown>
+  createdAt: string
+  expiresAt: string | null
+  batchId: string | null
+  requestedBy: string | null
+  requestedByUsername: string | null
+}
+
+// Commands in one batch are reviewed together, so they share a row
+interface ApprovalRequest {
+  command: PendingCommand
+  deviceIds: string[]
+}
+
+function groupRequests(commands: PendingCommand[]): ApprovalRequest[] {
+  const byKey = new Map<string, ApprovalRequest>()
+  for (const c of commands) {
+    const key = c.batchId || c.id
+    const existing = byKey.get(key)
+    if (existing) {
+      if (c.deviceId) existing.deviceIds.push(c.deviceId)
+    } else {
+      byKey.set(key, { command: c, deviceIds: c.deviceId ? [c.deviceId] : [] })
+    }
+  }
+  return Array.from(byKey.values())
+}
+
+export default function ApprovalsPage() {
+  const [requests, setRequests] = useState<ApprovalRequest[]>([])
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [reviewing, setReviewing] = useState<string | null>(null)
+
+  const fetchRequests = async () => {
+    try {
+      const res = await fetch("/api/devices/commands?status=pending_approval")
+      const data = await res.json()
+      setRequests(groupRequests(data.commands || []))
+    } catch (error) {
+      console.error("Failed to fetch approvals:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchRequests()
+    fetch("/api/auth/me")
+      .then((res) => res.json())
+      .then((data) => setCurrentUserId(data.user?.id ?? null))
+      .catch(() => {})
+  }, [])
+
+  const review = async (request: ApprovalRequest, action: "approve" | "reject") => {
+    let note: string | null = null
+    if (action === "reject") {
+      note = prompt("Reason for rejecting (optional)")
+      if (note === null) return
+    } else if (!confirm(`Approve ${describeTarget(request)}? Devices will receive it at their next check-in.`)) {
+      return
+    }
+
+    setReviewing(request.command.id)
+    try {
+      const res = await fetch(`/api/devices/commands/${request.command.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, note: note || undefined }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        alert("Failed: " + (data.error || "Unknown error"))
+      }
+      fetchRequests()
+    } catch (error) {
+      console.error("Command review failed:", error)
+    } finally {
+      setReviewing(null)
+    }
+  }
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Approvals</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Scripts, firmware updates and fleet-wide commands wait here until a second admin approves them
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={fetchRequests}
+          className="h-9 px-3 text-gray-500 dark:text-slate-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 overflow-hidden">
+        {loading && requests.length === 0 ? (
+          <div className="p-12 text-center">
+            <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-3 text-gray-500 dark:text-slate-500" />
+            <p className="text-sm text-gray-500 dark:text-slate-400">Loading approvals...</p>
+          </div>
+        ) : requests.length === 0 ? (
+          <div className="p-12 text-center">
+            <ShieldCheck className="h-10 w-10 text-gray-300 dark:text-slate-600 mx-auto mb-3" />
+            <p className="text-sm text-gray-600 dark:text-slate-400 mb-1">Nothing waiting for approval</p>
+            <p className="text-xs text-gray-500 dark:text-slate-500">Commands sent by other admins that need a second pair of eyes show up here</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-slate-700">
+            {requests.map((r) => {
+              const own = !!currentUserId && r.command.requestedBy === currentUserId
+              const isExpanded = expanded === r.command.id
+
+              return (
+                <div key={r.command.id}>
+                  <div className="px-5 py-3 flex items-center justify-between gap-4">
+                    <button
+                      onClick={() => setExpanded(isExpanded ? null : r.command.id)}
+                      className="flex items-center gap-3 text-left min-w-0"
+                    >
+                      {isExpanded ? <ChevronUp className="h-4 w-4 text-gray-400 shrink-0" /> : <ChevronDown className="h-4 w-4 text-gray-400 shrink-0" />}
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium text-gray-900 dark:text-white">
+                          {COMMAND_SCHEMAS[r.command.type]?.label || r.command.type}
+                          <span className="ml-2 text-xs font-normal text-gray-500 dark:text-slate-400">{describeTarget(r)}</span>
+                        </div>
+                        <div className="text-xs text-gray-500 dark:text-slate-500">
+                          Requested by {r.command.requestedByUsername || "a schedule"} · {new Date(r.command.createdAt).toLocaleString()}
+                          {r.command.expiresAt && ` · expires ${new Date(r.command.expiresAt).toLocaleString()}`}
+                        </div>
+                      </div>
+                    </button>
+                    <div className="flex items-center gap-2 shrink-0">
+                      {own && (
+                        <span className="text-xs text-gray-500 dark:text-slate-400">Your request</span>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => review(r, "reject")}
+                        disabled={own || reviewing === r.command.id}
+                        className="h-8 px-3 text-xs border-gray-300 dark:border-slate-600 text-gray-700 dark:text-slate-300 hover:text-red-600 dark:hover:text-red-400"
+                      >
+                        <X className="h-3.5 w-3.5 mr-1.5" />
+                        Reject
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => review(r, "approve")}
+                        disabled={own || reviewing === r.command.id}
+                        className="h-8 px-3 bg-blue-600 hover:bg-blue-700 text-white text-xs"
+                      >
+                        <Check className="h-3.5 w-3.5 mr-1.5" />
+                        Approve
+                      </Button>
+                    </div>
+                  </div>
+                  {isExpanded && (
+                    <div className="px-5 pb-4 space-y-3">
+                      <pre className="bg-gray-100 dark:bg-slate-900 rounded-lg p-3 text-xs font-mono whitespace-pre-wrap text-gray-700 dark:text-slate-300">
+                        {typeof r.command.payload.script === "string"
+                          ? r.command.payload.script
+                          : JSON.stringify(r.command.payload, null, 2)}
+                      </pre>
+                      {r.deviceIds.length > 0 && (
+                        <div className="flex flex-wrap gap-1.5">
+                          {r.deviceIds.map((id) => (
+                            <Link
+                              key={id}
+                              href={`/dashboard/devices/${id}`}
+                              className="px-1.5 py-0.5 rounded text-xs font-mono bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300 hover:text-blue-600 dark:hover:text-blue-400"
+                            >
+                              {id}
+                            </Link>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function describeTarget(request: ApprovalRequest) {
+  if (request.deviceIds.length === 0) return "for all devices"
+  if (request.deviceIds.length === 1) return `for ${request.deviceIds[0]}`
+  return `for ${request.deviceIds.length} devices`
+}
@@ -0,0 +1,328 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import {
+  ScrollText,
+  RefreshCw,
+  Search,
+  ChevronLeft,
+  ChevronRight,
+} from "lucide-react"
+
+interface AuditEntry {
+  id: string
+  createdAt: string
+  actor: {
+    type: "admin" | "customer"
+    id: string | null
+    name: string | null
+  }
+  action: string
+  targetType: string
+  targetId: string | null
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  sourceIp: string | null
+}
+
+const ENTRIES_PER_PAGE = 50
+
+// Action prefixes offered in the filter dropdown
+const ACTION_FILTERS = [
+  { value: "", label: "All actions" },
+  { value: "device.", label: "Devices" },
+  { value: "command.", label: "Commands" },
+  { value: "schedule.", label: "Schedules" },
+  { value: "group.", label: "Groups" },
+  { value: "template.", label: "Templates" },
+  { value: "customer.", label: "Customers" },
+  { value: "admin.", label: "Admins" },
+  { value: "firmware_campaign.", label: "Firmware" },
+]
+
+const inputClass =
+  "h-8 px-3 text-xs bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white placeholder:text-gray-500 dark:placeholder:text-slate-500 focus:outline-none focus:border-blue-500"
+
+export default function AuditPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [currentPage, setCurrentPage] = useState(1)
+
+  const [action, setAction] = useState("")
+  const [actorType, setActorType] = useState("")
+  const [targetQuery, setTargetQuery] = useState("")
+  const [debouncedTarget, setDebouncedTarget] = useState("")
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+
+  // Debounce target search (300ms)
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedTarget(targetQuery.trim()), 300)
+    return () => clearTimeout(timer)
+  }, [targetQuery])
+
+  // Reset to page 1 when filters change
+  useEffect(() => {
+    setCurrentPage(1)
+  }, [action, actorType, debouncedTarget, from, to])
+
+  const fetchEntries = async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({
+        limit: String(ENTRIES_PER_PAGE),
+        offset: String((currentPage - 1) * ENTRIES_PER_PAGE),
+      })
+      if (action) params.set("action", action)
+      if (actorType) params.set("actorType", actorType)
+      if (debouncedTarget) params.set("targetId", debouncedTarget)
+      if (from) params.set("from", new Date(from).toISOString())
+      if (to) params.set("to", new Date(`${to}T23:59:59`).toISOString())
+
+      const res = await fetch(`/api/audit?${params}`)
+      const data = await res.json()
+
+      if (!res.ok) {
+        setError(data.error || "Failed to load audit log")
+        setEntries([])
+        setTotal(0)
+        return
+      }
+
+      setError(null)
+      setEntries(data.entries || [])
+      setTotal(data.total || 0)
+    } catch (error) {
+      console.error("Failed to fetch audit log:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchEntries()
+  }, [currentPage, action, actorType, debouncedTarget, from, to])
+
+  const totalPages = Math.ceil(total / ENTRIES_PER_PAGE)
+
+  const formatDate = (date: string) => {
+    const d = new Date(date)
+    return d.toLocaleDateString() + " " + d.toLocaleTimeString()
+  }
+
+  const formatValue = (value: unknown) => {
+    if (value === null || value === undefined) return "—"
+    if (typeof value === "string") return value
+    return JSON.stringify(value)
+  }
+
+  const renderTarget = (entry: AuditEntry) => {
+    if (!entry.targetId) {
+      return <span className="text-gray-500 dark:text-slate-500">{entry.targetType}</span>
+    }
+
+    const href =
+      entry.targetType === "device" ? `/dashboard/devices/${entry.targetId}` :
+      entry.targetType === "customer" ? `/dashboard/users/${entry.targetId}` :
+      null
+
+    const label = (
+      <>
+        <span className="text-gray-500 dark:text-slate-500">{entry.targetType} </span>
+        <span className="font-mono">{entry.targetId.length > 20 ? entry.targetId.slice(0, 8) : entry.targetId}</span>
+      </>
+    )
+
+    return href ? (
+      <Link href={href} className="hover:text-blue-600 dark:hover:text-blue-400">
+        {label}
+      </Link>
+    ) : label
+  }
+
+  // One line per changed field: before → after
+  const renderChanges = (entry: AuditEntry) => {
+    const keys = Array.from(new Set([
+      ...Object.keys(entry.before || {}),
+      ...Object.keys(entry.after || {}),
+    ]))
+
+    if (keys.length === 0) {
+      return <span className="text-gray-400 dark:text-slate-600">—</span>
+    }
+
+    return (
+      <div className="space-y-0.5">
+        {keys.map((key) => (
+          <div key={key} className="text-xs font-mono break-all">
+            <span className="text-gray-500 dark:text-slate-400">{key}: </span>
+            {entry.before && (
+              <>
+                <span className="text-red-600 dark:text-red-400 line-through">{formatValue(entry.before[key])}</span>
+                {entry.after && <span className="text-gray-400"> → </span>}
+              </>
+            )}
+            {entry.after && (
+              <span className="text-green-700 dark:text-green-400">{formatValue(entry.after[key])}</span>
+            )}
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Audit Log</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Every change made by admins and customers
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={fetchEntries}
+          className="h-9 px-3 text-gray-500 dark:text-slate-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 overflow-hidden">
+        {/* Filters */}
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-slate-700 flex flex-wrap items-center gap-2">
+          <select value={action} onChange={(e) => setAction(e.target.value)} className={inputClass}>
+            {ACTION_FILTERS.map((f) => (
+              <option key={f.value} value={f.value}>{f.label}</option>
+            ))}
+          </select>
+          <select value={actorType} onChange={(e) => setActorType(e.target.value)} className={inputClass}>
+            <option value="">All actors</option>
+            <option value="admin">Admins</option>
+            <option value="customer">Customers</option>
+          </select>
+          <div className="relative">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-gray-500 dark:text-slate-500" />
+            <input
+              type="text"
+              placeholder="Target ID..."
+              value={targetQuery}
+              onChange={(e) => setTargetQuery(e.target.value)}
+              className={`${inputClass} w-56 pl-8`}
+            />
+          </div>
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+          <span className="text-xs text-gray-500 dark:text-slate-500">to</span>
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+          <span className="ml-auto text-xs text-gray-500 bg-gray-100 dark:bg-slate-700 px-2 py-0.5 rounded">
+            {total}
+          </span>
+        </div>
+
+        {error ? (
+          <div className="p-12 text-center">
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        ) : loading && entries.length === 0 ? (
+          <div className="p-12 text-center">
+            <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-3 text-gray-500 dark:text-slate-500" />
+            <p className="text-sm text-gray-500 dark:text-slate-400">Loading audit log...</p>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="p-12 text-center">
+            <ScrollText className="h-10 w-10 text-gray-300 dark:text-slate-600 mx-auto mb-3" />
+            <p className="text-sm text-gray-600 dark:text-slate-400 mb-1">No audit entries</p>
+            <p className="text-xs text-gray-500 dark:text-slate-500">Changes will appear here as they happen</p>
+          </div>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-slate-700 bg-gray-50 dark:bg-slate-900/50">
+                    {["Time", "Actor", "Action", "Target", "Changes", "Source IP"].map((heading) => (
+                      <th key={heading} className="text-left px-4 py-2.5 text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                  {entries.map((entry) => (
+                    <tr key={entry.id} className="align-top">
+                      <td className="px-4 py-3 text-xs text-gray-600 dark:text-slate-400 whitespace-nowrap">
+                        {formatDate(entry.createdAt)}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="text-sm text-gray-900 dark:text-white">{entry.actor.name || entry.actor.id?.slice(0, 8) || "—"}</div>
+                        <div className="text-xs text-gray-500 dark:text-slate-500">{entry.actor.type}</div>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`text-xs px-2 py-0.5 rounded font-mono ${
+                          entry.action.endsWith(".delete") || entry.action.endsWith("_revoke")
+                            ? "bg-red-100 dark:bg-red-500/20 text-red-700 dark:text-red-400"
+                            : "bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-slate-300"
+                        }`}>
+                          {entry.action}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900 dark:text-white whitespace-nowrap">
+                        {renderTarget(entry)}
+                      </td>
+                      <td className="px-4 py-3 max-w-md">
+                        {renderChanges(entry)}
+                      </td>
+                      <td className="px-4 py-3 text-xs font-mono text-gray-600 dark:text-slate-400">
+                        {entry.sourceIp || "—"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="px-4 py-3 border-t border-gray-200 dark:border-slate-700 flex items-center justify-between">
+                <span className="text-xs text-gray-500 dark:text-slate-500">
+                  Showing {(currentPage - 1) * ENTRIES_PER_PAGE + 1}-
+                  {Math.min(currentPage * ENTRIES_PER_PAGE, total)} of {total}
+                </span>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={currentPage === 1}
+                    onClick={() => setCurrentPage((p) => p - 1)}
+                    className="h-7 w-7 p-0 text-gray-500 dark:text-slate-400 hover:text-gray-900 dark:hover:text-white disabled:opacity-30"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <span className="text-xs text-gray-500 dark:text-slate-400 px-2">
+                    {currentPage} / {totalPages}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={currentPage === totalPages}
+                    onClick={() => setCurrentPage((p) => p + 1)}
+                    className="h-7 w-7 p-0 text-gray-500 dark:text-slate-400 hover:text-gray-900 dark:hover:text-white disabled:opacity-30"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -34,10 +34,20 @@ import {
   ArrowRight,
   AlertTriangle,
   LogOut,
+  KeyRound,
+  Ban,
+  Copy,
+  Paperclip,
+  Tag,
 } from "lucide-react"
 import Link from "next/link"
 import { useRouter, useParams } from "next/navigation"
-import { formatUptime } from "@/lib/types"
+import { formatUptime, DEFAULT_BLOCKLIST_URL, type CommandOutput, type TemplateParam } from "@/lib/types"
+import { COMMAND_SCHEMAS, buildCommandPayload, validateCommandPayload, type CommandType } from "@/lib/command-schema"
+import { CommandPayloadFields } from "@/components/command-payload-fields"
+import { DeviceMetricsCharts } from "@/components/device-metrics-charts"
+import { DeviceNetworkHistory } from "@/components/device-network-history"
+import { DeviceStatusHistory } from "@/components/device-status-history"
 
 interface DeviceDetail {
   id: string
@@ -53,7 +63,9 @@ interface DeviceDetail {
   wifiSsid?: string
   wifiSignal?: number
   status: "online" | "offline" | "warning"
+  statusReason?: string | null
   firstSeen?: Date
+  lastReboot?: string
   // Metrics
   diskUsage?: number
   diskTotal?: number
@@ -65,6 +77,9 @@ interface DeviceDetail {
   publicIp?: string
   publicCity?: string
   publicCountry?: string
+  publicAsn?: number
+  publicIsp?: string
+  tags: string[]
   // Owner
   owner?: {
     id: string
@@ -72,17 +87,32 @@ interface DeviceDetail {
     name?: string
     subscriptionStatus?: string
   }
+  // API key status
+  credentials?: {
+    hasKey: boolean
+    issuedAt?: Date
+    rotationRequestedAt?: Date
+    rotationPending: boolean
+    revokedAt?: Date
+  }
 }
 
 interface Command {
   id: string
   type: string
-  status: "pending" | "sent" | "completed" | "failed"
+  status: "pending_approval" | "pending" | "held" | "sent" | "acknowledged" | "completed" | "failed" | "expired" | "cancelled" | "rejected"
   createdAt: Date
   sentAt?: Date
+  acknowledgedAt?: Date
   completedAt?: Date
+  expiresAt?: Date
+  retryCount?: number
+  maxRetries?: number
   result?: string
+  output?: CommandOutput | null
   payload?: Record<string, unknown>
+  reviewNote?: string | null
+  broadcast?: boolean
 }
 
 interface BlockEvent {
@@ -115,13 +145,23 @@ export default function DeviceDetailPage() {
   const [newName, setNewName] = useState("")
   const [renaming, setRenaming] = useState(false)
 
+  // Tags
+  const [newTag, setNewTag] = useState("")
+  const [savingTags, setSavingTags] = useState(false)
+
   // Quick action states
   const [rebooting, setRebooting] = useState(false)
   const [updatingBlocklist, setUpdatingBlocklist] = useState(false)
   const [rebootConfirm, setRebootConfirm] = useState(false)
 
+  // Credential states
+  const [rotatingKey, setRotatingKey] = useState(false)
+  const [revokeConfirm, setRevokeConfirm] = useState(false)
+  const [revokingKey, setRevokingKey] = useState(false)
+
   // Command history expansion
   const [expandedCommand, setExpandedCommand] = useState<string | null>(null)
+  const [cancellingCommand, setCancellingCommand] = useState<string | null>(null)
 
   const fetchDeviceData = async () => {
     try {
@@ -143,7 +183,9 @@ export default function DeviceDetailPage() {
           wifiSsid: data.wifiSsid,
           wifiSignal: data.wifiSignal,
           status: data.status,
+          statusReason: data.statusReason,
           firstSeen: data.firstSeen,
+          lastReboot: data.lastReboot,
           diskUsage: data.metrics?.diskUsedMb ? data.metrics.diskUsedMb * 1024 * 1024 : undefined,
           diskTotal: data.metrics?.diskTotalMb ? data.metrics.diskTotalMb * 1024 * 1024 : undefined,
           memoryUsage: data.metrics?.memUsedMb ? data.metrics.memUsedMb * 1024 * 1024 : undefined,
@@ -153,7 +195,11 @@ export default function DeviceDetailPage() {
           publicIp: data.publicIp,
           publicCity: data.publicCity,
           publicCountry: data.publicCountry,
+          publicAsn: data.publicAsn,
+          publicIsp: data.publicIsp,
+          tags: data.tags || [],
           owner: data.owner,
+          credentials: data.credentials,
         }
 
         setDevice(deviceDetail)
@@ -217,6 +263,58 @@ export default function DeviceDetailPage() {
     }
   }
 
+  const saveTags = async (tags: string[]) => {
+    setSavingTags(true)
+    try {
+      const res = await fetch(`/api/devices/${deviceId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tags }),
+      })
+      const data = await res.json()
+      if (res.ok) {
+        setDevice(prev => prev ? { ...prev, tags: data.device?.tags || tags } : null)
+        setNewTag("")
+      } else {
+        alert("Failed to update tags: " + (data.error || "Unknown error"))
+      }
+    } catch (error) {
+      console.error("Tag update failed:", error)
+    } finally {
+      setSavingTags(false)
+    }
+  }
+
+  const handleAddTag = () => {
+    const tag = newTag.trim().toLowerCase()
+    if (!tag || !device || device.tags.includes(tag)) {
+      setNewTag("")
+      return
+    }
+    saveTags([...device.tags, tag])
+  }
+
+  const handleCancelCommand = async (commandId: string) => {
+    setCancellingCommand(commandId)
+    try {
+      const res = await fetch(`/api/devices/commands/${commandId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "cancel" }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        alert("Failed to cancel command: " + (data.error || "Unknown error"))
+      }
+      fetchDeviceData()
+    } catch (error) {
+      console.error("Cancel command failed:", error)
+      alert("Failed to cancel command")
+    } finally {
+      setCancellingCommand(null)
+    }
+  }
+
   const sendQuickCommand = async (type: string, payload: Record<string, unknown> = {}) => {
     try {
       const res = await fetch("/api/devices/commands", {
@@ -248,12 +346,45 @@ export default function DeviceDetailPage() {
 
   const handleUpdateBlocklist = async () => {
     setUpdatingBlocklist(true)
-    await sendQuickCommand("update_blocklist", {
-      url: "https://raw.githubusercontent.com/herrbischoff/country-ip-blocks/master/ipv4/"
-    })
+    await sendQuickCommand("update_blocklist", { url: DEFAULT_BLOCKLIST_URL })
     setUpdatingBlocklist(false)
   }
 
+  const handleRotateKey = async () => {
+    setRotatingKey(true)
+    try {
+      const res = await fetch(`/api/devices/${deviceId}/credentials`, { method: "POST" })
+      if (res.ok) {
+        fetchDeviceData()
+      } else {
+        const data = await res.json()
+        alert("Failed to rotate key: " + (data.error || "Unknown error"))
+      }
+    } catch (error) {
+      console.error("Key rotation failed:", error)
+    } finally {
+      setRotatingKey(false)
+    }
+  }
+
+  const handleRevokeKey = async () => {
+    setRevokingKey(true)
+    try {
+      const res = await fetch(`/api/devices/${deviceId}/credentials`, { method: "DELETE" })
+      if (res.ok) {
+        fetchDeviceData()
+      } else {
+        const data = await res.json()
+        alert("Failed to revoke key: " + (data.error || "Unknown error"))
+      }
+    } catch (error) {
+      console.error("Key revoke failed:", error)
+    } finally {
+      setRevokingKey(false)
+      setRevokeConfirm(false)
+    }
+  }
+
   const isOnline = device?.status === "online" ||
     (device && new Date().getTime() - new Date(device.lastSeen).getTime() < 5 * 60 * 1000)
 
@@ -431,6 +562,15 @@ export default function DeviceDetailPage() {
                   <span className={`h-2 w-2 rounded-full ${isOnline ? "bg-green-500" : "bg-gray-400"}`} />
                   {isOnline ? "Online" : "Offline"}
                 </span>
+                {device.status === "warning" && device.statusReason === "crash_loop" && (
+                  <span
+                    title="Rebooting repeatedly without being told to"
+                    className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-400"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                    Crash loop
+                  </span>
+                )}
                 <span className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-medium ${
                   device.mode === "bridge" ? "bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-400" : "bg-orange-100 dark:bg-orange-500/20 text-orange-700 dark:text-orange-400"
                 }`}>
@@ -450,6 +590,32 @@ export default function DeviceDetailPage() {
                   </>
                 )}
               </div>
+              <div className="flex flex-wrap items-center gap-1.5 mt-3">
+                <Tag className="h-3.5 w-3.5 text-gray-400" />
+                {device.tags.map((tag) => (
+                  <span key={tag} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs font-medium bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-slate-300">
+                    {tag}
+                    <button
+                      onClick={() => saveTags(device.tags.filter((t) => t !== tag))}
+                      disabled={savingTags}
+                      className="text-gray-400 hover:text-red-500"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+                <input
+                  type="text"
+                  value={newTag}
+                  onChange={(e) => setNewTag(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleAddTag()
+                  }}
+                  placeholder="Add tag"
+                  disabled={savingTags}
+                  className="w-24 px-2 py-0.5 text-xs bg-transparent border border-dashed border-gray-300 dark:border-slate-600 rounded-md text-gray-700 dark:text-slate-300 placeholder:text-gray-400 focus:outline-none focus:border-blue-500"
+                />
+              </div>
             </div>
             <Button variant="ghost" size="sm" onClick={() => setDeleteModal(true)} className="text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-500/10">
               <Trash2 className="h-4 w-4 mr-1.5" />
@@ -489,6 +655,61 @@ export default function DeviceDetailPage() {
           </div>
         </div>
 
+        {/* API Credentials */}
+        <div className="bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-xl p-5 mb-6">
+          <div className="flex items-start justify-between">
+            <div>
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-white mb-3 flex items-center gap-2">
+                <KeyRound className="h-4 w-4 text-gray-500" />
+                API Credentials
+              </h2>
+              {device.credentials?.hasKey ? (
+                <div className="space-y-1">
+                  <p className="text-sm text-gray-900 dark:text-white">
+                    Device key issued {formatDate(device.credentials.issuedAt)}
+                  </p>
+                  {device.credentials.rotationPending && (
+                    <p className="text-xs text-blue-600 dark:text-blue-400">
+                      Rotation pending — the device will receive a new key on its next check-in
+                    </p>
+                  )}
+                </div>
+              ) : device.credentials?.revokedAt ? (
+                <p className="text-sm text-red-600 dark:text-red-400">
+                  Key revoked {formatDate(device.credentials.revokedAt)}. The device must be re-registered.
+                </p>
+              ) : (
+                <p className="text-sm text-orange-600 dark:text-orange-400">
+                  Using the shared fleet key. A device key will be issued on its next check-in.
+                </p>
+              )}
+            </div>
+            {device.credentials?.hasKey && (
+              <div className="flex gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleRotateKey}
+                  disabled={rotatingKey || device.credentials.rotationPending}
+                  className="text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-500/10"
+                >
+                  {rotatingKey ? <RefreshCw className="h-4 w-4 mr-1.5 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-1.5" />}
+                  Rotate Key
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRevokeConfirm(true)}
+                  className="text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-500/10"
+                >
+                  <Ban className="h-4 w-4 mr-1.5" />
+                  Revoke
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+
         {/* Info Grid */}
         <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
           {/* Device Info */}
@@ -502,6 +723,7 @@ export default function DeviceDetailPage() {
               <InfoRow label="Last Seen" value={formatLastSeen(new Date(device.lastSeen))} />
               <InfoRow label="Firmware" value={device.firmware} />
               <InfoRow label="Uptime" value={formatUptime(device.uptime)} />
+              <InfoRow label="Last Reboot" value={device.lastReboot ? formatLastSeen(new Date(device.lastReboot)) : "—"} />
             </div>
           </div>
 
@@ -513,6 +735,10 @@ export default function DeviceDetailPage() {
             </h2>
             <div className="space-y-3">
               <InfoRow label="Public IP" value={device.publicIp || "—"} />
+              <InfoRow
+                label="ISP"
+                value={device.publicIsp ? `${device.publicIsp}${device.publicAsn ? ` (AS${device.publicAsn})` : ""}` : device.publicAsn ? `AS${device.publicAsn}` : "—"}
+              />
               <InfoRow label="WiFi IP" value={device.wifiIp || "—"} />
               <InfoRow label="WiFi SSID" value={device.wifiSsid || "—"} />
               <InfoRow label="Signal" value={device.wifiSignal ? `${device.wifiSignal} dBm` : "—"} />
@@ -584,6 +810,12 @@ export default function DeviceDetailPage() {
           </div>
         </div>
 
+        <DeviceMetricsCharts deviceId={deviceId} />
+
+        <DeviceNetworkHistory deviceId={deviceId} />
+
+        <DeviceStatusHistory deviceId={deviceId} />
+
         {/* Command History */}
         <div className="bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-xl overflow-hidden mb-6">
           <div className="px-5 py-3 border-b border-gray-200 dark:border-slate-700 flex items-center justify-between">
@@ -615,8 +847,10 @@ export default function DeviceDetailPage() {
                         <CheckCircle className="h-4 w-4 text-green-600 dark:text-green-400" />
                       ) : cmd.status === "failed" ? (
                         <XCircle className="h-4 w-4 text-red-600 dark:text-red-400" />
-                      ) : cmd.status === "sent" ? (
+                      ) : cmd.status === "sent" || cmd.status === "acknowledged" ? (
                         <AlertCircle className="h-4 w-4 text-blue-600 dark:text-blue-400" />
+                      ) : cmd.status === "expired" || cmd.status === "cancelled" || cmd.status === "rejected" ? (
+                        <Ban className="h-4 w-4 text-gray-400 dark:text-slate-500" />
                       ) : (
                         <Clock className="h-4 w-4 text-gray-400 dark:text-slate-500" />
                       )}
@@ -625,25 +859,59 @@ export default function DeviceDetailPage() {
                         cmd.status === "completed" ? "bg-green-100 dark:bg-green-500/20 text-green-700 dark:text-green-400" :
                         cmd.status === "failed" ? "bg-red-100 dark:bg-red-500/20 text-red-700 dark:text-red-400" :
                         cmd.status === "sent" ? "bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-400" :
+                        cmd.status === "acknowledged" ? "bg-indigo-100 dark:bg-indigo-500/20 text-indigo-700 dark:text-indigo-400" :
+                        cmd.status === "expired" ? "bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-400" :
+                        cmd.status === "pending_approval" ? "bg-orange-100 dark:bg-orange-500/20 text-orange-700 dark:text-orange-400" :
+                        cmd.status === "rejected" ? "bg-red-100 dark:bg-red-500/20 text-red-700 dark:text-red-400" :
                         "bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-400"
                       }`}>
-                        {cmd.status}
+                        {cmd.status === "pending_approval" ? "awaiting approval" : cmd.status === "held" ? "held (rollout paused)" : cmd.status}
                       </span>
+                      {!!cmd.retryCount && (
+                        <span className="text-xs text-gray-500 dark:text-slate-400">
+                          retry {cmd.retryCount}/{cmd.maxRetries}
+                        </span>
+                      )}
+                      {cmd.broadcast && (
+                        <span className="text-xs px-2 py-0.5 rounded bg-purple-100 dark:bg-purple-500/20 text-purple-700 dark:text-purple-400">
+                          broadcast
+                        </span>
+                      )}
                     </div>
                     <div className="flex items-center gap-3">
+                      {(cmd.status === "pending" || cmd.status === "pending_approval") && !cmd.broadcast && (
+                        <button
+                          onClick={(e) => { e.stopPropagation(); handleCancelCommand(cmd.id) }}
+                          disabled={cancellingCommand === cmd.id}
+                          className="text-xs text-gray-500 dark:text-slate-400 hover:text-red-600 dark:hover:text-red-400 disabled:opacity-50"
+                        >
+                          {cancellingCommand === cmd.id ? "Cancelling..." : "Cancel"}
+                        </button>
+                      )}
+                      {(cmd.status === "pending" || cmd.status === "pending_approval") && cmd.expiresAt && (
+                        <span className="text-xs text-gray-500 dark:text-slate-400">expires {formatDate(cmd.expiresAt)}</span>
+                      )}
                       <span className="text-xs text-gray-500 dark:text-slate-400">{formatDate(cmd.createdAt)}</span>
                       {expandedCommand === cmd.id ? <ChevronUp className="h-4 w-4 text-gray-400" /> : <ChevronDown className="h-4 w-4 text-gray-400" />}
                     </div>
                   </div>
                   {expandedCommand === cmd.id && (
                     <div className="px-5 pb-3 pt-0">
-                      <div className="bg-gray-100 dark:bg-slate-900 rounded-lg p-3 text-xs font-mono">
-                        {cmd.result ? (
-                          <pre className="whitespace-pre-wrap text-gray-700 dark:text-slate-300">{cmd.result}</pre>
-                        ) : (
-                          <span className="text-gray-500 dark:text-slate-500">No output yet</span>
-                        )}
-                      </div>
+                      {cmd.output ? (
+                        <CommandOutputView commandId={cmd.id} summary={cmd.result} output={cmd.output} />
+                      ) : (
+                        <div className="bg-gray-100 dark:bg-slate-900 rounded-lg p-3 text-xs font-mono">
+                          {cmd.result ? (
+                            <pre className="whitespace-pre-wrap text-gray-700 dark:text-slate-300">{cmd.result}</pre>
+                          ) : cmd.status === "rejected" ? (
+                            <span className="text-gray-500 dark:text-slate-500">Rejected{cmd.reviewNote ? `: ${cmd.reviewNote}` : ""}</span>
+                          ) : cmd.status === "pending_approval" ? (
+                            <span className="text-gray-500 dark:text-slate-500">Waiting for another admin to approve on the Approvals page</span>
+                          ) : (
+                            <span className="text-gray-500 dark:text-slate-500">No output yet</span>
+                          )}
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
@@ -726,6 +994,29 @@ export default function DeviceDetailPage() {
         </div>
       )}
 
+      {/* Revoke Key Confirmation */}
+      {revokeConfirm && (
+        <div className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 w-full max-w-md shadow-xl">
+            <div className="px-4 py-3 border-b border-gray-200 dark:border-slate-700">
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Revoke API Key</h3>
+            </div>
+            <div className="p-4">
+              <p className="text-sm text-gray-600 dark:text-slate-400 mb-4">
+                <strong className="text-gray-900 dark:text-white">{device.name || device.id}</strong> will be rejected at check-in
+                until its owner registers it again. Other devices are not affected.
+              </p>
+              <div className="flex gap-2">
+                <Button variant="ghost" onClick={() => setRevokeConfirm(false)} disabled={revokingKey} className="flex-1 h-9">Cancel</Button>
+                <Button onClick={handleRevokeKey} disabled={revokingKey} className="flex-1 h-9 bg-red-600 hover:bg-red-700 text-white">
+                  {revokingKey ? "Revoking..." : "Revoke Key"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Delete Confirmation */}
       {deleteModal && (
         <div className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-center justify-center z-50 p-4">
@@ -786,44 +1077,68 @@ function MetricBar({ icon, label, value, max }: { icon: React.ReactNode; label:
   )
 }
 
+interface CommandTemplateOption {
+  id: string
+  name: string
+  description: string | null
+  version: number
+  params: TemplateParam[]
+}
+
 function CommandModal({ deviceId, deviceName, onClose, onSent }: { deviceId: string; deviceName: string; onClose: () => void; onSent: () => void }) {
-  const [commandType, setCommandType] = useState("exec")
-  const [payload, setPayload] = useState("")
+  const [templates, setTemplates] = useState<CommandTemplateOption[]>([])
+  const [templateId, setTemplateId] = useState("")
+  const [args, setArgs] = useState<Record<string, string>>({})
+  const [commandType, setCommandType] = useState<CommandType>("exec")
+  const [fields, setFields] = useState<Record<string, string>>({})
+  const [ttlSeconds, setTtlSeconds] = useState("")
+  const [maxRetries, setMaxRetries] = useState("0")
   const [sending, setSending] = useState(false)
   const [error, setError] = useState("")
 
+  useEffect(() => {
+    fetch("/api/templates")
+      .then((res) => res.json())
+      .then((data) => setTemplates(data.templates || []))
+      .catch((error) => console.error("Failed to fetch templates:", error))
+  }, [])
+
+  const template = templates.find((t) => t.id === templateId)
+
+  const selectTemplate = (id: string) => {
+    setTemplateId(id)
+    const selected = templates.find((t) => t.id === id)
+    setArgs(Object.fromEntries((selected?.params || []).map((p) => [p.name, p.default || ""])))
+  }
+
   const sendCommand = async () => {
+    const payloadObj = buildCommandPayload(commandType, fields)
+
+    // Same schema the API checks, so mistakes show before sending
+    if (!template) {
+      const payloadError = validateCommandPayload(commandType, payloadObj)
+      if (payloadError) {
+        setError(payloadError)
+        return
+      }
+    }
+
     setSending(true)
     setError("")
 
     try {
-      let payloadObj: Record<string, unknown> = {}
-
-      switch (commandType) {
-        case "exec":
-          payloadObj = { script: payload }
-          break
-        case "update_blocklist":
-        case "update_firmware":
-          payloadObj = { url: payload }
-          break
-        case "file_download":
-          const [url, path] = payload.split("|").map(s => s.trim())
-          payloadObj = { url, path }
-          break
-        case "set_config":
-          const [key, value] = payload.split("=").map(s => s.trim())
-          payloadObj = { key, value }
-          break
-        case "reboot":
-          payloadObj = {}
-          break
-      }
-
       const res = await fetch("/api/devices/commands", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ deviceId, type: commandType, payload: payloadObj }),
+        body: JSON.stringify({
+          deviceId,
+          // The API renders and validates template arguments
+          ...(template
+            ? { templateId: template.id, args }
+            : { type: commandType, payload: payloadObj }),
+          ttlSeconds: ttlSeconds ? Number(ttlSeconds) : undefined,
+          maxRetries: Number(maxRetries),
+        }),
       })
 
       const data = await res.json()
@@ -851,45 +1166,106 @@ function CommandModal({ deviceId, deviceName, onClose, onSent }: { deviceId: str
         </div>
 
         <div className="p-4 space-y-4">
-          <div>
-            <label className="text-xs text-gray-600 dark:text-slate-400 mb-1.5 block">Command Type</label>
-            <select
-              value={commandType}
-              onChange={(e) => setCommandType(e.target.value)}
-              className="w-full h-9 px-3 text-sm bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white"
-            >
-              <option value="exec">Execute Script</option>
-              <option value="reboot">Reboot</option>
-              <option value="update_blocklist">Update Blocklist</option>
-              <option value="file_download">Download File</option>
-              <option value="set_config">Set Config</option>
-              <option value="update_firmware">Update Firmware</option>
-            </select>
-          </div>
-
-          {commandType !== "reboot" && (
+          {templates.length > 0 && (
             <div>
-              <label className="text-xs text-gray-600 dark:text-slate-400 mb-1.5 block">
-                {commandType === "exec" && "Shell Script"}
-                {commandType === "update_blocklist" && "Blocklist URL"}
-                {commandType === "update_firmware" && "Firmware URL"}
-                {commandType === "file_download" && "URL | Path"}
-                {commandType === "set_config" && "Key=Value"}
-              </label>
-              <textarea
-                value={payload}
-                onChange={(e) => setPayload(e.target.value)}
-                placeholder={
-                  commandType === "exec" ? "#!/bin/sh\necho 'hello'" :
-                  commandType === "file_download" ? "https://example.com/file | /tmp/file" :
-                  commandType === "set_config" ? "network.lan.ipaddr=192.168.1.1" : "https://..."
-                }
-                rows={commandType === "exec" ? 5 : 2}
-                className="w-full px-3 py-2 text-sm bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white font-mono"
-              />
+              <label className="text-xs text-gray-600 dark:text-slate-400 mb-1.5 block">Template</label>
+              <select
+                value={templateId}
+                onChange={(e) => selectTemplate(e.target.value)}
+                className="w-full h-9 px-3 text-sm bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white"
+              >
+                <option value="">None (custom command)</option>
+                {templates.map((t) => (
+                  <option key={t.id} value={t.id}>{t.name} (v{t.version})</option>
+                ))}
+              </select>
+              {template?.description && (
+                <p className="text-xs text-gray-500 dark:text-slate-500 mt-1">{template.description}</p>
+              )}
             </div>
           )}
 
+          {template ? (
+            template.params.map((p) => (
+              <div key={p.name}>
+                <label className="text-xs text-gray-600 dark:text-slate-400 mb-1.5 block">
+                  {p.label || p.name}
+                  {p.required !== false && <span className="text-red-500"> *</span>}
+                </label>
+                {p.type === "enum" ? (
+                  <select
+                    value={args[p.name] || ""}
+                    onChange={(e) => setArgs((prev) => ({ ...prev, [p.name]: e.target.value }))}
+                    className="w-full h-9 px-3 text-sm bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white"
+                  >
+                    <option value="">Select...</option>
+                    {(p.options || []).map((o) => (
+                      <option key={o} value={o}>{o}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    value={args[p.name] || ""}
+                    onChange={(e) => setArgs((prev) => ({ ...prev, [p.name]: e.target.value }))}
+                    placeholder={
+                      p.type === "ip" ? "192.168.1.1" :
+                      p.type === "url" ? "https://..." :
+                      p.type === "integer" ? "0" : p.pattern || ""
+                    }
+                    className="w-full h-9 px-3 text-sm bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white font-mono"
+                  />
+                )}
+              </div>
+            ))
+          ) : (
+            <>
+              <div>
+                <label className="text-xs text-gray-600 dark:text-slate-400 mb-1.5 block">Command Type</label>
+                <select
+                  value={commandType}
+                  onChange={(e) => { setCommandType(e.target.value as CommandType); setFields({}) }}
+                  className="w-full h-9 px-3 text-sm bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white"
+                >
+                  {Object.entries(COMMAND_SCHEMAS).map(([value, schema]) => (
+                    <option key={value} value={value}>{schema.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <CommandPayloadFields type={commandType} values={fields} onChange={setFields} />
+            </>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs text-gray-600 dark:text-slate-400 mb-1.5 block">Expire if not sent within</label>
+              <select
+                value={ttlSeconds}
+                onChange={(e) => setTtlSeconds(e.target.value)}
+                className="w-full h-9 px-3 text-sm bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white"
+              >
+                <option value="">Never</option>
+                <option value="900">15 minutes</option>
+                <option value="3600">1 hour</option>
+                <option value="86400">24 hours</option>
+                <option value="604800">7 days</option>
+              </select>
+            </div>
+            <div>
+              <label className="text-xs text-gray-600 dark:text-slate-400 mb-1.5 block">Retries on timeout</label>
+              <select
+                value={maxRetries}
+                onChange={(e) => setMaxRetries(e.target.value)}
+                className="w-full h-9 px-3 text-sm bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white"
+              >
+                <option value="0">None</option>
+                <option value="1">1</option>
+                <option value="2">2</option>
+                <option value="3">3</option>
+              </select>
+            </div>
+          </div>
+
           {error && (
             <div className="text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/20 rounded-lg px-3 py-2">
               {error}
@@ -898,7 +1274,7 @@ function CommandModal({ deviceId, deviceName, onClose, onSent }: { deviceId: str
 
           <div className="flex gap-2">
             <Button variant="ghost" onClick={onClose} className="flex-1 h-9">Cancel</Button>
-            <Button onClick={sendCommand} disabled={sending || (commandType !== "reboot" && !payload)} className="flex-1 h-9 bg-blue-600 hover:bg-blue-700 text-white">
+            <Button onClick={sendCommand} disabled={sending} className="flex-1 h-9 bg-blue-600 hover:bg-blue-700 text-white">
               {sending ? "Sending..." : "Send Command"}
             </Button>
           </div>
@@ -908,8 +1284,128 @@ function CommandModal({ deviceId, deviceName, onClose, onSent }: { deviceId: str
   )
 }
 
+// Exit code, stdout/stderr and artifacts of a finished command
+function CommandOutputView({ commandId, summary, output }: { commandId: string; summary?: string; output: CommandOutput }) {
+  const [copied, setCopied] = useState<string | null>(null)
+
+  const copyStream = async (name: string, text: string) => {
+    await navigator.clipboard.writeText(text)
+    setCopied(name)
+    setTimeout(() => setCopied(null), 1500)
+  }
+
+  const downloadStream = (name: string, text: string) => {
+    const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }))
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `${commandId.slice(0, 8)}-${name}.txt`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const streams = [
+    { name: "stdout", text: output.stdout },
+    { name: "stderr", text: output.stderr },
+  ].filter((s): s is { name: string; text: string } => !!s.text)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {output.exitCode !== undefined && (
+          <span className={`px-2 py-0.5 rounded font-mono ${
+            output.exitCode === 0
+              ? "bg-green-100 dark:bg-green-500/20 text-green-700 dark:text-green-400"
+              : "bg-red-100 dark:bg-red-500/20 text-red-700 dark:text-red-400"
+          }`}>
+            exit {output.exitCode}
+          </span>
+        )}
+        {output.durationMs !== undefined && (
+          <span className="flex items-center gap-1 text-gray-500 dark:text-slate-400">
+            <Clock className="h-3 w-3" />
+            {output.durationMs < 1000 ? `${output.durationMs}ms` : `${(output.durationMs / 1000).toFixed(1)}s`}
+          </span>
+        )}
+        {output.truncated && (
+          <span className="flex items-center gap-1 text-amber-600 dark:text-amber-400">
+            <AlertTriangle className="h-3 w-3" />
+            Output truncated
+          </span>
+        )}
+        {summary && <span className="text-gray-600 dark:text-slate-300 truncate">{summary}</span>}
+      </div>
+
+      {streams.map((stream) => (
+        <div key={stream.name} className="bg-gray-100 dark:bg-slate-900 rounded-lg overflow-hidden">
+          <div className="px-3 py-1.5 flex items-center justify-between border-b border-gray-200 dark:border-slate-700">
+            <span className={`text-xs font-medium ${stream.name === "stderr" ? "text-red-600 dark:text-red-400" : "text-gray-500 dark:text-slate-400"}`}>
+              {stream.name}
+            </span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => copyStream(stream.name, stream.text)}
+                className="flex items-center gap-1 text-xs text-gray-500 dark:text-slate-400 hover:text-gray-900 dark:hover:text-white"
+              >
+                {copied === stream.name ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+                {copied === stream.name ? "Copied" : "Copy"}
+              </button>
+              <button
+                onClick={() => downloadStream(stream.name, stream.text)}
+                className="flex items-center gap-1 text-xs text-gray-500 dark:text-slate-400 hover:text-gray-900 dark:hover:text-white"
+              >
+                <Download className="h-3 w-3" />
+                Download
+              </button>
+            </div>
+          </div>
+          <pre className="p-3 text-xs font-mono whitespace-pre-wrap break-all text-gray-700 dark:text-slate-300 max-h-80 overflow-y-auto">
+            {stream.text}
+          </pre>
+        </div>
+      ))}
+
+      {output.artifacts && output.artifacts.length > 0 && (
+        <div className="bg-gray-100 dark:bg-slate-900 rounded-lg p-3 space-y-1.5">
+          {output.artifacts.map((artifact, i) => (
+            <div key={i} className="flex items-center gap-2 text-xs">
+              <Paperclip className="h-3 w-3 text-gray-400 dark:text-slate-500" />
+              {artifact.url ? (
+                <a href={artifact.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+                  {artifact.name}
+                </a>
+              ) : (
+                <span className="text-gray-700 dark:text-slate-300">{artifact.name}</span>
+              )}
+              {artifact.sizeBytes !== undefined && (
+                <span className="text-gray-500 dark:text-slate-500">{formatBytes(artifact.sizeBytes)}</span>
+              )}
+              {artifact.sha256 && (
+                <span className="font-mono text-gray-400 dark:text-slate-600" title={artifact.sha256}>
+                  {artifact.sha256.slice(0, 12)}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {streams.length === 0 && !output.artifacts?.length && (
+        <div className="bg-gray-100 dark:bg-slate-900 rounded-lg p-3 text-xs text-gray-500 dark:text-slate-500">
+          No output
+        </div>
+      )}
+    </div>
+  )
+}
+
 function formatNumber(n: number): string {
   if (n >= 1000000) return (n / 1000000).toFixed(1) + "M"
   if (n >= 1000) return (n / 1000).toFixed(1) + "K"
   return n.toString()
 }
+
+function formatBytes(n: number): string {
+  if (n >= 1024 * 1024) return (n / (1024 * 1024)).toFixed(1) + " MB"
+  if (n >= 1024) return (n / 1024).toFixed(1) + " KB"
+  return n + " B"
+}
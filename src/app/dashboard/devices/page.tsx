@@ -13,11 +13,56 @@ import {
   ChevronRight,
   Plus,
   Trash2,
+  Layers,
+  Pencil,
+  Tag,
+  RotateCcw,
+  Download,
+  UserCog,
+  CheckCircle,
+  XCircle,
 } from "lucide-react"
-import { Device } from "@/lib/types"
+import { Device, DEFAULT_BLOCKLIST_URL } from "@/lib/types"
 
 const DEVICES_PER_PAGE = 20
 
+// Mirrors FILTER_FIELDS / FILTER_OPERATORS in src/lib/device-groups.ts
+const GROUP_FILTER_FIELDS: { value: string; label: string; ops: string[]; placeholder: string }[] = [
+  { value: "firmware", label: "Firmware", ops: ["<", "<=", "=", "!=", ">=", ">"], placeholder: "1.4" },
+  { value: "mode", label: "Mode", ops: ["=", "!="], placeholder: "bridge" },
+  { value: "status", label: "Status", ops: ["=", "!="], placeholder: "online" },
+  { value: "public_country", label: "Country", ops: ["=", "!=", "in", "not_in"], placeholder: "DE, or EU" },
+  { value: "public_city", label: "City", ops: ["=", "!=", "in", "not_in"], placeholder: "Berlin" },
+  { value: "name", label: "Name", ops: ["=", "!="], placeholder: "office-gw" },
+  { value: "tag", label: "Tag", ops: ["has", "not_has"], placeholder: "pilot" },
+]
+
+type BulkAction = "rename" | "tag" | "reboot" | "update_blocklist" | "reassign_owner" | "delete"
+
+const BULK_ACTIONS: { value: BulkAction; label: string; icon: typeof Tag }[] = [
+  { value: "rename", label: "Rename", icon: Pencil },
+  { value: "tag", label: "Tag", icon: Tag },
+  { value: "reboot", label: "Reboot", icon: RotateCcw },
+  { value: "update_blocklist", label: "Update Blocklist", icon: Download },
+  { value: "reassign_owner", label: "Reassign Owner", icon: UserCog },
+  { value: "delete", label: "Delete", icon: Trash2 },
+]
+
+interface BulkResult {
+  deviceId: string
+  success: boolean
+  error?: string
+}
+
+interface DeviceGroup {
+  id: string
+  name: string
+  description: string | null
+  kind: "static" | "dynamic"
+  filter: { field: string; op: string; value: string | string[] }[] | null
+  deviceCount: number
+}
+
 export default function Dashboard() {
   const router = useRouter()
   const [devices, setDevices] = useState<Device[]>([])
@@ -26,7 +71,11 @@ export default function Dashboard() {
   const [searchQuery, setSearchQuery] = useState("")
   const [statusFilter, setStatusFilter] = useState<"all" | "online" | "offline">("all")
   const [currentPage, setCurrentPage] = useState(1)
+  const [tagFilter, setTagFilter] = useState("")
   const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [groupsModal, setGroupsModal] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null)
 
   const fetchDevices = async () => {
     try {
@@ -85,9 +134,15 @@ export default function Dashboard() {
         (statusFilter === "online" && isOnline) ||
         (statusFilter === "offline" && !isOnline)
 
-      return matchesSearch && matchesStatus
+      const matchesTag = tagFilter === "" || (device.tags || []).includes(tagFilter)
+
+      return matchesSearch && matchesStatus && matchesTag
     })
-  }, [devices, searchQuery, statusFilter])
+  }, [devices, searchQuery, statusFilter, tagFilter])
+
+  const allTags = useMemo(() => {
+    return Array.from(new Set(devices.flatMap(d => d.tags || []))).sort()
+  }, [devices])
 
   // Pagination
   const totalPages = Math.ceil(filteredDevices.length / DEVICES_PER_PAGE)
@@ -99,7 +154,25 @@ export default function Dashboard() {
   // Reset to page 1 when filter changes
   useEffect(() => {
     setCurrentPage(1)
-  }, [searchQuery, statusFilter])
+  }, [searchQuery, statusFilter, tagFilter])
+
+  const allOnPageSelected = paginatedDevices.length > 0 &&
+    paginatedDevices.every(d => selectedIds.includes(d.id))
+
+  const toggleSelected = (deviceId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(deviceId) ? prev.filter(id => id !== deviceId) : [...prev, deviceId]
+    )
+  }
+
+  const togglePage = () => {
+    const pageIds = paginatedDevices.map(d => d.id)
+    setSelectedIds(prev =>
+      allOnPageSelected
+        ? prev.filter(id => !pageIds.includes(id))
+        : Array.from(new Set([...prev, ...pageIds]))
+    )
+  }
 
   const isDeviceOnline = (device: Device) => {
     return device.status === "online" ||
@@ -123,6 +196,15 @@ export default function Dashboard() {
           </p>
         </div>
         <div className="flex items-center gap-3">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setGroupsModal(true)}
+            className="h-9 px-4"
+          >
+            <Layers className="h-4 w-4 mr-1.5" />
+            Groups
+          </Button>
           <Button
             variant="default"
             size="sm"
@@ -171,6 +253,20 @@ export default function Dashboard() {
                 />
               </div>
 
+              {/* Tag Filter */}
+              {allTags.length > 0 && (
+                <select
+                  value={tagFilter}
+                  onChange={(e) => setTagFilter(e.target.value)}
+                  className="h-8 px-2 text-xs bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white focus:outline-none focus:border-blue-500"
+                >
+                  <option value="">All tags</option>
+                  {allTags.map((tag) => (
+                    <option key={tag} value={tag}>{tag}</option>
+                  ))}
+                </select>
+              )}
+
               {/* Status Filter */}
               <div className="flex items-center bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded-lg p-0.5">
                 {(["all", "online", "offline"] as const).map((status) => (
@@ -190,6 +286,37 @@ export default function Dashboard() {
             </div>
           </div>
 
+          {/* Bulk Actions */}
+          {selectedIds.length > 0 && (
+            <div className="px-4 py-2 border-b border-gray-200 dark:border-slate-700 bg-blue-50 dark:bg-blue-500/10 flex flex-wrap items-center gap-2">
+              <span className="text-xs font-medium text-blue-700 dark:text-blue-300 mr-2">
+                {selectedIds.length} selected
+              </span>
+              {BULK_ACTIONS.map(({ value, label, icon: Icon }) => (
+                <Button
+                  key={value}
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setBulkAction(value)}
+                  className={`h-7 px-2.5 text-xs ${
+                    value === "delete"
+                      ? "text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-500/10"
+                      : "text-gray-700 dark:text-slate-300"
+                  }`}
+                >
+                  <Icon className="h-3.5 w-3.5 mr-1" />
+                  {label}
+                </Button>
+              ))}
+              <button
+                onClick={() => setSelectedIds([])}
+                className="ml-auto text-xs text-gray-500 dark:text-slate-400 hover:text-gray-900 dark:hover:text-white"
+              >
+                Clear selection
+              </button>
+            </div>
+          )}
+
           {/* Device Table */}
           {loading ? (
             <div className="p-12 text-center">
@@ -212,6 +339,9 @@ export default function Dashboard() {
                 <table className="w-full">
                   <thead>
                     <tr className="border-b border-gray-200 dark:border-slate-700 bg-gray-50 dark:bg-slate-900/50">
+                      <th className="w-10 px-4 py-2.5">
+                        <input type="checkbox" checked={allOnPageSelected} onChange={togglePage} />
+                      </th>
                       <th className="text-left px-4 py-2.5 text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">Status</th>
                       <th className="text-left px-4 py-2.5 text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">Device</th>
                       <th className="text-left px-4 py-2.5 text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">Mode</th>
@@ -231,6 +361,13 @@ export default function Dashboard() {
                           onClick={() => router.push(`/dashboard/devices/${device.id}`)}
                           className="hover:bg-gray-50 dark:hover:bg-slate-700/50 cursor-pointer transition-colors"
                         >
+                          <td className="px-4 py-3" onClick={(e) => e.stopPropagation()}>
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.includes(device.id)}
+                              onChange={() => toggleSelected(device.id)}
+                            />
+                          </td>
                           <td className="px-4 py-3">
                             <div className="flex items-center gap-2">
                               <span className={`h-2 w-2 rounded-full ${online ? "bg-green-500" : "bg-gray-400 dark:bg-slate-500"}`} />
@@ -246,6 +383,15 @@ export default function Dashboard() {
                             <div className="text-xs text-gray-500 dark:text-slate-500 font-mono">
                               {device.id}
                             </div>
+                            {device.tags && device.tags.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {device.tags.map((tag) => (
+                                  <span key={tag} className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300">
+                                    {tag}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
                           </td>
                           <td className="px-4 py-3">
                             <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${
@@ -340,6 +486,487 @@ export default function Dashboard() {
           )}
         </div>
       </div>
+
+      {groupsModal && (
+        <GroupsModal devices={devices} onClose={() => setGroupsModal(false)} />
+      )}
+
+      {bulkAction && (
+        <BulkActionModal
+          action={bulkAction}
+          devices={devices.filter(d => selectedIds.includes(d.id))}
+          onClose={() => setBulkAction(null)}
+          onDone={() => {
+            setBulkAction(null)
+            setSelectedIds([])
+            fetchDevices()
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+function BulkActionModal({
+  action,
+  devices,
+  onClose,
+  onDone,
+}: {
+  action: BulkAction
+  devices: Device[]
+  onClose: () => void
+  onDone: () => void
+}) {
+  const [pattern, setPattern] = useState("device-{n}")
+  const [addTags, setAddTags] = useState("")
+  const [removeTags, setRemoveTags] = useState("")
+  const [customers, setCustomers] = useState<{ id: string; email: string; name?: string }[]>([])
+  const [customerUserId, setCustomerUserId] = useState("")
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState("")
+  const [results, setResults] = useState<BulkResult[] | null>(null)
+
+  const label = BULK_ACTIONS.find(a => a.value === action)?.label
+
+  useEffect(() => {
+    if (action !== "reassign_owner") return
+    fetch("/api/users")
+      .then((res) => res.json())
+      .then((data) => setCustomers(data.users || []))
+      .catch((error) => console.error("Failed to fetch customers:", error))
+  }, [action])
+
+  const splitTags = (value: string) => value.split(",").map(t => t.trim()).filter(Boolean)
+
+  // Same expansion as the bulk API, for the preview
+  const previewName = (device: Device, index: number) => pattern
+    .replace(/\{n\}/g, String(index + 1))
+    .replace(/\{id\}/g, device.id)
+    .replace(/\{name\}/g, device.name || device.id)
+
+  const runAction = async () => {
+    setRunning(true)
+    setError("")
+
+    const params: Record<string, unknown> =
+      action === "rename" ? { pattern } :
+      action === "tag" ? { addTags: splitTags(addTags), removeTags: splitTags(removeTags) } :
+      action === "reassign_owner" ? { customerUserId: customerUserId || null } :
+      action === "update_blocklist" ? { url: DEFAULT_BLOCKLIST_URL } : {}
+
+    try {
+      const res = await fetch("/api/devices/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, deviceIds: devices.map(d => d.id), ...params }),
+      })
+
+      const data = await res.json()
+      if (data.results) {
+        setResults(data.results)
+      } else {
+        setError(data.error || "Bulk action failed")
+      }
+    } catch {
+      setError("Network error")
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const nameFor = (deviceId: string) => {
+    const device = devices.find(d => d.id === deviceId)
+    return device?.name || deviceId
+  }
+
+  const inputClass = "w-full h-9 px-3 text-sm bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white"
+  const labelClass = "text-xs text-gray-600 dark:text-slate-400 mb-1.5 block"
+
+  return (
+    <div className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 w-full max-w-md shadow-xl max-h-[90vh] flex flex-col">
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-slate-700 flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+            {label} {devices.length} device{devices.length === 1 ? "" : "s"}
+          </h3>
+          <button onClick={results ? onDone : onClose} className="text-gray-400 hover:text-gray-900 dark:hover:text-white text-xl">×</button>
+        </div>
+
+        {results ? (
+          <div className="p-4 space-y-3 overflow-y-auto">
+            <p className="text-sm text-gray-700 dark:text-slate-300">
+              {results.filter(r => r.success).length} succeeded, {results.filter(r => !r.success).length} failed
+            </p>
+            <div className="border border-gray-200 dark:border-slate-700 rounded-lg divide-y divide-gray-200 dark:divide-slate-700 max-h-72 overflow-y-auto">
+              {results.map((r) => (
+                <div key={r.deviceId} className="px-3 py-1.5 flex items-center gap-2 text-sm">
+                  {r.success
+                    ? <CheckCircle className="h-4 w-4 text-green-500 flex-shrink-0" />
+                    : <XCircle className="h-4 w-4 text-red-500 flex-shrink-0" />}
+                  <span className="text-gray-900 dark:text-white truncate">{nameFor(r.deviceId)}</span>
+                  {r.error && <span className="ml-auto text-xs text-red-600 dark:text-red-400">{r.error}</span>}
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <Button size="sm" onClick={onDone}>Done</Button>
+            </div>
+          </div>
+        ) : (
+          <div className="p-4 space-y-4 overflow-y-auto">
+            {action === "rename" && (
+              <div>
+                <label className={labelClass}>Name pattern</label>
+                <input value={pattern} onChange={(e) => setPattern(e.target.value)} className={`${inputClass} font-mono`} />
+                <p className="text-xs text-gray-500 dark:text-slate-500 mt-1.5">
+                  {"{n}"} is the position in the selection, {"{id}"} the device ID, {"{name}"} the current name.
+                </p>
+                <div className="mt-2 space-y-0.5">
+                  {devices.slice(0, 3).map((d, i) => (
+                    <p key={d.id} className="text-xs text-gray-600 dark:text-slate-400 truncate">
+                      {d.name || d.id} → <span className="font-mono text-gray-900 dark:text-white">{previewName(d, i)}</span>
+                    </p>
+                  ))}
+                  {devices.length > 3 && (
+                    <p className="text-xs text-gray-500 dark:text-slate-500">and {devices.length - 3} more</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {action === "tag" && (
+              <>
+                <div>
+                  <label className={labelClass}>Add tags</label>
+                  <input value={addTags} onChange={(e) => setAddTags(e.target.value)} placeholder="pilot, eu-west" className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Remove tags</label>
+                  <input value={removeTags} onChange={(e) => setRemoveTags(e.target.value)} placeholder="staging" className={inputClass} />
+                </div>
+              </>
+            )}
+
+            {action === "reassign_owner" && (
+              <div>
+                <label className={labelClass}>New owner</label>
+                <select value={customerUserId} onChange={(e) => setCustomerUserId(e.target.value)} className={inputClass}>
+                  <option value="">Unassigned</option>
+                  {customers.map((c) => (
+                    <option key={c.id} value={c.id}>{c.name ? `${c.name} (${c.email})` : c.email}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {action === "reboot" && (
+              <p className="text-sm text-gray-600 dark:text-slate-400">
+                Queue a reboot for each selected device. Offline devices reboot when they next check in.
+              </p>
+            )}
+
+            {action === "update_blocklist" && (
+              <p className="text-sm text-gray-600 dark:text-slate-400">
+                Queue a blocklist update for each selected device.
+              </p>
+            )}
+
+            {action === "delete" && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                Delete the selected devices and all their data. This cannot be undone.
+              </p>
+            )}
+
+            {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={onClose}>Cancel</Button>
+              <Button
+                size="sm"
+                onClick={runAction}
+                disabled={running || (action === "rename" && !pattern.trim()) || (action === "tag" && !addTags.trim() && !removeTags.trim())}
+                className={action === "delete" ? "bg-red-600 hover:bg-red-700 text-white" : ""}
+              >
+                {running ? "Working..." : label}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function GroupsModal({ devices, onClose }: { devices: Device[]; onClose: () => void }) {
+  const [groups, setGroups] = useState<DeviceGroup[]>([])
+  const [loading, setLoading] = useState(true)
+  const [creating, setCreating] = useState(false)
+  const [name, setName] = useState("")
+  const [description, setDescription] = useState("")
+  const [kind, setKind] = useState<"static" | "dynamic">("dynamic")
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [conditions, setConditions] = useState([{ field: "firmware", op: "<", value: "" }])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  const fetchGroups = async () => {
+    try {
+      const res = await fetch("/api/groups")
+      const data = await res.json()
+      setGroups(data.groups || [])
+    } catch (error) {
+      console.error("Failed to fetch groups:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchGroups()
+  }, [])
+
+  const resetForm = () => {
+    setName("")
+    setDescription("")
+    setSelectedIds([])
+    setConditions([{ field: "firmware", op: "<", value: "" }])
+    setError("")
+    setCreating(false)
+  }
+
+  const updateCondition = (index: number, patch: Partial<{ field: string; op: string; value: string }>) => {
+    setConditions(prev => prev.map((c, i) => {
+      if (i !== index) return c
+      const next = { ...c, ...patch }
+      // Switching field resets the operator to one that field supports
+      if (patch.field) {
+        next.op = GROUP_FILTER_FIELDS.find(f => f.value === patch.field)?.ops[0] || "="
+      }
+      return next
+    }))
+  }
+
+  const createGroup = async () => {
+    setSaving(true)
+    setError("")
+
+    try {
+      const res = await fetch("/api/groups", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          description,
+          kind,
+          ...(kind === "static"
+            ? { deviceIds: selectedIds }
+            : {
+                filter: conditions.map(c => ({
+                  field: c.field,
+                  op: c.op,
+                  value: c.op === "in" || c.op === "not_in"
+                    ? c.value.split(",").map(v => v.trim()).filter(Boolean)
+                    : c.value.trim(),
+                })),
+              }),
+        }),
+      })
+
+      const data = await res.json()
+      if (data.success) {
+        resetForm()
+        fetchGroups()
+      } else {
+        setError(data.error || "Failed to create group")
+      }
+    } catch {
+      setError("Network error")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteGroup = async (group: DeviceGroup) => {
+    if (!confirm(`Delete group "${group.name}"? Devices are not affected.`)) return
+
+    try {
+      const res = await fetch(`/api/groups/${group.id}`, { method: "DELETE" })
+      if (res.ok) {
+        setGroups(prev => prev.filter(g => g.id !== group.id))
+      } else {
+        const data = await res.json()
+        alert("Failed to delete group: " + (data.error || "Unknown error"))
+      }
+    } catch (error) {
+      console.error("Delete group failed:", error)
+    }
+  }
+
+  const describeFilter = (group: DeviceGroup) => {
+    return (group.filter || [])
+      .map(c => `${c.field} ${c.op} ${Array.isArray(c.value) ? c.value.join(", ") : c.value}`)
+      .join(" and ")
+  }
+
+  const inputClass = "w-full h-9 px-3 text-sm bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white"
+  const labelClass = "text-xs text-gray-600 dark:text-slate-400 mb-1.5 block"
+
+  return (
+    <div className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 w-full max-w-lg shadow-xl max-h-[90vh] flex flex-col">
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-slate-700 flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Device Groups</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-900 dark:hover:text-white text-xl">×</button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          {loading ? (
+            <p className="text-sm text-gray-500 dark:text-slate-400">Loading groups...</p>
+          ) : groups.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-slate-400">
+              No groups yet. Groups and tags can be used as targets when sending commands.
+            </p>
+          ) : (
+            <div className="divide-y divide-gray-200 dark:divide-slate-700 border border-gray-200 dark:border-slate-700 rounded-lg">
+              {groups.map((group) => (
+                <div key={group.id} className="px-3 py-2.5 flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-gray-900 dark:text-white">{group.name}</span>
+                      <span className="text-xs px-1.5 py-0.5 rounded bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300">
+                        {group.kind}
+                      </span>
+                      <span className="text-xs text-gray-500 dark:text-slate-500">
+                        {group.deviceCount} device{group.deviceCount === 1 ? "" : "s"}
+                      </span>
+                    </div>
+                    {group.description && (
+                      <p className="text-xs text-gray-500 dark:text-slate-400 mt-0.5">{group.description}</p>
+                    )}
+                    {group.kind === "dynamic" && (
+                      <p className="text-xs text-gray-500 dark:text-slate-500 font-mono mt-0.5 truncate">{describeFilter(group)}</p>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteGroup(group)}
+                    className="h-7 w-7 p-0 text-gray-400 hover:text-red-600 dark:text-slate-500 dark:hover:text-red-400"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!creating ? (
+            <Button variant="outline" size="sm" onClick={() => setCreating(true)}>
+              <Plus className="h-4 w-4 mr-1.5" />
+              New Group
+            </Button>
+          ) : (
+            <div className="space-y-4 border-t border-gray-200 dark:border-slate-700 pt-4">
+              <div>
+                <label className={labelClass}>Name</label>
+                <input value={name} onChange={(e) => setName(e.target.value)} placeholder="EU bridges" className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Description</label>
+                <input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Optional" className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Membership</label>
+                <div className="flex items-center gap-1">
+                  {([["dynamic", "Filter"], ["static", "Pick devices"]] as const).map(([value, label]) => (
+                    <button
+                      key={value}
+                      onClick={() => setKind(value)}
+                      className={`text-xs px-2.5 py-1 rounded ${
+                        kind === value
+                          ? "bg-gray-900 dark:bg-white text-white dark:text-gray-900"
+                          : "text-gray-500 dark:text-slate-400 hover:bg-gray-100 dark:hover:bg-slate-700"
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {kind === "dynamic" ? (
+                <div className="space-y-2">
+                  {conditions.map((c, i) => {
+                    const field = GROUP_FILTER_FIELDS.find(f => f.value === c.field) || GROUP_FILTER_FIELDS[0]
+                    return (
+                      <div key={i} className="flex items-center gap-2">
+                        <select value={c.field} onChange={(e) => updateCondition(i, { field: e.target.value })} className={`${inputClass} w-32`}>
+                          {GROUP_FILTER_FIELDS.map((f) => (
+                            <option key={f.value} value={f.value}>{f.label}</option>
+                          ))}
+                        </select>
+                        <select value={c.op} onChange={(e) => updateCondition(i, { op: e.target.value })} className={`${inputClass} w-24`}>
+                          {field.ops.map((op) => (
+                            <option key={op} value={op}>{op.replace("_", " ")}</option>
+                          ))}
+                        </select>
+                        <input
+                          value={c.value}
+                          onChange={(e) => updateCondition(i, { value: e.target.value })}
+                          placeholder={c.op === "in" || c.op === "not_in" ? "DE, FR, NL" : field.placeholder}
+                          className={inputClass}
+                        />
+                        {conditions.length > 1 && (
+                          <button
+                            onClick={() => setConditions(prev => prev.filter((_, j) => j !== i))}
+                            className="text-gray-400 hover:text-red-500 text-lg"
+                          >
+                            ×
+                          </button>
+                        )}
+                      </div>
+                    )
+                  })}
+                  <button
+                    onClick={() => setConditions(prev => [...prev, { field: "mode", op: "=", value: "" }])}
+                    className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    + Add condition
+                  </button>
+                  <p className="text-xs text-gray-500 dark:text-slate-500">
+                    All conditions must match. Country accepts &quot;EU&quot; for every member state.
+                  </p>
+                </div>
+              ) : (
+                <div className="max-h-48 overflow-y-auto border border-gray-200 dark:border-slate-700 rounded-lg divide-y divide-gray-200 dark:divide-slate-700">
+                  {devices.map((d) => (
+                    <label key={d.id} className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-900 dark:text-white cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(d.id)}
+                        onChange={(e) => setSelectedIds(prev =>
+                          e.target.checked ? [...prev, d.id] : prev.filter(id => id !== d.id)
+                        )}
+                      />
+                      {d.name || d.id}
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={resetForm}>Cancel</Button>
+                <Button size="sm" onClick={createGroup} disabled={saving || !name.trim()}>
+                  {saving ? "Creating..." : "Create Group"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
     </div>
   )
 }
@@ -0,0 +1,483 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import {
+  Rocket,
+  RefreshCw,
+  Plus,
+  Play,
+  Pause,
+  SkipForward,
+  CircleStop,
+  ChevronDown,
+  ChevronUp,
+  AlertTriangle,
+} from "lucide-react"
+
+interface Campaign {
+  id: string
+  name: string
+  firmwareUrl: string
+  sha256: string
+  targetVersion: string
+  cohort: {
+    percentage: number
+    firmware: string | null
+    country: string | null
+    customerUserId: string | null
+  }
+  wavePercentages: number[]
+  currentWave: number
+  autoAdvance: boolean
+  failureThreshold: number
+  updateTimeoutMinutes: number
+  status: "draft" | "running" | "paused" | "completed" | "cancelled"
+  pauseReason: string | null
+  createdAt: string
+  startedAt: string | null
+  completedAt: string | null
+  progress: {
+    enrolled: number
+    updating: number
+    succeeded: number
+    failed: number
+  }
+}
+
+interface CampaignDevice {
+  deviceId: string
+  deviceName: string
+  currentFirmware?: string
+  wave: number
+  status: "updating" | "succeeded" | "failed"
+  previousFirmware?: string
+  failureReason?: string
+  startedAt: string
+  finishedAt?: string
+}
+
+const STATUS_STYLES: Record<Campaign["status"], string> = {
+  draft: "bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-400",
+  running: "bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-400",
+  paused: "bg-orange-100 dark:bg-orange-500/20 text-orange-700 dark:text-orange-400",
+  completed: "bg-green-100 dark:bg-green-500/20 text-green-700 dark:text-green-400",
+  cancelled: "bg-gray-100 dark:bg-slate-700 text-gray-500 dark:text-slate-500",
+}
+
+export default function FirmwarePage() {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([])
+  const [loading, setLoading] = useState(true)
+  const [lastRefresh, setLastRefresh] = useState<Date>(new Date())
+  const [createModal, setCreateModal] = useState(false)
+  const [actionPending, setActionPending] = useState<string | null>(null)
+  const [expandedCampaign, setExpandedCampaign] = useState<string | null>(null)
+  const [campaignDevices, setCampaignDevices] = useState<CampaignDevice[]>([])
+
+  const fetchCampaigns = async () => {
+    try {
+      const res = await fetch("/api/firmware/campaigns")
+      const data = await res.json()
+      setCampaigns(data.campaigns || [])
+      setLastRefresh(new Date())
+    } catch (error) {
+      console.error("Failed to fetch campaigns:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchCampaignDevices = async (campaignId: string) => {
+    try {
+      const res = await fetch(`/api/firmware/campaigns/${campaignId}`)
+      const data = await res.json()
+      setCampaignDevices(data.devices || [])
+    } catch (error) {
+      console.error("Failed to fetch campaign devices:", error)
+    }
+  }
+
+  useEffect(() => {
+    fetchCampaigns()
+    const interval = setInterval(fetchCampaigns, 10000)
+    return () => clearInterval(interval)
+  }, [])
+
+  useEffect(() => {
+    if (expandedCampaign) {
+      fetchCampaignDevices(expandedCampaign)
+    }
+  }, [expandedCampaign, lastRefresh])
+
+  const runAction = async (campaignId: string, action: string) => {
+    if (action === "cancel" && !confirm("Cancel this campaign? Updates not yet delivered will be withdrawn.")) {
+      return
+    }
+
+    setActionPending(campaignId)
+    try {
+      const res = await fetch(`/api/firmware/campaigns/${campaignId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        alert("Failed: " + (data.error || "Unknown error"))
+      }
+      fetchCampaigns()
+    } catch (error) {
+      console.error("Campaign action failed:", error)
+    } finally {
+      setActionPending(null)
+    }
+  }
+
+  const formatDate = (date: string | null | undefined) => {
+    if (!date) return "—"
+    const d = new Date(date)
+    return d.toLocaleDateString() + " " + d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  }
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Firmware Rollouts</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Staged firmware updates with automatic halt on failures
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Button
+            size="sm"
+            onClick={() => setCreateModal(true)}
+            className="h-9 px-4 bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            <Plus className="h-4 w-4 mr-1.5" />
+            New Campaign
+          </Button>
+          <span className="text-xs text-gray-500 dark:text-slate-500">
+            Updated {lastRefresh.toLocaleTimeString()}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={fetchCampaigns}
+            className="h-9 px-3 text-gray-500 dark:text-slate-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="p-12 text-center">
+          <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-3 text-gray-500 dark:text-slate-500" />
+          <p className="text-sm text-gray-500 dark:text-slate-400">Loading campaigns...</p>
+        </div>
+      ) : campaigns.length === 0 ? (
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 p-12 text-center">
+          <Rocket className="h-10 w-10 text-gray-300 dark:text-slate-600 mx-auto mb-3" />
+          <p className="text-sm text-gray-600 dark:text-slate-400 mb-1">No rollout campaigns yet</p>
+          <p className="text-xs text-gray-500 dark:text-slate-500">Create a campaign to update firmware in stages</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {campaigns.map((campaign) => {
+            const { enrolled, updating, succeeded, failed } = campaign.progress
+            const pct = (n: number) => (enrolled > 0 ? (n / enrolled) * 100 : 0)
+            const expanded = expandedCampaign === campaign.id
+            const busy = actionPending === campaign.id
+
+            return (
+              <div key={campaign.id} className="bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-xl overflow-hidden">
+                <div className="p-5">
+                  <div className="flex items-start justify-between mb-3">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <h2 className="text-sm font-semibold text-gray-900 dark:text-white">{campaign.name}</h2>
+                        <span className={`text-xs px-2 py-0.5 rounded ${STATUS_STYLES[campaign.status]}`}>
+                          {campaign.status}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">
+                        Firmware <span className="font-mono">{campaign.targetVersion}</span>
+                        {" · "}Wave {campaign.currentWave}/{campaign.wavePercentages.length} ({campaign.wavePercentages.join("% → ")}%)
+                        {" · "}Halts at {Math.round(campaign.failureThreshold * 100)}% failures
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-slate-500 mt-0.5">
+                        Cohort: {campaign.cohort.percentage}% of devices
+                        {campaign.cohort.firmware && ` on ${campaign.cohort.firmware}`}
+                        {campaign.cohort.country && ` in ${campaign.cohort.country}`}
+                        {campaign.cohort.customerUserId && ` owned by ${campaign.cohort.customerUserId.slice(0, 8)}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {campaign.status === "draft" && (
+                        <Button size="sm" onClick={() => runAction(campaign.id, "start")} disabled={busy} className="h-8 px-3 bg-blue-600 hover:bg-blue-700 text-white text-xs">
+                          <Play className="h-3.5 w-3.5 mr-1.5" />
+                          Start
+                        </Button>
+                      )}
+                      {campaign.status === "running" && campaign.currentWave < campaign.wavePercentages.length && (
+                        <Button size="sm" variant="ghost" onClick={() => runAction(campaign.id, "next_wave")} disabled={busy} className="h-8 px-3 text-blue-600 dark:text-blue-400 text-xs">
+                          <SkipForward className="h-3.5 w-3.5 mr-1.5" />
+                          Next Wave
+                        </Button>
+                      )}
+                      {campaign.status === "running" && (
+                        <Button size="sm" variant="ghost" onClick={() => runAction(campaign.id, "pause")} disabled={busy} className="h-8 px-3 text-orange-600 dark:text-orange-400 text-xs">
+                          <Pause className="h-3.5 w-3.5 mr-1.5" />
+                          Pause
+                        </Button>
+                      )}
+                      {campaign.status === "paused" && (
+                        <Button size="sm" variant="ghost" onClick={() => runAction(campaign.id, "resume")} disabled={busy} className="h-8 px-3 text-blue-600 dark:text-blue-400 text-xs">
+                          <Play className="h-3.5 w-3.5 mr-1.5" />
+                          Resume
+                        </Button>
+                      )}
+                      {["draft", "running", "paused"].includes(campaign.status) && (
+                        <Button size="sm" variant="ghost" onClick={() => runAction(campaign.id, "cancel")} disabled={busy} className="h-8 px-3 text-red-600 dark:text-red-400 text-xs">
+                          <CircleStop className="h-3.5 w-3.5 mr-1.5" />
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {campaign.pauseReason && campaign.status === "paused" && (
+                    <div className="flex items-center gap-2 text-xs text-orange-700 dark:text-orange-300 bg-orange-50 dark:bg-orange-500/10 border border-orange-200 dark:border-orange-500/20 rounded-lg px-3 py-2 mb-3">
+                      <AlertTriangle className="h-3.5 w-3.5" />
+                      {campaign.pauseReason}
+                    </div>
+                  )}
+
+                  {/* Progress */}
+                  <div className="h-2 bg-gray-200 dark:bg-slate-700 rounded-full overflow-hidden flex">
+                    <div className="h-full bg-green-500" style={{ width: `${pct(succeeded)}%` }} />
+                    <div className="h-full bg-red-500" style={{ width: `${pct(failed)}%` }} />
+                    <div className="h-full bg-blue-500 animate-pulse" style={{ width: `${pct(updating)}%` }} />
+                  </div>
+                  <div className="flex items-center justify-between mt-2">
+                    <div className="flex items-center gap-4 text-xs text-gray-600 dark:text-slate-400">
+                      <span>{enrolled} enrolled</span>
+                      <span className="text-green-600 dark:text-green-400">{succeeded} updated</span>
+                      <span className="text-red-600 dark:text-red-400">{failed} failed</span>
+                      <span className="text-blue-600 dark:text-blue-400">{updating} in progress</span>
+                    </div>
+                    <button
+                      onClick={() => setExpandedCampaign(expanded ? null : campaign.id)}
+                      className="flex items-center gap-1 text-xs text-gray-500 dark:text-slate-400 hover:text-gray-900 dark:hover:text-white"
+                    >
+                      Devices
+                      {expanded ? <ChevronUp className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+                    </button>
+                  </div>
+                </div>
+
+                {expanded && (
+                  <div className="border-t border-gray-200 dark:border-slate-700 overflow-x-auto">
+                    {campaignDevices.length === 0 ? (
+                      <p className="p-6 text-center text-sm text-gray-500 dark:text-slate-400">No devices enrolled yet</p>
+                    ) : (
+                      <table className="w-full">
+                        <thead>
+                          <tr className="border-b border-gray-200 dark:border-slate-700 bg-gray-50 dark:bg-slate-900/50">
+                            <th className="text-left px-4 py-2.5 text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">Device</th>
+                            <th className="text-left px-4 py-2.5 text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">Wave</th>
+                            <th className="text-left px-4 py-2.5 text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">Status</th>
+                            <th className="text-left px-4 py-2.5 text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">Firmware</th>
+                            <th className="text-left px-4 py-2.5 text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">Started</th>
+                            <th className="text-left px-4 py-2.5 text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">Details</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                          {campaignDevices.map((d) => (
+                            <tr key={d.deviceId}>
+                              <td className="px-4 py-2.5">
+                                <Link href={`/dashboard/devices/${d.deviceId}`} className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline">
+                                  {d.deviceName}
+                                </Link>
+                              </td>
+                              <td className="px-4 py-2.5 text-xs text-gray-600 dark:text-slate-400">{d.wave}</td>
+                              <td className="px-4 py-2.5">
+                                <span className={`text-xs px-2 py-0.5 rounded ${
+                                  d.status === "succeeded" ? "bg-green-100 dark:bg-green-500/20 text-green-700 dark:text-green-400" :
+                                  d.status === "failed" ? "bg-red-100 dark:bg-red-500/20 text-red-700 dark:text-red-400" :
+                                  "bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-400"
+                                }`}>
+                                  {d.status}
+                                </span>
+                              </td>
+                              <td className="px-4 py-2.5 text-xs font-mono text-gray-600 dark:text-slate-400">
+                                {d.previousFirmware || "—"} → {d.currentFirmware || "—"}
+                              </td>
+                              <td className="px-4 py-2.5 text-xs text-gray-600 dark:text-slate-400">{formatDate(d.startedAt)}</td>
+                              <td className="px-4 py-2.5 text-xs text-red-600 dark:text-red-400">{d.failureReason || ""}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {createModal && (
+        <CreateCampaignModal
+          onClose={() => setCreateModal(false)}
+          onCreated={() => { setCreateModal(false); fetchCampaigns() }}
+        />
+      )}
+    </div>
+  )
+}
+
+function CreateCampaignModal({ onClose, onCreated }: { onClose: () => void; onCreated: () => void }) {
+  const [name, setName] = useState("")
+  const [firmwareUrl, setFirmwareUrl] = useState("")
+  const [sha256, setSha256] = useState("")
+  const [targetVersion, setTargetVersion] = useState("")
+  const [percentage, setPercentage] = useState("100")
+  const [cohortFirmware, setCohortFirmware] = useState("")
+  const [cohortCountry, setCohortCountry] = useState("")
+  const [cohortOwner, setCohortOwner] = useState("")
+  const [waves, setWaves] = useState("5, 25, 50, 100")
+  const [threshold, setThreshold] = useState("10")
+  const [timeout, setTimeoutMinutes] = useState("30")
+  const [autoAdvance, setAutoAdvance] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  const createCampaign = async () => {
+    setSaving(true)
+    setError("")
+
+    try {
+      const res = await fetch("/api/firmware/campaigns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          firmwareUrl: firmwareUrl.trim(),
+          sha256: sha256.trim(),
+          targetVersion,
+          cohort: {
+            percentage: parseInt(percentage, 10),
+            firmware: cohortFirmware.trim() || null,
+            country: cohortCountry.trim() || null,
+            customerUserId: cohortOwner.trim() || null,
+          },
+          wavePercentages: waves.split(",").map((w) => parseInt(w.trim(), 10)),
+          failureThreshold: parseFloat(threshold) / 100,
+          updateTimeoutMinutes: parseInt(timeout, 10),
+          autoAdvance,
+        }),
+      })
+
+      const data = await res.json()
+      if (data.success) {
+        onCreated()
+      } else {
+        setError(data.error || "Failed to create campaign")
+      }
+    } catch {
+      setError("Network error")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = "w-full h-9 px-3 text-sm bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white"
+  const labelClass = "text-xs text-gray-600 dark:text-slate-400 mb-1.5 block"
+
+  return (
+    <div className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 w-full max-w-lg shadow-xl max-h-[90vh] overflow-y-auto">
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-slate-700 flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white">New Rollout Campaign</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-900 dark:hover:text-white text-xl">×</button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <label className={labelClass}>Name</label>
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder="1.4.0 stable" className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Firmware URL</label>
+            <input value={firmwareUrl} onChange={(e) => setFirmwareUrl(e.target.value)} placeholder="https://..." className={`${inputClass} font-mono`} />
+          </div>
+          <div>
+            <label className={labelClass}>SHA-256</label>
+            <input value={sha256} onChange={(e) => setSha256(e.target.value)} placeholder="64 hex characters" className={`${inputClass} font-mono`} />
+          </div>
+          <div>
+            <label className={labelClass}>Target firmware version (as reported by devices)</label>
+            <input value={targetVersion} onChange={(e) => setTargetVersion(e.target.value)} placeholder="1.4.0" className={`${inputClass} font-mono`} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Cohort % of fleet</label>
+              <input type="number" min={1} max={100} value={percentage} onChange={(e) => setPercentage(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Current firmware (optional)</label>
+              <input value={cohortFirmware} onChange={(e) => setCohortFirmware(e.target.value)} placeholder="1.3.2" className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Country (optional)</label>
+              <input value={cohortCountry} onChange={(e) => setCohortCountry(e.target.value)} placeholder="Germany" className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Owner user ID (optional)</label>
+              <input value={cohortOwner} onChange={(e) => setCohortOwner(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className={labelClass}>Waves (cumulative %)</label>
+              <input value={waves} onChange={(e) => setWaves(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Halt at failure %</label>
+              <input type="number" min={1} max={100} value={threshold} onChange={(e) => setThreshold(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Update timeout (min)</label>
+              <input type="number" min={1} value={timeout} onChange={(e) => setTimeoutMinutes(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-slate-400">
+            <input type="checkbox" checked={autoAdvance} onChange={(e) => setAutoAdvance(e.target.checked)} />
+            Start the next wave automatically when the current one settles (each wave still needs approval)
+          </label>
+
+          {error && (
+            <div className="text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/20 rounded-lg px-3 py-2">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onClose} className="flex-1 h-9">Cancel</Button>
+            <Button onClick={createCampaign} disabled={saving || !name || !firmwareUrl || !sha256 || !targetVersion} className="flex-1 h-9 bg-blue-600 hover:bg-blue-700 text-white">
+              {saving ? "Creating..." : "Create Draft"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,211 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { RefreshCw, MapPin } from "lucide-react"
+import { FleetMap, STATUS_COLORS, type MapDevice } from "@/components/fleet-map"
+
+interface FleetDevice {
+  id: string
+  name: string | null
+  status: "online" | "offline" | "warning"
+  firmware: string
+  lastSeen: string
+  lat: number | null
+  lng: number | null
+  city: string | null
+  country: string | null
+  countryCode: string | null
+  ownerId: string | null
+  ownerEmail: string | null
+}
+
+interface CountrySummary {
+  country: string
+  devices: number
+  online: number
+  warning: number
+  offline: number
+}
+
+type StatusFilter = "all" | FleetDevice["status"]
+
+// Owner filter values besides a user id
+const ANY_OWNER = ""
+const UNASSIGNED = "unassigned"
+
+const selectClass = "h-8 px-2 text-xs bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white"
+
+export default function FleetMapPage() {
+  const [devices, setDevices] = useState<FleetDevice[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState("")
+  const [status, setStatus] = useState<StatusFilter>("all")
+  const [firmware, setFirmware] = useState("")
+  const [owner, setOwner] = useState(ANY_OWNER)
+
+  const fetchDevices = async () => {
+    setLoading(true)
+    try {
+      const res = await fetch("/api/devices/map")
+      const data = await res.json()
+      if (res.ok) {
+        setDevices(data.devices || [])
+        setError("")
+      } else {
+        setError(data.error || "Failed to load devices")
+      }
+    } catch (error) {
+      console.error("Failed to fetch map devices:", error)
+      setError("Network error")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchDevices()
+  }, [])
+
+  const firmwareVersions = Array.from(new Set(devices.map((d) => d.firmware))).sort()
+  const owners = Array.from(
+    new Map(devices.filter((d) => d.ownerId).map((d) => [d.ownerId!, d.ownerEmail || d.ownerId!])),
+  ).sort((a, b) => a[1].localeCompare(b[1]))
+
+  // Memoized so the map only drops its selected cluster when the filters change
+  const filtered = useMemo(() => devices.filter((d) =>
+    (status === "all" || d.status === status) &&
+    (!firmware || d.firmware === firmware) &&
+    (owner === ANY_OWNER || (owner === UNASSIGNED ? !d.ownerId : d.ownerId === owner))
+  ), [devices, status, firmware, owner])
+
+  const located = useMemo(
+    () => filtered.filter((d): d is FleetDevice & MapDevice => d.lat !== null && d.lng !== null),
+    [filtered],
+  )
+
+  const countries: CountrySummary[] = Array.from(
+    filtered.reduce((byCountry, d) => {
+      const country = d.country || d.countryCode || "Unknown location"
+      const summary = byCountry.get(country) || { country, devices: 0, online: 0, warning: 0, offline: 0 }
+      summary.devices++
+      summary[d.status]++
+      return byCountry.set(country, summary)
+    }, new Map<string, CountrySummary>()).values(),
+  ).sort((a, b) => b.devices - a.devices || a.country.localeCompare(b.country))
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Fleet Map</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Where devices are checking in from, by their public IP
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={fetchDevices}
+          className="h-9 px-3 text-gray-500 dark:text-slate-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <div className="mb-4 flex flex-wrap items-center gap-3">
+        <div className="flex rounded-lg border border-gray-200 dark:border-slate-700 overflow-hidden">
+          {(["all", "online", "warning", "offline"] as StatusFilter[]).map((value) => (
+            <button
+              key={value}
+              onClick={() => setStatus(value)}
+              className={`px-3 py-1.5 text-xs font-medium capitalize ${
+                status === value
+                  ? "bg-gray-900 dark:bg-white text-white dark:text-gray-900"
+                  : "bg-white dark:bg-slate-800 text-gray-600 dark:text-slate-400 hover:bg-gray-100 dark:hover:bg-slate-700"
+              }`}
+            >
+              {value}
+            </button>
+          ))}
+        </div>
+        <select value={firmware} onChange={(e) => setFirmware(e.target.value)} className={selectClass}>
+          <option value="">All firmware</option>
+          {firmwareVersions.map((version) => (
+            <option key={version} value={version}>{version}</option>
+          ))}
+        </select>
+        <select value={owner} onChange={(e) => setOwner(e.target.value)} className={selectClass}>
+          <option value={ANY_OWNER}>All owners</option>
+          <option value={UNASSIGNED}>Unassigned</option>
+          {owners.map(([id, email]) => (
+            <option key={id} value={id}>{email}</option>
+          ))}
+        </select>
+        <div className="ml-auto flex items-center gap-3 text-xs text-gray-500 dark:text-slate-400">
+          {(["online", "warning", "offline"] as const).map((s) => (
+            <span key={s} className="flex items-center gap-1.5 capitalize">
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: STATUS_COLORS[s] }} />
+              {s}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {error ? (
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 p-12 text-center">
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      ) : (
+        <>
+          <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 p-3 mb-6">
+            <FleetMap devices={located} />
+            <p className="px-1 pt-2 text-xs text-gray-500 dark:text-slate-400">
+              {located.length} of {filtered.length} devices located
+              {filtered.length > located.length && " · the rest have no public IP location yet"}
+              {" · scroll or double-click to zoom, drag to pan"}
+            </p>
+          </div>
+
+          {/* Country summary */}
+          <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 overflow-hidden">
+            <div className="px-5 py-3 border-b border-gray-200 dark:border-slate-700">
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-white">Devices by Country</h2>
+            </div>
+            {countries.length === 0 ? (
+              <div className="p-12 text-center">
+                <MapPin className="h-10 w-10 text-gray-300 dark:text-slate-600 mx-auto mb-3" />
+                <p className="text-sm text-gray-600 dark:text-slate-400">{loading ? "Loading devices..." : "No devices match these filters"}</p>
+              </div>
+            ) : (
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-slate-700 bg-gray-50 dark:bg-slate-900/50">
+                    {["Country", "Devices", "Online", "Warning", "Offline"].map((heading, i) => (
+                      <th key={heading} className={`px-4 py-2.5 text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider ${i === 0 ? "text-left" : "text-right"}`}>
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                  {countries.map((c) => (
+                    <tr key={c.country}>
+                      <td className="px-4 py-2.5 text-sm font-medium text-gray-900 dark:text-white">{c.country}</td>
+                      <td className="px-4 py-2.5 text-right text-sm text-gray-700 dark:text-slate-300">{c.devices}</td>
+                      <td className="px-4 py-2.5 text-right text-sm text-green-600 dark:text-green-400">{c.online || "—"}</td>
+                      <td className="px-4 py-2.5 text-right text-sm text-amber-600 dark:text-amber-400">{c.warning || "—"}</td>
+                      <td className="px-4 py-2.5 text-right text-sm text-gray-500 dark:text-slate-400">{c.offline || "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
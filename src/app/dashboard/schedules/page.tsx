@@ -0,0 +1,406 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import {
+  CalendarClock,
+  RefreshCw,
+  Plus,
+  Pause,
+  Play,
+  Trash2,
+} from "lucide-react"
+import { COMMAND_SCHEMAS, buildCommandPayload, validateCommandPayload, type CommandType } from "@/lib/command-schema"
+import { CommandPayloadFields } from "@/components/command-payload-fields"
+
+interface Schedule {
+  id: string
+  name: string
+  deviceId: string | null
+  deviceName: string | null
+  type: string
+  payload: Record<string, unknown>
+  cron: string | null
+  notBefore: string | null
+  ttlSeconds: number | null
+  enabled: boolean
+  nextRunAt: string | null
+  lastRunAt: string | null
+  lastCommandId: string | null
+  lastCommandStatus: string | null
+}
+
+interface DeviceOption {
+  id: string
+  name?: string
+}
+
+// Common cron expressions offered in the create modal
+const CRON_PRESETS = [
+  { value: "0 2 * * *", label: "Every night at 02:00" },
+  { value: "0 3 * * 0", label: "Every Sunday at 03:00" },
+  { value: "0 * * * *", label: "Every hour" },
+  { value: "0 4 1 * *", label: "First of the month at 04:00" },
+]
+
+const STATUS_STYLES: Record<string, string> = {
+  completed: "bg-green-100 dark:bg-green-500/20 text-green-700 dark:text-green-400",
+  failed: "bg-red-100 dark:bg-red-500/20 text-red-700 dark:text-red-400",
+  sent: "bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-400",
+  acknowledged: "bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-400",
+  expired: "bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-400",
+}
+
+export default function SchedulesPage() {
+  const [schedules, setSchedules] = useState<Schedule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [lastRefresh, setLastRefresh] = useState<Date>(new Date())
+  const [createModal, setCreateModal] = useState(false)
+
+  const fetchSchedules = async () => {
+    try {
+      const res = await fetch("/api/schedules")
+      const data = await res.json()
+      setSchedules(data.schedules || [])
+      setLastRefresh(new Date())
+    } catch (error) {
+      console.error("Failed to fetch schedules:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchSchedules()
+    const interval = setInterval(fetchSchedules, 30000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const toggleSchedule = async (schedule: Schedule) => {
+    try {
+      const res = await fetch(`/api/schedules/${schedule.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled: !schedule.enabled }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        alert("Failed: " + (data.error || "Unknown error"))
+      }
+      fetchSchedules()
+    } catch (error) {
+      console.error("Schedule update failed:", error)
+    }
+  }
+
+  const deleteSchedule = async (schedule: Schedule) => {
+    if (!confirm(`Delete schedule "${schedule.name}"? Commands it already queued are kept.`)) return
+
+    try {
+      const res = await fetch(`/api/schedules/${schedule.id}`, { method: "DELETE" })
+      if (!res.ok) {
+        const data = await res.json()
+        alert("Failed: " + (data.error || "Unknown error"))
+      }
+      fetchSchedules()
+    } catch (error) {
+      console.error("Schedule delete failed:", error)
+    }
+  }
+
+  const formatDate = (date: string | null) => {
+    if (!date) return "—"
+    const d = new Date(date)
+    return d.toLocaleDateString() + " " + d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  }
+
+  const describeTiming = (schedule: Schedule) => {
+    if (!schedule.cron) return `Once at ${formatDate(schedule.notBefore)}`
+    const preset = CRON_PRESETS.find((p) => p.value === schedule.cron)
+    return preset ? `${preset.label} UTC` : schedule.cron
+  }
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Schedules</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            One-off and recurring commands
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-gray-500 dark:text-slate-500">
+            Updated {lastRefresh.toLocaleTimeString()}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={fetchSchedules}
+            className="h-9 px-3 text-gray-500 dark:text-slate-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => setCreateModal(true)}
+            className="h-9 px-3 bg-blue-600 hover:bg-blue-700 text-white text-xs"
+          >
+            <Plus className="h-3.5 w-3.5 mr-1.5" />
+            New Schedule
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 overflow-hidden">
+        {loading && schedules.length === 0 ? (
+          <div className="p-12 text-center">
+            <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-3 text-gray-500 dark:text-slate-500" />
+            <p className="text-sm text-gray-500 dark:text-slate-400">Loading schedules...</p>
+          </div>
+        ) : schedules.length === 0 ? (
+          <div className="p-12 text-center">
+            <CalendarClock className="h-10 w-10 text-gray-300 dark:text-slate-600 mx-auto mb-3" />
+            <p className="text-sm text-gray-600 dark:text-slate-400 mb-1">No schedules</p>
+            <p className="text-xs text-gray-500 dark:text-slate-500">Schedule a nightly blocklist update or a weekly reboot</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-slate-700 bg-gray-50 dark:bg-slate-900/50">
+                  {["Name", "Target", "Command", "When", "Next run", "Last run", ""].map((heading) => (
+                    <th key={heading} className="text-left px-4 py-2.5 text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                {schedules.map((s) => (
+                  <tr key={s.id} className={s.enabled ? "" : "opacity-50"}>
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-white">{s.name}</td>
+                    <td className="px-4 py-3 text-sm">
+                      {s.deviceId ? (
+                        <Link href={`/dashboard/devices/${s.deviceId}`} className="text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400">
+                          {s.deviceName}
+                        </Link>
+                      ) : (
+                        <span className="text-xs px-2 py-0.5 rounded bg-purple-100 dark:bg-purple-500/20 text-purple-700 dark:text-purple-400">
+                          all devices
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700 dark:text-slate-300">{COMMAND_SCHEMAS[s.type as CommandType]?.label || s.type}</td>
+                    <td className="px-4 py-3 text-xs text-gray-600 dark:text-slate-400">
+                      <span className={s.cron ? "font-mono" : ""}>{describeTiming(s)}</span>
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-600 dark:text-slate-400 whitespace-nowrap">
+                      {s.enabled ? formatDate(s.nextRunAt) : "—"}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-600 dark:text-slate-400 whitespace-nowrap">
+                      <div className="flex items-center gap-2">
+                        {formatDate(s.lastRunAt)}
+                        {s.lastCommandStatus && (
+                          <span className={`px-2 py-0.5 rounded ${STATUS_STYLES[s.lastCommandStatus] || "bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-400"}`}>
+                            {s.lastCommandStatus}
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end gap-1">
+                        <button
+                          onClick={() => toggleSchedule(s)}
+                          title={s.enabled ? "Pause" : "Resume"}
+                          className="p-1.5 rounded text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-slate-700"
+                        >
+                          {s.enabled ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+                        </button>
+                        <button
+                          onClick={() => deleteSchedule(s)}
+                          title="Delete"
+                          className="p-1.5 rounded text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-slate-700"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {createModal && (
+        <CreateScheduleModal
+          onClose={() => setCreateModal(false)}
+          onCreated={() => { setCreateModal(false); fetchSchedules() }}
+        />
+      )}
+    </div>
+  )
+}
+
+function CreateScheduleModal({ onClose, onCreated }: { onClose: () => void; onCreated: () => void }) {
+  const [devices, setDevices] = useState<DeviceOption[]>([])
+  const [name, setName] = useState("")
+  const [deviceId, setDeviceId] = useState("")
+  const [type, setType] = useState<CommandType>("update_blocklist")
+  const [fields, setFields] = useState<Record<string, string>>({})
+  const [mode, setMode] = useState<"recurring" | "once">("recurring")
+  const [cron, setCron] = useState(CRON_PRESETS[0].value)
+  const [runAt, setRunAt] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    fetch("/api/devices/checkin")
+      .then((res) => res.json())
+      .then((data) => setDevices(data.devices || []))
+      .catch((error) => console.error("Failed to fetch devices:", error))
+  }, [])
+
+  const createSchedule = async () => {
+    const payload = buildCommandPayload(type, fields)
+    const payloadError = validateCommandPayload(type, payload)
+    if (payloadError) {
+      setError(payloadError)
+      return
+    }
+
+    setSaving(true)
+    setError("")
+
+    try {
+      const res = await fetch("/api/schedules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          deviceId: deviceId || null,
+          type,
+          payload,
+          ...(mode === "recurring"
+            ? { cron }
+            : { notBefore: runAt ? new Date(runAt).toISOString() : null }),
+        }),
+      })
+
+      const data = await res.json()
+      if (data.success) {
+        onCreated()
+      } else {
+        setError(data.error || "Failed to create schedule")
+      }
+    } catch {
+      setError("Network error")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = "w-full h-9 px-3 text-sm bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white"
+  const labelClass = "text-xs text-gray-600 dark:text-slate-400 mb-1.5 block"
+
+  return (
+    <div className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 w-full max-w-md shadow-xl">
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-slate-700 flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white">New Schedule</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-900 dark:hover:text-white text-xl">×</button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <label className={labelClass}>Name</label>
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Nightly blocklist refresh" className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Target</label>
+            <select value={deviceId} onChange={(e) => setDeviceId(e.target.value)} className={inputClass}>
+              <option value="">All devices</option>
+              {devices.map((d) => (
+                <option key={d.id} value={d.id}>{d.name || d.id}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Command</label>
+            <select value={type} onChange={(e) => { setType(e.target.value as CommandType); setFields({}) }} className={inputClass}>
+              {Object.entries(COMMAND_SCHEMAS).map(([value, schema]) => (
+                <option key={value} value={value}>{schema.label}</option>
+              ))}
+            </select>
+          </div>
+          <CommandPayloadFields type={type} values={fields} onChange={setFields} />
+          <div>
+            <label className={labelClass}>When</label>
+            <div className="flex items-center gap-1 mb-2">
+              {([["recurring", "Recurring"], ["once", "Once"]] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setMode(value)}
+                  className={`text-xs px-2.5 py-1 rounded ${
+                    mode === value
+                      ? "bg-gray-900 dark:bg-white text-white dark:text-gray-900"
+                      : "text-gray-500 dark:text-slate-400 hover:bg-gray-100 dark:hover:bg-slate-700"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {mode === "recurring" ? (
+              <>
+                <input
+                  value={cron}
+                  onChange={(e) => setCron(e.target.value)}
+                  placeholder="0 2 * * *"
+                  className={`${inputClass} font-mono`}
+                />
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {CRON_PRESETS.map((p) => (
+                    <button
+                      key={p.value}
+                      onClick={() => setCron(p.value)}
+                      className="text-xs px-2 py-0.5 rounded bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-600"
+                    >
+                      {p.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-slate-500 mt-1.5">
+                  minute hour day month weekday, in UTC. A run that isn&apos;t delivered before the next one expires.
+                </p>
+              </>
+            ) : (
+              <input type="datetime-local" value={runAt} onChange={(e) => setRunAt(e.target.value)} className={inputClass} />
+            )}
+          </div>
+
+          {error && (
+            <div className="text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/20 rounded-lg px-3 py-2">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onClose} className="flex-1 h-9">Cancel</Button>
+            <Button
+              onClick={createSchedule}
+              disabled={saving || !name || (mode === "recurring" ? !cron : !runAt)}
+              className="flex-1 h-9 bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              {saving ? "Creating..." : "Create Schedule"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,444 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { RefreshCw, Download, Gauge, AlertTriangle, Clock, Server, X } from "lucide-react"
+import { formatCause } from "@/components/device-status-history"
+
+type Preset = "month" | "last-month" | "7d" | "30d" | "90d" | "custom"
+
+const PRESETS: { value: Exclude<Preset, "custom">; label: string }[] = [
+  { value: "month", label: "This month" },
+  { value: "last-month", label: "Last month" },
+  { value: "7d", label: "7d" },
+  { value: "30d", label: "30d" },
+  { value: "90d", label: "90d" },
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Incidents listed on the page; the export has them all
+const INCIDENT_ROWS = 100
+
+interface Availability {
+  observedSeconds: number
+  downtimeSeconds: number
+  warningSeconds: number
+  incidents: number
+  availability: number | null
+}
+
+interface DeviceAvailability extends Availability {
+  deviceId: string
+  name: string | null
+  customerId: string | null
+  customerEmail: string | null
+}
+
+interface CustomerAvailability extends Availability {
+  customerId: string | null
+  email: string | null
+  name: string | null
+  devices: number
+}
+
+interface DowntimeIncident {
+  deviceId: string
+  name: string | null
+  customerEmail: string | null
+  startedAt: string
+  endedAt: string | null
+  durationSeconds: number
+  cause: string
+  resolvedBy: string | null
+}
+
+interface SlaReport {
+  from: string
+  to: string
+  summary: Availability & { devices: number }
+  customers: CustomerAvailability[]
+  devices: DeviceAvailability[]
+  incidents: DowntimeIncident[]
+}
+
+// yyyy-mm-dd in local time, for date inputs
+function toDateInput(date: Date) {
+  const offset = date.getTimezoneOffset() * 60 * 1000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10)
+}
+
+function presetWindow(preset: Exclude<Preset, "custom">): { from: Date; to: Date } {
+  const now = new Date()
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1)
+  switch (preset) {
+    case "month":
+      return { from: monthStart, to: now }
+    case "last-month":
+      return { from: new Date(now.getFullYear(), now.getMonth() - 1, 1), to: monthStart }
+    default:
+      return { from: new Date(now.getTime() - parseInt(preset, 10) * DAY_MS), to: now }
+  }
+}
+
+function formatPercent(ratio: number | null) {
+  if (ratio === null) return "—"
+  return `${(ratio * 100).toFixed(ratio >= 0.999 ? 3 : 2)}%`
+}
+
+function formatDowntime(seconds: number) {
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) return `${minutes}m`
+  if (minutes < 48 * 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+  return `${Math.floor(minutes / (24 * 60))}d ${Math.floor((minutes % (24 * 60)) / 60)}h`
+}
+
+function formatDate(date: string) {
+  const d = new Date(date)
+  return d.toLocaleDateString() + " " + d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+}
+
+export default function SlaPage() {
+  const [preset, setPreset] = useState<Preset>("month")
+  const [customFrom, setCustomFrom] = useState(toDateInput(new Date(Date.now() - 30 * DAY_MS)))
+  const [customTo, setCustomTo] = useState(toDateInput(new Date()))
+  const [customer, setCustomer] = useState<CustomerAvailability | null>(null)
+  const [target, setTarget] = useState("99.9")
+  const [report, setReport] = useState<SlaReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState("")
+
+  const windowQuery = () => {
+    const { from, to } = preset === "custom"
+      ? {
+          from: new Date(`${customFrom}T00:00:00`),
+          // Through the end of the last selected day
+          to: new Date(new Date(`${customTo}T00:00:00`).getTime() + DAY_MS),
+        }
+      : presetWindow(preset)
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) return null
+
+    const params = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() })
+    if (customer?.customerId) params.set("customer", customer.customerId)
+    return params
+  }
+
+  const fetchReport = async () => {
+    const params = windowQuery()
+    if (!params) return
+
+    setLoading(true)
+    setError("")
+    try {
+      const res = await fetch(`/api/sla?${params}`)
+      const data = await res.json()
+      if (res.ok) {
+        setReport(data)
+      } else {
+        setError(data.error || "Failed to load SLA report")
+      }
+    } catch (error) {
+      console.error("Failed to fetch SLA report:", error)
+      setError("Network error")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchReport()
+  }, [preset, customFrom, customTo, customer])
+
+  const exportUrl = (kind: "incidents" | "devices") => {
+    const params = windowQuery()
+    if (!params) return "#"
+    params.set("report", kind)
+    return `/api/sla/export?${params}`
+  }
+
+  const targetRatio = parseFloat(target) / 100
+  const meetsTarget = (a: Availability) =>
+    isNaN(targetRatio) || a.availability === null || a.availability >= targetRatio
+  const breaching = (report?.devices || []).filter((d) => !meetsTarget(d)).length
+  // Unassigned devices are grouped without a customer id and can't be filtered on
+  const customers = (report?.customers || []).filter((c) => !customer || c.customerId === customer.customerId)
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">SLA Report</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Availability per customer and device, with every outage
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {preset === "custom" && (
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={customFrom}
+                max={customTo}
+                onChange={(e) => setCustomFrom(e.target.value)}
+                className="h-8 px-2 text-xs bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white"
+              />
+              <span className="text-xs text-gray-500 dark:text-slate-400">to</span>
+              <input
+                type="date"
+                value={customTo}
+                min={customFrom}
+                onChange={(e) => setCustomTo(e.target.value)}
+                className="h-8 px-2 text-xs bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white"
+              />
+            </div>
+          )}
+          <div className="flex rounded-lg border border-gray-200 dark:border-slate-700 overflow-hidden">
+            {[...PRESETS, { value: "custom" as const, label: "Custom" }].map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setPreset(value)}
+                className={`px-3 py-1.5 text-xs font-medium ${
+                  preset === value
+                    ? "bg-gray-900 dark:bg-white text-white dark:text-gray-900"
+                    : "bg-white dark:bg-slate-800 text-gray-600 dark:text-slate-400 hover:bg-gray-100 dark:hover:bg-slate-700"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={fetchReport}
+            className="h-9 px-3 text-gray-500 dark:text-slate-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </div>
+
+      {/* Target and export */}
+      <div className="mb-4 flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-xs text-gray-500 dark:text-slate-400">
+          SLA target
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="0.01"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            className="h-8 w-20 px-2 text-xs bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white"
+          />
+          %
+        </label>
+        {customer && (
+          <span className="inline-flex items-center gap-1.5 h-8 px-2.5 rounded-lg bg-blue-50 dark:bg-blue-500/10 text-xs text-blue-700 dark:text-blue-400">
+            {customer.name || customer.email}
+            <button onClick={() => setCustomer(null)} title="Show all customers" className="hover:text-blue-900 dark:hover:text-blue-200">
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          <a href={exportUrl("incidents")} download>
+            <Button variant="outline" size="sm" className="h-8 px-3 text-xs">
+              <Download className="h-3.5 w-3.5 mr-1.5" />
+              Incidents CSV
+            </Button>
+          </a>
+          <a href={exportUrl("devices")} download>
+            <Button variant="outline" size="sm" className="h-8 px-3 text-xs">
+              <Download className="h-3.5 w-3.5 mr-1.5" />
+              Devices CSV
+            </Button>
+          </a>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 p-12 text-center">
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      ) : !report ? (
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 p-12 text-center">
+          <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-3 text-gray-500 dark:text-slate-500" />
+          <p className="text-sm text-gray-500 dark:text-slate-400">Loading SLA report...</p>
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+            <SummaryCard icon={<Gauge className="h-4 w-4 text-green-500" />} label="Fleet Availability" value={formatPercent(report.summary.availability)} />
+            <SummaryCard icon={<AlertTriangle className="h-4 w-4 text-red-500" />} label="Outages" value={String(report.summary.incidents)} />
+            <SummaryCard icon={<Clock className="h-4 w-4 text-gray-500" />} label="Total Downtime" value={formatDowntime(report.summary.downtimeSeconds)} />
+            <SummaryCard
+              icon={<Server className="h-4 w-4 text-amber-500" />}
+              label="Devices Below Target"
+              value={String(breaching)}
+              detail={`of ${report.summary.devices}`}
+            />
+          </div>
+
+          {/* Customers */}
+          <Section title="Customers" subtitle="Availability across each customer's devices">
+            {customers.length === 0 ? (
+              <Empty text="No status history in this window" />
+            ) : (
+              <table className="w-full">
+                <TableHead headings={["Customer", "Devices", "Availability", "Downtime", "Outages"]} />
+                <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                  {customers.map((c) => (
+                    <tr key={c.customerId ?? "unassigned"}>
+                      <td className="px-4 py-2.5">
+                        {c.customerId ? (
+                          <button
+                            onClick={() => setCustomer(c)}
+                            className="text-left text-sm font-medium text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400"
+                          >
+                            {c.name || c.email}
+                            {c.name && <span className="block text-xs font-normal text-gray-500 dark:text-slate-400">{c.email}</span>}
+                          </button>
+                        ) : (
+                          <span className="text-sm text-gray-500 dark:text-slate-400">Unassigned</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2.5 text-right text-sm text-gray-700 dark:text-slate-300">{c.devices}</td>
+                      <AvailabilityCell availability={c} ok={meetsTarget(c)} />
+                      <td className="px-4 py-2.5 text-right text-sm text-gray-700 dark:text-slate-300">{formatDowntime(c.downtimeSeconds)}</td>
+                      <td className="px-4 py-2.5 text-right text-sm text-gray-700 dark:text-slate-300">{c.incidents}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </Section>
+
+          {/* Devices */}
+          <Section title="Devices" subtitle="Least available first. Time before a device's first recorded status isn't counted.">
+            {report.devices.length === 0 ? (
+              <Empty text="No status history in this window" />
+            ) : (
+              <div className="max-h-96 overflow-y-auto">
+                <table className="w-full">
+                  <TableHead headings={["Device", "Customer", "Availability", "Downtime", "Warning", "Outages"]} />
+                  <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                    {report.devices.map((d) => (
+                      <tr key={d.deviceId}>
+                        <td className="px-4 py-2.5">
+                          <Link href={`/dashboard/devices/${d.deviceId}`} className="text-sm font-medium text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400">
+                            {d.name || d.deviceId}
+                          </Link>
+                        </td>
+                        <td className="px-4 py-2.5 text-right text-sm text-gray-500 dark:text-slate-400">{d.customerEmail || "—"}</td>
+                        <AvailabilityCell availability={d} ok={meetsTarget(d)} />
+                        <td className="px-4 py-2.5 text-right text-sm text-gray-700 dark:text-slate-300">{formatDowntime(d.downtimeSeconds)}</td>
+                        <td className="px-4 py-2.5 text-right text-sm text-gray-700 dark:text-slate-300">{d.warningSeconds > 0 ? formatDowntime(d.warningSeconds) : "—"}</td>
+                        <td className="px-4 py-2.5 text-right text-sm text-gray-700 dark:text-slate-300">{d.incidents}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Section>
+
+          {/* Incidents */}
+          <Section
+            title="Downtime Incidents"
+            subtitle={report.incidents.length > INCIDENT_ROWS
+              ? `Latest ${INCIDENT_ROWS} of ${report.incidents.length}, export for the full list`
+              : "Every time a device went offline, newest first"}
+          >
+            {report.incidents.length === 0 ? (
+              <Empty text="No outages in this window" />
+            ) : (
+              <table className="w-full">
+                <TableHead headings={["Device", "Started", "Ended", "Downtime", "Cause", "Resolved by"]} />
+                <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                  {report.incidents.slice(0, INCIDENT_ROWS).map((i) => (
+                    <tr key={`${i.deviceId}-${i.startedAt}`}>
+                      <td className="px-4 py-2.5">
+                        <Link href={`/dashboard/devices/${i.deviceId}`} className="text-sm font-medium text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400">
+                          {i.name || i.deviceId}
+                        </Link>
+                        {i.customerEmail && <span className="block text-xs text-gray-500 dark:text-slate-400">{i.customerEmail}</span>}
+                      </td>
+                      <td className="px-4 py-2.5 text-right text-xs text-gray-500 dark:text-slate-400 whitespace-nowrap">{formatDate(i.startedAt)}</td>
+                      <td className="px-4 py-2.5 text-right text-xs whitespace-nowrap">
+                        {i.endedAt ? (
+                          <span className="text-gray-500 dark:text-slate-400">{formatDate(i.endedAt)}</span>
+                        ) : (
+                          <span className="px-1.5 py-0.5 rounded font-medium bg-red-100 dark:bg-red-500/20 text-red-700 dark:text-red-400">Ongoing</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2.5 text-right text-sm text-gray-700 dark:text-slate-300">{formatDowntime(i.durationSeconds)}</td>
+                      <td className="px-4 py-2.5 text-right text-sm text-gray-700 dark:text-slate-300">{formatCause(i.cause)}</td>
+                      <td className="px-4 py-2.5 text-right text-sm text-gray-700 dark:text-slate-300">{formatCause(i.resolvedBy)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </Section>
+        </>
+      )}
+    </div>
+  )
+}
+
+function SummaryCard({ icon, label, value, detail }: { icon: React.ReactNode; label: string; value: string; detail?: string }) {
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 p-4">
+      <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-slate-400 mb-2">
+        {icon}
+        {label}
+      </div>
+      <div className="flex items-baseline gap-2">
+        <span className="text-2xl font-bold text-gray-900 dark:text-white">{value}</span>
+        {detail && <span className="text-xs text-gray-500 dark:text-slate-400">{detail}</span>}
+      </div>
+    </div>
+  )
+}
+
+function Section({ title, subtitle, children }: { title: string; subtitle: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 overflow-hidden mb-6">
+      <div className="px-5 py-3 border-b border-gray-200 dark:border-slate-700">
+        <h2 className="text-sm font-semibold text-gray-900 dark:text-white">{title}</h2>
+        <p className="text-xs text-gray-500 dark:text-slate-400 mt-0.5">{subtitle}</p>
+      </div>
+      {children}
+    </div>
+  )
+}
+
+function TableHead({ headings }: { headings: string[] }) {
+  return (
+    <thead>
+      <tr className="border-b border-gray-200 dark:border-slate-700 bg-gray-50 dark:bg-slate-900/50">
+        {headings.map((heading, i) => (
+          <th key={heading} className={`px-4 py-2.5 text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider ${i === 0 ? "text-left" : "text-right"}`}>
+            {heading}
+          </th>
+        ))}
+      </tr>
+    </thead>
+  )
+}
+
+function AvailabilityCell({ availability, ok }: { availability: Availability; ok: boolean }) {
+  return (
+    <td className={`px-4 py-2.5 text-right text-sm font-medium ${ok ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}>
+      {formatPercent(availability.availability)}
+    </td>
+  )
+}
+
+function Empty({ text }: { text: string }) {
+  return <p className="text-sm text-gray-500 dark:text-slate-400 text-center py-8">{text}</p>
+}
@@ -0,0 +1,375 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  FileCode,
+  RefreshCw,
+  Plus,
+  Pencil,
+  Archive,
+} from "lucide-react"
+import type { TemplateParam } from "@/lib/types"
+import { COMMAND_SCHEMAS, buildCommandPayload, payloadToFieldValues, type CommandType } from "@/lib/command-schema"
+import { CommandPayloadFields } from "@/components/command-payload-fields"
+
+interface Template {
+  id: string
+  name: string
+  description: string | null
+  version: number
+  type: CommandType
+  payload: Record<string, unknown>
+  params: TemplateParam[]
+  updatedAt: string
+}
+
+const PARAM_TYPES: TemplateParam["type"][] = ["string", "integer", "ip", "url", "enum"]
+
+export default function TemplatesPage() {
+  const [templates, setTemplates] = useState<Template[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editing, setEditing] = useState<Template | "new" | null>(null)
+
+  const fetchTemplates = async () => {
+    try {
+      const res = await fetch("/api/templates")
+      const data = await res.json()
+      setTemplates(data.templates || [])
+    } catch (error) {
+      console.error("Failed to fetch templates:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchTemplates()
+  }, [])
+
+  const archiveTemplate = async (template: Template) => {
+    if (!confirm(`Archive template "${template.name}"? Commands already sent from it are kept.`)) return
+
+    try {
+      const res = await fetch(`/api/templates/${template.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ archived: true }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        alert("Failed: " + (data.error || "Unknown error"))
+      }
+      fetchTemplates()
+    } catch (error) {
+      console.error("Template archive failed:", error)
+    }
+  }
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Command Templates</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Saved commands with parameters, available in Send Command
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={fetchTemplates}
+            className="h-9 px-3 text-gray-500 dark:text-slate-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => setEditing("new")}
+            className="h-9 px-3 bg-blue-600 hover:bg-blue-700 text-white text-xs"
+          >
+            <Plus className="h-3.5 w-3.5 mr-1.5" />
+            New Template
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 overflow-hidden">
+        {loading && templates.length === 0 ? (
+          <div className="p-12 text-center">
+            <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-3 text-gray-500 dark:text-slate-500" />
+            <p className="text-sm text-gray-500 dark:text-slate-400">Loading templates...</p>
+          </div>
+        ) : templates.length === 0 ? (
+          <div className="p-12 text-center">
+            <FileCode className="h-10 w-10 text-gray-300 dark:text-slate-600 mx-auto mb-3" />
+            <p className="text-sm text-gray-600 dark:text-slate-400 mb-1">No templates</p>
+            <p className="text-xs text-gray-500 dark:text-slate-500">Save a script or config change you send often, e.g. &quot;Set DNS server: {"{ip}"}&quot;</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-slate-700 bg-gray-50 dark:bg-slate-900/50">
+                  {["Name", "Command", "Parameters", "Version", "Updated", ""].map((heading) => (
+                    <th key={heading} className="text-left px-4 py-2.5 text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                {templates.map((t) => (
+                  <tr key={t.id}>
+                    <td className="px-4 py-3">
+                      <div className="text-sm font-medium text-gray-900 dark:text-white">{t.name}</div>
+                      {t.description && (
+                        <div className="text-xs text-gray-500 dark:text-slate-500">{t.description}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700 dark:text-slate-300">{COMMAND_SCHEMAS[t.type as CommandType]?.label || t.type}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex flex-wrap gap-1">
+                        {t.params.length === 0 && <span className="text-xs text-gray-400">—</span>}
+                        {t.params.map((p) => (
+                          <span key={p.name} className="px-1.5 py-0.5 rounded text-xs font-mono bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300">
+                            {p.name}: {p.type}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-600 dark:text-slate-400">v{t.version}</td>
+                    <td className="px-4 py-3 text-xs text-gray-600 dark:text-slate-400 whitespace-nowrap">
+                      {new Date(t.updatedAt).toLocaleDateString()}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end gap-1">
+                        <button
+                          onClick={() => setEditing(t)}
+                          title="Edit (saves a new version)"
+                          className="p-1.5 rounded text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-slate-700"
+                        >
+                          <Pencil className="h-3.5 w-3.5" />
+                        </button>
+                        <button
+                          onClick={() => archiveTemplate(t)}
+                          title="Archive"
+                          className="p-1.5 rounded text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-slate-700"
+                        >
+                          <Archive className="h-3.5 w-3.5" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {editing && (
+        <TemplateModal
+          template={editing === "new" ? null : editing}
+          onClose={() => setEditing(null)}
+          onSaved={() => { setEditing(null); fetchTemplates() }}
+        />
+      )}
+    </div>
+  )
+}
+
+function TemplateModal({ template, onClose, onSaved }: { template: Template | null; onClose: () => void; onSaved: () => void }) {
+  const [name, setName] = useState(template?.name || "")
+  const [description, setDescription] = useState(template?.description || "")
+  const [type, setType] = useState<CommandType>(template?.type || "set_config")
+  const [fields, setFields] = useState<Record<string, string>>(template ? payloadToFieldValues(template.type, template.payload) : {})
+  const [params, setParams] = useState<TemplateParam[]>(template?.params || [])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  const updateParam = (index: number, patch: Partial<TemplateParam>) => {
+    setParams((prev) => prev.map((p, i) => (i === index ? { ...p, ...patch } : p)))
+  }
+
+  const saveTemplate = async () => {
+    setSaving(true)
+    setError("")
+
+    // Drop empty optional fields so the API sees only what was set
+    const cleanParams = params.map((p) => ({
+      name: p.name.trim(),
+      label: p.label?.trim() || undefined,
+      type: p.type,
+      required: p.required !== false,
+      default: p.default?.trim() || undefined,
+      options: p.type === "enum" ? p.options : undefined,
+      pattern: p.type === "string" && p.pattern?.trim() ? p.pattern.trim() : undefined,
+    }))
+
+    try {
+      const res = await fetch(template ? `/api/templates/${template.id}` : "/api/templates", {
+        method: template ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          description,
+          type,
+          payload: buildCommandPayload(type, fields),
+          params: cleanParams,
+        }),
+      })
+
+      const data = await res.json()
+      if (data.success) {
+        onSaved()
+      } else {
+        setError(data.error || "Failed to save template")
+      }
+    } catch {
+      setError("Network error")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = "w-full h-9 px-3 text-sm bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white"
+  const labelClass = "text-xs text-gray-600 dark:text-slate-400 mb-1.5 block"
+
+  return (
+    <div className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 w-full max-w-lg shadow-xl max-h-[90vh] flex flex-col">
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-slate-700 flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+              {template ? `Edit ${template.name}` : "New Template"}
+            </h3>
+            {template && (
+              <p className="text-xs text-gray-500 dark:text-slate-500">
+                Changes to the command or parameters are saved as v{template.version + 1}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-900 dark:hover:text-white text-xl">×</button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div>
+            <label className={labelClass}>Name</label>
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Set DNS server" className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Description</label>
+            <input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Optional" className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Command</label>
+            <select value={type} onChange={(e) => { setType(e.target.value as CommandType); setFields({}) }} className={inputClass}>
+              {Object.entries(COMMAND_SCHEMAS).map(([value, schema]) => (
+                <option key={value} value={value}>{schema.label}</option>
+              ))}
+            </select>
+          </div>
+          <CommandPayloadFields type={type} values={fields} onChange={setFields} />
+          {type !== "reboot" && (
+            <p className="text-xs text-gray-500 dark:text-slate-500 -mt-2">
+              Use {"{name}"} for each parameter, e.g. {"{ip}"} as the value.
+              {type === "exec" && " In scripts, values are inserted as single-quoted shell words, so leave placeholders unquoted."}
+            </p>
+          )}
+
+          <div>
+            <label className={labelClass}>Parameters</label>
+            <div className="space-y-2">
+              {params.map((p, i) => (
+                <div key={i} className="border border-gray-200 dark:border-slate-700 rounded-lg p-2 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={p.name}
+                      onChange={(e) => updateParam(i, { name: e.target.value })}
+                      placeholder="name"
+                      className={`${inputClass} font-mono`}
+                    />
+                    <input
+                      value={p.label || ""}
+                      onChange={(e) => updateParam(i, { label: e.target.value })}
+                      placeholder="Label"
+                      className={inputClass}
+                    />
+                    <select
+                      value={p.type}
+                      onChange={(e) => updateParam(i, { type: e.target.value as TemplateParam["type"] })}
+                      className={`${inputClass} w-28`}
+                    >
+                      {PARAM_TYPES.map((t) => (
+                        <option key={t} value={t}>{t}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => setParams((prev) => prev.filter((_, j) => j !== i))}
+                      className="text-gray-400 hover:text-red-500 text-lg"
+                    >
+                      ×
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {p.type === "enum" ? (
+                      <input
+                        value={(p.options || []).join(", ")}
+                        onChange={(e) => updateParam(i, { options: e.target.value.split(",").map((o) => o.trim()).filter(Boolean) })}
+                        placeholder="Options, comma separated"
+                        className={inputClass}
+                      />
+                    ) : p.type === "string" ? (
+                      <input
+                        value={p.pattern || ""}
+                        onChange={(e) => updateParam(i, { pattern: e.target.value })}
+                        placeholder="Pattern (regex, optional)"
+                        className={`${inputClass} font-mono`}
+                      />
+                    ) : null}
+                    <input
+                      value={p.default || ""}
+                      onChange={(e) => updateParam(i, { default: e.target.value })}
+                      placeholder="Default"
+                      className={inputClass}
+                    />
+                    <label className="flex items-center gap-1.5 text-xs text-gray-600 dark:text-slate-400 whitespace-nowrap">
+                      <input
+                        type="checkbox"
+                        checked={p.required !== false}
+                        onChange={(e) => updateParam(i, { required: e.target.checked })}
+                      />
+                      Required
+                    </label>
+                  </div>
+                </div>
+              ))}
+              <button
+                onClick={() => setParams((prev) => [...prev, { name: "", type: "string", required: true }])}
+                className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                + Add parameter
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/20 rounded-lg px-3 py-2">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onClose} className="flex-1 h-9">Cancel</Button>
+            <Button onClick={saveTemplate} disabled={saving || !name.trim()} className="flex-1 h-9 bg-blue-600 hover:bg-blue-700 text-white">
+              {saving ? "Saving..." : "Save Template"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,421 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Webhook,
+  RefreshCw,
+  Plus,
+  Trash2,
+  ChevronDown,
+  ChevronUp,
+  KeyRound,
+  Copy,
+} from "lucide-react"
+
+const EVENTS = [
+  "device.online",
+  "device.offline",
+  "device.registered",
+  "device.rebooted",
+  "device.crash_loop",
+  "command.queued",
+  "command.completed",
+  "command.failed",
+  "alert.fired",
+  "alert.resolved",
+]
+
+interface WebhookEndpoint {
+  id: string
+  name: string
+  url: string
+  events: string[]
+  enabled: boolean
+  createdAt: string
+  last24h: {
+    delivered: number
+    pending: number
+    failed: number
+  }
+}
+
+interface Delivery {
+  id: string
+  event: string
+  payload: Record<string, unknown>
+  status: "pending" | "delivered" | "failed"
+  attempts: number
+  nextAttemptAt: string | null
+  lastStatusCode: number | null
+  lastError: string | null
+  createdAt: string
+  deliveredAt: string | null
+}
+
+const DELIVERY_STYLES: Record<Delivery["status"], string> = {
+  pending: "bg-orange-100 dark:bg-orange-500/20 text-orange-700 dark:text-orange-400",
+  delivered: "bg-green-100 dark:bg-green-500/20 text-green-700 dark:text-green-400",
+  failed: "bg-red-100 dark:bg-red-500/20 text-red-700 dark:text-red-400",
+}
+
+export default function WebhooksPage() {
+  const [webhooks, setWebhooks] = useState<WebhookEndpoint[]>([])
+  const [loading, setLoading] = useState(true)
+  const [createModal, setCreateModal] = useState(false)
+  const [revealedSecret, setRevealedSecret] = useState<{ name: string; secret: string } | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [deliveries, setDeliveries] = useState<Delivery[]>([])
+
+  const fetchWebhooks = async () => {
+    try {
+      const res = await fetch("/api/webhooks")
+      const data = await res.json()
+      setWebhooks(data.webhooks || [])
+    } catch (error) {
+      console.error("Failed to fetch webhooks:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchDeliveries = async (webhookId: string) => {
+    try {
+      const res = await fetch(`/api/webhooks/${webhookId}/deliveries`)
+      const data = await res.json()
+      setDeliveries(data.deliveries || [])
+    } catch (error) {
+      console.error("Failed to fetch deliveries:", error)
+    }
+  }
+
+  useEffect(() => {
+    fetchWebhooks()
+  }, [])
+
+  useEffect(() => {
+    if (expanded) {
+      fetchDeliveries(expanded)
+    }
+  }, [expanded])
+
+  const updateWebhook = async (webhook: WebhookEndpoint, update: Record<string, unknown>) => {
+    try {
+      const res = await fetch(`/api/webhooks/${webhook.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        alert("Failed: " + (data.error || "Unknown error"))
+      } else if (data.secret) {
+        setRevealedSecret({ name: webhook.name, secret: data.secret })
+      }
+      fetchWebhooks()
+    } catch (error) {
+      console.error("Webhook update failed:", error)
+    }
+  }
+
+  const rotateSecret = (webhook: WebhookEndpoint) => {
+    if (!confirm(`Rotate the signing secret for "${webhook.name}"? The receiver must be updated with the new secret.`)) return
+    updateWebhook(webhook, { rotateSecret: true })
+  }
+
+  const deleteWebhook = async (webhook: WebhookEndpoint) => {
+    if (!confirm(`Delete webhook "${webhook.name}" and its delivery log?`)) return
+
+    try {
+      const res = await fetch(`/api/webhooks/${webhook.id}`, { method: "DELETE" })
+      if (!res.ok) {
+        const data = await res.json()
+        alert("Failed: " + (data.error || "Unknown error"))
+      }
+      if (expanded === webhook.id) setExpanded(null)
+      fetchWebhooks()
+    } catch (error) {
+      console.error("Webhook delete failed:", error)
+    }
+  }
+
+  const formatDate = (date: string | null) => {
+    if (!date) return "—"
+    const d = new Date(date)
+    return d.toLocaleDateString() + " " + d.toLocaleTimeString()
+  }
+
+  return (
+    <div>
+      {/* Page Header */}
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Webhooks</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Push fleet events to your own systems as signed JSON
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Button
+            size="sm"
+            onClick={() => setCreateModal(true)}
+            className="h-9 px-4 bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            <Plus className="h-4 w-4 mr-1.5" />
+            New Webhook
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => { fetchWebhooks(); if (expanded) fetchDeliveries(expanded) }}
+            className="h-9 px-3 text-gray-500 dark:text-slate-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </div>
+
+      {revealedSecret && (
+        <div className="mb-4 bg-blue-50 dark:bg-blue-500/10 border border-blue-200 dark:border-blue-500/20 rounded-xl p-4">
+          <p className="text-sm text-blue-900 dark:text-blue-200 mb-2">
+            Signing secret for <span className="font-medium">{revealedSecret.name}</span>. It won&apos;t be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs font-mono bg-white dark:bg-slate-900 border border-blue-200 dark:border-slate-700 rounded px-3 py-2 break-all">
+              {revealedSecret.secret}
+            </code>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => navigator.clipboard.writeText(revealedSecret.secret)}
+              className="h-8 px-3 text-xs"
+            >
+              <Copy className="h-3.5 w-3.5 mr-1.5" />
+              Copy
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setRevealedSecret(null)} className="h-8 px-3 text-xs">
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="p-12 text-center">
+          <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-3 text-gray-500 dark:text-slate-500" />
+          <p className="text-sm text-gray-500 dark:text-slate-400">Loading webhooks...</p>
+        </div>
+      ) : webhooks.length === 0 ? (
+        <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 p-12 text-center">
+          <Webhook className="h-10 w-10 text-gray-300 dark:text-slate-600 mx-auto mb-3" />
+          <p className="text-sm text-gray-600 dark:text-slate-400 mb-1">No webhooks yet</p>
+          <p className="text-xs text-gray-500 dark:text-slate-500">Add an endpoint to receive fleet events</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {webhooks.map((webhook) => (
+            <div key={webhook.id} className="bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-xl overflow-hidden">
+              <div className="p-5 flex items-start justify-between gap-4">
+                <div className={`min-w-0 ${webhook.enabled ? "" : "opacity-50"}`}>
+                  <div className="flex items-center gap-2">
+                    <h2 className="text-sm font-semibold text-gray-900 dark:text-white">{webhook.name}</h2>
+                    {!webhook.enabled && (
+                      <span className="text-xs px-2 py-0.5 rounded bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-400">
+                        disabled
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs font-mono text-gray-600 dark:text-slate-400 mt-1 break-all">{webhook.url}</p>
+                  <p className="text-xs text-gray-500 dark:text-slate-500 mt-1">
+                    {webhook.events.length === 0 ? "All events" : webhook.events.join(", ")}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-slate-500 mt-1">
+                    Last 24h: {webhook.last24h.delivered} delivered
+                    {webhook.last24h.pending > 0 && `, ${webhook.last24h.pending} retrying`}
+                    {webhook.last24h.failed > 0 && (
+                      <span className="text-red-600 dark:text-red-400">, {webhook.last24h.failed} failed</span>
+                    )}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => updateWebhook(webhook, { enabled: !webhook.enabled })}
+                    className="h-8 px-3 text-xs"
+                  >
+                    {webhook.enabled ? "Disable" : "Enable"}
+                  </Button>
+                  <button
+                    onClick={() => rotateSecret(webhook)}
+                    title="Rotate secret"
+                    className="p-2 rounded text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-slate-700"
+                  >
+                    <KeyRound className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => deleteWebhook(webhook)}
+                    title="Delete"
+                    className="p-2 rounded text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-gray-100 dark:hover:bg-slate-700"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              <button
+                onClick={() => setExpanded(expanded === webhook.id ? null : webhook.id)}
+                className="w-full px-5 py-2 border-t border-gray-200 dark:border-slate-700 text-xs text-gray-500 dark:text-slate-400 hover:bg-gray-50 dark:hover:bg-slate-700/50 flex items-center gap-1"
+              >
+                {expanded === webhook.id ? <ChevronUp className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+                Delivery log
+              </button>
+
+              {expanded === webhook.id && (
+                <div className="border-t border-gray-200 dark:border-slate-700 max-h-96 overflow-y-auto">
+                  {deliveries.length === 0 ? (
+                    <p className="p-5 text-xs text-gray-500 dark:text-slate-500">No deliveries yet</p>
+                  ) : (
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-gray-200 dark:border-slate-700 bg-gray-50 dark:bg-slate-900/50">
+                          {["Time", "Event", "Status", "Attempts", "Response"].map((heading) => (
+                            <th key={heading} className="text-left px-4 py-2 text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">
+                              {heading}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                        {deliveries.map((d) => (
+                          <tr key={d.id}>
+                            <td className="px-4 py-2 text-xs text-gray-600 dark:text-slate-400 whitespace-nowrap">{formatDate(d.createdAt)}</td>
+                            <td className="px-4 py-2 text-xs font-mono text-gray-900 dark:text-white">{d.event}</td>
+                            <td className="px-4 py-2">
+                              <span className={`text-xs px-2 py-0.5 rounded ${DELIVERY_STYLES[d.status]}`}>{d.status}</span>
+                            </td>
+                            <td className="px-4 py-2 text-xs text-gray-600 dark:text-slate-400">
+                              {d.attempts}
+                              {d.status === "pending" && d.nextAttemptAt && (
+                                <span className="text-gray-400"> · next {new Date(d.nextAttemptAt).toLocaleTimeString()}</span>
+                              )}
+                            </td>
+                            <td className="px-4 py-2 text-xs text-gray-600 dark:text-slate-400">
+                              {d.lastError || d.lastStatusCode || "—"}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {createModal && (
+        <CreateWebhookModal
+          onClose={() => setCreateModal(false)}
+          onCreated={(name, secret) => {
+            setCreateModal(false)
+            setRevealedSecret({ name, secret })
+            fetchWebhooks()
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+function CreateWebhookModal({
+  onClose,
+  onCreated,
+}: {
+  onClose: () => void
+  onCreated: (name: string, secret: string) => void
+}) {
+  const [name, setName] = useState("")
+  const [url, setUrl] = useState("")
+  const [events, setEvents] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  const toggleEvent = (event: string) => {
+    setEvents((prev) => prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event])
+  }
+
+  const createWebhook = async () => {
+    setSaving(true)
+    setError("")
+
+    try {
+      const res = await fetch("/api/webhooks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, url: url.trim(), events }),
+      })
+
+      const data = await res.json()
+      if (data.success) {
+        onCreated(data.webhook.name, data.secret)
+      } else {
+        setError(data.error || "Failed to create webhook")
+      }
+    } catch {
+      setError("Network error")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = "w-full h-9 px-3 text-sm bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white"
+  const labelClass = "text-xs text-gray-600 dark:text-slate-400 mb-1.5 block"
+
+  return (
+    <div className="fixed inset-0 bg-black/50 dark:bg-black/70 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 w-full max-w-md shadow-xl">
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-slate-700 flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white">New Webhook</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-900 dark:hover:text-white text-xl">×</button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <label className={labelClass}>Name</label>
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Ops pager" className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Endpoint URL</label>
+            <input value={url} onChange={(e) => setUrl(e.target.value)} placeholder="https://..." className={`${inputClass} font-mono`} />
+          </div>
+          <div>
+            <label className={labelClass}>Events (none selected = all events)</label>
+            <div className="grid grid-cols-2 gap-1.5">
+              {EVENTS.map((event) => (
+                <label key={event} className="flex items-center gap-2 text-xs font-mono text-gray-700 dark:text-slate-300">
+                  <input type="checkbox" checked={events.includes(event)} onChange={() => toggleEvent(event)} />
+                  {event}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {error && (
+            <div className="text-xs text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/20 rounded-lg px-3 py-2">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onClose} className="flex-1 h-9">Cancel</Button>
+            <Button onClick={createWebhook} disabled={saving || !name || !url} className="flex-1 h-9 bg-blue-600 hover:bg-blue-700 text-white">
+              {saving ? "Creating..." : "Create Webhook"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+"use client"
+
+import { COMMAND_SCHEMAS, type CommandType } from "@/lib/command-schema"
+
+type CommandPayloadFieldsProps = {
+  type: CommandType
+  values: Record<string, string>
+  onChange: (values: Record<string, string>) => void
+}
+
+const inputClass = "w-full px-3 py-2 text-sm bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded-lg text-gray-900 dark:text-white font-mono"
+const labelClass = "text-xs text-gray-600 dark:text-slate-400 mb-1.5 block"
+
+// One input per payload field of a command type, from its schema
+export function CommandPayloadFields({ type, values, onChange }: CommandPayloadFieldsProps) {
+  return (
+    <>
+      {COMMAND_SCHEMAS[type].fields.map((field) => (
+        <div key={field.name}>
+          <label className={labelClass}>{field.label}</label>
+          {field.kind === "script" ? (
+            <textarea
+              value={values[field.name] || ""}
+              onChange={(e) => onChange({ ...values, [field.name]: e.target.value })}
+              placeholder={field.placeholder}
+              rows={5}
+              className={inputClass}
+            />
+          ) : (
+            <input
+              value={values[field.name] || ""}
+              onChange={(e) => onChange({ ...values, [field.name]: e.target.value })}
+              placeholder={field.placeholder}
+              className={`${inputClass} h-9`}
+            />
+          )}
+        </div>
+      ))}
+    </>
+  )
+}
@@ -0,0 +1,285 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { RefreshCw } from "lucide-react"
+import { TimeSeriesChart, type ChartMarker, type ChartSeries } from "@/components/time-series-chart"
+
+type Range = "1h" | "24h" | "7d" | "30d"
+
+const RANGES: { value: Range; ms: number }[] = [
+  { value: "1h", ms: 60 * 60 * 1000 },
+  { value: "24h", ms: 24 * 60 * 60 * 1000 },
+  { value: "7d", ms: 7 * 24 * 60 * 60 * 1000 },
+  { value: "30d", ms: 30 * 24 * 60 * 60 * 1000 },
+]
+
+// Time per point for each resolution the metrics API returns
+const STEP_MS: Record<string, number> = {
+  raw: 60 * 1000,
+  "5m": 5 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+}
+
+interface MetricPoint {
+  createdAt: string
+  cpuLoad: number | null
+  cpuLoadMax: number | null
+  tempCelsius: number | null
+  tempCelsiusMax: number | null
+  memUsedMb: number | null
+  memTotalMb: number | null
+  diskUsedMb: number | null
+  diskTotalMb: number | null
+  wifiSignal: number | null
+  wifiSignalMin: number | null
+}
+
+interface BlockBucket {
+  createdAt: string
+  inbound: number
+  outbound: number
+}
+
+interface ChartData {
+  from: number
+  to: number
+  step: number
+  rollup: boolean
+  metricTimes: number[]
+  metrics: MetricPoint[]
+  blockTimes: number[]
+  blocks: BlockBucket[]
+  markers: (ChartMarker & { kind: "reboot" | "command" })[]
+}
+
+const MARKER_COLORS = {
+  reboot: "#ef4444",
+  command: "#3b82f6",
+}
+
+function formatTime(time: number, range: Range) {
+  const date = new Date(time)
+  return range === "1h" || range === "24h"
+    ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })
+}
+
+/**
+ * Metrics charts for the device page: CPU load, memory, disk, temperature,
+ * WiFi signal and blocks over a selectable window, with a shared hover
+ * tooltip and optional reboot and command markers
+ */
+export function DeviceMetricsCharts({ deviceId }: { deviceId: string }) {
+  const [range, setRange] = useState<Range>("24h")
+  const [data, setData] = useState<ChartData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState("")
+  const [hover, setHover] = useState<number | null>(null)
+  const [showReboots, setShowReboots] = useState(true)
+  const [showCommands, setShowCommands] = useState(true)
+
+  const fetchCharts = async () => {
+    setLoading(true)
+    setError("")
+
+    const to = new Date()
+    const from = new Date(to.getTime() - RANGES.find((r) => r.value === range)!.ms)
+    const windowQuery = `from=${encodeURIComponent(from.toISOString())}&to=${encodeURIComponent(to.toISOString())}`
+
+    try {
+      const metricsRes = await fetch(`/api/devices/${deviceId}/metrics?${windowQuery}`)
+      const metricsData = await metricsRes.json()
+      if (!metricsRes.ok) {
+        setError(metricsData.error || "Failed to load metrics")
+        return
+      }
+
+      // Blocks at the same resolution so both line up
+      const [eventsRes, commandsRes, rebootsRes] = await Promise.all([
+        fetch(`/api/devices/${deviceId}/events?${windowQuery}&resolution=${metricsData.resolution}`),
+        fetch(`/api/devices/commands?deviceId=${encodeURIComponent(deviceId)}&${windowQuery}`),
+        fetch(`/api/devices/${deviceId}/reboots?${windowQuery}&limit=500`),
+      ])
+      const eventsData = await eventsRes.json()
+      const commandsData = await commandsRes.json()
+      const rebootsData = await rebootsRes.json()
+
+      const markers: ChartData["markers"] = []
+      for (const c of commandsData.commands || []) {
+        if (!c.sentAt) continue
+        markers.push({
+          time: new Date(c.sentAt).getTime(),
+          kind: "command",
+          label: `${c.type} (${c.status})`,
+          color: MARKER_COLORS.command,
+          dashed: true,
+        })
+      }
+      // Reboots as detected from the device's uptime, commanded or not
+      for (const r of rebootsData.reboots || []) {
+        markers.push({
+          time: new Date(r.rebootedAt).getTime(),
+          kind: "reboot",
+          label: r.kind === "unexpected" ? "Unexpected reboot" : "Reboot (commanded)",
+          color: MARKER_COLORS.reboot,
+        })
+      }
+
+      const metrics: MetricPoint[] = metricsData.metrics || []
+      const blocks: BlockBucket[] = eventsData.buckets || []
+
+      setData({
+        from: from.getTime(),
+        to: to.getTime(),
+        step: STEP_MS[metricsData.resolution] || STEP_MS.raw,
+        rollup: metricsData.resolution !== "raw",
+        metricTimes: metrics.map((m) => new Date(m.createdAt).getTime()),
+        metrics,
+        blockTimes: blocks.map((b) => new Date(b.createdAt).getTime()),
+        blocks,
+        markers: markers.filter((m) => m.time >= from.getTime() && m.time <= to.getTime()),
+      })
+    } catch {
+      setError("Network error")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setHover(null)
+    fetchCharts()
+  }, [deviceId, range])
+
+  const markers = (data?.markers || []).filter((m) => (m.kind === "reboot" ? showReboots : showCommands))
+  const metrics = data?.metrics || []
+  const pick = (key: keyof Omit<MetricPoint, "createdAt">) => metrics.map((m) => m[key])
+
+  const charts: { title: string; format: (v: number) => string; zeroBased?: boolean; bars?: boolean; series: ChartSeries[] }[] = data ? [
+    {
+      title: "CPU Load",
+      format: (v) => v.toFixed(2),
+      zeroBased: true,
+      series: [
+        { label: data.rollup ? "Average" : "Load", color: "#3b82f6", values: pick("cpuLoad") },
+        ...(data.rollup ? [{ label: "Peak", color: "#93c5fd", values: pick("cpuLoadMax"), dashed: true }] : []),
+      ],
+    },
+    {
+      title: "Memory",
+      format: (v) => `${Math.round(v)} MB`,
+      zeroBased: true,
+      series: [
+        { label: "Used", color: "#8b5cf6", values: pick("memUsedMb") },
+        { label: "Total", color: "#9ca3af", values: pick("memTotalMb"), dashed: true },
+      ],
+    },
+    {
+      title: "Disk",
+      format: (v) => `${Math.round(v)} MB`,
+      zeroBased: true,
+      series: [
+        { label: "Used", color: "#0ea5e9", values: pick("diskUsedMb") },
+        { label: "Total", color: "#9ca3af", values: pick("diskTotalMb"), dashed: true },
+      ],
+    },
+    {
+      title: "Temperature",
+      format: (v) => `${v.toFixed(1)}°C`,
+      series: [
+        { label: data.rollup ? "Average" : "Temp", color: "#f97316", values: pick("tempCelsius") },
+        ...(data.rollup ? [{ label: "Peak", color: "#fdba74", values: pick("tempCelsiusMax"), dashed: true }] : []),
+      ],
+    },
+    {
+      title: "WiFi Signal",
+      format: (v) => `${Math.round(v)} dBm`,
+      series: [
+        { label: data.rollup ? "Average" : "Signal", color: "#10b981", values: pick("wifiSignal") },
+        ...(data.rollup ? [{ label: "Weakest", color: "#6ee7b7", values: pick("wifiSignalMin"), dashed: true }] : []),
+      ],
+    },
+    {
+      title: "Blocks",
+      format: (v) => Math.round(v).toLocaleString(),
+      zeroBased: true,
+      bars: true,
+      series: [
+        { label: "Inbound", color: "#ef4444", values: data.blocks.map((b) => b.inbound) },
+        { label: "Outbound", color: "#f59e0b", values: data.blocks.map((b) => b.outbound) },
+      ],
+    },
+  ] : []
+
+  return (
+    <div className="bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-xl mb-6">
+      <div className="px-5 py-3 border-b border-gray-200 dark:border-slate-700 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900 dark:text-white">Metrics</h2>
+          <p className="text-xs text-gray-500 dark:text-slate-400 mt-0.5">
+            {!data?.rollup ? "Every check-in" : data.step === STEP_MS["1h"] ? "Hourly averages" : "5-minute averages"}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-1.5 text-xs text-gray-600 dark:text-slate-400">
+            <input type="checkbox" checked={showReboots} onChange={(e) => setShowReboots(e.target.checked)} />
+            <span className="inline-block w-2.5 h-0.5" style={{ backgroundColor: MARKER_COLORS.reboot }} />
+            Reboots
+          </label>
+          <label className="flex items-center gap-1.5 text-xs text-gray-600 dark:text-slate-400">
+            <input type="checkbox" checked={showCommands} onChange={(e) => setShowCommands(e.target.checked)} />
+            <span className="inline-block w-2.5 h-0.5" style={{ backgroundColor: MARKER_COLORS.command }} />
+            Commands
+          </label>
+          <div className="flex rounded-lg border border-gray-200 dark:border-slate-700 overflow-hidden">
+            {RANGES.map((r) => (
+              <button
+                key={r.value}
+                onClick={() => setRange(r.value)}
+                className={`px-3 py-1 text-xs font-medium ${
+                  range === r.value
+                    ? "bg-gray-900 dark:bg-white text-white dark:text-gray-900"
+                    : "text-gray-600 dark:text-slate-400 hover:bg-gray-100 dark:hover:bg-slate-700"
+                }`}
+              >
+                {r.value}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={fetchCharts}
+            title="Refresh"
+            className="p-1.5 rounded text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-slate-700"
+          >
+            <RefreshCw className={`h-3.5 w-3.5 ${loading ? "animate-spin" : ""}`} />
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="p-8 text-center text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : !data ? (
+        <p className="p-8 text-center text-sm text-gray-500 dark:text-slate-400">Loading metrics...</p>
+      ) : metrics.length === 0 && data.blocks.length === 0 ? (
+        <p className="p-8 text-center text-sm text-gray-500 dark:text-slate-400">No metrics in the last {range}</p>
+      ) : (
+        <div className="p-5 grid md:grid-cols-2 gap-6">
+          {charts.map((chart) => (
+            <TimeSeriesChart
+              key={chart.title}
+              {...chart}
+              times={chart.bars ? data.blockTimes : data.metricTimes}
+              from={data.from}
+              to={data.to}
+              step={data.step}
+              formatTime={(time) => formatTime(time, range)}
+              markers={markers}
+              hover={hover}
+              onHover={setHover}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
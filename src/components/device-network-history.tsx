@@ -0,0 +1,139 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { RefreshCw, Globe, AlertTriangle, Copy } from "lucide-react"
+
+interface NetworkInterval {
+  id: string
+  publicIp: string
+  asn: number | null
+  isp: string | null
+  city: string | null
+  country: string | null
+  countryCode: string | null
+  firstSeen: string
+  lastSeen: string
+  checkins: number
+  countryChanged: boolean
+  concurrent: boolean
+}
+
+function formatDate(date: string) {
+  const d = new Date(date)
+  return d.toLocaleDateString() + " " + d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+}
+
+function formatDuration(from: string, to: string) {
+  const minutes = Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000)
+  if (minutes < 60) return `${minutes}m`
+  if (minutes < 48 * 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+  return `${Math.floor(minutes / (24 * 60))}d`
+}
+
+/**
+ * Network history for the device page: each public IP the device checked in
+ * from, with its network and location, flagging country changes and IPs used
+ * at the same time as another
+ */
+export function DeviceNetworkHistory({ deviceId }: { deviceId: string }) {
+  const [history, setHistory] = useState<NetworkInterval[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState("")
+
+  const fetchHistory = async () => {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/devices/${deviceId}/network`)
+      const data = await res.json()
+      if (res.ok) {
+        setHistory(data.history || [])
+        setError("")
+      } else {
+        setError(data.error || "Failed to load network history")
+      }
+    } catch {
+      setError("Network error")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchHistory()
+  }, [deviceId])
+
+  return (
+    <div className="bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-xl mb-6">
+      <div className="px-5 py-3 border-b border-gray-200 dark:border-slate-700 flex items-center justify-between">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900 dark:text-white">Network History</h2>
+          <p className="text-xs text-gray-500 dark:text-slate-400 mt-0.5">Public IPs this device has checked in from</p>
+        </div>
+        <button
+          onClick={fetchHistory}
+          title="Refresh"
+          className="p-1.5 rounded text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-slate-700"
+        >
+          <RefreshCw className={`h-3.5 w-3.5 ${loading ? "animate-spin" : ""}`} />
+        </button>
+      </div>
+
+      {error ? (
+        <p className="p-8 text-center text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : history.length === 0 ? (
+        <div className="p-8 text-center">
+          <Globe className="h-8 w-8 text-gray-300 dark:text-slate-600 mx-auto mb-2" />
+          <p className="text-sm text-gray-500 dark:text-slate-400">{loading ? "Loading network history..." : "No public IPs recorded yet"}</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-slate-700 bg-gray-50 dark:bg-slate-900/50">
+                {["Public IP", "Network", "Location", "From", "Until", "Check-ins"].map((heading) => (
+                  <th key={heading} className="px-4 py-2.5 text-left text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+              {history.map((i) => (
+                <tr key={i.id} className={i.concurrent ? "bg-red-50/50 dark:bg-red-500/5" : ""}>
+                  <td className="px-4 py-2.5">
+                    <div className="text-sm font-mono text-gray-900 dark:text-white">{i.publicIp}</div>
+                    {i.concurrent && (
+                      <span className="inline-flex items-center gap-1 mt-0.5 text-xs text-red-600 dark:text-red-400" title="Check-ins from this IP alternated with another IP's, possibly a cloned device ID">
+                        <Copy className="h-3 w-3" />
+                        Took turns with another IP
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2.5 text-sm text-gray-700 dark:text-slate-300">
+                    {i.isp || "—"}
+                    {i.asn && <span className="ml-1.5 text-xs text-gray-500 dark:text-slate-500">AS{i.asn}</span>}
+                  </td>
+                  <td className="px-4 py-2.5 text-sm text-gray-700 dark:text-slate-300">
+                    {[i.city, i.country || i.countryCode].filter(Boolean).join(", ") || "—"}
+                    {i.countryChanged && (
+                      <span className="ml-2 inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-medium bg-orange-100 dark:bg-orange-500/20 text-orange-700 dark:text-orange-400">
+                        <AlertTriangle className="h-3 w-3" />
+                        Country changed
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2.5 text-xs text-gray-500 dark:text-slate-400 whitespace-nowrap">{formatDate(i.firstSeen)}</td>
+                  <td className="px-4 py-2.5 text-xs text-gray-500 dark:text-slate-400 whitespace-nowrap">
+                    {formatDate(i.lastSeen)}
+                    <span className="ml-1.5 text-gray-400 dark:text-slate-500">({formatDuration(i.firstSeen, i.lastSeen)})</span>
+                  </td>
+                  <td className="px-4 py-2.5 text-sm text-gray-700 dark:text-slate-300">{i.checkins.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
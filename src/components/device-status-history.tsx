@@ -0,0 +1,179 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { RefreshCw, History, RotateCcw } from "lucide-react"
+
+interface StatusChange {
+  id: string
+  fromStatus: string | null
+  toStatus: "online" | "offline" | "warning"
+  cause: string
+  changedAt: string
+}
+
+interface Reboot {
+  id: string
+  rebootedAt: string
+  previousUptime: number | null
+  kind: "commanded" | "unexpected"
+}
+
+type TimelineEntry =
+  | { type: "status"; time: string; change: StatusChange; until: number }
+  | { type: "reboot"; time: string; reboot: Reboot }
+
+interface Availability {
+  observedSeconds: number
+  downtimeSeconds: number
+  incidents: number
+  availability: number | null
+}
+
+// Labels for the causes recorded with each status change
+export const STATUS_CAUSES: Record<string, string> = {
+  checkin: "Checked in",
+  missed_checkins: "Missed check-ins",
+  registered: "Registered",
+  baseline: "History started",
+  manual: "Changed manually",
+  crash_loop: "Crash loop",
+}
+
+export function formatCause(cause: string | null) {
+  if (!cause) return "—"
+  return STATUS_CAUSES[cause] || cause.replace(/_/g, " ")
+}
+
+const STATUS_DOTS: Record<StatusChange["toStatus"], string> = {
+  online: "bg-green-500",
+  warning: "bg-amber-500",
+  offline: "bg-gray-400",
+}
+
+function formatDate(date: string) {
+  const d = new Date(date)
+  return d.toLocaleDateString() + " " + d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+}
+
+function formatDuration(ms: number) {
+  const minutes = Math.round(ms / 60000)
+  if (minutes < 60) return `${minutes}m`
+  if (minutes < 48 * 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+  return `${Math.floor(minutes / (24 * 60))}d`
+}
+
+/**
+ * Status timeline for the device page: each change between online, warning
+ * and offline with its cause and how long it lasted, interleaved with
+ * detected reboots, and the device's availability over the last 30 days
+ */
+export function DeviceStatusHistory({ deviceId }: { deviceId: string }) {
+  const [history, setHistory] = useState<StatusChange[]>([])
+  const [reboots, setReboots] = useState<Reboot[]>([])
+  const [availability, setAvailability] = useState<Availability | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState("")
+
+  const fetchHistory = async () => {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/devices/${deviceId}/status-history`)
+      const data = await res.json()
+      if (res.ok) {
+        setHistory(data.history || [])
+        setReboots(data.reboots || [])
+        setAvailability(data.availability)
+        setError("")
+      } else {
+        setError(data.error || "Failed to load status history")
+      }
+    } catch {
+      setError("Network error")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchHistory()
+  }, [deviceId])
+
+  // History is newest first, so a change lasted until the one before it
+  const timeline: TimelineEntry[] = [
+    ...history.map((change, index) => ({
+      type: "status" as const,
+      time: change.changedAt,
+      change,
+      until: index === 0 ? Date.now() : new Date(history[index - 1].changedAt).getTime(),
+    })),
+    ...reboots.map((reboot) => ({ type: "reboot" as const, time: reboot.rebootedAt, reboot })),
+  ].sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime())
+
+  return (
+    <div className="bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-xl mb-6">
+      <div className="px-5 py-3 border-b border-gray-200 dark:border-slate-700 flex items-center justify-between">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900 dark:text-white">Status History</h2>
+          <p className="text-xs text-gray-500 dark:text-slate-400 mt-0.5">
+            {availability?.availability != null
+              ? `${(availability.availability * 100).toFixed(2)}% available over 30 days · ${availability.incidents} outage${availability.incidents === 1 ? "" : "s"}, ${formatDuration(availability.downtimeSeconds * 1000)} down`
+              : "Status changes and reboots"}
+          </p>
+        </div>
+        <button
+          onClick={fetchHistory}
+          title="Refresh"
+          className="p-1.5 rounded text-gray-400 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-slate-700"
+        >
+          <RefreshCw className={`h-3.5 w-3.5 ${loading ? "animate-spin" : ""}`} />
+        </button>
+      </div>
+
+      {error ? (
+        <p className="p-8 text-center text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : timeline.length === 0 ? (
+        <div className="p-8 text-center">
+          <History className="h-8 w-8 text-gray-300 dark:text-slate-600 mx-auto mb-2" />
+          <p className="text-sm text-gray-500 dark:text-slate-400">{loading ? "Loading status history..." : "No status changes recorded yet"}</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-slate-700 max-h-80 overflow-y-auto">
+          {timeline.map((entry) => entry.type === "reboot" ? (
+            <div key={entry.reboot.id} className="px-5 py-2.5 flex items-center gap-3">
+              <RotateCcw className={`h-3 w-3 -mx-0.5 flex-shrink-0 ${entry.reboot.kind === "unexpected" ? "text-red-500" : "text-gray-400"}`} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-900 dark:text-white">
+                  {entry.reboot.kind === "unexpected" ? "Unexpected reboot" : "Rebooted by command"}
+                  {entry.reboot.previousUptime !== null && (
+                    <span className="ml-2 text-xs text-gray-500 dark:text-slate-400">
+                      after {formatDuration(entry.reboot.previousUptime * 1000)} up
+                    </span>
+                  )}
+                </p>
+              </div>
+              <span className="text-xs text-gray-500 dark:text-slate-400 whitespace-nowrap">{formatDate(entry.time)}</span>
+            </div>
+          ) : (
+            <div key={entry.change.id} className="px-5 py-2.5 flex items-center gap-3">
+              <span className={`h-2 w-2 rounded-full flex-shrink-0 ${STATUS_DOTS[entry.change.toStatus]}`} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-900 dark:text-white">
+                  <span className="capitalize">{entry.change.fromStatus || "—"}</span>
+                  <span className="mx-1.5 text-gray-400">→</span>
+                  <span className="capitalize font-medium">{entry.change.toStatus}</span>
+                  <span className="ml-2 text-xs text-gray-500 dark:text-slate-400">{formatCause(entry.change.cause)}</span>
+                </p>
+              </div>
+              <span className="text-xs text-gray-500 dark:text-slate-400 whitespace-nowrap">
+                {formatDate(entry.time)}
+                <span className="ml-1.5 text-gray-400 dark:text-slate-500">
+                  ({entry.change === history[0] ? "for " : ""}{formatDuration(entry.until - new Date(entry.time).getTime())})
+                </span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
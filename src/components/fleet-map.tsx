@@ -0,0 +1,330 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import type { PointerEvent } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { Minus, Plus, Maximize2, X } from "lucide-react"
+import { LAND_PATH, MAP_HEIGHT, MAP_WIDTH, WATER_PATH, projectPoint } from "@/lib/world-map"
+
+export interface MapDevice {
+  id: string
+  name: string | null
+  status: "online" | "offline" | "warning"
+  lat: number
+  lng: number
+  city: string | null
+  country: string | null
+}
+
+export const STATUS_COLORS: Record<MapDevice["status"], string> = {
+  online: "#22c55e",
+  warning: "#f59e0b",
+  offline: "#9ca3af",
+}
+
+const STATUSES: MapDevice["status"][] = ["online", "warning", "offline"]
+
+const MAX_ZOOM = 32
+
+// Devices closer than this many map units at zoom 1 share a cluster
+const CLUSTER_CELL = 28
+
+interface Cluster {
+  key: string
+  x: number
+  y: number
+  devices: MapDevice[]
+}
+
+interface View {
+  x: number
+  y: number
+  zoom: number
+}
+
+function clampView(view: View): View {
+  const zoom = Math.min(MAX_ZOOM, Math.max(1, view.zoom))
+  const width = MAP_WIDTH / zoom
+  const height = MAP_HEIGHT / zoom
+  return {
+    zoom,
+    x: Math.min(MAP_WIDTH - width, Math.max(0, view.x)),
+    y: Math.min(MAP_HEIGHT - height, Math.max(0, view.y)),
+  }
+}
+
+// Grid clustering in map units, so clusters split as the map zooms in
+function clusterDevices(devices: MapDevice[], zoom: number): Cluster[] {
+  const cell = CLUSTER_CELL / zoom
+  const cells = new Map<string, MapDevice[]>()
+  for (const d of devices) {
+    const [x, y] = projectPoint(d.lng, d.lat)
+    const key = `${Math.floor(x / cell)}:${Math.floor(y / cell)}`
+    cells.set(key, [...(cells.get(key) || []), d])
+  }
+
+  return Array.from(cells, ([key, members]) => {
+    const points = members.map((d) => projectPoint(d.lng, d.lat))
+    return {
+      key,
+      x: points.reduce((sum, [x]) => sum + x, 0) / points.length,
+      y: points.reduce((sum, [, y]) => sum + y, 0) / points.length,
+      devices: members,
+    }
+  })
+}
+
+/**
+ * World map of device locations, drawn from the bundled outline in
+ * lib/world-map. Nearby devices cluster into rings showing their status mix;
+ * clicking a cluster zooms in on it, or lists its devices once they can't be
+ * told apart, and clicking a single device opens its page.
+ */
+export function FleetMap({ devices }: { devices: MapDevice[] }) {
+  const router = useRouter()
+  const svgRef = useRef<SVGSVGElement>(null)
+  const drag = useRef<{ clientX: number; clientY: number; view: View; moved: boolean } | null>(null)
+  const [view, setView] = useState<View>({ x: 0, y: 0, zoom: 1 })
+  const [selected, setSelected] = useState<Cluster | null>(null)
+
+  const width = MAP_WIDTH / view.zoom
+  const height = MAP_HEIGHT / view.zoom
+  const scale = 1 / view.zoom
+  const clusters = clusterDevices(devices, view.zoom)
+
+  const toMap = (clientX: number, clientY: number): [number, number] => {
+    const rect = svgRef.current!.getBoundingClientRect()
+    return [
+      view.x + ((clientX - rect.left) / rect.width) * width,
+      view.y + ((clientY - rect.top) / rect.height) * height,
+    ]
+  }
+
+  const zoomAt = (factor: number, [px, py]: [number, number]) => {
+    setView((current) => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(1, current.zoom * factor))
+      const ratio = current.zoom / zoom
+      return clampView({ zoom, x: px - (px - current.x) * ratio, y: py - (py - current.y) * ratio })
+    })
+  }
+
+  // React's wheel listener is passive, so the page would scroll along with the map
+  useEffect(() => {
+    const svg = svgRef.current
+    if (!svg) return
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      const rect = svg.getBoundingClientRect()
+      setView((current) => {
+        const w = MAP_WIDTH / current.zoom
+        const h = MAP_HEIGHT / current.zoom
+        const px = current.x + ((e.clientX - rect.left) / rect.width) * w
+        const py = current.y + ((e.clientY - rect.top) / rect.height) * h
+        const zoom = Math.min(MAX_ZOOM, Math.max(1, current.zoom * (e.deltaY < 0 ? 1.25 : 0.8)))
+        const ratio = current.zoom / zoom
+        return clampView({ zoom, x: px - (px - current.x) * ratio, y: py - (py - current.y) * ratio })
+      })
+    }
+    svg.addEventListener("wheel", onWheel, { passive: false })
+    return () => svg.removeEventListener("wheel", onWheel)
+  }, [])
+
+  // Clusters change with the devices shown, so drop a stale selection
+  useEffect(() => {
+    setSelected(null)
+  }, [devices])
+
+  const onPointerDown = (e: PointerEvent<SVGSVGElement>) => {
+    drag.current = { clientX: e.clientX, clientY: e.clientY, view, moved: false }
+  }
+
+  const onPointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    const start = drag.current
+    if (!start) return
+    const dx = e.clientX - start.clientX
+    const dy = e.clientY - start.clientY
+    if (Math.abs(dx) + Math.abs(dy) > 3) start.moved = true
+    if (!start.moved) return
+    const rect = svgRef.current!.getBoundingClientRect()
+    setView(clampView({
+      zoom: start.view.zoom,
+      x: start.view.x - (dx / rect.width) * (MAP_WIDTH / start.view.zoom),
+      y: start.view.y - (dy / rect.height) * (MAP_HEIGHT / start.view.zoom),
+    }))
+  }
+
+  const endDrag = () => {
+    // Let the click that ends a drag see that it was one
+    setTimeout(() => {
+      drag.current = null
+    }, 0)
+  }
+
+  const openCluster = (cluster: Cluster) => {
+    if (drag.current?.moved) return
+
+    if (cluster.devices.length === 1) {
+      router.push(`/dashboard/devices/${cluster.devices[0].id}`)
+      return
+    }
+
+    // Zoom until the cluster's devices would separate, or list them if they never will
+    const points = cluster.devices.map((d) => projectPoint(d.lng, d.lat))
+    const spread = Math.max(
+      Math.max(...points.map(([x]) => x)) - Math.min(...points.map(([x]) => x)),
+      Math.max(...points.map(([, y]) => y)) - Math.min(...points.map(([, y]) => y)),
+    )
+    const zoom = spread > 0 ? Math.min(MAX_ZOOM, (CLUSTER_CELL * 2) / spread) : MAX_ZOOM
+    if (zoom <= view.zoom * 1.01 || spread === 0) {
+      setSelected(cluster)
+      return
+    }
+
+    setSelected(null)
+    setView(clampView({
+      zoom,
+      x: cluster.x - MAP_WIDTH / zoom / 2,
+      y: cluster.y - MAP_HEIGHT / zoom / 2,
+    }))
+  }
+
+  return (
+    <div className="relative">
+      <svg
+        ref={svgRef}
+        viewBox={`${view.x} ${view.y} ${width} ${height}`}
+        className="w-full bg-sky-50 dark:bg-slate-900 rounded-lg select-none touch-none cursor-grab active:cursor-grabbing"
+        style={{ aspectRatio: `${MAP_WIDTH} / ${MAP_HEIGHT}` }}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={endDrag}
+        onPointerLeave={endDrag}
+        onDoubleClick={(e) => zoomAt(2, toMap(e.clientX, e.clientY))}
+      >
+        <path d={LAND_PATH} className="fill-gray-200 dark:fill-slate-700 stroke-gray-300 dark:stroke-slate-600" strokeWidth={0.5} vectorEffect="non-scaling-stroke" />
+        <path d={WATER_PATH} className="fill-sky-50 dark:fill-slate-900 stroke-gray-300 dark:stroke-slate-600" strokeWidth={0.5} vectorEffect="non-scaling-stroke" />
+
+        {clusters.map((cluster) => {
+          const single = cluster.devices.length === 1
+          const label = single
+            ? `${cluster.devices[0].name || cluster.devices[0].id} (${cluster.devices[0].status})${cluster.devices[0].city ? ` · ${cluster.devices[0].city}` : ""}`
+            : `${cluster.devices.length} devices · ` + STATUSES
+              .map((s) => `${cluster.devices.filter((d) => d.status === s).length} ${s}`)
+              .join(", ")
+
+          if (single) {
+            return (
+              <circle
+                key={cluster.key}
+                cx={cluster.x}
+                cy={cluster.y}
+                r={4.5 * scale}
+                fill={STATUS_COLORS[cluster.devices[0].status]}
+                stroke="white"
+                strokeWidth={1.5 * scale}
+                className="cursor-pointer"
+                onClick={() => openCluster(cluster)}
+              >
+                <title>{label}</title>
+              </circle>
+            )
+          }
+
+          // A ring split by status, with the device count in the middle
+          const r = (cluster.devices.length >= 100 ? 13 : cluster.devices.length >= 10 ? 11 : 9) * scale
+          const circumference = 2 * Math.PI * r
+          let offset = 0
+          return (
+            <g key={cluster.key} className="cursor-pointer" onClick={() => openCluster(cluster)}>
+              <title>{label}</title>
+              <circle cx={cluster.x} cy={cluster.y} r={r} className="fill-white dark:fill-slate-800" />
+              {STATUSES.map((status) => {
+                const length = (cluster.devices.filter((d) => d.status === status).length / cluster.devices.length) * circumference
+                const dashOffset = -offset
+                offset += length
+                return length > 0 ? (
+                  <circle
+                    key={status}
+                    cx={cluster.x}
+                    cy={cluster.y}
+                    r={r}
+                    fill="none"
+                    stroke={STATUS_COLORS[status]}
+                    strokeWidth={3.5 * scale}
+                    strokeDasharray={`${length} ${circumference - length}`}
+                    strokeDashoffset={dashOffset}
+                    transform={`rotate(-90 ${cluster.x} ${cluster.y})`}
+                  />
+                ) : null
+              })}
+              <text
+                x={cluster.x}
+                y={cluster.y}
+                textAnchor="middle"
+                dominantBaseline="central"
+                fontSize={8 * scale}
+                fontWeight={600}
+                className="fill-gray-900 dark:fill-white"
+              >
+                {cluster.devices.length}
+              </text>
+            </g>
+          )
+        })}
+      </svg>
+
+      {/* Zoom controls */}
+      <div className="absolute top-3 right-3 flex flex-col rounded-lg border border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 overflow-hidden">
+        <button
+          onClick={() => zoomAt(2, [view.x + width / 2, view.y + height / 2])}
+          title="Zoom in"
+          className="p-1.5 text-gray-600 dark:text-slate-400 hover:bg-gray-100 dark:hover:bg-slate-700"
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+        <button
+          onClick={() => zoomAt(0.5, [view.x + width / 2, view.y + height / 2])}
+          title="Zoom out"
+          className="p-1.5 text-gray-600 dark:text-slate-400 hover:bg-gray-100 dark:hover:bg-slate-700 border-t border-gray-200 dark:border-slate-700"
+        >
+          <Minus className="h-4 w-4" />
+        </button>
+        <button
+          onClick={() => setView({ x: 0, y: 0, zoom: 1 })}
+          title="Show whole world"
+          className="p-1.5 text-gray-600 dark:text-slate-400 hover:bg-gray-100 dark:hover:bg-slate-700 border-t border-gray-200 dark:border-slate-700"
+        >
+          <Maximize2 className="h-4 w-4" />
+        </button>
+      </div>
+
+      {/* Devices sharing one location */}
+      {selected && (
+        <div className="absolute bottom-3 left-3 w-72 max-h-64 overflow-y-auto rounded-lg border border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800 shadow-lg">
+          <div className="px-3 py-2 flex items-center justify-between border-b border-gray-200 dark:border-slate-700">
+            <span className="text-xs font-medium text-gray-900 dark:text-white">
+              {selected.devices.length} devices{selected.devices[0].city ? ` in ${selected.devices[0].city}` : ""}
+            </span>
+            <button onClick={() => setSelected(null)} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+          <div className="divide-y divide-gray-100 dark:divide-slate-700">
+            {selected.devices.map((d) => (
+              <Link
+                key={d.id}
+                href={`/dashboard/devices/${d.id}`}
+                className="px-3 py-1.5 flex items-center gap-2 text-xs hover:bg-gray-50 dark:hover:bg-slate-700/50"
+              >
+                <span className="h-2 w-2 rounded-full shrink-0" style={{ backgroundColor: STATUS_COLORS[d.status] }} />
+                <span className="text-gray-900 dark:text-white truncate">{d.name || d.id}</span>
+                <span className="ml-auto text-gray-500 dark:text-slate-400 capitalize">{d.status}</span>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
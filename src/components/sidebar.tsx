@@ -3,7 +3,7 @@
 import Link from "next/link"
 import Image from "next/image"
 import { usePathname, useRouter } from "next/navigation"
-import { LayoutDashboard, Users, Server, LogOut, Menu, X } from "lucide-react"
+import { LayoutDashboard, BarChart3, Gauge, Users, Server, MapIcon, Rocket, CalendarClock, FileCode, ShieldCheck, Bell, Webhook, ScrollText, LogOut, Menu, X } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { cn } from "@/lib/utils"
 import { useState } from "react"
@@ -14,6 +14,16 @@ const navigation = [
     href: "/dashboard",
     icon: LayoutDashboard,
   },
+  {
+    name: "Analytics",
+    href: "/dashboard/analytics",
+    icon: BarChart3,
+  },
+  {
+    name: "SLA",
+    href: "/dashboard/sla",
+    icon: Gauge,
+  },
   {
     name: "Users",
     href: "/dashboard/users",
@@ -24,6 +34,46 @@ const navigation = [
     href: "/dashboard/devices",
     icon: Server,
   },
+  {
+    name: "Map",
+    href: "/dashboard/map",
+    icon: MapIcon,
+  },
+  {
+    name: "Firmware",
+    href: "/dashboard/firmware",
+    icon: Rocket,
+  },
+  {
+    name: "Schedules",
+    href: "/dashboard/schedules",
+    icon: CalendarClock,
+  },
+  {
+    name: "Templates",
+    href: "/dashboard/templates",
+    icon: FileCode,
+  },
+  {
+    name: "Approvals",
+    href: "/dashboard/approvals",
+    icon: ShieldCheck,
+  },
+  {
+    name: "Alerts",
+    href: "/dashboard/alerts",
+    icon: Bell,
+  },
+  {
+    name: "Webhooks",
+    href: "/dashboard/webhooks",
+    icon: Webhook,
+  },
+  {
+    name: "Audit Log",
+    href: "/dashboard/audit",
+    icon: ScrollText,
+  },
 ]
 
 interface SidebarProps {
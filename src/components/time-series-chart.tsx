@@ -0,0 +1,231 @@
+"use client"
+
+import type { MouseEvent } from "react"
+
+export interface ChartSeries {
+  label: string
+  color: string
+  values: (number | null)[]
+  dashed?: boolean
+}
+
+// A vertical line at a point in time, e.g. a reboot
+export interface ChartMarker {
+  time: number
+  label: string
+  color: string
+  dashed?: boolean
+}
+
+const WIDTH = 600
+const HEIGHT = 120
+
+// Index of the point closest to a time, or -1 if there are none
+function nearestIndex(times: number[], time: number) {
+  let best = -1
+  for (let i = 0; i < times.length; i++) {
+    if (best === -1 || Math.abs(times[i] - time) < Math.abs(times[best] - time)) best = i
+  }
+  return best
+}
+
+/**
+ * Line (or stacked bar) chart over a fixed time window. Series values line up
+ * with times; step is the spacing between points. Charts given the same hover
+ * time show their tooltips together.
+ */
+export function TimeSeriesChart({
+  title,
+  format,
+  zeroBased,
+  bars,
+  series,
+  times,
+  from,
+  to,
+  step,
+  formatTime,
+  markers = [],
+  hover,
+  onHover,
+}: {
+  title: string
+  format: (v: number) => string
+  zeroBased?: boolean
+  bars?: boolean
+  series: ChartSeries[]
+  times: number[]
+  from: number
+  to: number
+  step: number
+  formatTime: (time: number) => string
+  markers?: ChartMarker[]
+  hover: number | null
+  onHover: (time: number | null) => void
+}) {
+  const span = to - from
+  const x = (time: number) => ((time - from) / span) * WIDTH
+
+  // Stacked bars scale to the bucket total
+  const values = bars
+    ? times.map((_, i) => series.reduce((sum, s) => sum + (s.values[i] ?? 0), 0))
+    : series.flatMap((s) => s.values).filter((v): v is number => v !== null)
+
+  let min = zeroBased || values.length === 0 ? 0 : Math.min(...values)
+  let max = values.length === 0 ? 1 : Math.max(...values)
+  if (max === min) {
+    max += 1
+    if (!zeroBased) min -= 1
+  }
+  max += (max - min) * 0.1
+  const y = (value: number) => HEIGHT - ((value - min) / (max - min)) * HEIGHT
+
+  // Break lines across gaps in the data
+  const linePath = (s: ChartSeries) => {
+    let path = ""
+    let previous: number | null = null
+    s.values.forEach((v, i) => {
+      if (v === null) {
+        previous = null
+        return
+      }
+      const gap = previous === null || times[i] - times[previous] > step * 3
+      path += `${gap ? "M" : "L"}${x(times[i]).toFixed(1)},${y(v).toFixed(1)}`
+      previous = i
+    })
+    return path
+  }
+
+  const index = hover === null ? -1 : nearestIndex(times, hover)
+  const hoverTime = index === -1 ? null : times[index]
+  const latest = times.length - 1
+  const shownIndex = index === -1 ? latest : index
+  const nearbyMarkers = hover === null
+    ? []
+    : markers.filter((m) => Math.abs(m.time - hover) <= Math.max(step, span / 100))
+
+  const handleMove = (e: MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    onHover(from + ((e.clientX - rect.left) / rect.width) * span)
+  }
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-1.5">
+        <h3 className="text-xs font-medium text-gray-600 dark:text-slate-400">{title}</h3>
+        <div className="flex items-center gap-3">
+          {series.map((s) => {
+            const value = shownIndex >= 0 ? s.values[shownIndex] : null
+            return (
+              <span key={s.label} className="flex items-center gap-1 text-xs text-gray-500 dark:text-slate-400">
+                <span className="inline-block w-2 h-2 rounded-sm" style={{ backgroundColor: s.color }} />
+                {s.label}
+                <span className="font-medium text-gray-900 dark:text-white">{value === null || value === undefined ? "—" : format(value)}</span>
+              </span>
+            )
+          })}
+        </div>
+      </div>
+      <div
+        className="relative h-32 cursor-crosshair"
+        onMouseMove={handleMove}
+        onMouseLeave={() => onHover(null)}
+      >
+        <span className="absolute top-0 left-1 text-[10px] text-gray-400 dark:text-slate-500 pointer-events-none">{format(max)}</span>
+        <span className="absolute bottom-0 left-1 text-[10px] text-gray-400 dark:text-slate-500 pointer-events-none">{format(min)}</span>
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          preserveAspectRatio="none"
+          className="w-full h-full border-b border-l border-gray-200 dark:border-slate-700"
+        >
+          {bars
+            ? times.map((time, i) => {
+                const width = Math.max((step / span) * WIDTH * 0.8, 1)
+                let base = 0
+                return series.map((s) => {
+                  const value = s.values[i] ?? 0
+                  const rect = (
+                    <rect
+                      key={`${s.label}-${time}`}
+                      x={x(time)}
+                      y={y(base + value)}
+                      width={width}
+                      height={y(base) - y(base + value)}
+                      fill={s.color}
+                    />
+                  )
+                  base += value
+                  return rect
+                })
+              })
+            : series.map((s) => (
+                <path
+                  key={s.label}
+                  d={linePath(s)}
+                  fill="none"
+                  stroke={s.color}
+                  strokeWidth={1.5}
+                  strokeDasharray={s.dashed ? "4 3" : undefined}
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))}
+          {markers.map((m) => (
+            <line
+              key={`${m.time}-${m.label}`}
+              x1={x(m.time)}
+              x2={x(m.time)}
+              y1={0}
+              y2={HEIGHT}
+              stroke={m.color}
+              strokeWidth={1}
+              strokeDasharray={m.dashed ? "3 3" : undefined}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          {hoverTime !== null && (
+            <line
+              x1={x(hoverTime)}
+              x2={x(hoverTime)}
+              y1={0}
+              y2={HEIGHT}
+              stroke="#9ca3af"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+        {hover !== null && (hoverTime !== null || nearbyMarkers.length > 0) && (
+          <div
+            className="absolute top-1 z-10 px-2 py-1.5 rounded-md bg-gray-900/90 dark:bg-slate-950/90 text-white text-[11px] whitespace-nowrap pointer-events-none"
+            style={
+              (hoverTime ?? hover) - from > span / 2
+                ? { right: `${100 - (((hoverTime ?? hover) - from) / span) * 100 + 1}%` }
+                : { left: `${(((hoverTime ?? hover) - from) / span) * 100 + 1}%` }
+            }
+          >
+            {hoverTime !== null && (
+              <>
+                <div className="text-gray-300">{formatTime(hoverTime)}</div>
+                {series.map((s) => {
+                  const value = s.values[index]
+                  return value === null || value === undefined ? null : (
+                    <div key={s.label}>{s.label}: {format(value)}</div>
+                  )
+                })}
+              </>
+            )}
+            {nearbyMarkers.map((m) => (
+              <div key={`${m.time}-${m.label}`} style={{ color: m.color }}>
+                {m.label} at {formatTime(m.time)}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex justify-between mt-1 text-[10px] text-gray-400 dark:text-slate-500">
+        <span>{formatTime(from)}</span>
+        <span>{formatTime(to)}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,358 @@
+import { supabase } from '@/lib/supabase';
+import { emitWebhookEvent } from '@/lib/webhooks';
+import { detectRelocation, findInterleavedIPs, type NetworkInterval } from '@/lib/network-history';
+
+export const ALERT_RULE_TYPES = [
+  'offline',
+  'temperature',
+  'disk_usage',
+  'block_spike',
+  'firmware_mismatch',
+  'relocation',
+  'ip_conflict',
+] as const;
+export type AlertRuleType = (typeof ALERT_RULE_TYPES)[number];
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  rule_type: AlertRuleType;
+  threshold: number | null;
+  expected_firmware: string | null;
+  severity: 'warning' | 'critical';
+  enabled: boolean;
+  created_by: string | null;
+  created_at: string;
+}
+
+// What a device reported in this check-in
+export interface CheckinSnapshot {
+  deviceId: string;
+  firmware: string;
+  metrics?: {
+    diskTotalMb?: number;
+    diskUsedMb?: number;
+    tempCelsius?: number;
+  };
+  blockDelta: number;
+  // Recent public IP intervals, newest (this check-in's) first
+  network?: NetworkInterval[];
+}
+
+// A rule's verdict for one device. null = not enough data, leave state as is.
+type Evaluation = { firing: boolean; value: number | null; message: string } | null;
+
+// Block spikes need some history before the average means anything
+const MIN_BASELINE_EVENTS = 5;
+
+/**
+ * Transform a rule row to frontend format
+ */
+export function toAlertRuleResponse(r: AlertRule) {
+  return {
+    id: r.id,
+    name: r.name,
+    type: r.rule_type,
+    threshold: r.threshold,
+    expectedFirmware: r.expected_firmware,
+    severity: r.severity,
+    enabled: r.enabled,
+    createdAt: r.created_at,
+  };
+}
+
+/**
+ * Check a rule definition from the API. Returns an error message or null.
+ */
+export function validateAlertRule(rule: {
+  type?: unknown;
+  threshold?: unknown;
+  expectedFirmware?: unknown;
+}): string | null {
+  if (!ALERT_RULE_TYPES.includes(rule.type as AlertRuleType)) {
+    return `Invalid rule type. Must be one of: ${ALERT_RULE_TYPES.join(', ')}`;
+  }
+
+  if (rule.type === 'firmware_mismatch') {
+    if (typeof rule.expectedFirmware !== 'string' || !rule.expectedFirmware.trim()) {
+      return 'expectedFirmware is required for firmware_mismatch rules';
+    }
+    return null;
+  }
+
+  if (typeof rule.threshold !== 'number' || !Number.isFinite(rule.threshold) || rule.threshold <= 0) {
+    return 'threshold must be a positive number';
+  }
+
+  if (rule.type === 'disk_usage' && rule.threshold > 100) {
+    return 'Disk usage threshold is a percentage (1-100)';
+  }
+
+  if (rule.type === 'block_spike' && rule.threshold <= 1) {
+    return 'Block spike threshold is a multiple of the average and must be greater than 1';
+  }
+
+  return null;
+}
+
+async function getEnabledRules(types: readonly AlertRuleType[]): Promise<AlertRule[]> {
+  const { data, error } = await supabase
+    .from('alert_rules')
+    .select('*')
+    .eq('enabled', true)
+    .in('rule_type', types);
+
+  if (error) {
+    console.error('Alert rules fetch error:', error);
+    return [];
+  }
+
+  return (data || []) as AlertRule[];
+}
+
+/**
+ * Open an alert, or refresh the one already firing for this rule and device
+ */
+async function fireAlert(
+  rule: AlertRule,
+  deviceId: string,
+  value: number | null,
+  message: string,
+  now: string
+): Promise<void> {
+  const { data: existing } = await supabase
+    .from('alerts')
+    .update({ value, message, last_evaluated_at: now })
+    .eq('rule_id', rule.id)
+    .eq('device_id', deviceId)
+    .eq('status', 'firing')
+    .select('id');
+
+  if (existing && existing.length > 0) return;
+
+  const { error } = await supabase.from('alerts').insert({
+    rule_id: rule.id,
+    device_id: deviceId,
+    value,
+    message,
+    fired_at: now,
+    last_evaluated_at: now,
+  });
+
+  // 23505: a concurrent evaluation opened the same alert first
+  if (error && error.code !== '23505') {
+    console.error('Alert insert error:', error);
+    return;
+  }
+
+  if (!error) {
+    console.log(`[Alert] ${rule.name} firing for ${deviceId}: ${message}`);
+    await emitWebhookEvent('alert.fired', {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      ruleType: rule.rule_type,
+      severity: rule.severity,
+      deviceId,
+      message,
+      value,
+    });
+  }
+}
+
+async function resolveAlert(rule: AlertRule, deviceId: string, now: string): Promise<void> {
+  const { data: resolved } = await supabase
+    .from('alerts')
+    .update({ status: 'resolved', resolved_at: now, last_evaluated_at: now })
+    .eq('rule_id', rule.id)
+    .eq('device_id', deviceId)
+    .eq('status', 'firing')
+    .select('id');
+
+  if (resolved && resolved.length > 0) {
+    console.log(`[Alert] ${rule.name} resolved for ${deviceId}`);
+    await emitWebhookEvent('alert.resolved', {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      ruleType: rule.rule_type,
+      severity: rule.severity,
+      deviceId,
+    });
+  }
+}
+
+async function applyEvaluation(
+  rule: AlertRule,
+  deviceId: string,
+  evaluation: Evaluation,
+  now: string
+): Promise<void> {
+  if (!evaluation) return;
+
+  if (evaluation.firing) {
+    await fireAlert(rule, deviceId, evaluation.value, evaluation.message, now);
+  } else {
+    await resolveAlert(rule, deviceId, now);
+  }
+}
+
+/**
+ * Average blocks per block event over the 24 hours before this check-in
+ */
+async function getBlockBaseline(deviceId: string, before: string): Promise<number | null> {
+  const since = new Date(new Date(before).getTime() - 24 * 60 * 60 * 1000).toISOString();
+
+  const { data: events } = await supabase
+    .from('block_events')
+    .select('delta_inbound, delta_outbound')
+    .eq('device_id', deviceId)
+    .gte('created_at', since)
+    .lt('created_at', before);
+
+  if (!events || events.length < MIN_BASELINE_EVENTS) return null;
+
+  const total = events.reduce((sum, e) => sum + (e.delta_inbound || 0) + (e.delta_outbound || 0), 0);
+  return total / events.length;
+}
+
+function evaluateCheckinRule(
+  rule: AlertRule,
+  snapshot: CheckinSnapshot,
+  blockBaseline: number | null,
+  now: string
+): Evaluation {
+  const threshold = rule.threshold ?? 0;
+
+  switch (rule.rule_type) {
+    case 'temperature': {
+      const temp = snapshot.metrics?.tempCelsius;
+      if (typeof temp !== 'number') return null;
+      return {
+        firing: temp > threshold,
+        value: temp,
+        message: `Temperature ${temp.toFixed(1)}°C exceeds ${threshold}°C`,
+      };
+    }
+    case 'disk_usage': {
+      const { diskTotalMb, diskUsedMb } = snapshot.metrics || {};
+      if (!diskTotalMb || typeof diskUsedMb !== 'number') return null;
+      const pct = (diskUsedMb / diskTotalMb) * 100;
+      return {
+        firing: pct > threshold,
+        value: pct,
+        message: `Disk ${pct.toFixed(0)}% full (threshold ${threshold}%)`,
+      };
+    }
+    case 'block_spike': {
+      if (!blockBaseline) return null;
+      const ratio = snapshot.blockDelta / blockBaseline;
+      return {
+        firing: ratio > threshold,
+        value: snapshot.blockDelta,
+        message: `${snapshot.blockDelta.toLocaleString()} blocks in one check-in, ${ratio.toFixed(1)}x the 24h average of ${Math.round(blockBaseline).toLocaleString()}`,
+      };
+    }
+    case 'firmware_mismatch':
+      return {
+        firing: snapshot.firmware !== rule.expected_firmware,
+        value: null,
+        message: `Running firmware ${snapshot.firmware}, expected ${rule.expected_firmware}`,
+      };
+    case 'relocation': {
+      if (!snapshot.network) return null;
+      // Fires on the jump and resolves once the device has stayed put as long
+      const relocation = detectRelocation(snapshot.network, threshold);
+      const settledHours = relocation
+        ? (new Date(now).getTime() - new Date(relocation.to.first_seen).getTime()) / (60 * 60 * 1000)
+        : 0;
+      if (!relocation || settledHours > threshold) {
+        return { firing: false, value: null, message: '' };
+      }
+      const place = (i: NetworkInterval) => [i.city, i.country || i.country_code].filter(Boolean).join(', ');
+      return {
+        firing: true,
+        value: relocation.hours,
+        message: `Moved from ${place(relocation.from)} (${relocation.from.public_ip}) to ${place(relocation.to)} (${relocation.to.public_ip}) within ${relocation.hours.toFixed(1)}h`,
+      };
+    }
+    case 'ip_conflict': {
+      if (!snapshot.network) return null;
+      const ips = findInterleavedIPs(snapshot.network, threshold, now);
+      return {
+        firing: ips.length > 1,
+        value: ips.length,
+        message: `Checking in alternately from ${ips.join(', ')}, possibly a cloned device ID`,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Called on every check-in: evaluate rules against what the device just
+ * reported. A check-in also clears any offline alert for the device.
+ */
+export async function evaluateCheckinAlerts(snapshot: CheckinSnapshot, now: string): Promise<void> {
+  const rules = await getEnabledRules(ALERT_RULE_TYPES);
+  if (rules.length === 0) return;
+
+  const blockBaseline = rules.some((r) => r.rule_type === 'block_spike')
+    ? await getBlockBaseline(snapshot.deviceId, now)
+    : null;
+
+  for (const rule of rules) {
+    if (rule.rule_type === 'offline') {
+      await resolveAlert(rule, snapshot.deviceId, now);
+      continue;
+    }
+
+    await applyEvaluation(rule, snapshot.deviceId, evaluateCheckinRule(rule, snapshot, blockBaseline, now), now);
+  }
+}
+
+/**
+ * Periodic sweep: fire offline rules for devices that stopped checking in.
+ * Only devices that crossed the threshold after the rule was created count,
+ * so a new rule doesn't fire for every device that was retired long ago.
+ */
+export async function sweepAlerts(): Promise<void> {
+  const rules = await getEnabledRules(['offline']);
+  const now = new Date();
+
+  for (const rule of rules) {
+    const minutes = rule.threshold ?? 0;
+    const cutoff = new Date(now.getTime() - minutes * 60 * 1000).toISOString();
+    const since = new Date(new Date(rule.created_at).getTime() - minutes * 60 * 1000).toISOString();
+
+    const { data: devices, error } = await supabase
+      .from('devices')
+      .select('device_id, last_seen')
+      .lt('last_seen', cutoff)
+      .gte('last_seen', since);
+
+    if (error) {
+      console.error('Offline alert sweep error:', error);
+      continue;
+    }
+
+    // Devices already alerted stay firing until they check in again
+    const { data: firing } = await supabase
+      .from('alerts')
+      .select('device_id')
+      .eq('rule_id', rule.id)
+      .eq('status', 'firing');
+
+    const alerted = new Set((firing || []).map((a) => a.device_id));
+
+    for (const device of (devices || []).filter((d) => !alerted.has(d.device_id))) {
+      const offlineMinutes = Math.floor((now.getTime() - new Date(device.last_seen).getTime()) / 60000);
+      await fireAlert(
+        rule,
+        device.device_id,
+        offlineMinutes,
+        `Offline for ${offlineMinutes} minutes (threshold ${minutes})`,
+        now.toISOString()
+      );
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { supabase } from '@/lib/supabase';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Fleet status history is kept for a year
+const MAX_WINDOW_MS = 365 * DAY_MS;
+
+// Hourly points for windows up to this long, daily points beyond
+const MAX_HOURLY_WINDOW_MS = 3 * DAY_MS;
+
+const TOP_DEVICES = 10;
+
+export interface AnalyticsWindow {
+  from: Date;
+  to: Date;
+  bucketMs: number;
+}
+
+export interface TopDevice {
+  deviceId: string;
+  name: string | null;
+  inbound: number;
+  outbound: number;
+  total: number;
+  // Hours the status history shows the device online or warning
+  onlineHours: number;
+  // Blocks per hour online, null if the device was online under an hour
+  blocksPerHour: number | null;
+}
+
+export interface FleetAnalytics {
+  from: string;
+  to: string;
+  bucket: 'hour' | 'day';
+  totals: { inbound: number; outbound: number };
+  blocks: { time: string; inbound: number; outbound: number }[];
+  availability: { time: string; online: number; total: number; ratio: number | null }[];
+  topDevices: TopDevice[];
+  topRates: TopDevice[];
+  firmware: { version: string; devices: number; online: number }[];
+}
+
+/**
+ * Read the from/to window of an analytics request (default the last 7 days)
+ * and pick its bucket size
+ */
+export function parseAnalyticsWindow(searchParams: URLSearchParams): AnalyticsWindow | { error: string } {
+  const fromParam = searchParams.get('from');
+  const toParam = searchParams.get('to');
+
+  const to = toParam ? new Date(toParam) : new Date();
+  const from = fromParam ? new Date(fromParam) : new Date(to.getTime() - 7 * DAY_MS);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    return { error: 'from and to must be ISO timestamps' };
+  }
+
+  if (from >= to) {
+    return { error: 'from must be before to' };
+  }
+
+  if (to.getTime() - from.getTime() > MAX_WINDOW_MS) {
+    return { error: 'Window can be at most 365 days' };
+  }
+
+  const bucketMs = to.getTime() - from.getTime() <= MAX_HOURLY_WINDOW_MS ? HOUR_MS : DAY_MS;
+  return { from, to, bucketMs };
+}
+
+function toTopDevice(row: { device_id: string; name: string | null; inbound: number; outbound: number; online_hours: number }): TopDevice {
+  const inbound = Number(row.inbound);
+  const outbound = Number(row.outbound);
+  const onlineHours = Number(row.online_hours);
+  return {
+    deviceId: row.device_id,
+    name: row.name,
+    inbound,
+    outbound,
+    total: inbound + outbound,
+    onlineHours,
+    blocksPerHour: onlineHours >= 1 ? (inbound + outbound) / onlineHours : null,
+  };
+}
+
+/**
+ * Block history, top devices, firmware spread and online ratio for a window.
+ * Returns null if any query fails.
+ */
+export async function getFleetAnalytics(query: AnalyticsWindow): Promise<FleetAnalytics | null> {
+  const { from, to, bucketMs } = query;
+  const range = { p_from: from.toISOString(), p_to: to.toISOString() };
+
+  // The hourly_blocks view already covers a trailing day at hourly resolution
+  const lastDay = bucketMs === HOUR_MS &&
+    from.getTime() >= Date.now() - DAY_MS - HOUR_MS &&
+    to.getTime() >= Date.now() - 5 * 60 * 1000;
+
+  const [blocksResult, statusResult, topResult, ratesResult, firmwareResult] = await Promise.all([
+    lastDay
+      ? supabase.from('hourly_blocks').select('hour, inbound, outbound').gte('hour', new Date(Math.floor(from.getTime() / HOUR_MS) * HOUR_MS).toISOString())
+      : supabase.rpc('fleet_block_buckets', { ...range, p_bucket_seconds: bucketMs / 1000 }),
+    supabase.rpc('fleet_status_buckets', { ...range, p_bucket_seconds: bucketMs / 1000 }),
+    supabase.rpc('top_blocking_devices', { ...range, p_order: 'total', p_limit: TOP_DEVICES }),
+    supabase.rpc('top_blocking_devices', { ...range, p_order: 'rate', p_limit: TOP_DEVICES }),
+    supabase.from('firmware_distribution').select('*'),
+  ]);
+
+  for (const result of [blocksResult, statusResult, topResult, ratesResult, firmwareResult]) {
+    if (result.error) {
+      console.error('Analytics query error:', result.error);
+      return null;
+    }
+  }
+
+  const blocks = ((blocksResult.data || []) as { hour?: string; bucket?: string; inbound: number; outbound: number }[])
+    .map((b) => ({
+      time: new Date((b.hour ?? b.bucket)!).toISOString(),
+      inbound: Number(b.inbound),
+      outbound: Number(b.outbound),
+    }));
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    bucket: bucketMs === HOUR_MS ? 'hour' : 'day',
+    totals: {
+      inbound: blocks.reduce((sum, b) => sum + b.inbound, 0),
+      outbound: blocks.reduce((sum, b) => sum + b.outbound, 0),
+    },
+    blocks,
+    availability: ((statusResult.data || []) as { bucket: string; total_devices: number; online_devices: number }[])
+      .map((s) => ({
+        time: new Date(s.bucket).toISOString(),
+        online: s.online_devices,
+        total: s.total_devices,
+        ratio: s.total_devices > 0 ? s.online_devices / s.total_devices : null,
+      })),
+    topDevices: (topResult.data || []).map(toTopDevice),
+    topRates: (ratesResult.data || []).map(toTopDevice),
+    firmware: ((firmwareResult.data || []) as { firmware: string; devices: number; online_devices: number }[])
+      .map((f) => ({ version: f.firmware, devices: Number(f.devices), online: Number(f.online_devices) })),
+  };
+}
+
+/**
+ * Periodic sweep: record how many devices are online for the availability history
+ */
+export async function recordFleetStatus(): Promise<void> {
+  const { error } = await supabase.rpc('record_fleet_status');
+
+  if (error) {
+    console.error('Fleet status record error:', error);
+  }
+}
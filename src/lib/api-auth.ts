@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken, JWTPayload } from '@/lib/auth';
+import { getDeviceKey, isDeviceKey } from '@/lib/device-auth';
+
+/**
+ * Who is calling an API route. Each kind of caller has exactly one way in:
+ * - admin:    auth_token cookie holding an admin JWT (dashboard)
+ * - customer: Authorization bearer holding a customer JWT (setup wizard, portal)
+ * - device:   Authorization bearer holding a device API key (check-in)
+ * Anything else - including admin JWTs sent as bearer tokens or customer JWTs
+ * in the cookie - is treated as anonymous.
+ */
+export type Caller =
+  | { kind: 'admin'; payload: JWTPayload }
+  | { kind: 'customer'; payload: JWTPayload }
+  | { kind: 'device'; key: string }
+  | { kind: 'anonymous' };
+
+export async function identifyCaller(request: NextRequest): Promise<Caller> {
+  const cookieToken = request.cookies.get('auth_token')?.value;
+  if (cookieToken) {
+    const payload = await verifyToken(cookieToken);
+    if (payload?.type === 'admin') {
+      return { kind: 'admin', payload };
+    }
+  }
+
+  const bearer = getDeviceKey(request.headers.get('authorization'));
+  if (bearer) {
+    if (isDeviceKey(bearer)) {
+      return { kind: 'device', key: bearer };
+    }
+
+    const payload = await verifyCustomerToken(bearer);
+    if (payload) {
+      return { kind: 'customer', payload };
+    }
+  }
+
+  return { kind: 'anonymous' };
+}
+
+/**
+ * Verify a JWT and accept it only if it was issued to a customer
+ */
+export async function verifyCustomerToken(token: string): Promise<JWTPayload | null> {
+  const payload = await verifyToken(token);
+  return payload?.type === 'customer' ? payload : null;
+}
+
+/**
+ * 401 for anonymous callers, 403 for authenticated callers of the wrong kind
+ */
+export function rejectCaller(caller: Caller, expected: Caller['kind']): NextResponse {
+  if (caller.kind === 'anonymous') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  console.log(`[Auth] Rejected ${caller.kind} credentials on ${expected} route`);
+  return NextResponse.json(
+    { error: `Forbidden: ${caller.kind} credentials cannot access this API` },
+    { status: 403 }
+  );
+}
+
+/**
+ * Guard for customer-facing routes
+ */
+export async function requireCustomer(
+  request: NextRequest
+): Promise<{ customer: JWTPayload; error?: undefined } | { customer?: undefined; error: NextResponse }> {
+  const caller = await identifyCaller(request);
+  if (caller.kind !== 'customer') {
+    return { error: rejectCaller(caller, 'customer') };
+  }
+  return { customer: caller.payload };
+}
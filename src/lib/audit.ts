@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { JWTPayload, TokenType } from '@/lib/auth';
+import { getPublicIP } from '@/lib/client-ip';
+
+export interface AuditActor {
+  type: TokenType;
+  id: string;
+  name: string | null;
+}
+
+export interface AuditEntry {
+  action: string;        // e.g. 'device.rename', 'command.create'
+  targetType: string;    // e.g. 'device', 'customer', 'command'
+  targetId: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+/**
+ * Build an audit actor from a verified admin or customer token
+ */
+export function auditActor(payload: JWTPayload): AuditActor {
+  return {
+    type: payload.type,
+    id: payload.userId,
+    name: payload.username || payload.email || null,
+  };
+}
+
+/**
+ * Reduce before/after snapshots to the fields that actually changed
+ */
+export function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): { before: Record<string, unknown>; after: Record<string, unknown> } {
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (JSON.stringify(before[key] ?? null) !== JSON.stringify(after[key] ?? null)) {
+      changedBefore[key] = before[key] ?? null;
+      changedAfter[key] = after[key] ?? null;
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter };
+}
+
+/**
+ * Append an entry to the audit log. When both snapshots are given only the
+ * changed fields are stored. Failures are logged, never surfaced to the caller,
+ * so an audit outage can't block fleet operations.
+ */
+export async function recordAudit(
+  request: NextRequest,
+  actor: AuditActor,
+  entry: AuditEntry
+): Promise<void> {
+  let before = entry.before ?? null;
+  let after = entry.after ?? null;
+
+  if (before && after) {
+    ({ before, after } = diffFields(before, after));
+  }
+
+  const { error } = await supabase.from('audit_log').insert({
+    actor_type: actor.type,
+    actor_id: actor.id,
+    actor_name: actor.name,
+    action: entry.action,
+    target_type: entry.targetType,
+    target_id: entry.targetId,
+    before,
+    after,
+    source_ip: getPublicIP(request),
+  });
+
+  if (error) {
+    console.error(`[Audit] Failed to record ${entry.action} by ${actor.name || actor.id}:`, error);
+  }
+}
@@ -9,13 +9,20 @@ export interface User {
   username?: string;  // For admin users
   email?: string;     // For customer users
   name?: string;
+  role?: string;      // Admin role (owner, operator, support, billing)
   created_at: string;
 }
 
+// Admin tokens live in the auth_token cookie; customer tokens are sent as
+// bearer tokens by the device setup wizard and portal
+export type TokenType = 'admin' | 'customer';
+
 export interface JWTPayload {
+  type: TokenType;
   userId: string;
   username?: string;  // For admin users
   email?: string;     // For customer users
+  role?: string;      // For admin users
   iat: number;
   exp: number;
 }
@@ -41,8 +48,9 @@ export async function verifyPassword(
 /**
  * Generate a JWT token for a user
  */
-export async function generateToken(user: User): Promise<string> {
-  const payload: { userId: string; username?: string; email?: string } = {
+export async function generateToken(user: User, type: TokenType): Promise<string> {
+  const payload: { type: TokenType; userId: string; username?: string; email?: string; role?: string } = {
+    type,
     userId: user.id,
   };
 
@@ -53,6 +61,9 @@ export async function generateToken(user: User): Promise<string> {
   if (user.email) {
     payload.email = user.email;
   }
+  if (user.role) {
+    payload.role = user.role;
+  }
 
   const token = await new SignJWT(payload)
     .setProtectedHeader({ alg: 'HS256' })
@@ -0,0 +1,20 @@
+import { NextRequest } from 'next/server';
+
+/**
+ * Get the caller's public IP from request headers
+ */
+export function getPublicIP(request: NextRequest): string | null {
+  // Vercel/Cloudflare provide these headers
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    // x-forwarded-for can contain multiple IPs, take the first (client) one
+    return forwardedFor.split(',')[0].trim();
+  }
+
+  const realIP = request.headers.get('x-real-ip');
+  if (realIP) {
+    return realIP.trim();
+  }
+
+  return null;
+}
@@ -0,0 +1,192 @@
+import type { CommandPayloads, CommandType } from '@/lib/types';
+
+// Payload schemas per command type. This module has no server imports so the
+// dashboard can validate with the same rules and messages as the API.
+
+export type { CommandType };
+
+export const COMMAND_TYPES = [
+  'update_blocklist',
+  'exec',
+  'reboot',
+  'update_firmware',
+  'set_config',
+  'file_download',
+] as const satisfies readonly CommandType[];
+
+export type PayloadFieldKind = 'url' | 'sha256' | 'script' | 'path' | 'file_mode' | 'config_key' | 'config_value';
+
+export interface PayloadField<Name extends string = string> {
+  name: Name;
+  kind: PayloadFieldKind;
+  label: string;
+  required: boolean;
+  placeholder: string;
+}
+
+export interface CommandSchema<T extends CommandType = CommandType> {
+  label: string;
+  fields: PayloadField<keyof CommandPayloads[T] & string>[];
+}
+
+export const COMMAND_SCHEMAS: { [T in CommandType]: CommandSchema<T> } = {
+  exec: {
+    label: 'Execute Script',
+    fields: [
+      { name: 'script', kind: 'script', label: 'Shell Script', required: true, placeholder: "#!/bin/sh\necho 'hello'" },
+    ],
+  },
+  reboot: {
+    label: 'Reboot',
+    fields: [],
+  },
+  update_blocklist: {
+    label: 'Update Blocklist',
+    fields: [
+      { name: 'url', kind: 'url', label: 'Blocklist URL', required: true, placeholder: 'https://...' },
+    ],
+  },
+  file_download: {
+    label: 'Download File',
+    fields: [
+      { name: 'url', kind: 'url', label: 'URL', required: true, placeholder: 'https://example.com/file' },
+      { name: 'path', kind: 'path', label: 'Destination Path', required: true, placeholder: '/etc/threatzapper/custom.txt' },
+      { name: 'mode', kind: 'file_mode', label: 'Mode (optional)', required: false, placeholder: '644' },
+    ],
+  },
+  set_config: {
+    label: 'Set Config',
+    fields: [
+      { name: 'key', kind: 'config_key', label: 'UCI Key', required: true, placeholder: 'network.lan.ipaddr' },
+      { name: 'value', kind: 'config_value', label: 'Value', required: true, placeholder: '192.168.1.1' },
+    ],
+  },
+  update_firmware: {
+    label: 'Update Firmware',
+    fields: [
+      { name: 'url', kind: 'url', label: 'Firmware URL', required: true, placeholder: 'https://...' },
+      { name: 'sha256', kind: 'sha256', label: 'SHA-256', required: true, placeholder: '64 hex characters' },
+    ],
+  },
+};
+
+const MAX_SCRIPT_CHARS = 64 * 1024;
+const MAX_VALUE_CHARS = 1024;
+
+const SHA256_PATTERN = /^[0-9a-f]{64}$/i;
+const FILE_MODE_PATTERN = /^[0-7]{3,4}$/;
+// config.section.option, where section may be anonymous (@rule[0])
+const UCI_KEY_PATTERN = /^[a-zA-Z0-9_]+\.(?:[a-zA-Z0-9_]+|@[a-zA-Z0-9_]+\[-?\d+\])\.[a-zA-Z0-9_]+$/;
+const PLACEHOLDER_PATTERN = /(?<!\$)\{[a-zA-Z][a-zA-Z0-9_]*\}/;
+
+export function isCommandType(type: unknown): type is CommandType {
+  return COMMAND_TYPES.includes(type as CommandType);
+}
+
+// Returns an error for a field value that doesn't fit its kind, or null
+function checkField(field: PayloadField, value: unknown): string | null {
+  switch (field.kind) {
+    case 'url': {
+      if (typeof value !== 'string') return `'${field.name}' must be a string`;
+      try {
+        const url = new URL(value);
+        if (url.protocol === 'http:' || url.protocol === 'https:') return null;
+      } catch {
+        // Falls through to the error below
+      }
+      return `'${field.name}' must be an http or https URL`;
+    }
+    case 'sha256':
+      return typeof value === 'string' && SHA256_PATTERN.test(value)
+        ? null
+        : `'${field.name}' must be 64 hexadecimal characters`;
+    case 'script':
+      if (typeof value !== 'string') return `'${field.name}' must be a string`;
+      return value.length > MAX_SCRIPT_CHARS ? `'${field.name}' must be at most ${MAX_SCRIPT_CHARS} characters` : null;
+    case 'path':
+      return typeof value === 'string' && value.startsWith('/') && !value.includes('\0') && !value.split('/').includes('..')
+        ? null
+        : `'${field.name}' must be an absolute path without '..' segments`;
+    case 'file_mode':
+      return typeof value === 'string' && FILE_MODE_PATTERN.test(value)
+        ? null
+        : `'${field.name}' must be octal permissions such as "644" or "0755"`;
+    case 'config_key':
+      return typeof value === 'string' && UCI_KEY_PATTERN.test(value)
+        ? null
+        : `'${field.name}' must be a UCI option such as network.lan.ipaddr`;
+    case 'config_value':
+      if (typeof value === 'number' || typeof value === 'boolean') return null;
+      if (typeof value !== 'string') return `'${field.name}' must be a string, number or boolean`;
+      return value.length > MAX_VALUE_CHARS ? `'${field.name}' must be at most ${MAX_VALUE_CHARS} characters` : null;
+  }
+}
+
+/**
+ * Check a command payload against its type's schema. Returns an error message or null.
+ * With allowPlaceholders, string fields containing a template {placeholder} are
+ * only checked for presence, since their final value isn't known yet.
+ */
+export function validateCommandPayload(
+  type: CommandType,
+  payload: unknown,
+  options: { allowPlaceholders?: boolean } = {}
+): string | null {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return 'Payload must be an object';
+  }
+
+  const schemaFields: PayloadField[] = COMMAND_SCHEMAS[type].fields;
+  const fields = payload as Record<string, unknown>;
+
+  for (const key of Object.keys(fields)) {
+    if (!schemaFields.some((f) => f.name === key)) {
+      return schemaFields.length === 0
+        ? `${type} takes no payload fields, got '${key}'`
+        : `Unknown field '${key}' for ${type}. Allowed: ${schemaFields.map((f) => f.name).join(', ')}`;
+    }
+  }
+
+  for (const field of schemaFields) {
+    const value = fields[field.name];
+
+    if (value === undefined || value === null || value === '') {
+      if (field.required) return `${type} payload requires '${field.name}'`;
+      continue;
+    }
+
+    if (options.allowPlaceholders && typeof value === 'string' && PLACEHOLDER_PATTERN.test(value)) {
+      continue;
+    }
+
+    const fieldError = checkField(field, value);
+    if (fieldError) return fieldError;
+  }
+
+  return null;
+}
+
+/**
+ * Build a payload from form inputs, one string per schema field.
+ * Empty optional fields are left out.
+ */
+export function buildCommandPayload(type: CommandType, values: Record<string, string>): Record<string, unknown> {
+  const payload: Record<string, unknown> = {};
+
+  for (const field of COMMAND_SCHEMAS[type].fields) {
+    const raw = values[field.name] ?? '';
+    const value = field.kind === 'script' ? raw : raw.trim();
+    if (value !== '') payload[field.name] = value;
+  }
+
+  return payload;
+}
+
+/**
+ * Form inputs for an existing payload, the reverse of buildCommandPayload
+ */
+export function payloadToFieldValues(type: CommandType, payload: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(
+    COMMAND_SCHEMAS[type].fields.map((f) => [f.name, payload[f.name] === undefined ? '' : String(payload[f.name])])
+  );
+}
@@ -0,0 +1,367 @@
+import { isIP } from 'net';
+import { supabase } from '@/lib/supabase';
+import { CommandType, isCommandType, validateCommandPayload } from '@/lib/command-schema';
+import type { TemplateParam } from '@/lib/types';
+
+export const PARAM_TYPES = ['string', 'integer', 'ip', 'url', 'enum'] as const;
+export type ParamType = TemplateParam['type'];
+export type { TemplateParam };
+
+export interface CommandTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  current_version: number;
+  archived_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CommandTemplateVersion {
+  template_id: string;
+  version: number;
+  command_type: CommandType;
+  payload: Record<string, unknown>;
+  params: TemplateParam[];
+  created_by: string | null;
+  created_at: string;
+}
+
+const PARAM_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]{0,31}$/;
+const MAX_PARAMS = 20;
+const MAX_ARG_LENGTH = 1024;
+
+// Parameter patterns are admin-supplied regexes run against request input, so
+// they are limited to shapes that match in roughly linear time, and the values
+// they check are kept short
+const MAX_PATTERN_LENGTH = 200;
+const MAX_PATTERN_ARG_LENGTH = 256;
+const MAX_UNBOUNDED_QUANTIFIERS = 3;
+
+// {name} placeholders in payload strings. Shell's ${VAR} is left alone.
+const PLACEHOLDER_PATTERN = /(?<!\$)\{([a-zA-Z][a-zA-Z0-9_]*)\}/g;
+
+function collectPlaceholders(value: unknown, found: Set<string>): Set<string> {
+  if (typeof value === 'string') {
+    for (const match of value.matchAll(PLACEHOLDER_PATTERN)) found.add(match[1]);
+  } else if (Array.isArray(value)) {
+    value.forEach((v) => collectPlaceholders(v, found));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach((v) => collectPlaceholders(v, found));
+  }
+  return found;
+}
+
+// Single-quote a value as one shell word
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function substitute(value: unknown, values: Record<string, string | number>, quote: boolean): unknown {
+  if (typeof value === 'string') {
+    // A value that is only a placeholder keeps the argument's type
+    const whole = value.match(/^\{([a-zA-Z][a-zA-Z0-9_]*)\}$/);
+    if (whole && !quote && whole[1] in values) return values[whole[1]];
+
+    return value.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+      if (!(name in values)) return match;
+      return quote ? shellQuote(String(values[name])) : String(values[name]);
+    });
+  }
+  if (Array.isArray(value)) return value.map((v) => substitute(v, values, quote));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, substitute(v, values, quote)]));
+  }
+  return value;
+}
+
+function paramLabel(param: TemplateParam): string {
+  return param.label || param.name;
+}
+
+/**
+ * Check a template's command type, payload and parameter list.
+ * Returns an error message or null.
+ */
+export function validateTemplateDefinition(type: unknown, payload: unknown, params: unknown): string | null {
+  if (!isCommandType(type)) {
+    return 'Invalid command type';
+  }
+
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return 'payload must be an object';
+  }
+
+  if (!Array.isArray(params) || params.length > MAX_PARAMS) {
+    return `params must be an array of at most ${MAX_PARAMS} parameters`;
+  }
+
+  const names = new Set<string>();
+  for (const p of params as Partial<TemplateParam>[]) {
+    if (!p || typeof p.name !== 'string' || !PARAM_NAME_PATTERN.test(p.name)) {
+      return 'Parameter names start with a letter and use only letters, digits and "_"';
+    }
+    if (names.has(p.name)) {
+      return `Duplicate parameter "${p.name}"`;
+    }
+    names.add(p.name);
+
+    if (!PARAM_TYPES.includes(p.type as ParamType)) {
+      return `Parameter "${p.name}" type must be one of: ${PARAM_TYPES.join(', ')}`;
+    }
+    if (p.type === 'enum' && (!Array.isArray(p.options) || p.options.length === 0 || p.options.some((o) => typeof o !== 'string'))) {
+      return `Parameter "${p.name}" needs a list of options`;
+    }
+    if (p.pattern !== undefined) {
+      if (p.type !== 'string' || typeof p.pattern !== 'string') {
+        return `Parameter "${p.name}": pattern is only supported on string parameters`;
+      }
+      try {
+        new RegExp(p.pattern);
+      } catch {
+        return `Parameter "${p.name}" pattern is not a valid regular expression`;
+      }
+      const unsafe = unsafePatternReason(p.pattern);
+      if (unsafe) {
+        return `Parameter "${p.name}" pattern ${unsafe}`;
+      }
+    }
+    if (p.default !== undefined) {
+      const defaultError = checkArg(p as TemplateParam, p.default);
+      if (defaultError) return `Default for "${p.name}": ${defaultError}`;
+    }
+  }
+
+  const used = collectPlaceholders(payload, new Set());
+  for (const name of used) {
+    if (!names.has(name)) return `Payload uses {${name}} but no parameter "${name}" is defined`;
+  }
+  for (const name of names) {
+    if (!used.has(name)) return `Parameter "${name}" is not used in the payload`;
+  }
+
+  // Fields holding a placeholder are checked again once rendered
+  return validateCommandPayload(type, payload, { allowPlaceholders: true });
+}
+
+/**
+ * Why a parameter pattern could backtrack catastrophically, or null if it is
+ * safe to run. Rejects repeated groups that contain a quantifier or an
+ * alternation (as in (a+)+ or (a|ab)*), backreferences, and more than a few
+ * unbounded quantifiers in one pattern.
+ */
+function unsafePatternReason(pattern: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `must be at most ${MAX_PATTERN_LENGTH} characters`;
+  }
+
+  // Per open group: whether it holds a quantifier or an alternation
+  const groups: { quantified: boolean; alternation: boolean }[] = [{ quantified: false, alternation: false }];
+  let unbounded = 0;
+  // What the next quantifier applies to: a single atom, or the group just closed
+  let last: 'atom' | { quantified: boolean; alternation: boolean } | null = null;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    const current = groups[groups.length - 1];
+
+    if (c === '\\') {
+      const next = pattern[i + 1] ?? '';
+      if (/[1-9]/.test(next) || (next === 'k' && pattern[i + 2] === '<')) {
+        return 'must not use backreferences';
+      }
+      i++;
+      last = 'atom';
+      continue;
+    }
+
+    if (c === '[') {
+      // Skip the class; a ] right after [ or [^ is a literal
+      let j = i + 1;
+      if (pattern[j] === '^') j++;
+      if (pattern[j] === ']') j++;
+      while (j < pattern.length && pattern[j] !== ']') {
+        j += pattern[j] === '\\' ? 2 : 1;
+      }
+      i = j;
+      last = 'atom';
+      continue;
+    }
+
+    if (c === '(') {
+      groups.push({ quantified: false, alternation: false });
+      // Skip the (?:, (?=, (?!, (?<=, (?<! or (?<name> prefix
+      const prefix = pattern.slice(i).match(/^\(\?(?::|=|!|<=|<!|<[a-zA-Z][a-zA-Z0-9_]*>)/);
+      if (prefix) i += prefix[0].length - 1;
+      last = null;
+      continue;
+    }
+
+    if (c === ')') {
+      const closed = groups.length > 1 ? groups.pop()! : current;
+      const parent = groups[groups.length - 1];
+      parent.quantified ||= closed.quantified;
+      parent.alternation ||= closed.alternation;
+      last = closed;
+      continue;
+    }
+
+    if (c === '|') {
+      current.alternation = true;
+      last = null;
+      continue;
+    }
+
+    const quantifier = pattern.slice(i).match(/^(?:[*+?]|\{(\d+)(,(\d*))?\})/);
+    if (quantifier && last) {
+      const [text, min, comma, max] = quantifier;
+      const isUnbounded = text === '*' || text === '+' || max === '';
+      const repeats = isUnbounded || (min !== undefined && Number(comma !== undefined ? max : min) > 1);
+
+      if (repeats && last !== 'atom' && (last.quantified || last.alternation)) {
+        return 'must not repeat a group that contains a quantifier or "|"';
+      }
+      if (isUnbounded && ++unbounded > MAX_UNBOUNDED_QUANTIFIERS) {
+        return `must use at most ${MAX_UNBOUNDED_QUANTIFIERS} unbounded quantifiers (*, + or {n,})`;
+      }
+
+      current.quantified = true;
+      i += text.length - 1;
+      // A lazy or possessive marker belongs to the quantifier
+      if (pattern[i + 1] === '?') i++;
+      last = null;
+      continue;
+    }
+
+    last = 'atom';
+  }
+
+  return null;
+}
+
+// Returns an error for a value that doesn't fit the parameter, or null
+function checkArg(param: TemplateParam, value: string): string | null {
+  if (value.length > MAX_ARG_LENGTH) {
+    return `must be at most ${MAX_ARG_LENGTH} characters`;
+  }
+
+  switch (param.type) {
+    case 'integer':
+      return /^-?\d+$/.test(value) ? null : 'must be a whole number';
+    case 'ip':
+      return isIP(value) ? null : 'must be an IPv4 or IPv6 address';
+    case 'url':
+      try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? null : 'must be an http(s) URL';
+      } catch {
+        return 'must be an http(s) URL';
+      }
+    case 'enum':
+      return (param.options || []).includes(value) ? null : `must be one of: ${(param.options || []).join(', ')}`;
+    case 'string':
+      if (!param.pattern) return null;
+      // Templates saved before patterns were checked may hold unsafe ones
+      if (unsafePatternReason(param.pattern)) {
+        return 'has a pattern that is no longer allowed; edit the template';
+      }
+      if (value.length > MAX_PATTERN_ARG_LENGTH) {
+        return `must be at most ${MAX_PATTERN_ARG_LENGTH} characters`;
+      }
+      return new RegExp(`^(?:${param.pattern})$`).test(value) ? null : `must match ${param.pattern}`;
+  }
+}
+
+/**
+ * Fill a template version's placeholders from arguments. Exec scripts get
+ * each value as a single-quoted shell word, so arguments can't inject commands.
+ */
+export function renderTemplate(
+  version: CommandTemplateVersion,
+  args: Record<string, unknown>
+): { type: CommandType; payload: Record<string, unknown> } | { error: string } {
+  const params = version.params || [];
+
+  for (const name of Object.keys(args)) {
+    if (!params.some((p) => p.name === name)) {
+      return { error: `Unknown parameter "${name}"` };
+    }
+  }
+
+  const values: Record<string, string | number> = {};
+  for (const param of params) {
+    const raw = args[param.name];
+    const value = raw === undefined || raw === null || raw === '' ? param.default : String(raw).trim();
+
+    if (value === undefined || value === '') {
+      if (param.required === false) {
+        values[param.name] = '';
+        continue;
+      }
+      return { error: `Missing value for ${paramLabel(param)}` };
+    }
+
+    const argError = checkArg(param, value);
+    if (argError) {
+      return { error: `${paramLabel(param)} ${argError}` };
+    }
+
+    values[param.name] = param.type === 'integer' ? Number(value) : value;
+  }
+
+  const payload = substitute(version.payload, values, version.command_type === 'exec') as Record<string, unknown>;
+
+  const payloadError = validateCommandPayload(version.command_type, payload);
+  if (payloadError) {
+    return { error: payloadError };
+  }
+
+  return { type: version.command_type, payload };
+}
+
+/**
+ * Transform a template and one of its versions to frontend format
+ */
+export function toTemplateResponse(t: CommandTemplate, v: CommandTemplateVersion) {
+  return {
+    id: t.id,
+    name: t.name,
+    description: t.description,
+    version: v.version,
+    currentVersion: t.current_version,
+    type: v.command_type,
+    payload: v.payload,
+    params: v.params,
+    archived: !!t.archived_at,
+    createdAt: t.created_at,
+    updatedAt: t.updated_at,
+  };
+}
+
+/**
+ * A template with one of its versions (the current one if not given)
+ */
+export async function getTemplateVersion(
+  templateId: string,
+  version?: number
+): Promise<{ template: CommandTemplate; version: CommandTemplateVersion } | null> {
+  const { data: template } = await supabase
+    .from('command_templates')
+    .select('*')
+    .eq('id', templateId)
+    .single();
+
+  if (!template) return null;
+
+  const { data: row } = await supabase
+    .from('command_template_versions')
+    .select('*')
+    .eq('template_id', templateId)
+    .eq('version', version ?? template.current_version)
+    .single();
+
+  if (!row) return null;
+
+  return { template: template as CommandTemplate, version: row as CommandTemplateVersion };
+}
@@ -0,0 +1,364 @@
+import { supabase } from '@/lib/supabase';
+import { emitWebhookEvent } from '@/lib/webhooks';
+import type { CommandArtifact, CommandOutput, CommandType } from '@/lib/types';
+
+// Max commands handed to a device per check-in
+const MAX_COMMANDS_PER_CHECKIN = 10;
+
+// Statuses a device may report back
+const RESULT_STATUSES = ['acknowledged', 'completed', 'failed'];
+
+// States a result may move a command out of. A final result is also taken
+// while pending, for an attempt that timed out and was queued for retry.
+const IN_FLIGHT_STATUSES = ['sent', 'acknowledged'];
+const OPEN_STATUSES = ['pending', ...IN_FLIGHT_STATUSES];
+
+// Seconds a sent command has to report a result before it is retried or failed
+const DEFAULT_COMMAND_TIMEOUT_SECONDS = 600;
+const FIRMWARE_COMMAND_TIMEOUT_SECONDS = 1800;
+export const MAX_COMMAND_RETRIES = 5;
+
+// Per-stream cap on stored stdout/stderr, and on artifacts per result
+const MAX_STREAM_CHARS = 64 * 1024;
+const MAX_ARTIFACTS = 20;
+
+// A result as sent by the device - the output fields are checked before storing
+export interface CommandResult {
+  id: string;
+  status: string;
+  message?: string;
+  exitCode?: unknown;
+  stdout?: unknown;
+  stderr?: unknown;
+  durationMs?: unknown;
+  truncated?: unknown;
+  artifacts?: unknown;
+}
+
+// A row returned by expire_device_commands()
+interface CommandLifecycleChange {
+  command_id: string;
+  device_id: string | null;
+  command_type: string;
+  broadcast: boolean;
+  outcome: 'expired' | 'retried' | 'timed_out';
+}
+
+export interface QueuedCommand {
+  id: string;
+  command_type: string;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Result deadline for a command type when the sender doesn't set one
+ */
+export function defaultTimeoutSeconds(type: CommandType): number {
+  return type === 'update_firmware' ? FIRMWARE_COMMAND_TIMEOUT_SECONDS : DEFAULT_COMMAND_TIMEOUT_SECONDS;
+}
+
+// Command types that run arbitrary code or replace the firmware
+const APPROVAL_COMMAND_TYPES: CommandType[] = ['exec', 'update_firmware'];
+
+// Targets this large, or covering this share of the fleet, are fleet-wide
+// however they were addressed (broadcast, group, tag or a device list)
+const FLEET_WIDE_MIN_DEVICES = 100;
+const FLEET_WIDE_SHARE = 0.5;
+
+/**
+ * Whether a new command must be approved by a second admin before it is
+ * delivered. Fleet-wide commands always do, whatever their type.
+ */
+export function requiresApproval(type: CommandType, fleetWide: boolean): boolean {
+  return fleetWide || APPROVAL_COMMAND_TYPES.includes(type);
+}
+
+/**
+ * Whether a resolved target of targetCount devices is fleet-wide. A single
+ * device never is. If the fleet can't be counted, the target is treated as
+ * fleet-wide so the command still needs approval.
+ */
+export async function isFleetWideTarget(targetCount: number): Promise<boolean> {
+  if (targetCount <= 1) return false;
+  if (targetCount >= FLEET_WIDE_MIN_DEVICES) return true;
+
+  const { count, error } = await supabase
+    .from('devices')
+    .select('device_id', { count: 'exact', head: true });
+
+  if (error || count === null) {
+    console.error('Fleet size fetch error:', error);
+    return true;
+  }
+
+  return targetCount >= count * FLEET_WIDE_SHARE;
+}
+
+function parseArtifact(raw: unknown): CommandArtifact | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const a = raw as Record<string, unknown>;
+  if (typeof a.name !== 'string' || !a.name.trim()) return null;
+
+  const artifact: CommandArtifact = { name: a.name.trim().slice(0, 255) };
+
+  if (typeof a.url === 'string') {
+    try {
+      const url = new URL(a.url);
+      if (url.protocol === 'https:' || url.protocol === 'http:') artifact.url = url.toString();
+    } catch {
+      // Drop unparseable URLs, keep the rest of the artifact
+    }
+  }
+  if (Number.isInteger(a.sizeBytes) && (a.sizeBytes as number) >= 0) {
+    artifact.sizeBytes = a.sizeBytes as number;
+  }
+  if (typeof a.sha256 === 'string' && /^[a-f0-9]{64}$/i.test(a.sha256)) {
+    artifact.sha256 = a.sha256.toLowerCase();
+  }
+
+  return artifact;
+}
+
+/**
+ * Pick the structured output fields out of a device result. Over-long
+ * stdout/stderr keep their end, where errors usually are, and are flagged
+ * as truncated. Returns null when the device sent no output.
+ */
+export function normalizeCommandOutput(result: CommandResult): CommandOutput | null {
+  const output: CommandOutput = {};
+  let truncated = result.truncated === true;
+
+  if (Number.isInteger(result.exitCode)) {
+    output.exitCode = result.exitCode as number;
+  }
+  if (typeof result.durationMs === 'number' && Number.isFinite(result.durationMs) && result.durationMs >= 0) {
+    output.durationMs = Math.round(result.durationMs);
+  }
+
+  for (const stream of ['stdout', 'stderr'] as const) {
+    const text = result[stream];
+    if (typeof text !== 'string' || text === '') continue;
+    if (text.length > MAX_STREAM_CHARS) {
+      output[stream] = text.slice(-MAX_STREAM_CHARS);
+      truncated = true;
+    } else {
+      output[stream] = text;
+    }
+  }
+
+  if (Array.isArray(result.artifacts)) {
+    const artifacts = result.artifacts
+      .slice(0, MAX_ARTIFACTS)
+      .map(parseArtifact)
+      .filter((a): a is CommandArtifact => a !== null);
+    if (artifacts.length > 0) output.artifacts = artifacts;
+  }
+
+  if (truncated) output.truncated = true;
+
+  return Object.keys(output).length > 0 ? output : null;
+}
+
+/**
+ * Record results reported by a device. Results for broadcast commands are
+ * stored on that device's delivery row, not on the shared command.
+ * "acknowledged" means the device has started the command; a command that
+ * already finished, expired or was cancelled ignores late results.
+ */
+export async function recordCommandResults(
+  deviceId: string,
+  results: CommandResult[],
+  now: string
+): Promise<void> {
+  const valid = results.filter((r) => r.id && RESULT_STATUSES.includes(r.status));
+  if (valid.length < results.length) {
+    console.log(`[Command] ${deviceId} reported ${results.length - valid.length} result(s) with an invalid status`);
+  }
+
+  const ids = valid.map((r) => r.id);
+  if (ids.length === 0) return;
+
+  const { data: commands, error } = await supabase
+    .from('device_commands')
+    .select('id, device_id, command_type')
+    .in('id', ids);
+
+  if (error) {
+    console.error('Command result lookup error:', error);
+    return;
+  }
+
+  for (const result of valid) {
+    const command = commands?.find((c) => c.id === result.id);
+    if (!command) continue;
+
+    const output = result.status === 'acknowledged' ? null : normalizeCommandOutput(result);
+    const summary = typeof result.message === 'string' && result.message
+      ? result.message
+      : output?.exitCode !== undefined ? `Exited with code ${output.exitCode}` : null;
+
+    const update = result.status === 'acknowledged'
+      ? { status: 'acknowledged', acknowledged_at: now }
+      : { status: result.status, result: summary, output, completed_at: now };
+
+    const from = result.status === 'acknowledged' ? IN_FLIGHT_STATUSES : OPEN_STATUSES;
+    let updated: { id: string }[] | null = null;
+
+    if (command.device_id === null) {
+      ({ data: updated } = await supabase
+        .from('command_deliveries')
+        .update(update)
+        .eq('command_id', command.id)
+        .eq('device_id', deviceId)
+        .in('status', from)
+        .select('id'));
+    } else if (command.device_id === deviceId) {
+      ({ data: updated } = await supabase
+        .from('device_commands')
+        .update(update)
+        .eq('id', command.id)
+        .in('status', from)
+        .select('id'));
+    } else {
+      console.log(`[Command] ${deviceId} reported result for foreign command ${command.id}`);
+      continue;
+    }
+
+    if (!updated || updated.length === 0) {
+      console.log(`[Command] ${deviceId} - ${command.id}: ignored late ${result.status}`);
+      continue;
+    }
+
+    console.log(`[Command] ${deviceId} - ${command.id}: ${result.status}`);
+
+    if (result.status === 'completed' || result.status === 'failed') {
+      await emitWebhookEvent(`command.${result.status}`, {
+        commandId: command.id,
+        deviceId,
+        type: command.command_type,
+        broadcast: command.device_id === null,
+        result: summary,
+        exitCode: output?.exitCode ?? null,
+        durationMs: output?.durationMs ?? null,
+      });
+    }
+  }
+}
+
+/**
+ * Periodic sweep: expire pending commands past their TTL, and retry or fail
+ * sent commands that missed their result deadline
+ */
+export async function sweepCommandLifecycle(): Promise<void> {
+  const { data: changed, error } = await supabase.rpc('expire_device_commands');
+
+  if (error) {
+    console.error('Command lifecycle sweep error:', error);
+    return;
+  }
+
+  for (const c of (changed || []) as CommandLifecycleChange[]) {
+    console.log(`[Command] ${c.command_id}${c.device_id ? ` on ${c.device_id}` : ''}: ${c.outcome}`);
+
+    if (c.outcome === 'timed_out') {
+      await emitWebhookEvent('command.failed', {
+        commandId: c.command_id,
+        deviceId: c.device_id,
+        type: c.command_type,
+        broadcast: c.broadcast,
+        result: 'Timed out waiting for a result',
+      });
+    }
+  }
+}
+
+interface PendingCommandRow extends QueuedCommand {
+  created_at: string;
+}
+
+/**
+ * Claim the commands a device should run on this check-in: its own pending
+ * commands plus broadcasts it has not received yet. Broadcasts are claimed by
+ * inserting a delivery row, so concurrent check-ins can't deliver one twice.
+ */
+export async function claimPendingCommands(
+  deviceId: string,
+  deviceCreatedAt: string,
+  now: string
+): Promise<QueuedCommand[]> {
+  const { data: direct, error: directError } = await supabase
+    .from('device_commands')
+    .select('id, command_type, payload, created_at')
+    .eq('device_id', deviceId)
+    .eq('status', 'pending')
+    .or(`expires_at.is.null,expires_at.gt.${now}`)
+    .order('created_at', { ascending: true })
+    .limit(MAX_COMMANDS_PER_CHECKIN);
+
+  if (directError) {
+    console.error('Commands fetch error:', directError);
+  }
+
+  // Broadcasts target the devices that existed when they were created. Ones
+  // this device already received are skipped in SQL, before the limit.
+  const { data: undelivered, error: broadcastError } = await supabase.rpc('get_undelivered_broadcasts', {
+    p_device_id: deviceId,
+    p_since: deviceCreatedAt,
+    p_now: now,
+    p_limit: MAX_COMMANDS_PER_CHECKIN,
+  });
+
+  if (broadcastError) {
+    console.error('Broadcast fetch error:', broadcastError);
+  }
+
+  const candidates = [...(direct || []), ...((undelivered || []) as PendingCommandRow[])]
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    .slice(0, MAX_COMMANDS_PER_CHECKIN);
+
+  const directIds = candidates.filter((c) => direct?.some((d) => d.id === c.id)).map((c) => c.id);
+  const broadcastIds = candidates.filter((c) => !directIds.includes(c.id)).map((c) => c.id);
+
+  // Mark direct commands as sent - only rows still pending, so a command
+  // cancelled since the fetch above isn't delivered
+  let claimedDirectIds: string[] = [];
+  if (directIds.length > 0) {
+    const { data: claimed } = await supabase
+      .from('device_commands')
+      .update({ status: 'sent', sent_at: now })
+      .in('id', directIds)
+      .eq('status', 'pending')
+      .select('id');
+    claimedDirectIds = (claimed || []).map((c) => c.id);
+  }
+
+  // Claim broadcasts - only rows actually inserted here are delivered
+  let claimedBroadcastIds: string[] = [];
+  if (broadcastIds.length > 0) {
+    const { data: claimed, error: claimError } = await supabase
+      .from('command_deliveries')
+      .upsert(
+        broadcastIds.map((id) => ({
+          command_id: id,
+          device_id: deviceId,
+          status: 'sent',
+          sent_at: now,
+        })),
+        { onConflict: 'command_id,device_id', ignoreDuplicates: true }
+      )
+      .select('command_id');
+
+    if (claimError) {
+      console.error('Broadcast delivery insert error:', claimError);
+    }
+    claimedBroadcastIds = (claimed || []).map((c) => c.command_id);
+  }
+
+  return candidates
+    .filter((c) => claimedDirectIds.includes(c.id) || claimedBroadcastIds.includes(c.id))
+    .map((c) => ({
+      id: c.id,
+      command_type: c.command_type,
+      payload: c.payload,
+    }));
+}
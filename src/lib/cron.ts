@@ -0,0 +1,119 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week),
+// evaluated in UTC. Supports *, lists, ranges, steps and a few @ aliases.
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // Standard cron: if both day fields are restricted, either may match
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+// [min, max] for each field; day-of-week accepts 7 as Sunday
+const FIELD_RANGES: [number, number][] = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+// Give up looking for a next run this far ahead (e.g. "0 0 30 2 *" never runs)
+const MAX_LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseField(field: string, min: number, max: number): Set<number> | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) return null;
+
+    let lo: number;
+    let hi: number;
+    if (range === '*') {
+      lo = min;
+      hi = max;
+    } else if (range.includes('-')) {
+      [lo, hi] = range.split('-').map(Number);
+    } else {
+      lo = Number(range);
+      hi = stepText === undefined ? lo : max;
+    }
+
+    if (!Number.isInteger(lo) || !Number.isInteger(hi) || lo < min || hi > max || lo > hi) {
+      return null;
+    }
+
+    for (let v = lo; v <= hi; v += step) values.add(v);
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression. Returns null if it is invalid.
+ */
+export function parseCron(expression: string): CronSchedule | null {
+  const normalized = ALIASES[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const parsed = fields.map((f, i) => parseField(f, FIELD_RANGES[i][0], FIELD_RANGES[i][1]));
+  if (parsed.some((p) => p === null)) return null;
+
+  const [minutes, hours, days, months, weekdays] = parsed as Set<number>[];
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    daysRestricted: fields[2] !== '*',
+    weekdaysRestricted: fields[4] !== '*',
+  };
+}
+
+function dayMatches(cron: CronSchedule, t: Date): boolean {
+  const dom = cron.days.has(t.getUTCDate());
+  const dow = cron.weekdays.has(t.getUTCDay());
+  if (cron.daysRestricted && cron.weekdaysRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/**
+ * First minute strictly after `after` that matches, or null if there is
+ * none in the next five years.
+ */
+export function nextCronRun(cron: CronSchedule, after: Date): Date | null {
+  const t = new Date(after);
+  t.setUTCSeconds(0, 0);
+  t.setUTCMinutes(t.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + MAX_LOOKAHEAD_MS;
+
+  while (t.getTime() <= limit) {
+    if (!cron.months.has(t.getUTCMonth() + 1)) {
+      t.setUTCMonth(t.getUTCMonth() + 1, 1);
+      t.setUTCHours(0, 0, 0, 0);
+    } else if (!dayMatches(cron, t)) {
+      t.setUTCDate(t.getUTCDate() + 1);
+      t.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(t.getUTCHours())) {
+      t.setUTCHours(t.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(t.getUTCMinutes())) {
+      t.setUTCMinutes(t.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return t;
+    }
+  }
+
+  return null;
+}
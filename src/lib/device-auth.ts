@@ -0,0 +1,150 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { supabase } from '@/lib/supabase';
+
+// Legacy fleet-wide key. Only accepted for devices that have never been issued
+// their own key, so they can enroll on their next check-in.
+const LEGACY_DEVICE_API_KEY = process.env.DEVICE_API_KEY || null;
+
+const DEVICE_KEY_PREFIX = 'tzd_';
+
+export interface DeviceAuthResult {
+  authenticated: boolean;
+  usedPendingKey: boolean;  // Device switched to a key issued by rotation
+  usedLegacyKey: boolean;   // Device still on the shared DEVICE_API_KEY
+  rotationRequested: boolean;
+}
+
+const UNAUTHENTICATED: DeviceAuthResult = {
+  authenticated: false,
+  usedPendingKey: false,
+  usedLegacyKey: false,
+  rotationRequested: false,
+};
+
+/**
+ * Generate a new random device API key
+ */
+export function generateDeviceKey(): string {
+  return DEVICE_KEY_PREFIX + randomBytes(32).toString('hex');
+}
+
+/**
+ * Hash a device API key for storage (keys are high-entropy, so sha256 is enough)
+ */
+export function hashDeviceKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function hashesMatch(a: string, b: string): boolean {
+  const bufA = Buffer.from(a, 'hex');
+  const bufB = Buffer.from(b, 'hex');
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Extract the device key from the Authorization header.
+ * Supports both "Bearer <key>" and just "<key>".
+ */
+export function getDeviceKey(authHeader: string | null): string | null {
+  if (!authHeader) return null;
+  const key = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : authHeader;
+  return key.trim() || null;
+}
+
+/**
+ * Whether a bearer credential is a device key rather than a user JWT
+ */
+export function isDeviceKey(key: string): boolean {
+  return key.startsWith(DEVICE_KEY_PREFIX) || (!!LEGACY_DEVICE_API_KEY && key === LEGACY_DEVICE_API_KEY);
+}
+
+/**
+ * Check a presented key against the credentials stored for deviceId
+ */
+export async function authenticateDevice(
+  deviceId: string,
+  key: string
+): Promise<DeviceAuthResult> {
+  const { data: device, error } = await supabase
+    .from('devices')
+    .select('api_key_hash, api_key_pending_hash, api_key_rotate_requested_at, api_key_revoked_at')
+    .eq('device_id', deviceId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Device credential lookup error:', error);
+    return UNAUTHENTICATED;
+  }
+
+  const presentedHash = hashDeviceKey(key);
+  const rotationRequested = !!device?.api_key_rotate_requested_at;
+
+  if (device?.api_key_hash && hashesMatch(presentedHash, device.api_key_hash)) {
+    return { ...UNAUTHENTICATED, authenticated: true, rotationRequested };
+  }
+
+  if (device?.api_key_pending_hash && hashesMatch(presentedHash, device.api_key_pending_hash)) {
+    return { ...UNAUTHENTICATED, authenticated: true, usedPendingKey: true };
+  }
+
+  // Shared key only works for devices that were never issued their own key
+  if (
+    LEGACY_DEVICE_API_KEY &&
+    !device?.api_key_hash &&
+    !device?.api_key_revoked_at &&
+    key === LEGACY_DEVICE_API_KEY
+  ) {
+    return { ...UNAUTHENTICATED, authenticated: true, usedLegacyKey: true };
+  }
+
+  return UNAUTHENTICATED;
+}
+
+/**
+ * Issue a fresh key to replace the device's current one.
+ * The new key stays pending until the device first checks in with it, so a
+ * lost response never locks the device out.
+ */
+export async function issuePendingDeviceKey(deviceId: string): Promise<string | null> {
+  const key = generateDeviceKey();
+
+  const { error } = await supabase
+    .from('devices')
+    .update({ api_key_pending_hash: hashDeviceKey(key) })
+    .eq('device_id', deviceId);
+
+  if (error) {
+    console.error('Pending device key update error:', error);
+    return null;
+  }
+
+  return key;
+}
+
+/**
+ * Make the pending key the device's active key
+ */
+export async function promotePendingDeviceKey(deviceId: string): Promise<void> {
+  const { data: device } = await supabase
+    .from('devices')
+    .select('api_key_pending_hash')
+    .eq('device_id', deviceId)
+    .single();
+
+  if (!device?.api_key_pending_hash) return;
+
+  const { error } = await supabase
+    .from('devices')
+    .update({
+      api_key_hash: device.api_key_pending_hash,
+      api_key_pending_hash: null,
+      api_key_issued_at: new Date().toISOString(),
+      api_key_rotate_requested_at: null,
+      api_key_revoked_at: null,
+    })
+    .eq('device_id', deviceId);
+
+  if (error) {
+    console.error('Device key promotion error:', error);
+  }
+}
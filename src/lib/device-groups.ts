@@ -0,0 +1,310 @@
+import { supabase } from '@/lib/supabase';
+
+export type GroupKind = 'static' | 'dynamic';
+
+// Device fields a dynamic group can filter on, and how they compare
+export const FILTER_FIELDS = {
+  firmware: { column: 'firmware', kind: 'version' },
+  mode: { column: 'mode', kind: 'string' },
+  status: { column: 'status', kind: 'string' },
+  public_country: { column: 'public_country', kind: 'string' },
+  public_city: { column: 'public_city', kind: 'string' },
+  name: { column: 'name', kind: 'string' },
+  customer_user_id: { column: 'customer_user_id', kind: 'string' },
+  tag: { column: 'tags', kind: 'tag' },
+} as const;
+export type FilterField = keyof typeof FILTER_FIELDS;
+
+export const FILTER_OPERATORS = {
+  version: ['=', '!=', '<', '<=', '>', '>='],
+  string: ['=', '!=', 'in', 'not_in'],
+  tag: ['has', 'not_has'],
+} as const;
+
+export interface FilterCondition {
+  field: FilterField;
+  op: string;
+  value: string | string[];
+}
+
+export interface DeviceGroup {
+  id: string;
+  name: string;
+  description: string | null;
+  kind: GroupKind;
+  filter: FilterCondition[] | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Columns needed to evaluate any filter
+export interface TargetableDevice {
+  device_id: string;
+  name: string | null;
+  firmware: string | null;
+  mode: string | null;
+  status: string | null;
+  public_country: string | null;
+  public_country_code: string | null;
+  public_city: string | null;
+  customer_user_id: string | null;
+  tags: string[];
+}
+
+const TARGET_COLUMNS =
+  'device_id, name, firmware, mode, status, public_country, public_country_code, public_city, customer_user_id, tags';
+
+// Country filters match the ISO code or the full name, and accept "EU" as
+// shorthand for its member states
+const EU_COUNTRY_CODES = [
+  'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE',
+  'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE',
+];
+
+const TAG_PATTERN = /^[a-z0-9][a-z0-9_.:-]{0,31}$/;
+const MAX_TAGS_PER_DEVICE = 20;
+const MAX_FILTER_CONDITIONS = 10;
+
+export const TAG_RULES = 'Tags are up to 32 lowercase letters, digits, "_", ".", ":" or "-"';
+
+/**
+ * Lowercase, trim and de-duplicate a tag list. Returns null if any tag is invalid.
+ */
+export function normalizeTags(raw: unknown): string[] | null {
+  if (!Array.isArray(raw)) return null;
+
+  const tags = Array.from(new Set(raw.map((t) => (typeof t === 'string' ? t.trim().toLowerCase() : ''))));
+  if (tags.length > MAX_TAGS_PER_DEVICE || tags.some((t) => !TAG_PATTERN.test(t))) {
+    return null;
+  }
+
+  return tags.sort();
+}
+
+/**
+ * Compare dotted version strings numerically ("1.10" > "1.9", "1.4" = "1.4.0").
+ * Non-numeric parts compare as text.
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.replace(/^v/i, '').split(/[.-]/);
+  const pb = b.replace(/^v/i, '').split(/[.-]/);
+
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const x = pa[i] ?? '0';
+    const y = pb[i] ?? '0';
+    const nx = Number(x);
+    const ny = Number(y);
+
+    const diff = Number.isNaN(nx) || Number.isNaN(ny) ? x.localeCompare(y) : nx - ny;
+    if (diff !== 0) return diff < 0 ? -1 : 1;
+  }
+
+  return 0;
+}
+
+/**
+ * Check a dynamic group filter. Returns an error message or null.
+ */
+export function validateGroupFilter(filter: unknown): string | null {
+  if (!Array.isArray(filter) || filter.length === 0) {
+    return 'filter must be a non-empty array of conditions';
+  }
+  if (filter.length > MAX_FILTER_CONDITIONS) {
+    return `filter can have at most ${MAX_FILTER_CONDITIONS} conditions`;
+  }
+
+  for (const c of filter as Partial<FilterCondition>[]) {
+    const field = FILTER_FIELDS[c?.field as FilterField];
+    if (!field) {
+      return `Unknown filter field "${c?.field}". Must be one of: ${Object.keys(FILTER_FIELDS).join(', ')}`;
+    }
+
+    const ops: readonly string[] = FILTER_OPERATORS[field.kind];
+    if (!ops.includes(c.op as string)) {
+      return `Invalid operator "${c.op}" for ${c.field}. Must be one of: ${ops.join(', ')}`;
+    }
+
+    const isList = c.op === 'in' || c.op === 'not_in';
+    if (isList) {
+      if (!Array.isArray(c.value) || c.value.length === 0 || c.value.some((v) => typeof v !== 'string')) {
+        return `${c.field} ${c.op} needs a non-empty list of values`;
+      }
+    } else if (typeof c.value !== 'string' || !c.value.trim()) {
+      return `${c.field} ${c.op} needs a value`;
+    }
+  }
+
+  return null;
+}
+
+function matchesCondition(device: TargetableDevice, condition: FilterCondition): boolean {
+  const field = FILTER_FIELDS[condition.field];
+  const { op, value } = condition;
+
+  if (field.kind === 'tag') {
+    const has = (device.tags || []).includes(String(value).toLowerCase());
+    return op === 'has' ? has : !has;
+  }
+
+  const actual = device[field.column as keyof TargetableDevice] as string | null;
+
+  if (condition.field === 'public_country') {
+    const names = [device.public_country_code, device.public_country]
+      .filter((n): n is string => !!n)
+      .map((n) => n.toLowerCase());
+    const values = (Array.isArray(value) ? value : [value])
+      .flatMap((v) => (v.toUpperCase() === 'EU' ? EU_COUNTRY_CODES : [v]))
+      .map((v) => v.toLowerCase());
+    const matched = names.some((n) => values.includes(n));
+    return op === '=' || op === 'in' ? matched : !matched;
+  }
+
+  if (field.kind === 'version') {
+    if (!actual) return op === '!=';
+    const cmp = compareVersions(actual, String(value));
+    switch (op) {
+      case '=': return cmp === 0;
+      case '!=': return cmp !== 0;
+      case '<': return cmp < 0;
+      case '<=': return cmp <= 0;
+      case '>': return cmp > 0;
+      case '>=': return cmp >= 0;
+    }
+    return false;
+  }
+
+  // Strings compare case-insensitively, so "berlin" matches city Berlin
+  const a = (actual ?? '').toLowerCase();
+  const values = (Array.isArray(value) ? value : [value]).map((v) => v.toLowerCase());
+  switch (op) {
+    case '=': return actual !== null && a === values[0];
+    case '!=': return a !== values[0];
+    case 'in': return actual !== null && values.includes(a);
+    case 'not_in': return !values.includes(a);
+  }
+  return false;
+}
+
+export function matchesFilter(device: TargetableDevice, filter: FilterCondition[]): boolean {
+  return filter.every((c) => matchesCondition(device, c));
+}
+
+/**
+ * Transform a group row to frontend format
+ */
+export function toGroupResponse(g: DeviceGroup) {
+  return {
+    id: g.id,
+    name: g.name,
+    description: g.description,
+    kind: g.kind,
+    filter: g.filter,
+    createdAt: g.created_at,
+  };
+}
+
+// PostgREST returns at most this many rows per request by default
+const PAGE_SIZE = 1000;
+
+/**
+ * Read every row of a query a page at a time. The query must be ordered on a
+ * unique column so pages don't overlap.
+ */
+async function fetchAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown }>
+): Promise<{ data: T[]; error: unknown }> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) return { data: [], error };
+
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return { data: rows, error: null };
+  }
+}
+
+/**
+ * Every device with the columns filters need. Groups are resolved in memory,
+ * so list endpoints can evaluate all groups against one fetch.
+ */
+export async function getTargetableDevices(): Promise<TargetableDevice[]> {
+  const { data, error } = await fetchAllPages<TargetableDevice>((from, to) =>
+    supabase.from('devices').select(TARGET_COLUMNS).order('device_id').range(from, to)
+  );
+
+  if (error) {
+    console.error('Targetable devices fetch error:', error);
+    return [];
+  }
+
+  return data;
+}
+
+/**
+ * Device IDs currently in a group: its members, or the devices matching its filter
+ */
+export async function resolveGroupDeviceIds(
+  group: DeviceGroup,
+  devices?: TargetableDevice[]
+): Promise<string[]> {
+  if (group.kind === 'dynamic') {
+    const pool = devices ?? (await getTargetableDevices());
+    return pool.filter((d) => matchesFilter(d, group.filter || [])).map((d) => d.device_id);
+  }
+
+  const { data, error } = await fetchAllPages<{ device_id: string }>((from, to) =>
+    supabase
+      .from('device_group_members')
+      .select('device_id')
+      .eq('group_id', group.id)
+      .order('device_id')
+      .range(from, to)
+  );
+
+  if (error) {
+    console.error('Group members fetch error:', error);
+    return [];
+  }
+
+  return data.map((m) => m.device_id);
+}
+
+/**
+ * Resolve a group or tag command target to device IDs
+ */
+export async function resolveTargetDeviceIds(target: {
+  groupId?: string;
+  tag?: string;
+}): Promise<{ deviceIds: string[]; group?: DeviceGroup } | { error: string; status: number }> {
+  if (target.groupId) {
+    const { data: group } = await supabase
+      .from('device_groups')
+      .select('*')
+      .eq('id', target.groupId)
+      .single();
+
+    if (!group) {
+      return { error: 'Group not found', status: 404 };
+    }
+
+    return { deviceIds: await resolveGroupDeviceIds(group as DeviceGroup), group: group as DeviceGroup };
+  }
+
+  const tag = String(target.tag).trim().toLowerCase();
+  const { data, error } = await fetchAllPages<{ device_id: string }>((from, to) =>
+    supabase
+      .from('devices')
+      .select('device_id')
+      .contains('tags', [tag])
+      .order('device_id')
+      .range(from, to)
+  );
+
+  if (error) {
+    console.error('Tag target fetch error:', error);
+    return { error: 'Failed to resolve tag', status: 500 };
+  }
+
+  return { deviceIds: data.map((d) => d.device_id) };
+}
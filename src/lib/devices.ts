@@ -0,0 +1,50 @@
+import { supabase } from '@/lib/supabase';
+
+/**
+ * Delete a device and all associated data. Returns the deleted row's
+ * audit-relevant fields, or null if the device doesn't exist.
+ */
+export async function deleteDevice(deviceId: string): Promise<{
+  name: string | null;
+  firmware: string | null;
+  customerUserId: string | null;
+  publicIp: string | null;
+} | null> {
+  // First verify the device exists
+  const { data: device, error: findError } = await supabase
+    .from('devices')
+    .select('device_id, name, firmware, customer_user_id, public_ip')
+    .eq('device_id', deviceId)
+    .single();
+
+  if (findError || !device) {
+    return null;
+  }
+
+  // Delete related data first (due to foreign key constraints)
+  await supabase.from('block_events').delete().eq('device_id', deviceId);
+  await supabase.from('device_metrics').delete().eq('device_id', deviceId);
+  await supabase.from('device_metrics_rollups').delete().eq('device_id', deviceId);
+  await supabase.from('device_network_history').delete().eq('device_id', deviceId);
+  await supabase.from('device_status_history').delete().eq('device_id', deviceId);
+  await supabase.from('device_reboots').delete().eq('device_id', deviceId);
+  await supabase.from('command_deliveries').delete().eq('device_id', deviceId);
+  await supabase.from('device_commands').delete().eq('device_id', deviceId);
+
+  // Finally delete the device
+  const { error: deleteError } = await supabase
+    .from('devices')
+    .delete()
+    .eq('device_id', deviceId);
+
+  if (deleteError) {
+    throw deleteError;
+  }
+
+  return {
+    name: device.name,
+    firmware: device.firmware,
+    customerUserId: device.customer_user_id,
+    publicIp: device.public_ip,
+  };
+}
@@ -0,0 +1,526 @@
+import { createHash, randomUUID } from 'crypto';
+import { supabase } from '@/lib/supabase';
+
+export interface FirmwareCampaign {
+  id: string;
+  name: string;
+  firmware_url: string;
+  sha256: string;
+  target_version: string;
+  cohort_percentage: number;
+  cohort_firmware: string | null;
+  cohort_country: string | null;
+  cohort_customer_user_id: string | null;
+  wave_percentages: number[];
+  current_wave: number;
+  auto_advance: boolean;
+  failure_threshold: number;
+  min_sample_size: number;
+  update_timeout_minutes: number;
+  status: 'draft' | 'running' | 'paused' | 'completed' | 'cancelled';
+  pause_reason: string | null;
+  created_at: string;
+  started_at: string | null;
+  started_by: string | null;
+  resumed_at: string | null;
+  completed_at: string | null;
+}
+
+export interface CampaignProgress {
+  enrolled: number;
+  updating: number;
+  succeeded: number;
+  failed: number;
+}
+
+/**
+ * Transform a campaign row to frontend format
+ */
+export function toCampaignResponse(c: FirmwareCampaign) {
+  return {
+    id: c.id,
+    name: c.name,
+    firmwareUrl: c.firmware_url,
+    sha256: c.sha256,
+    targetVersion: c.target_version,
+    cohort: {
+      percentage: c.cohort_percentage,
+      firmware: c.cohort_firmware,
+      country: c.cohort_country,
+      customerUserId: c.cohort_customer_user_id,
+    },
+    wavePercentages: c.wave_percentages,
+    currentWave: c.current_wave,
+    autoAdvance: c.auto_advance,
+    failureThreshold: c.failure_threshold,
+    minSampleSize: c.min_sample_size,
+    updateTimeoutMinutes: c.update_timeout_minutes,
+    status: c.status,
+    pauseReason: c.pause_reason,
+    createdAt: c.created_at,
+    startedAt: c.started_at,
+    resumedAt: c.resumed_at,
+    completedAt: c.completed_at,
+  };
+}
+
+/**
+ * Stable 0-99 bucket for a device within a campaign, so the percentage
+ * cohort and wave order don't change between calls
+ */
+function cohortBucket(campaignId: string, deviceId: string): number {
+  const digest = createHash('sha256').update(`${campaignId}:${deviceId}`).digest();
+  return digest.readUInt32BE(0) % 100;
+}
+
+/**
+ * Devices matching the campaign's cohort filters that still need the update
+ */
+export async function resolveCohort(
+  campaign: FirmwareCampaign
+): Promise<{ device_id: string; firmware: string | null; uptime: number | null }[]> {
+  let query = supabase
+    .from('devices')
+    .select('device_id, firmware, uptime')
+    .neq('firmware', campaign.target_version);
+
+  if (campaign.cohort_firmware) {
+    query = query.eq('firmware', campaign.cohort_firmware);
+  }
+  if (campaign.cohort_country) {
+    query = query.eq('public_country', campaign.cohort_country);
+  }
+  if (campaign.cohort_customer_user_id) {
+    query = query.eq('customer_user_id', campaign.cohort_customer_user_id);
+  }
+
+  const { data: devices, error } = await query;
+
+  if (error) {
+    console.error('Cohort fetch error:', error);
+    return [];
+  }
+
+  return (devices || [])
+    .filter((d) => cohortBucket(campaign.id, d.device_id) < campaign.cohort_percentage)
+    .sort((a, b) => cohortBucket(campaign.id, a.device_id) - cohortBucket(campaign.id, b.device_id));
+}
+
+export async function getCampaignProgress(campaignId: string): Promise<CampaignProgress> {
+  const { data } = await supabase
+    .from('firmware_campaign_progress')
+    .select('*')
+    .eq('campaign_id', campaignId)
+    .single();
+
+  return {
+    enrolled: data?.enrolled || 0,
+    updating: data?.updating || 0,
+    succeeded: data?.succeeded || 0,
+    failed: data?.failed || 0,
+  };
+}
+
+/**
+ * Give back a wave claimed by startNextWave whose devices couldn't be queued
+ */
+async function releaseWave(campaign: FirmwareCampaign, wave: number): Promise<void> {
+  await supabase
+    .from('firmware_campaigns')
+    .update({
+      current_wave: campaign.current_wave,
+      status: campaign.status,
+      pause_reason: campaign.pause_reason,
+      started_at: campaign.started_at,
+      started_by: campaign.started_by,
+    })
+    .eq('id', campaign.id)
+    .eq('current_wave', wave);
+}
+
+/**
+ * Enroll the next wave of devices and queue update_firmware for each. The
+ * wave's commands share a batch that a second admin has to approve before
+ * any of them is delivered.
+ */
+export async function startNextWave(
+  campaign: FirmwareCampaign,
+  requestedBy: string | null
+): Promise<{ wave: number; enrolled: number } | { error: string }> {
+  const nextWave = campaign.current_wave + 1;
+  if (nextWave > campaign.wave_percentages.length) {
+    return { error: 'All waves have already started' };
+  }
+
+  // Claim the wave before queuing anything: only the caller whose update
+  // still sees the previous wave goes on, so concurrent check-ins or clicks
+  // can't start the same wave twice
+  const { data: claimed, error: claimError } = await supabase
+    .from('firmware_campaigns')
+    .update({
+      current_wave: nextWave,
+      status: 'running',
+      pause_reason: null,
+      started_at: campaign.started_at || new Date().toISOString(),
+      started_by: campaign.started_by || requestedBy,
+    })
+    .eq('id', campaign.id)
+    .eq('current_wave', campaign.current_wave)
+    .select('id');
+
+  if (claimError) {
+    console.error('Rollout wave claim error:', claimError);
+    return { error: 'Failed to start the wave' };
+  }
+  if (!claimed || claimed.length === 0) {
+    return { error: `Wave ${nextWave} has already started` };
+  }
+
+  const { data: enrolledRows } = await supabase
+    .from('firmware_campaign_devices')
+    .select('device_id')
+    .eq('campaign_id', campaign.id);
+
+  const enrolledIds = new Set((enrolledRows || []).map((r) => r.device_id));
+  const remaining = (await resolveCohort(campaign)).filter((d) => !enrolledIds.has(d.device_id));
+
+  // Wave percentages are cumulative over the whole cohort
+  const cohortSize = enrolledIds.size + remaining.length;
+  const waveTarget = Math.ceil((cohortSize * campaign.wave_percentages[nextWave - 1]) / 100);
+  const wave = remaining.slice(0, Math.max(waveTarget - enrolledIds.size, 0));
+
+  if (wave.length > 0) {
+    const batchId = randomUUID();
+    const { data: commands, error: commandError } = await supabase
+      .from('device_commands')
+      .insert(
+        wave.map((d) => ({
+          device_id: d.device_id,
+          command_type: 'update_firmware',
+          payload: { url: campaign.firmware_url, sha256: campaign.sha256 },
+          status: 'pending_approval',
+          timeout_seconds: campaign.update_timeout_minutes * 60,
+          batch_id: batchId,
+          requested_by: requestedBy,
+        }))
+      )
+      .select('id, device_id');
+
+    if (commandError) {
+      console.error('Rollout command insert error:', commandError);
+      await releaseWave(campaign, nextWave);
+      return { error: 'Failed to queue firmware updates' };
+    }
+
+    const { error: enrollError } = await supabase
+      .from('firmware_campaign_devices')
+      .insert(
+        wave.map((d) => ({
+          campaign_id: campaign.id,
+          device_id: d.device_id,
+          wave: nextWave,
+          command_id: commands?.find((c) => c.device_id === d.device_id)?.id || null,
+          previous_firmware: d.firmware,
+          previous_uptime: d.uptime,
+        }))
+      );
+
+    if (enrollError) {
+      console.error('Rollout enroll error:', enrollError);
+
+      // Don't leave updates behind for devices that weren't enrolled
+      await supabase
+        .from('device_commands')
+        .update({ status: 'cancelled', completed_at: new Date().toISOString(), result: 'Rollout enrollment failed' })
+        .eq('batch_id', batchId)
+        .eq('status', 'pending_approval');
+
+      await releaseWave(campaign, nextWave);
+      return { error: 'Failed to enroll devices' };
+    }
+  }
+
+  console.log(`[Rollout] ${campaign.name} - wave ${nextWave} enrolled ${wave.length} devices, awaiting approval`);
+
+  return { wave: nextWave, enrolled: wave.length };
+}
+
+/**
+ * Command ids of the campaign's devices that are still updating
+ */
+async function updatingCommandIds(campaignId: string): Promise<string[]> {
+  const { data } = await supabase
+    .from('firmware_campaign_devices')
+    .select('command_id')
+    .eq('campaign_id', campaignId)
+    .eq('status', 'updating');
+
+  return (data || []).map((d) => d.command_id).filter(Boolean);
+}
+
+/**
+ * Pause a campaign, holding back the updates its devices haven't received
+ * yet, approved or not, so the paused wave goes no further
+ */
+export async function pauseCampaign(campaign: FirmwareCampaign, reason: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('firmware_campaigns')
+    .update({ status: 'paused', pause_reason: reason })
+    .eq('id', campaign.id);
+
+  if (error) {
+    console.error('Campaign pause error:', error);
+    return false;
+  }
+
+  const commandIds = await updatingCommandIds(campaign.id);
+  if (commandIds.length > 0) {
+    const { data: held, error: holdError } = await supabase
+      .from('device_commands')
+      .update({ status: 'held' })
+      .in('id', commandIds)
+      .in('status', ['pending', 'pending_approval'])
+      .select('id');
+
+    if (holdError) {
+      console.error('Rollout command hold error:', holdError);
+    } else if (held && held.length > 0) {
+      console.log(`[Rollout] ${campaign.name} - held ${held.length} undelivered updates`);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Resume a paused campaign and queue its held updates again. Updates that
+ * were held before anyone approved them go back to awaiting approval.
+ */
+export async function resumeCampaign(campaign: FirmwareCampaign): Promise<boolean> {
+  const { error } = await supabase
+    .from('firmware_campaigns')
+    .update({ status: 'running', pause_reason: null, resumed_at: new Date().toISOString() })
+    .eq('id', campaign.id);
+
+  if (error) {
+    console.error('Campaign resume error:', error);
+    return false;
+  }
+
+  const commandIds = await updatingCommandIds(campaign.id);
+  if (commandIds.length > 0) {
+    const [approvedResult, unapprovedResult] = await Promise.all([
+      supabase
+        .from('device_commands')
+        .update({ status: 'pending' })
+        .in('id', commandIds)
+        .eq('status', 'held')
+        .not('reviewed_by', 'is', null)
+        .select('id'),
+      supabase
+        .from('device_commands')
+        .update({ status: 'pending_approval' })
+        .in('id', commandIds)
+        .eq('status', 'held')
+        .is('reviewed_by', null)
+        .select('id'),
+    ]);
+
+    const releaseError = approvedResult.error || unapprovedResult.error;
+    const released = [...(approvedResult.data || []), ...(unapprovedResult.data || [])];
+
+    if (releaseError) {
+      console.error('Rollout command release error:', releaseError);
+    }
+    if (released.length > 0) {
+      // Their devices get a full update timeout from now
+      await supabase
+        .from('firmware_campaign_devices')
+        .update({ started_at: new Date().toISOString() })
+        .eq('campaign_id', campaign.id)
+        .in('command_id', released.map((c) => c.id));
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Pause the campaign if the failure rate crosses its threshold, otherwise
+ * complete it or move on to the next wave once the current one has settled
+ */
+export async function evaluateCampaign(campaign: FirmwareCampaign): Promise<void> {
+  if (campaign.status !== 'running') return;
+
+  // After an operator resumes, only failures since the resume count
+  let settledQuery = supabase
+    .from('firmware_campaign_devices')
+    .select('status')
+    .eq('campaign_id', campaign.id)
+    .in('status', ['succeeded', 'failed']);
+
+  if (campaign.resumed_at) {
+    settledQuery = settledQuery.gte('finished_at', campaign.resumed_at);
+  }
+
+  const { data: settled } = await settledQuery;
+  const finished = (settled || []).length;
+  const failed = (settled || []).filter((d) => d.status === 'failed').length;
+
+  if (finished >= campaign.min_sample_size && failed / finished >= campaign.failure_threshold) {
+    const reason = `Failure rate ${Math.round((failed / finished) * 100)}% (${failed}/${finished}) reached threshold of ${Math.round(campaign.failure_threshold * 100)}%`;
+    await pauseCampaign(campaign, reason);
+
+    console.log(`[Rollout] ${campaign.name} paused - ${reason}`);
+    return;
+  }
+
+  const progress = await getCampaignProgress(campaign.id);
+  if (progress.updating > 0) return;
+
+  if (campaign.current_wave >= campaign.wave_percentages.length) {
+    await supabase
+      .from('firmware_campaigns')
+      .update({ status: 'completed', completed_at: new Date().toISOString() })
+      .eq('id', campaign.id);
+
+    console.log(`[Rollout] ${campaign.name} completed`);
+  } else if (campaign.auto_advance) {
+    await startNextWave(campaign, campaign.started_by);
+  }
+}
+
+async function finishCampaignDevice(
+  id: string,
+  status: 'succeeded' | 'failed',
+  now: string,
+  failureReason?: string
+): Promise<void> {
+  await supabase
+    .from('firmware_campaign_devices')
+    .update({ status, finished_at: now, failure_reason: failureReason || null })
+    .eq('id', id);
+}
+
+/**
+ * Called on every check-in: settle any rollout this device is part of based
+ * on the firmware it reports and whether it rebooted since the update was sent
+ */
+export async function trackRolloutCheckin(
+  deviceId: string,
+  firmware: string,
+  uptime: number,
+  now: string
+): Promise<void> {
+  const { data: rows, error } = await supabase
+    .from('firmware_campaign_devices')
+    .select('id, campaign_id, device_commands(status, result, sent_at), firmware_campaigns(*)')
+    .eq('device_id', deviceId)
+    .eq('status', 'updating');
+
+  if (error) {
+    console.error('Rollout tracking fetch error:', error);
+    return;
+  }
+
+  for (const row of rows || []) {
+    const campaign = row.firmware_campaigns as unknown as FirmwareCampaign | null;
+    const command = row.device_commands as unknown as { status: string; result: string | null; sent_at: string | null } | null;
+    if (!campaign) continue;
+
+    if (firmware === campaign.target_version) {
+      await finishCampaignDevice(row.id, 'succeeded', now);
+      console.log(`[Rollout] ${deviceId} now on ${firmware}`);
+    } else if (command?.status === 'failed') {
+      await finishCampaignDevice(row.id, 'failed', now, command.result || 'Update command failed');
+      console.log(`[Rollout] ${deviceId} update failed`);
+    } else if (
+      command?.sent_at &&
+      uptime < (new Date(now).getTime() - new Date(command.sent_at).getTime()) / 1000
+    ) {
+      // Uptime reset since the update was sent, but still on the old firmware
+      await finishCampaignDevice(row.id, 'failed', now, `Rebooted but still reports firmware ${firmware}`);
+      console.log(`[Rollout] ${deviceId} rebooted without new firmware`);
+    } else {
+      continue;
+    }
+
+    await evaluateCampaign(campaign);
+  }
+}
+
+/**
+ * Periodic sweep: fail devices that never came back with the new firmware
+ * in time, then re-evaluate every active campaign
+ */
+export async function sweepFirmwareCampaigns(): Promise<void> {
+  const { data: campaigns, error } = await supabase
+    .from('firmware_campaigns')
+    .select('*')
+    .in('status', ['running', 'paused']);
+
+  if (error) {
+    console.error('Campaign sweep fetch error:', error);
+    return;
+  }
+
+  const now = new Date();
+  for (const campaign of (campaigns || []) as FirmwareCampaign[]) {
+    const deadline = new Date(now.getTime() - campaign.update_timeout_minutes * 60 * 1000);
+
+    // The timeout runs from when the update was sent, or from enrollment or
+    // approval, whichever was later, if it hasn't been yet. Updates awaiting
+    // approval or held by a pause don't time out while they wait.
+    const { data: updating } = await supabase
+      .from('firmware_campaign_devices')
+      .select('id, started_at, device_commands(status, sent_at, reviewed_at)')
+      .eq('campaign_id', campaign.id)
+      .eq('status', 'updating');
+
+    const rejected: string[] = [];
+    const timedOut = (updating || []).filter((d) => {
+      const command = d.device_commands as unknown as {
+        status: string;
+        sent_at: string | null;
+        reviewed_at: string | null;
+      } | null;
+      if (command?.status === 'rejected') {
+        rejected.push(d.id);
+        return false;
+      }
+      if (command?.status === 'held' || command?.status === 'pending_approval') return false;
+
+      const since = command?.sent_at
+        ? new Date(command.sent_at).getTime()
+        : Math.max(new Date(d.started_at).getTime(), command?.reviewed_at ? new Date(command.reviewed_at).getTime() : 0);
+      return since < deadline.getTime();
+    });
+
+    // A rejected wave fails its devices, which pauses the campaign
+    if (rejected.length > 0) {
+      await supabase
+        .from('firmware_campaign_devices')
+        .update({ status: 'failed', finished_at: now.toISOString(), failure_reason: 'Update was rejected by a reviewer' })
+        .in('id', rejected)
+        .eq('status', 'updating');
+
+      console.log(`[Rollout] ${campaign.name} - ${rejected.length} updates rejected`);
+    }
+
+    if (timedOut.length > 0) {
+      await supabase
+        .from('firmware_campaign_devices')
+        .update({
+          status: 'failed',
+          finished_at: now.toISOString(),
+          failure_reason: `No check-in with firmware ${campaign.target_version} within ${campaign.update_timeout_minutes} minutes`,
+        })
+        .in('id', timedOut.map((d) => d.id))
+        .eq('status', 'updating');
+
+      console.log(`[Rollout] ${campaign.name} - ${timedOut.length} devices timed out`);
+    }
+
+    await evaluateCampaign(campaign);
+  }
+}
@@ -0,0 +1,376 @@
+import { readFile } from 'fs/promises';
+import { MmdbReader, type MmdbValue } from '@/lib/mmdb';
+
+// Location database: a GeoLite2/GeoIP2/DB-IP City .mmdb, or a CSV of ranges
+const GEOIP_DATABASE_PATH = process.env.GEOIP_DATABASE_PATH || null;
+// Optional separate ASN database (.mmdb or CSV), e.g. GeoLite2-ASN
+const GEOIP_ASN_DATABASE_PATH = process.env.GEOIP_ASN_DATABASE_PATH || null;
+
+const CACHE_SIZE = 10000;
+
+export interface GeoIPResult {
+  lat: number | null;
+  lng: number | null;
+  city: string | null;
+  country: string | null;
+  countryCode: string | null;
+  asn: number | null;
+  isp: string | null;
+}
+
+const EMPTY_RESULT: GeoIPResult = {
+  lat: null,
+  lng: null,
+  city: null,
+  country: null,
+  countryCode: null,
+  asn: null,
+  isp: null,
+};
+
+interface ParsedIP {
+  version: 4 | 6;
+  bytes: Uint8Array;
+}
+
+// A CSV database is a list of ranges sorted by start, per IP version
+interface CsvRange {
+  start: bigint;
+  end: bigint;
+  result: GeoIPResult;
+}
+
+interface GeoDatabase {
+  lookup(ip: ParsedIP): Partial<GeoIPResult> | null;
+}
+
+// Ranges that are never routed on the public internet
+const PRIVATE_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],        // "This" network
+  ['10.0.0.0', 8],       // RFC 1918
+  ['100.64.0.0', 10],    // Carrier-grade NAT
+  ['127.0.0.0', 8],      // Loopback
+  ['169.254.0.0', 16],   // Link-local
+  ['172.16.0.0', 12],    // RFC 1918
+  ['192.0.0.0', 24],     // IETF protocol assignments
+  ['192.0.2.0', 24],     // Documentation
+  ['192.168.0.0', 16],   // RFC 1918
+  ['198.18.0.0', 15],    // Benchmarking
+  ['198.51.100.0', 24],  // Documentation
+  ['203.0.113.0', 24],   // Documentation
+  ['224.0.0.0', 3],      // Multicast and reserved, through 255.255.255.255
+  ['::', 127],           // Unspecified and loopback
+  ['100::', 64],         // Discard
+  ['2001:db8::', 32],    // Documentation
+  ['fc00::', 7],         // Unique local
+  ['fe80::', 10],        // Link-local
+  ['ff00::', 8],         // Multicast
+];
+
+/**
+ * Parse an IPv4 or IPv6 address into its bytes. IPv4-mapped IPv6 addresses
+ * (::ffff:a.b.c.d) come back as IPv4; zone IDs are ignored.
+ */
+export function parseIP(input: string): ParsedIP | null {
+  const ip = input.trim().replace(/^\[|\]$/g, '').split('%')[0];
+
+  if (!ip.includes(':')) {
+    const parts = ip.split('.');
+    if (parts.length !== 4 || !parts.every((p) => /^\d{1,3}$/.test(p) && Number(p) <= 255)) {
+      return null;
+    }
+    return { version: 4, bytes: Uint8Array.from(parts.map(Number)) };
+  }
+
+  // A trailing dotted quad stands for the last two groups
+  let groupsText = ip;
+  const lastColon = ip.lastIndexOf(':');
+  if (ip.slice(lastColon + 1).includes('.')) {
+    const v4 = parseIP(ip.slice(lastColon + 1));
+    if (!v4 || v4.version !== 4) return null;
+    const [a, b, c, d] = v4.bytes;
+    groupsText = `${ip.slice(0, lastColon + 1)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const halves = groupsText.split('::');
+  if (halves.length > 2) return null;
+
+  const toGroups = (text: string) => (text === '' ? [] : text.split(':'));
+  const head = toGroups(halves[0]);
+  const rest = halves.length === 2 ? toGroups(halves[1]) : [];
+  if (![...head, ...rest].every((g) => /^[0-9a-f]{1,4}$/i.test(g))) {
+    return null;
+  }
+
+  const explicit = head.length + rest.length;
+  if (halves.length === 1 ? explicit !== 8 : explicit > 7) {
+    return null;
+  }
+
+  const groups = [
+    ...head.map((g) => parseInt(g, 16)),
+    ...Array(8 - explicit).fill(0),
+    ...rest.map((g) => parseInt(g, 16)),
+  ];
+
+  const bytes = new Uint8Array(16);
+  groups.forEach((g, i) => {
+    bytes[i * 2] = g >> 8;
+    bytes[i * 2 + 1] = g & 0xff;
+  });
+
+  const mapped = bytes.subarray(0, 10).every((b) => b === 0) && bytes[10] === 0xff && bytes[11] === 0xff;
+  return mapped ? { version: 4, bytes: bytes.slice(12) } : { version: 6, bytes };
+}
+
+function toBigInt(bytes: Uint8Array): bigint {
+  let value = BigInt(0);
+  for (const b of bytes) {
+    value = (value << BigInt(8)) | BigInt(b);
+  }
+  return value;
+}
+
+function inPrefix(ip: ParsedIP, network: ParsedIP, prefixLength: number): boolean {
+  if (ip.version !== network.version) return false;
+  const bits = ip.bytes.length * 8;
+  const shift = BigInt(bits - prefixLength);
+  return toBigInt(ip.bytes) >> shift === toBigInt(network.bytes) >> shift;
+}
+
+const PRIVATE_NETWORKS = PRIVATE_RANGES.map(([network, prefixLength]) => ({
+  network: parseIP(network)!,
+  prefixLength,
+}));
+
+/**
+ * Whether an address is private, loopback, link-local or otherwise not
+ * publicly routable (and so has no meaningful location)
+ */
+export function isPrivateIP(input: string): boolean {
+  const ip = parseIP(input);
+  if (!ip) return false;
+  return PRIVATE_NETWORKS.some(({ network, prefixLength }) => inPrefix(ip, network, prefixLength));
+}
+
+function fromMmdb(record: MmdbValue | null): Partial<GeoIPResult> | null {
+  if (!record || typeof record !== 'object' || Array.isArray(record) || Buffer.isBuffer(record)) {
+    return null;
+  }
+
+  const r = record as {
+    city?: { names?: { en?: string } };
+    country?: { iso_code?: string; names?: { en?: string } };
+    location?: { latitude?: number; longitude?: number };
+    traits?: { isp?: string; autonomous_system_number?: number; autonomous_system_organization?: string };
+    autonomous_system_number?: number;
+    autonomous_system_organization?: string;
+    isp?: string;
+  };
+
+  const result: Partial<GeoIPResult> = {};
+  if (r.city?.names?.en) result.city = r.city.names.en;
+  if (r.country?.names?.en) result.country = r.country.names.en;
+  if (r.country?.iso_code) result.countryCode = r.country.iso_code;
+  if (typeof r.location?.latitude === 'number') result.lat = r.location.latitude;
+  if (typeof r.location?.longitude === 'number') result.lng = r.location.longitude;
+
+  const asn = r.autonomous_system_number ?? r.traits?.autonomous_system_number;
+  const isp = r.isp ?? r.traits?.isp ?? r.autonomous_system_organization ?? r.traits?.autonomous_system_organization;
+  if (typeof asn === 'number') result.asn = asn;
+  if (isp) result.isp = isp;
+
+  return result;
+}
+
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  fields.push(field);
+  return fields.map((f) => f.trim());
+}
+
+/**
+ * Load a CSV of address ranges. The header row names the columns: either
+ * `network` (CIDR) or `start_ip` and `end_ip`, plus any of `country_code`,
+ * `country`, `city`, `latitude`, `longitude`, `asn` and `isp`.
+ */
+function loadCsvDatabase(text: string): GeoDatabase {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim() !== '' && !l.startsWith('#'));
+  const header = splitCsvLine(lines[0] || '').map((h) => h.toLowerCase());
+  const column = (name: string) => header.indexOf(name);
+
+  const networkCol = column('network');
+  const startCol = column('start_ip');
+  const endCol = column('end_ip');
+  if (networkCol < 0 && (startCol < 0 || endCol < 0)) {
+    throw new Error('GeoIP CSV needs a network column or start_ip and end_ip columns');
+  }
+
+  const ranges: Record<4 | 6, CsvRange[]> = { 4: [], 6: [] };
+
+  for (const line of lines.slice(1)) {
+    const fields = splitCsvLine(line);
+    const get = (name: string) => {
+      const value = fields[column(name)];
+      return value === undefined || value === '' ? null : value;
+    };
+
+    let start: ParsedIP | null;
+    let end: bigint;
+    if (networkCol >= 0) {
+      const [address, prefix] = fields[networkCol].split('/');
+      start = parseIP(address);
+      if (!start) continue;
+      const bits = start.bytes.length * 8;
+      const hostBits = BigInt(bits - (prefix === undefined ? bits : Number(prefix)));
+      end = toBigInt(start.bytes) | ((BigInt(1) << hostBits) - BigInt(1));
+    } else {
+      start = parseIP(fields[startCol]);
+      const last = parseIP(fields[endCol]);
+      if (!start || !last || last.version !== start.version) continue;
+      end = toBigInt(last.bytes);
+    }
+
+    const lat = get('latitude');
+    const lng = get('longitude');
+    const asn = get('asn');
+    ranges[start.version].push({
+      start: toBigInt(start.bytes),
+      end,
+      result: {
+        lat: lat === null ? null : Number(lat),
+        lng: lng === null ? null : Number(lng),
+        city: get('city'),
+        country: get('country'),
+        countryCode: get('country_code'),
+        asn: asn === null ? null : Number(asn.replace(/^AS/i, '')),
+        isp: get('isp'),
+      },
+    });
+  }
+
+  ranges[4].sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+  ranges[6].sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+
+  return {
+    lookup(ip) {
+      const list = ranges[ip.version];
+      const value = toBigInt(ip.bytes);
+
+      // Last range starting at or before the address
+      let low = 0;
+      let high = list.length - 1;
+      let found = -1;
+      while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (list[mid].start <= value) {
+          found = mid;
+          low = mid + 1;
+        } else {
+          high = mid - 1;
+        }
+      }
+
+      if (found < 0 || list[found].end < value) return null;
+      const result: Partial<GeoIPResult> = {};
+      for (const [key, v] of Object.entries(list[found].result)) {
+        if (v !== null) (result as Record<string, unknown>)[key] = v;
+      }
+      return result;
+    },
+  };
+}
+
+async function loadDatabase(path: string): Promise<GeoDatabase | null> {
+  try {
+    const buffer = await readFile(path);
+
+    if (path.toLowerCase().endsWith('.csv')) {
+      const database = loadCsvDatabase(buffer.toString('utf8'));
+      console.log(`[Geo] Loaded ${path}`);
+      return database;
+    }
+
+    const reader = new MmdbReader(buffer);
+    console.log(`[Geo] Loaded ${path} (${reader.metadata.database_type}, built ${new Date(reader.metadata.build_epoch * 1000).toISOString().slice(0, 10)})`);
+    return { lookup: (ip) => fromMmdb(reader.lookup(ip.bytes)) };
+  } catch (error) {
+    console.error(`GeoIP database load error (${path}):`, error);
+    return null;
+  }
+}
+
+// Databases load once per process, on the first lookup
+let databases: Promise<GeoDatabase[]> | null = null;
+
+function getDatabases(): Promise<GeoDatabase[]> {
+  if (!databases) {
+    const paths = [GEOIP_DATABASE_PATH, GEOIP_ASN_DATABASE_PATH].filter((p): p is string => !!p);
+    if (paths.length === 0) {
+      console.warn('[Geo] GEOIP_DATABASE_PATH is not set, devices will not be geolocated');
+    }
+    databases = Promise.all(paths.map(loadDatabase))
+      .then((loaded) => loaded.filter((d): d is GeoDatabase => d !== null));
+  }
+  return databases;
+}
+
+// Most recently used last, so the first key is the one to evict
+const cache = new Map<string, GeoIPResult | null>();
+
+/**
+ * Location and network owner of a public IP from the local GeoIP databases,
+ * or null for private addresses and addresses the databases don't cover
+ */
+export async function lookupGeoIP(input: string): Promise<GeoIPResult | null> {
+  const ip = parseIP(input);
+  if (!ip || isPrivateIP(input)) {
+    return null;
+  }
+
+  const key = `${ip.version}:${toBigInt(ip.bytes).toString(16)}`;
+  if (cache.has(key)) {
+    const cached = cache.get(key)!;
+    cache.delete(key);
+    cache.set(key, cached);
+    return cached;
+  }
+
+  let result: GeoIPResult | null = null;
+  for (const database of await getDatabases()) {
+    const found = database.lookup(ip);
+    if (found) {
+      result = { ...(result ?? EMPTY_RESULT), ...found };
+    }
+  }
+
+  cache.set(key, result);
+  if (cache.size > CACHE_SIZE) {
+    cache.delete(cache.keys().next().value!);
+  }
+
+  return result;
+}
@@ -0,0 +1,224 @@
+import { supabase } from '@/lib/supabase';
+
+export const METRIC_RESOLUTIONS = ['raw', '5m', '1h'] as const;
+export type MetricResolution = (typeof METRIC_RESOLUTIONS)[number];
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// How long each resolution is kept, as pruned by rollup_device_metrics()
+const RETENTION_MS: Record<MetricResolution, number> = {
+  raw: DAY_MS,
+  '5m': 7 * DAY_MS,
+  '1h': 365 * DAY_MS,
+};
+
+// Time per point; raw metrics arrive with each check-in, about once a minute
+const STEP_MS: Record<MetricResolution, number> = {
+  raw: MINUTE_MS,
+  '5m': 5 * MINUTE_MS,
+  '1h': HOUR_MS,
+};
+
+// Enough for a day of raw metrics or a week of 5-minute buckets
+const MAX_POINTS = 2500;
+
+// A window starting a little before the retention cutoff only misses its first points
+const RETENTION_GRACE_MS = HOUR_MS;
+
+export interface MetricsQuery {
+  from: Date;
+  to: Date;
+  resolution: MetricResolution;
+}
+
+// One point in a metrics series. Rollups report the bucket start as createdAt,
+// averages as the plain fields and peaks as the *Max fields.
+export interface MetricPoint {
+  createdAt: string;
+  samples: number;
+  cpuLoad: number | null;
+  cpuLoadMax: number | null;
+  tempCelsius: number | null;
+  tempCelsiusMax: number | null;
+  memUsedMb: number | null;
+  memUsedMbMax: number | null;
+  memTotalMb: number | null;
+  diskUsedMb: number | null;
+  diskTotalMb: number | null;
+  wifiSignal: number | null;
+  wifiSignalMin: number | null;
+}
+
+// Blocks summed over one bucket of a metrics resolution
+export interface BlockBucket {
+  createdAt: string;
+  inbound: number;
+  outbound: number;
+}
+
+function isRetained(resolution: MetricResolution, from: Date, now: Date): boolean {
+  return from.getTime() >= now.getTime() - RETENTION_MS[resolution] - RETENTION_GRACE_MS;
+}
+
+function fitsResponse(resolution: MetricResolution, from: Date, to: Date): boolean {
+  return (to.getTime() - from.getTime()) / STEP_MS[resolution] <= MAX_POINTS;
+}
+
+/**
+ * The finest resolution still kept for the whole window that fits in one
+ * response, or null if the window is too long even for hourly points
+ */
+export function pickResolution(from: Date, to: Date, now = new Date()): MetricResolution | null {
+  return METRIC_RESOLUTIONS.find((r) => isRetained(r, from, now) && fitsResponse(r, from, to))
+    ?? (fitsResponse('1h', from, to) ? '1h' : null);
+}
+
+/**
+ * Read from, to and resolution (raw, 5m, 1h or auto) from a metrics request.
+ * The window defaults to the last 24 hours; `since` is accepted for from.
+ */
+export function parseMetricsQuery(searchParams: URLSearchParams): MetricsQuery | { error: string } {
+  const now = new Date();
+  const fromParam = searchParams.get('from') ?? searchParams.get('since');
+  const toParam = searchParams.get('to');
+
+  const to = toParam ? new Date(toParam) : now;
+  const from = fromParam ? new Date(fromParam) : new Date(to.getTime() - DAY_MS);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    return { error: 'from and to must be ISO timestamps' };
+  }
+
+  if (from >= to) {
+    return { error: 'from must be before to' };
+  }
+
+  const resolutionParam = searchParams.get('resolution') || 'auto';
+  if (resolutionParam === 'auto') {
+    const resolution = pickResolution(from, to, now);
+    return resolution ? { from, to, resolution } : { error: `Window is too long, request at most ${Math.floor((MAX_POINTS * HOUR_MS) / DAY_MS)} days at a time` };
+  }
+
+  if (!METRIC_RESOLUTIONS.includes(resolutionParam as MetricResolution)) {
+    return { error: `resolution must be one of: auto, ${METRIC_RESOLUTIONS.join(', ')}` };
+  }
+
+  const resolution = resolutionParam as MetricResolution;
+  if (!fitsResponse(resolution, from, to)) {
+    return { error: `Window is too long for ${resolution} resolution, use a coarser one or auto` };
+  }
+
+  return { from, to, resolution };
+}
+
+/**
+ * A device's metrics over a window at the given resolution, oldest first.
+ * Returns null on a database error.
+ */
+export async function fetchDeviceMetrics(deviceId: string, query: MetricsQuery): Promise<MetricPoint[] | null> {
+  if (query.resolution === 'raw') {
+    const { data, error } = await supabase
+      .from('device_metrics')
+      .select('*')
+      .eq('device_id', deviceId)
+      .gte('created_at', query.from.toISOString())
+      .lt('created_at', query.to.toISOString())
+      .order('created_at', { ascending: true })
+      .limit(MAX_POINTS);
+
+    if (error) {
+      console.error('Metrics fetch error:', error);
+      return null;
+    }
+
+    return (data || []).map((m) => ({
+      createdAt: m.created_at,
+      samples: 1,
+      cpuLoad: m.cpu_load,
+      cpuLoadMax: m.cpu_load,
+      tempCelsius: m.temp_celsius,
+      tempCelsiusMax: m.temp_celsius,
+      memUsedMb: m.mem_used_mb,
+      memUsedMbMax: m.mem_used_mb,
+      memTotalMb: m.mem_total_mb,
+      diskUsedMb: m.disk_used_mb,
+      diskTotalMb: m.disk_total_mb,
+      wifiSignal: m.wifi_signal,
+      wifiSignalMin: m.wifi_signal,
+    }));
+  }
+
+  const { data, error } = await supabase
+    .from('device_metrics_rollups')
+    .select('*')
+    .eq('device_id', deviceId)
+    .eq('resolution', query.resolution)
+    .gte('bucket', new Date(query.from.getTime() - STEP_MS[query.resolution]).toISOString())
+    .lt('bucket', query.to.toISOString())
+    .order('bucket', { ascending: true })
+    .limit(MAX_POINTS + 1);
+
+  if (error) {
+    console.error('Metrics rollup fetch error:', error);
+    return null;
+  }
+
+  return (data || []).map((r) => ({
+    createdAt: r.bucket,
+    samples: r.samples,
+    cpuLoad: r.cpu_load_avg,
+    cpuLoadMax: r.cpu_load_max,
+    tempCelsius: r.temp_celsius_avg,
+    tempCelsiusMax: r.temp_celsius_max,
+    memUsedMb: r.mem_used_mb_avg === null ? null : Math.round(r.mem_used_mb_avg),
+    memUsedMbMax: r.mem_used_mb_max,
+    memTotalMb: r.mem_total_mb,
+    diskUsedMb: r.disk_used_mb_max,
+    diskTotalMb: r.disk_total_mb,
+    wifiSignal: r.wifi_signal_avg === null ? null : Math.round(r.wifi_signal_avg),
+    wifiSignalMin: r.wifi_signal_min,
+  }));
+}
+
+/**
+ * A device's block deltas over a window, summed per step of the query's
+ * resolution so they line up with its metrics. Returns null on a database error.
+ */
+export async function fetchBlockBuckets(deviceId: string, query: MetricsQuery): Promise<BlockBucket[] | null> {
+  const { data, error } = await supabase.rpc('device_block_buckets', {
+    p_device_id: deviceId,
+    p_from: query.from.toISOString(),
+    p_to: query.to.toISOString(),
+    p_bucket_seconds: STEP_MS[query.resolution] / 1000,
+  });
+
+  if (error) {
+    console.error('Block buckets fetch error:', error);
+    return null;
+  }
+
+  return ((data || []) as { bucket: string; inbound: number; outbound: number }[]).map((b) => ({
+    createdAt: b.bucket,
+    inbound: Number(b.inbound),
+    outbound: Number(b.outbound),
+  }));
+}
+
+/**
+ * Periodic sweep: roll up finished metrics buckets and prune expired data
+ */
+export async function sweepMetricsRollups(): Promise<void> {
+  const { data, error } = await supabase.rpc('rollup_device_metrics');
+
+  if (error) {
+    console.error('Metrics rollup error:', error);
+    return;
+  }
+
+  const result = (data || [])[0] as { five_minute_buckets: number; hourly_buckets: number; pruned: number } | undefined;
+  if (result && (result.five_minute_buckets || result.hourly_buckets || result.pruned)) {
+    console.log(`[Metrics] Rolled up ${result.five_minute_buckets} 5m and ${result.hourly_buckets} 1h buckets, pruned ${result.pruned} rows`);
+  }
+}
@@ -0,0 +1,206 @@
+// Minimal reader for MaxMind DB (.mmdb) files, as used by GeoLite2/GeoIP2
+// and DB-IP. Spec: https://maxmind.github.io/MaxMind-DB/
+
+const METADATA_MARKER = Buffer.from([0xab, 0xcd, 0xef, ...Buffer.from('MaxMind.com')]);
+
+// Metadata sits in the last 128 KiB of the file
+const METADATA_MAX_SIZE = 128 * 1024;
+
+const DATA_SECTION_SEPARATOR = 16;
+
+export type MmdbValue =
+  | string
+  | number
+  | bigint
+  | boolean
+  | Buffer
+  | null
+  | MmdbValue[]
+  | { [key: string]: MmdbValue };
+
+interface MmdbMetadata {
+  node_count: number;
+  record_size: number;
+  ip_version: number;
+  database_type: string;
+  build_epoch: number;
+}
+
+export class MmdbReader {
+  readonly metadata: MmdbMetadata;
+  private readonly buffer: Buffer;
+  private readonly nodeCount: number;
+  private readonly recordSize: number;
+  private readonly nodeBytes: number;
+  private readonly dataSectionStart: number;
+  private readonly ipv4Start: number;
+
+  constructor(buffer: Buffer) {
+    this.buffer = buffer;
+
+    const searchFrom = Math.max(0, buffer.length - METADATA_MAX_SIZE);
+    const marker = buffer.lastIndexOf(METADATA_MARKER);
+    if (marker < searchFrom) {
+      throw new Error('Not a MaxMind DB file: metadata marker not found');
+    }
+
+    const metadataStart = marker + METADATA_MARKER.length;
+    const metadata = this.decode(metadataStart, metadataStart).value as unknown as MmdbMetadata;
+    if (![24, 28, 32].includes(metadata.record_size)) {
+      throw new Error(`Unsupported MaxMind DB record size: ${metadata.record_size}`);
+    }
+
+    this.metadata = metadata;
+    this.nodeCount = metadata.node_count;
+    this.recordSize = metadata.record_size;
+    this.nodeBytes = (metadata.record_size * 2) / 8;
+    this.dataSectionStart = this.nodeCount * this.nodeBytes + DATA_SECTION_SEPARATOR;
+
+    // IPv4 addresses live under ::/96 in an IPv6 tree
+    let node = 0;
+    if (metadata.ip_version === 6) {
+      for (let i = 0; i < 96 && node < this.nodeCount; i++) {
+        node = this.readRecord(node, 0);
+      }
+    }
+    this.ipv4Start = node;
+  }
+
+  /**
+   * The record for an address given as its 4 or 16 bytes, or null if the
+   * database has none
+   */
+  lookup(address: Uint8Array): MmdbValue | null {
+    if (address.length === 16 && this.metadata.ip_version === 4) {
+      return null;
+    }
+
+    const bitCount = address.length * 8;
+    let node = address.length === 4 ? this.ipv4Start : 0;
+
+    for (let i = 0; i < bitCount && node < this.nodeCount; i++) {
+      const bit = (address[i >> 3] >> (7 - (i & 7))) & 1;
+      node = this.readRecord(node, bit);
+    }
+
+    if (node <= this.nodeCount) {
+      return null;
+    }
+
+    const offset = this.dataSectionStart + (node - this.nodeCount - DATA_SECTION_SEPARATOR);
+    return this.decode(offset, this.dataSectionStart).value;
+  }
+
+  private readRecord(node: number, bit: number): number {
+    const b = this.buffer;
+    const offset = node * this.nodeBytes;
+
+    switch (this.recordSize) {
+      case 24:
+        return b.readUIntBE(offset + bit * 3, 3);
+      case 28:
+        return bit === 0
+          ? ((b[offset + 3] & 0xf0) << 20) + b.readUIntBE(offset, 3)
+          : ((b[offset + 3] & 0x0f) << 24) + b.readUIntBE(offset + 4, 3);
+      default:
+        return b.readUInt32BE(offset + bit * 4);
+    }
+  }
+
+  /**
+   * Decode the value at offset. Pointers are relative to pointerBase, the
+   * start of the data section (or of the metadata while reading it).
+   */
+  private decode(offset: number, pointerBase: number): { value: MmdbValue; next: number } {
+    const b = this.buffer;
+    const control = b[offset++];
+    let type = control >> 5;
+
+    if (type === 1) {
+      const sizeBits = (control >> 3) & 0x3;
+      const low = control & 0x7;
+      let pointer: number;
+      switch (sizeBits) {
+        case 0:
+          pointer = (low << 8) | b[offset];
+          break;
+        case 1:
+          pointer = ((low << 16) | b.readUInt16BE(offset)) + 2048;
+          break;
+        case 2:
+          pointer = low * 0x1000000 + b.readUIntBE(offset, 3) + 526336;
+          break;
+        default:
+          pointer = b.readUInt32BE(offset);
+      }
+      const { value } = this.decode(pointerBase + pointer, pointerBase);
+      return { value, next: offset + sizeBits + 1 };
+    }
+
+    if (type === 0) {
+      type = 7 + b[offset++];
+    }
+
+    let size = control & 0x1f;
+    if (size === 29) {
+      size = 29 + b[offset++];
+    } else if (size === 30) {
+      size = 285 + b.readUInt16BE(offset);
+      offset += 2;
+    } else if (size === 31) {
+      size = 65821 + b.readUIntBE(offset, 3);
+      offset += 3;
+    }
+
+    switch (type) {
+      case 2:
+        return { value: b.toString('utf8', offset, offset + size), next: offset + size };
+      case 3:
+        return { value: b.readDoubleBE(offset), next: offset + 8 };
+      case 4:
+        return { value: b.subarray(offset, offset + size), next: offset + size };
+      case 5:
+      case 6:
+        return { value: size === 0 ? 0 : b.readUIntBE(offset, size), next: offset + size };
+      case 7: {
+        const map: { [key: string]: MmdbValue } = {};
+        for (let i = 0; i < size; i++) {
+          const key = this.decode(offset, pointerBase);
+          const value = this.decode(key.next, pointerBase);
+          map[String(key.value)] = value.value;
+          offset = value.next;
+        }
+        return { value: map, next: offset };
+      }
+      case 8: {
+        // Stored in as few bytes as needed, so sign-extend from 32 bits
+        const value = size === 0 ? 0 : b.readUIntBE(offset, size) | 0;
+        return { value, next: offset + size };
+      }
+      case 9:
+      case 10: {
+        let value = BigInt(0);
+        for (let i = 0; i < size; i++) {
+          value = (value << BigInt(8)) | BigInt(b[offset + i]);
+        }
+        // Small enough values (e.g. build_epoch) are more useful as numbers
+        return { value: value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value, next: offset + size };
+      }
+      case 11: {
+        const array: MmdbValue[] = [];
+        for (let i = 0; i < size; i++) {
+          const item = this.decode(offset, pointerBase);
+          array.push(item.value);
+          offset = item.next;
+        }
+        return { value: array, next: offset };
+      }
+      case 14:
+        return { value: size !== 0, next: offset };
+      case 15:
+        return { value: b.readFloatBE(offset), next: offset + 4 };
+      default:
+        throw new Error(`Invalid MaxMind DB data type ${type} at offset ${offset - 1}`);
+    }
+  }
+}
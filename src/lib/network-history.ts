@@ -0,0 +1,211 @@
+import { supabase } from '@/lib/supabase';
+import type { GeoIPResult } from '@/lib/geoip';
+
+// A check-in extends the previous check-in's interval if it came from the same
+// IP within this long. Devices check in about once a minute, so this rides out
+// a few missed check-ins without merging a later return to the same IP. Any
+// change of IP opens a new interval, so intervals are runs of consecutive
+// check-ins from one IP.
+const CONTINUITY_MS = 10 * 60 * 1000;
+
+// Intervals read back on each check-in, enough to cover any alert window
+const RECENT_INTERVALS = 20;
+
+export interface NetworkInterval {
+  id: string;
+  device_id: string;
+  public_ip: string;
+  asn: number | null;
+  isp: string | null;
+  city: string | null;
+  country: string | null;
+  country_code: string | null;
+  first_seen: string;
+  last_seen: string;
+  checkins: number;
+}
+
+export interface Relocation {
+  from: NetworkInterval;
+  to: NetworkInterval;
+  // Between the last check-in from the old country and the first from the new one
+  hours: number;
+}
+
+function countryOf(interval: NetworkInterval): string | null {
+  return interval.country_code || interval.country;
+}
+
+function time(at: string): number {
+  return new Date(at).getTime();
+}
+
+/**
+ * Intervals where two IPs took turns checking in, each checking in between
+ * two check-ins from the other without a long gap. As intervals are runs,
+ * that is four or more runs alternating between the pair. A device that fails
+ * over to another IP and back only gets to three.
+ */
+function interleavedIntervals(intervals: NetworkInterval[]): Set<NetworkInterval> {
+  const runs = [...intervals].sort((a, b) => time(a.first_seen) - time(b.first_seen));
+  const ips = Array.from(new Set(runs.map((r) => r.public_ip)));
+  const interleaved = new Set<NetworkInterval>();
+
+  for (const [index, a] of ips.entries()) {
+    for (const b of ips.slice(index + 1)) {
+      // Alternating turns between the pair; a turn is one or more runs in a
+      // row from the same IP. A long gap before a switch starts a new streak.
+      let turns: NetworkInterval[][] = [];
+      const flush = () => {
+        if (turns.length >= 4) turns.flat().forEach((r) => interleaved.add(r));
+        turns = [];
+      };
+
+      for (const run of runs.filter((r) => r.public_ip === a || r.public_ip === b)) {
+        const turn = turns[turns.length - 1];
+        const previous = turn?.[turn.length - 1];
+        if (previous?.public_ip === run.public_ip) {
+          turn.push(run);
+          continue;
+        }
+        if (previous && time(run.first_seen) - time(previous.last_seen) > CONTINUITY_MS) {
+          flush();
+        }
+        turns.push([run]);
+      }
+      flush();
+    }
+  }
+
+  return interleaved;
+}
+
+/**
+ * Transform intervals (newest first) to frontend format, flagging country
+ * changes from the interval before and IPs taking turns with another IP
+ */
+export function toNetworkHistoryResponse(intervals: NetworkInterval[]) {
+  const interleaved = interleavedIntervals(intervals);
+
+  return intervals.map((i, index) => {
+    const previous = intervals.slice(index + 1).find((p) => countryOf(p) !== null);
+    return {
+      id: i.id,
+      publicIp: i.public_ip,
+      asn: i.asn,
+      isp: i.isp,
+      city: i.city,
+      country: i.country,
+      countryCode: i.country_code,
+      firstSeen: i.first_seen,
+      lastSeen: i.last_seen,
+      checkins: i.checkins,
+      countryChanged: !!previous && countryOf(i) !== null && countryOf(previous) !== countryOf(i),
+      concurrent: interleaved.has(i),
+    };
+  });
+}
+
+/**
+ * Record a check-in from a public IP. Returns the device's most recent
+ * intervals, newest first, with this check-in's interval first.
+ */
+export async function recordNetworkCheckin(
+  deviceId: string,
+  publicIp: string,
+  geo: GeoIPResult | null,
+  now: string
+): Promise<NetworkInterval[]> {
+  const { data, error } = await supabase
+    .from('device_network_history')
+    .select('*')
+    .eq('device_id', deviceId)
+    .order('last_seen', { ascending: false })
+    .limit(RECENT_INTERVALS);
+
+  if (error) {
+    console.error('Network history fetch error:', error);
+    return [];
+  }
+
+  const recent = (data || []) as NetworkInterval[];
+  const cutoff = new Date(new Date(now).getTime() - CONTINUITY_MS);
+  const latest = recent[0];
+  const current = latest?.public_ip === publicIp && new Date(latest.last_seen) >= cutoff ? latest : undefined;
+
+  const location = {
+    asn: geo?.asn ?? null,
+    isp: geo?.isp ?? null,
+    city: geo?.city ?? null,
+    country: geo?.country ?? null,
+    country_code: geo?.countryCode ?? null,
+  };
+
+  const { data: saved, error: saveError } = current
+    ? await supabase
+        .from('device_network_history')
+        .update({ ...location, last_seen: now, checkins: current.checkins + 1 })
+        .eq('id', current.id)
+        .select()
+        .single()
+    : await supabase
+        .from('device_network_history')
+        .insert({ device_id: deviceId, public_ip: publicIp, ...location, first_seen: now, last_seen: now })
+        .select()
+        .single();
+
+  if (saveError) {
+    console.error('Network history save error:', saveError);
+    return recent;
+  }
+
+  return [saved as NetworkInterval, ...recent.filter((i) => i.id !== saved.id)];
+}
+
+/**
+ * The country change that led to the current interval, if the device was
+ * last seen in another country within the given number of hours
+ */
+export function detectRelocation(intervals: NetworkInterval[], withinHours: number): Relocation | null {
+  const [current, ...earlier] = intervals;
+  if (!current || !countryOf(current)) return null;
+
+  const previous = earlier.find((i) => countryOf(i) !== null && i.id !== current.id);
+  if (!previous || countryOf(previous) === countryOf(current)) return null;
+
+  const hours = (new Date(current.first_seen).getTime() - new Date(previous.last_seen).getTime()) / (60 * 60 * 1000);
+  if (hours > withinHours) return null;
+
+  return { from: previous, to: current, hours: Math.max(0, hours) };
+}
+
+/**
+ * Public IPs that took turns checking in within the last given minutes, or an
+ * empty list. Two devices sharing one ID check in alternately from their own
+ * IPs, each one's check-ins falling between the other's.
+ */
+export function findInterleavedIPs(intervals: NetworkInterval[], withinMinutes: number, now: string): string[] {
+  const since = new Date(new Date(now).getTime() - withinMinutes * 60 * 1000);
+  const active = intervals.filter((i) => new Date(i.last_seen) >= since);
+
+  return Array.from(new Set(Array.from(interleavedIntervals(active), (i) => i.public_ip)));
+}
+
+/**
+ * A device's network history, newest first. Returns null on a database error.
+ */
+export async function getNetworkHistory(deviceId: string, limit: number): Promise<NetworkInterval[] | null> {
+  const { data, error } = await supabase
+    .from('device_network_history')
+    .select('*')
+    .eq('device_id', deviceId)
+    .order('last_seen', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Network history fetch error:', error);
+    return null;
+  }
+
+  return (data || []) as NetworkInterval[];
+}
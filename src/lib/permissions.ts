@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { JWTPayload } from '@/lib/auth';
+import { supabase } from '@/lib/supabase';
+import { identifyCaller, rejectCaller } from '@/lib/api-auth';
+
+export const ADMIN_ROLES = ['owner', 'operator', 'support', 'billing'] as const;
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export type Permission =
+  | 'devices:read'
+  | 'devices:write'       // Rename, delete, rotate/revoke credentials
+  | 'commands:read'
+  | 'commands:send'       // Any command except exec
+  | 'commands:exec'       // Arbitrary shell scripts on customer hardware
+  | 'firmware:manage'     // Create and control rollout campaigns
+  | 'alerts:manage'       // Alert rules and acknowledging alerts
+  | 'users:read'
+  | 'users:write'         // Customer name and subscription changes
+  | 'admins:manage'       // Create admin accounts and change roles
+  | 'webhooks:manage'     // Outbound webhook endpoints and their delivery log
+  | 'audit:read';         // View the audit log
+
+const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  owner: [
+    'devices:read', 'devices:write', 'commands:read', 'commands:send', 'commands:exec',
+    'firmware:manage', 'alerts:manage', 'users:read', 'users:write', 'admins:manage',
+    'webhooks:manage', 'audit:read',
+  ],
+  operator: [
+    'devices:read', 'devices:write', 'commands:read', 'commands:send', 'commands:exec',
+    'firmware:manage', 'alerts:manage', 'users:read',
+  ],
+  support: ['devices:read', 'commands:read', 'users:read'],
+  billing: ['devices:read', 'users:read', 'users:write'],
+};
+
+export function isAdminRole(role: unknown): role is AdminRole {
+  return typeof role === 'string' && (ADMIN_ROLES as readonly string[]).includes(role);
+}
+
+/**
+ * Check whether a role grants a permission
+ */
+export function hasPermission(role: AdminRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+type GuardResult =
+  | { admin: JWTPayload & { role: AdminRole }; error?: undefined }
+  | { admin?: undefined; error: NextResponse };
+
+/**
+ * Shared guard for admin API routes. Only an admin session cookie is accepted
+ * (customer tokens and device keys get 403), and the admin's role must grant
+ * the permission. The role is read from the database on every call rather
+ * than trusted from the token, so a role change or a deleted account takes
+ * effect immediately instead of when the session expires.
+ *
+ * const { admin, error } = await requirePermission(request, 'devices:write');
+ * if (error) return error;
+ */
+export async function requirePermission(
+  request: NextRequest,
+  permission: Permission
+): Promise<GuardResult> {
+  const caller = await identifyCaller(request);
+  if (caller.kind !== 'admin') {
+    return { error: rejectCaller(caller, 'admin') };
+  }
+
+  const { payload } = caller;
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('role')
+    .eq('id', payload.userId)
+    .single();
+
+  if (!user) {
+    console.log(`[Auth] Rejected session of removed admin ${payload.username || payload.email}`);
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const role = user.role;
+  if (!isAdminRole(role)) {
+    return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+  }
+
+  if (!hasPermission(role, permission)) {
+    console.log(`[Auth] ${payload.username || payload.email} (${role}) denied ${permission}`);
+    return {
+      error: NextResponse.json(
+        { error: `Forbidden: the ${role} role cannot perform this action` },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { admin: { ...payload, role } };
+}
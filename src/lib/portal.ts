@@ -0,0 +1,83 @@
+import { supabase } from '@/lib/supabase';
+
+// Device columns a customer may see. Credentials, owner linkage and internal
+// rollout state stay admin-only.
+const PORTAL_DEVICE_COLUMNS =
+  'device_id, name, mode, firmware, uptime, status, created_at, last_seen, ' +
+  'blocked_inbound, blocked_outbound, wifi_ssid, wifi_signal, public_city, public_country';
+
+export interface PortalDeviceRow {
+  device_id: string;
+  name: string | null;
+  mode: string;
+  firmware: string;
+  uptime: number;
+  status: string;
+  created_at: string;
+  last_seen: string;
+  blocked_inbound: number;
+  blocked_outbound: number;
+  wifi_ssid: string | null;
+  wifi_signal: number | null;
+  public_city: string | null;
+  public_country: string | null;
+}
+
+/**
+ * List the devices owned by a customer
+ */
+export async function listOwnedDevices(customerUserId: string) {
+  return supabase
+    .from('devices')
+    .select(PORTAL_DEVICE_COLUMNS)
+    .eq('customer_user_id', customerUserId)
+    .order('last_seen', { ascending: false })
+    .returns<PortalDeviceRow[]>();
+}
+
+/**
+ * Fetch a device only if the customer owns it. Devices owned by someone else
+ * are indistinguishable from devices that don't exist.
+ */
+export async function getOwnedDevice(
+  customerUserId: string,
+  deviceId: string
+): Promise<PortalDeviceRow | null> {
+  const { data, error } = await supabase
+    .from('devices')
+    .select(PORTAL_DEVICE_COLUMNS)
+    .eq('device_id', deviceId)
+    .eq('customer_user_id', customerUserId)
+    .maybeSingle<PortalDeviceRow>();
+
+  if (error) {
+    console.error('Owned device lookup error:', error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Transform a device row to the portal's response format
+ */
+export function toPortalDevice(d: PortalDeviceRow) {
+  return {
+    id: d.device_id,
+    name: d.name,
+    mode: d.mode,
+    firmware: d.firmware,
+    uptime: d.uptime,
+    status: d.status,
+    firstSeen: d.created_at,
+    lastSeen: d.last_seen,
+    blockedInbound: d.blocked_inbound,
+    blockedOutbound: d.blocked_outbound,
+    blockedCount: d.blocked_inbound + d.blocked_outbound,
+    wifiSsid: d.wifi_ssid,
+    wifiSignal: d.wifi_signal,
+    location: d.public_country
+      ? { city: d.public_city, country: d.public_country }
+      : null,
+  };
+}
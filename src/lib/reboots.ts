@@ -0,0 +1,199 @@
+import { supabase } from '@/lib/supabase';
+
+// Commands that are expected to restart the device
+const REBOOT_COMMANDS = ['reboot', 'update_firmware'];
+
+// Boot times estimated at two check-ins differ by however long each check-in
+// took to arrive, so a later boot time only counts as a reboot past this
+const BOOT_TIME_TOLERANCE_MS = 60 * 1000;
+
+// A reboot is put down to a command handed out at most this long before it
+const COMMAND_REBOOT_WINDOW_MS = 30 * 60 * 1000;
+
+// This many unexpected reboots within the window is a crash loop
+export const CRASH_LOOP_REBOOTS = 3;
+export const CRASH_LOOP_WINDOW_MINUTES = 15;
+
+export interface DeviceReboot {
+  id: string;
+  device_id: string;
+  rebooted_at: string;
+  detected_at: string;
+  previous_uptime: number | null;
+  uptime: number;
+  kind: 'commanded' | 'unexpected';
+  command_id: string | null;
+}
+
+export interface DetectedReboot {
+  rebootedAt: Date;
+  // Boot time before the reboot
+  previousBootAt: Date;
+  previousUptime: number;
+}
+
+function bootTime(at: string | Date, uptimeSeconds: number): Date {
+  return new Date(new Date(at).getTime() - uptimeSeconds * 1000);
+}
+
+/**
+ * Transform a reboot to frontend format
+ */
+export function toRebootResponse(reboot: DeviceReboot) {
+  return {
+    id: reboot.id,
+    rebootedAt: reboot.rebooted_at,
+    detectedAt: reboot.detected_at,
+    previousUptime: reboot.previous_uptime,
+    uptime: reboot.uptime,
+    kind: reboot.kind,
+    commandId: reboot.command_id,
+  };
+}
+
+/**
+ * Whether the device rebooted since its previous check-in, judged by the boot
+ * time each check-in's uptime implies. This also catches reboots while the
+ * device was offline, when its uptime may have grown past the previous one.
+ */
+export function detectReboot(
+  previous: { uptime: number | null; last_seen: string | null },
+  uptime: number,
+  now: string
+): DetectedReboot | null {
+  if (!previous.last_seen || !previous.uptime) return null;
+
+  const previousBootAt = bootTime(previous.last_seen, previous.uptime);
+  const rebootedAt = bootTime(now, uptime);
+  if (rebootedAt.getTime() - previousBootAt.getTime() <= BOOT_TIME_TOLERANCE_MS) return null;
+
+  return { rebootedAt, previousBootAt, previousUptime: previous.uptime };
+}
+
+/**
+ * The reboot or firmware update command, direct or broadcast, that was handed
+ * to the device while it was running its previous boot and shortly before it
+ * rebooted, if any
+ */
+async function findRebootCommand(deviceId: string, reboot: DetectedReboot): Promise<string | null> {
+  const from = new Date(Math.max(
+    reboot.previousBootAt.getTime(),
+    reboot.rebootedAt.getTime() - COMMAND_REBOOT_WINDOW_MS
+  )).toISOString();
+  const to = new Date(reboot.rebootedAt.getTime() + BOOT_TIME_TOLERANCE_MS).toISOString();
+
+  const [directResult, broadcastResult] = await Promise.all([
+    supabase
+      .from('device_commands')
+      .select('id, sent_at')
+      .eq('device_id', deviceId)
+      .in('command_type', REBOOT_COMMANDS)
+      .gte('sent_at', from)
+      .lte('sent_at', to),
+    supabase
+      .from('command_deliveries')
+      .select('command_id, sent_at, device_commands(command_type)')
+      .eq('device_id', deviceId)
+      .gte('sent_at', from)
+      .lte('sent_at', to),
+  ]);
+
+  if (directResult.error || broadcastResult.error) {
+    console.error('Reboot command fetch error:', directResult.error || broadcastResult.error);
+  }
+
+  const candidates = [
+    ...(directResult.data || []).map((c) => ({ id: c.id as string, sentAt: c.sent_at as string })),
+    ...(broadcastResult.data || [])
+      .filter((d) => REBOOT_COMMANDS.includes((d.device_commands as unknown as { command_type: string } | null)?.command_type || ''))
+      .map((d) => ({ id: d.command_id as string, sentAt: d.sent_at as string })),
+  ];
+
+  // The latest one is what the device acted on
+  candidates.sort((a, b) => new Date(b.sentAt).getTime() - new Date(a.sentAt).getTime());
+  return candidates[0]?.id ?? null;
+}
+
+/**
+ * Record a detected reboot as commanded or unexpected. Returns null on a
+ * database error.
+ */
+export async function recordReboot(
+  deviceId: string,
+  reboot: DetectedReboot,
+  uptime: number,
+  now: string
+): Promise<DeviceReboot | null> {
+  const commandId = await findRebootCommand(deviceId, reboot);
+
+  const { data, error } = await supabase
+    .from('device_reboots')
+    .insert({
+      device_id: deviceId,
+      rebooted_at: reboot.rebootedAt.toISOString(),
+      detected_at: now,
+      previous_uptime: reboot.previousUptime,
+      uptime,
+      kind: commandId ? 'commanded' : 'unexpected',
+      command_id: commandId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Reboot insert error:', error);
+    return null;
+  }
+
+  return data as DeviceReboot;
+}
+
+/**
+ * Unexpected reboots within the crash loop window. Returns null on a
+ * database error.
+ */
+export async function countRecentCrashes(deviceId: string, now: string): Promise<number | null> {
+  const since = new Date(new Date(now).getTime() - CRASH_LOOP_WINDOW_MINUTES * 60 * 1000).toISOString();
+
+  const { count, error } = await supabase
+    .from('device_reboots')
+    .select('*', { count: 'exact', head: true })
+    .eq('device_id', deviceId)
+    .eq('kind', 'unexpected')
+    .gte('rebooted_at', since);
+
+  if (error) {
+    console.error('Crash count error:', error);
+    return null;
+  }
+
+  return count || 0;
+}
+
+/**
+ * A device's reboots, newest first, optionally within a window. Returns null
+ * on a database error.
+ */
+export async function getReboots(
+  deviceId: string,
+  options: { from?: string; to?: string; limit: number }
+): Promise<DeviceReboot[] | null> {
+  let query = supabase
+    .from('device_reboots')
+    .select('*')
+    .eq('device_id', deviceId)
+    .order('rebooted_at', { ascending: false })
+    .limit(options.limit);
+
+  if (options.from) query = query.gte('rebooted_at', options.from);
+  if (options.to) query = query.lte('rebooted_at', options.to);
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Reboots fetch error:', error);
+    return null;
+  }
+
+  return (data || []) as DeviceReboot[];
+}
@@ -0,0 +1,195 @@
+import { supabase } from '@/lib/supabase';
+import { emitWebhookEvent } from '@/lib/webhooks';
+import { nextCronRun, parseCron } from '@/lib/cron';
+import { defaultTimeoutSeconds, requiresApproval } from '@/lib/commands';
+import type { CommandType } from '@/lib/command-schema';
+
+export interface CommandSchedule {
+  id: string;
+  name: string;
+  device_id: string | null;
+  command_type: CommandType;
+  payload: Record<string, unknown>;
+  cron: string | null;
+  not_before: string | null;
+  ttl_seconds: number | null;
+  enabled: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_command_id: string | null;
+  created_by: string | null;
+  updated_by: string | null;
+  created_at: string;
+}
+
+// Schedules materialized per sweep
+const MAX_SCHEDULES_PER_SWEEP = 50;
+
+/**
+ * Transform a schedule row to frontend format
+ */
+export function toScheduleResponse(s: CommandSchedule) {
+  return {
+    id: s.id,
+    name: s.name,
+    deviceId: s.device_id,
+    type: s.command_type,
+    payload: s.payload,
+    cron: s.cron,
+    notBefore: s.not_before,
+    ttlSeconds: s.ttl_seconds,
+    enabled: s.enabled,
+    nextRunAt: s.next_run_at,
+    lastRunAt: s.last_run_at,
+    lastCommandId: s.last_command_id,
+    createdAt: s.created_at,
+  };
+}
+
+/**
+ * Check the timing fields of a schedule. Returns an error message or null.
+ */
+export function validateScheduleTiming(timing: {
+  cron?: unknown;
+  notBefore?: unknown;
+  ttlSeconds?: unknown;
+}): string | null {
+  if (timing.cron !== undefined && timing.cron !== null) {
+    if (typeof timing.cron !== 'string' || !parseCron(timing.cron)) {
+      return 'cron must be a 5-field cron expression (minute hour day month weekday, UTC)';
+    }
+    if (!nextCronRun(parseCron(timing.cron)!, new Date())) {
+      return 'cron expression never matches';
+    }
+  }
+
+  if (timing.notBefore !== undefined && timing.notBefore !== null) {
+    if (typeof timing.notBefore !== 'string' || isNaN(new Date(timing.notBefore).getTime())) {
+      return 'notBefore must be an ISO 8601 timestamp';
+    }
+  }
+
+  if (!timing.cron && !timing.notBefore) {
+    return 'A schedule needs a cron expression, a notBefore time, or both';
+  }
+
+  if (timing.ttlSeconds !== undefined && timing.ttlSeconds !== null) {
+    if (!Number.isInteger(timing.ttlSeconds) || (timing.ttlSeconds as number) <= 0) {
+      return 'ttlSeconds must be a positive integer';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * When a schedule should next queue its command, counting from `from`.
+ * One-offs run at not_before; cron schedules at the first match on or after
+ * not_before. Returns null if it should not run again.
+ */
+export function computeNextRun(
+  schedule: Pick<CommandSchedule, 'cron' | 'not_before'>,
+  from: Date
+): Date | null {
+  const notBefore = schedule.not_before ? new Date(schedule.not_before) : null;
+
+  if (!schedule.cron) {
+    return notBefore;
+  }
+
+  const cron = parseCron(schedule.cron);
+  if (!cron) return null;
+
+  // nextCronRun is exclusive, so step back a moment to allow a match exactly at not_before
+  const start = notBefore && notBefore > from ? new Date(notBefore.getTime() - 1) : from;
+  return nextCronRun(cron, start);
+}
+
+/**
+ * Periodic sweep: queue commands for schedules that have come due. Missed
+ * runs are not replayed - a schedule queues at most one command per sweep.
+ */
+export async function runDueSchedules(): Promise<void> {
+  const now = new Date();
+
+  const { data: due, error } = await supabase
+    .from('command_schedules')
+    .select('*')
+    .eq('enabled', true)
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(MAX_SCHEDULES_PER_SWEEP);
+
+  if (error) {
+    console.error('Schedules fetch error:', error);
+    return;
+  }
+
+  for (const schedule of (due || []) as CommandSchedule[]) {
+    const nextRun = schedule.cron ? computeNextRun(schedule, now) : null;
+
+    // Claim the run so overlapping sweeps don't queue it twice
+    const { data: claimed } = await supabase
+      .from('command_schedules')
+      .update({
+        next_run_at: nextRun?.toISOString() ?? null,
+        last_run_at: now.toISOString(),
+        enabled: nextRun !== null,
+      })
+      .eq('id', schedule.id)
+      .eq('next_run_at', schedule.next_run_at)
+      .select('id');
+
+    if (!claimed || claimed.length === 0) continue;
+
+    // Recurring commands that never got delivered make way for the next run
+    const expiresAt = schedule.ttl_seconds
+      ? new Date(now.getTime() + schedule.ttl_seconds * 1000)
+      : nextRun;
+
+    // Each run is approved on its own, as if whoever last edited the schedule
+    // had sent it, so that admin can't also approve it
+    const needsApproval = requiresApproval(schedule.command_type, schedule.device_id === null);
+
+    const { data: command, error: insertError } = await supabase
+      .from('device_commands')
+      .insert({
+        device_id: schedule.device_id,
+        command_type: schedule.command_type,
+        payload: schedule.payload,
+        status: needsApproval ? 'pending_approval' : 'pending',
+        expires_at: expiresAt?.toISOString() ?? null,
+        timeout_seconds: defaultTimeoutSeconds(schedule.command_type),
+        schedule_id: schedule.id,
+        requested_by: schedule.updated_by ?? schedule.created_by,
+      })
+      .select('id')
+      .single();
+
+    if (insertError || !command) {
+      console.error('Scheduled command insert error:', insertError);
+      continue;
+    }
+
+    await supabase
+      .from('command_schedules')
+      .update({ last_command_id: command.id })
+      .eq('id', schedule.id);
+
+    const targetDesc = schedule.device_id ? `device ${schedule.device_id}` : 'all devices';
+    if (needsApproval) {
+      console.log(`[Schedule] ${schedule.name} created ${schedule.command_type} for ${targetDesc}, awaiting approval`);
+      continue;
+    }
+
+    console.log(`[Schedule] ${schedule.name} queued ${schedule.command_type} for ${targetDesc}`);
+
+    await emitWebhookEvent('command.queued', {
+      commandId: command.id,
+      deviceId: schedule.device_id,
+      type: schedule.command_type,
+      broadcast: schedule.device_id === null,
+      scheduleId: schedule.id,
+    });
+  }
+}
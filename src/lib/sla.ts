@@ -0,0 +1,342 @@
+import { supabase } from '@/lib/supabase';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Status history is kept indefinitely, but a report covers at most a year
+const MAX_WINDOW_MS = 366 * DAY_MS;
+
+export interface SlaWindow {
+  from: Date;
+  to: Date;
+  // Only report on devices owned by this customer
+  customerId: string | null;
+}
+
+export interface Availability {
+  observedSeconds: number;
+  downtimeSeconds: number;
+  warningSeconds: number;
+  incidents: number;
+  // Share of observed time the device wasn't offline, null if it was never observed
+  availability: number | null;
+}
+
+export interface DeviceAvailability extends Availability {
+  deviceId: string;
+  name: string | null;
+  customerId: string | null;
+  customerEmail: string | null;
+}
+
+export interface CustomerAvailability extends Availability {
+  customerId: string | null;
+  email: string | null;
+  name: string | null;
+  devices: number;
+}
+
+export interface DowntimeIncident {
+  deviceId: string;
+  name: string | null;
+  customerEmail: string | null;
+  startedAt: string;
+  // Null while the device is still offline
+  endedAt: string | null;
+  // Downtime within the report window
+  durationSeconds: number;
+  cause: string;
+  resolvedBy: string | null;
+}
+
+export interface SlaReport {
+  from: string;
+  to: string;
+  summary: Availability & { devices: number };
+  customers: CustomerAvailability[];
+  devices: DeviceAvailability[];
+  incidents: DowntimeIncident[];
+}
+
+export interface StatusChange {
+  id: string;
+  fromStatus: string | null;
+  toStatus: 'online' | 'offline' | 'warning';
+  cause: string;
+  changedAt: string;
+}
+
+interface DeviceOwnerRow {
+  device_id: string;
+  name: string | null;
+  customer_users: { id: string; email: string; name: string | null } | null;
+}
+
+interface StatusHistoryRow {
+  id: string;
+  from_status: string | null;
+  to_status: StatusChange['toStatus'];
+  cause: string;
+  changed_at: string;
+}
+
+interface DeviceOwner {
+  name: string | null;
+  customerId: string | null;
+  customerEmail: string | null;
+  customerName: string | null;
+}
+
+/**
+ * Read the from/to window and customer of an SLA request (default the last 30 days)
+ */
+export function parseSlaWindow(searchParams: URLSearchParams): SlaWindow | { error: string } {
+  const fromParam = searchParams.get('from');
+  const toParam = searchParams.get('to');
+
+  const to = toParam ? new Date(toParam) : new Date();
+  const from = fromParam ? new Date(fromParam) : new Date(to.getTime() - 30 * DAY_MS);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    return { error: 'from and to must be ISO timestamps' };
+  }
+
+  if (from >= to) {
+    return { error: 'from must be before to' };
+  }
+
+  if (to.getTime() - from.getTime() > MAX_WINDOW_MS) {
+    return { error: 'Window can be at most 366 days' };
+  }
+
+  return { from, to, customerId: searchParams.get('customer') || null };
+}
+
+function toAvailability(observed: number, downtime: number, warning: number, incidents: number): Availability {
+  return {
+    observedSeconds: observed,
+    downtimeSeconds: downtime,
+    warningSeconds: warning,
+    incidents,
+    availability: observed > 0 ? (observed - downtime) / observed : null,
+  };
+}
+
+function sumAvailability(rows: Availability[]): Availability {
+  return toAvailability(
+    rows.reduce((sum, r) => sum + r.observedSeconds, 0),
+    rows.reduce((sum, r) => sum + r.downtimeSeconds, 0),
+    rows.reduce((sum, r) => sum + r.warningSeconds, 0),
+    rows.reduce((sum, r) => sum + r.incidents, 0)
+  );
+}
+
+/**
+ * Availability per device and per customer over a window, with every
+ * downtime incident in it. Devices are only counted from their first
+ * recorded status, so a device added mid-window isn't penalised for the time
+ * before. Returns null if any query fails.
+ */
+export async function getSlaReport(window: SlaWindow): Promise<SlaReport | null> {
+  const { from, to, customerId } = window;
+  const range = { p_from: from.toISOString(), p_to: to.toISOString() };
+
+  let devicesQuery = supabase
+    .from('devices')
+    .select(`
+      device_id, name,
+      customer_users:customer_user_id (
+        id,
+        email,
+        name
+      )
+    `);
+  if (customerId) devicesQuery = devicesQuery.eq('customer_user_id', customerId);
+
+  const [devicesResult, availabilityResult, incidentsResult] = await Promise.all([
+    devicesQuery.returns<DeviceOwnerRow[]>(),
+    supabase.rpc('device_availability', range),
+    supabase.rpc('device_downtime_incidents', range),
+  ]);
+
+  for (const result of [devicesResult, availabilityResult, incidentsResult]) {
+    if (result.error) {
+      console.error('SLA report query error:', result.error);
+      return null;
+    }
+  }
+
+  const owners = new Map<string, DeviceOwner>(
+    (devicesResult.data || []).map((d) => [d.device_id, {
+      name: d.name,
+      customerId: d.customer_users?.id ?? null,
+      customerEmail: d.customer_users?.email ?? null,
+      customerName: d.customer_users?.name ?? null,
+    }])
+  );
+
+  const devices: DeviceAvailability[] = ((availabilityResult.data || []) as {
+    device_id: string;
+    observed_seconds: number;
+    offline_seconds: number;
+    warning_seconds: number;
+    incidents: number;
+  }[])
+    .filter((row) => owners.has(row.device_id))
+    .map((row) => {
+      const owner = owners.get(row.device_id)!;
+      return {
+        deviceId: row.device_id,
+        name: owner.name,
+        customerId: owner.customerId,
+        customerEmail: owner.customerEmail,
+        ...toAvailability(Number(row.observed_seconds), Number(row.offline_seconds), Number(row.warning_seconds), row.incidents),
+      };
+    })
+    .sort((a, b) => (a.availability ?? 1) - (b.availability ?? 1) || a.deviceId.localeCompare(b.deviceId));
+
+  const byCustomer = new Map<string | null, DeviceAvailability[]>();
+  for (const device of devices) {
+    byCustomer.set(device.customerId, [...(byCustomer.get(device.customerId) || []), device]);
+  }
+
+  const customers: CustomerAvailability[] = Array.from(byCustomer, ([id, rows]) => {
+    const owner = owners.get(rows[0].deviceId)!;
+    return {
+      customerId: id,
+      email: owner.customerEmail,
+      name: owner.customerName,
+      devices: rows.length,
+      ...sumAvailability(rows),
+    };
+  }).sort((a, b) => (a.availability ?? 1) - (b.availability ?? 1) || (a.email || '').localeCompare(b.email || ''));
+
+  const windowEnd = Math.min(to.getTime(), Date.now());
+  const incidents: DowntimeIncident[] = ((incidentsResult.data || []) as {
+    device_id: string;
+    started_at: string;
+    ended_at: string | null;
+    cause: string;
+    resolved_by: string | null;
+  }[])
+    .filter((row) => owners.has(row.device_id))
+    .map((row) => {
+      const owner = owners.get(row.device_id)!;
+      const start = Math.max(new Date(row.started_at).getTime(), from.getTime());
+      const end = Math.min(row.ended_at ? new Date(row.ended_at).getTime() : Date.now(), windowEnd);
+      return {
+        deviceId: row.device_id,
+        name: owner.name,
+        customerEmail: owner.customerEmail,
+        startedAt: row.started_at,
+        endedAt: row.ended_at,
+        durationSeconds: Math.max(0, (end - start) / 1000),
+        cause: row.cause,
+        resolvedBy: row.resolved_by,
+      };
+    });
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    summary: { devices: devices.length, ...sumAvailability(devices) },
+    customers,
+    devices,
+    incidents,
+  };
+}
+
+function csvField(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: (string | number | null)[][]): string {
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Downtime incidents of a report as CSV, one row per incident
+ */
+export function incidentsToCsv(report: SlaReport): string {
+  return toCsv(
+    ['device_id', 'device_name', 'customer_email', 'started_at', 'ended_at', 'downtime_minutes', 'cause', 'resolved_by'],
+    report.incidents.map((i) => [
+      i.deviceId,
+      i.name,
+      i.customerEmail,
+      i.startedAt,
+      i.endedAt,
+      (i.durationSeconds / 60).toFixed(1),
+      i.cause,
+      i.resolvedBy,
+    ])
+  );
+}
+
+/**
+ * Per-device availability of a report as CSV
+ */
+export function devicesToCsv(report: SlaReport): string {
+  return toCsv(
+    ['device_id', 'device_name', 'customer_email', 'availability_percent', 'observed_hours', 'downtime_minutes', 'warning_minutes', 'incidents'],
+    report.devices.map((d) => [
+      d.deviceId,
+      d.name,
+      d.customerEmail,
+      d.availability === null ? null : (d.availability * 100).toFixed(3),
+      (d.observedSeconds / 3600).toFixed(2),
+      (d.downtimeSeconds / 60).toFixed(1),
+      (d.warningSeconds / 60).toFixed(1),
+      d.incidents,
+    ])
+  );
+}
+
+/**
+ * A device's status changes, newest first. Returns null on a database error.
+ */
+export async function getStatusHistory(deviceId: string, limit: number): Promise<StatusChange[] | null> {
+  const { data, error } = await supabase
+    .from('device_status_history')
+    .select('id, from_status, to_status, cause, changed_at')
+    .eq('device_id', deviceId)
+    .order('changed_at', { ascending: false })
+    .limit(limit)
+    .returns<StatusHistoryRow[]>();
+
+  if (error) {
+    console.error('Status history fetch error:', error);
+    return null;
+  }
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    cause: row.cause,
+    changedAt: row.changed_at,
+  }));
+}
+
+/**
+ * A device's availability over a window. Returns null on a database error.
+ */
+export async function getDeviceAvailability(deviceId: string, from: Date, to: Date): Promise<Availability | null> {
+  const { data, error } = await supabase.rpc('device_availability', {
+    p_from: from.toISOString(),
+    p_to: to.toISOString(),
+    p_device_id: deviceId,
+  });
+
+  if (error) {
+    console.error('Device availability fetch error:', error);
+    return null;
+  }
+
+  const [row] = (data || []) as { observed_seconds: number; offline_seconds: number; warning_seconds: number; incidents: number }[];
+
+  return row
+    ? toAvailability(Number(row.observed_seconds), Number(row.offline_seconds), Number(row.warning_seconds), row.incidents)
+    : toAvailability(0, 0, 0, 0);
+}
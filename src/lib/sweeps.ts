@@ -0,0 +1,53 @@
+import { supabase } from '@/lib/supabase';
+import { sweepCommandLifecycle } from '@/lib/commands';
+import { runDueSchedules } from '@/lib/schedules';
+import { sweepFirmwareCampaigns } from '@/lib/firmware-rollout';
+import { sweepAlerts } from '@/lib/alerts';
+import { deliverPendingWebhooks, emitWebhookEvent } from '@/lib/webhooks';
+import { sweepMetricsRollups } from '@/lib/metrics';
+import { recordFleetStatus } from '@/lib/analytics';
+
+/**
+ * Every periodic job, run by the cron route each minute. Each sweep claims
+ * its own work, so an overlapping run doesn't repeat anything.
+ */
+export async function runPeriodicSweeps(): Promise<void> {
+  // Devices mark_offline_devices is about to flip, for device.offline webhooks
+  const { data: goingOffline } = await supabase
+    .from('devices')
+    .select('device_id, name, last_seen')
+    .neq('status', 'offline')
+    .lt('last_seen', new Date(Date.now() - 3 * 60 * 1000).toISOString());
+
+  // Mark offline devices (no check-in for 5+ minutes)
+  await supabase.rpc('mark_offline_devices');
+
+  for (const d of goingOffline || []) {
+    await emitWebhookEvent('device.offline', {
+      deviceId: d.device_id,
+      name: d.name,
+      lastSeen: d.last_seen,
+    });
+  }
+
+  // Sample the online count for the analytics availability history
+  await recordFleetStatus();
+
+  // Queue commands for schedules that have come due
+  await runDueSchedules();
+
+  // Expire, retry and time out commands that never reported back
+  await sweepCommandLifecycle();
+
+  // Time out stalled firmware updates and auto-pause unhealthy rollouts
+  await sweepFirmwareCampaigns();
+
+  // Fire offline alerts for devices that stopped checking in
+  await sweepAlerts();
+
+  // Send queued webhook deliveries and retry ones whose backoff has elapsed
+  await deliverPendingWebhooks();
+
+  // Downsample finished metrics buckets and prune expired history
+  await sweepMetricsRollups();
+}
@@ -15,6 +15,7 @@ export interface Device {
   wifiSsid?: string            // Connected WiFi network
   wifiSignal?: number          // WiFi signal strength (dBm)
   status: "online" | "offline" | "warning"
+  tags?: string[]              // Lowercase labels, usable as command targets
   ownerEmail?: string | null   // Customer email (from customer_users)
   ownerId?: string | null      // Customer user ID
 }
@@ -40,6 +41,60 @@ export interface DeviceCheckin {
     cpuLoad: number
     tempCelsius: number
   }
+  commandResults?: CommandResultReport[]
+}
+
+// Payload of each command type, as handed to the device in the check-in
+// response. Checked by validateCommandPayload in src/lib/command-schema.ts.
+export interface CommandPayloads {
+  update_blocklist: { url: string }
+  exec: { script: string }
+  reboot: Record<string, never>
+  update_firmware: { url: string; sha256: string }
+  set_config: { key: string; value: string | number | boolean }  // key is a UCI option, e.g. network.lan.ipaddr
+  file_download: { url: string; path: string; mode?: string }      // mode is octal, e.g. "644"
+}
+
+export type CommandType = keyof CommandPayloads
+
+// A command in the check-in response
+export type DeviceCommand = {
+  [T in CommandType]: { id: string; command_type: T; payload: CommandPayloads[T] }
+}[CommandType]
+
+export interface CommandArtifact {
+  name: string
+  url?: string                 // Where the device uploaded it (http/https)
+  sizeBytes?: number
+  sha256?: string
+}
+
+// Structured output of a finished command
+export interface CommandOutput {
+  exitCode?: number
+  stdout?: string
+  stderr?: string
+  durationMs?: number
+  truncated?: boolean          // stdout/stderr were cut by the device or server
+  artifacts?: CommandArtifact[]
+}
+
+// A command result reported in a check-in
+export interface CommandResultReport extends CommandOutput {
+  id: string                   // Command ID
+  status: "acknowledged" | "completed" | "failed"
+  message?: string             // One-line summary
+}
+
+// A named placeholder in a command template's payload
+export interface TemplateParam {
+  name: string
+  label?: string
+  type: "string" | "integer" | "ip" | "url" | "enum"
+  required?: boolean  // Defaults to true
+  default?: string
+  options?: string[]  // enum only
+  pattern?: string    // string only, must match the whole value
 }
 
 export interface BlockEvent {
@@ -80,6 +135,9 @@ export interface DeviceDetail extends Device {
   recentEvents?: BlockEvent[]
 }
 
+// Blocklist source used by the dashboard's "Update Blocklist" actions
+export const DEFAULT_BLOCKLIST_URL = "https://raw.githubusercontent.com/herrbischoff/country-ip-blocks/master/ipv4/"
+
 export function isDeviceOnline(device: Device): boolean {
   const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000)
   return new Date(device.lastSeen) > fiveMinutesAgo
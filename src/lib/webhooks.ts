@@ -0,0 +1,294 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { lookup } from 'dns/promises';
+import { supabase } from '@/lib/supabase';
+import { isPrivateIP, parseIP } from '@/lib/geoip';
+
+export const WEBHOOK_EVENTS = [
+  'device.online',
+  'device.offline',
+  'device.registered',
+  'device.rebooted',
+  'device.crash_loop',
+  'command.queued',
+  'command.completed',
+  'command.failed',
+  'alert.fired',
+  'alert.resolved',
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export interface WebhookEndpoint {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  events: string[];
+  enabled: boolean;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event_type: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+}
+
+// Attempt 1 is made by the next sweep; retries wait 30s, 1m, 2m, 4m, 8m
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = 30 * 1000;
+const REQUEST_TIMEOUT_MS = 5000;
+
+// Deliveries attempted per sweep, so dead endpoints can't stall it
+const MAX_DELIVERIES_PER_SWEEP = 100;
+
+/**
+ * Generate a signing secret for a new endpoint
+ */
+export function generateWebhookSecret(): string {
+  return 'whsec_' + randomBytes(24).toString('hex');
+}
+
+/**
+ * Signature sent in X-ThreatZapper-Signature. Receivers recompute it over
+ * "<X-ThreatZapper-Timestamp>.<raw body>" with their copy of the secret.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Transform an endpoint row to frontend format. The secret is only ever
+ * returned when the endpoint is created.
+ */
+export function toWebhookResponse(w: WebhookEndpoint) {
+  return {
+    id: w.id,
+    name: w.name,
+    url: w.url,
+    events: w.events,
+    enabled: w.enabled,
+    createdAt: w.created_at,
+  };
+}
+
+/**
+ * Whether a host only resolves to public addresses. Private, loopback and
+ * link-local hosts (such as cloud metadata at 169.254.169.254) and hosts that
+ * don't resolve are refused, so an endpoint can't reach internal services.
+ */
+async function isPublicHost(hostname: string): Promise<boolean> {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) return false;
+  if (parseIP(host)) return !isPrivateIP(host);
+
+  try {
+    const addresses = await lookup(host, { all: true });
+    return addresses.length > 0 && addresses.every((a) => !isPrivateIP(a.address));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check endpoint fields from the API. Returns an error message or null.
+ */
+export async function validateWebhook(webhook: { url?: unknown; events?: unknown }): Promise<string | null> {
+  if (webhook.url !== undefined) {
+    let parsed: URL;
+    try {
+      parsed = new URL(String(webhook.url));
+    } catch {
+      return 'url must be a valid URL';
+    }
+    if (parsed.protocol !== 'https:') {
+      return 'url must use https';
+    }
+    if (!(await isPublicHost(parsed.hostname))) {
+      return 'url must point to a public host';
+    }
+  }
+
+  if (webhook.events !== undefined) {
+    if (!Array.isArray(webhook.events)) {
+      return 'events must be an array';
+    }
+    const unknown = webhook.events.filter((e) => !WEBHOOK_EVENTS.includes(e));
+    if (unknown.length > 0) {
+      return `Unknown events: ${unknown.join(', ')}. Must be any of: ${WEBHOOK_EVENTS.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * POST one delivery to its endpoint and record the outcome
+ */
+async function attemptDelivery(delivery: WebhookDelivery, endpoint: WebhookEndpoint): Promise<void> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const attempts = delivery.attempts + 1;
+
+  let statusCode: number | null = null;
+  let errorMessage: string | null = null;
+
+  try {
+    // Checked again on every attempt, as DNS may have changed since the
+    // endpoint was saved
+    if (!(await isPublicHost(new URL(endpoint.url).hostname))) {
+      throw new Error('Endpoint does not resolve to a public address');
+    }
+
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ThreatZapper-Webhooks/1.0',
+        'X-ThreatZapper-Event': delivery.event_type,
+        'X-ThreatZapper-Delivery': delivery.id,
+        'X-ThreatZapper-Timestamp': timestamp,
+        'X-ThreatZapper-Signature': signWebhookPayload(endpoint.secret, timestamp, body),
+      },
+      body,
+      // A redirect could lead anywhere, so it counts as a failed attempt
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    statusCode = response.status;
+    if (!response.ok) {
+      errorMessage = `HTTP ${response.status}`;
+    }
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : 'Request failed';
+  }
+
+  const now = new Date();
+
+  if (!errorMessage) {
+    await supabase
+      .from('webhook_deliveries')
+      .update({
+        status: 'delivered',
+        attempts,
+        last_status_code: statusCode,
+        last_error: null,
+        delivered_at: now.toISOString(),
+      })
+      .eq('id', delivery.id);
+    return;
+  }
+
+  const exhausted = attempts >= MAX_ATTEMPTS;
+  await supabase
+    .from('webhook_deliveries')
+    .update({
+      status: exhausted ? 'failed' : 'pending',
+      attempts,
+      last_status_code: statusCode,
+      last_error: errorMessage,
+      next_attempt_at: exhausted
+        ? null
+        : new Date(now.getTime() + RETRY_BASE_MS * 2 ** (attempts - 1)).toISOString(),
+    })
+    .eq('id', delivery.id);
+
+  console.log(
+    `[Webhook] ${delivery.event_type} to ${endpoint.name} failed (attempt ${attempts}/${MAX_ATTEMPTS}): ${errorMessage}`
+  );
+}
+
+/**
+ * Queue an event for every enabled endpoint subscribed to it. Nothing is sent
+ * here, so a slow endpoint never holds up the request that raised the event;
+ * deliverPendingWebhooks sends it, and retries failures, on the periodic sweep.
+ */
+export async function emitWebhookEvent(
+  type: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  const { data: endpoints, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('enabled', true);
+
+  if (error) {
+    console.error('Webhook endpoints fetch error:', error);
+    return;
+  }
+
+  const subscribed = ((endpoints || []) as WebhookEndpoint[]).filter(
+    (e) => e.events.length === 0 || e.events.includes(type)
+  );
+  if (subscribed.length === 0) return;
+
+  const now = new Date().toISOString();
+  const payload = {
+    id: randomUUID(),
+    type,
+    createdAt: now,
+    data,
+  };
+
+  const { error: insertError } = await supabase
+    .from('webhook_deliveries')
+    .insert(subscribed.map((e) => ({
+      endpoint_id: e.id,
+      event_type: type,
+      payload,
+      next_attempt_at: now,
+    })));
+
+  if (insertError) {
+    console.error('Webhook delivery insert error:', insertError);
+  }
+}
+
+/**
+ * Periodic sweep: send queued deliveries, and retry failed ones whose backoff
+ * has elapsed
+ */
+export async function deliverPendingWebhooks(): Promise<void> {
+  const { data: due, error } = await supabase
+    .from('webhook_deliveries')
+    .select('id, endpoint_id, event_type, payload, attempts, next_attempt_at, webhook_endpoints(*)')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(MAX_DELIVERIES_PER_SWEEP);
+
+  if (error) {
+    console.error('Webhook delivery fetch error:', error);
+    return;
+  }
+
+  await Promise.all(
+    (due || []).map(async (row) => {
+      const endpoint = row.webhook_endpoints as unknown as WebhookEndpoint | null;
+
+      // Endpoint was disabled after the event - give up on it
+      if (!endpoint?.enabled) {
+        await supabase
+          .from('webhook_deliveries')
+          .update({ status: 'failed', last_error: 'Endpoint disabled', next_attempt_at: null })
+          .eq('id', row.id);
+        return;
+      }
+
+      // Claim the attempt so overlapping sweeps don't send it twice
+      const { data: claimed } = await supabase
+        .from('webhook_deliveries')
+        .update({ next_attempt_at: new Date(Date.now() + RETRY_BASE_MS).toISOString() })
+        .eq('id', row.id)
+        .eq('next_attempt_at', row.next_attempt_at)
+        .select('id');
+
+      if (!claimed || claimed.length === 0) return;
+
+      await attemptDelivery(row as WebhookDelivery, endpoint);
+    })
+  );
+}
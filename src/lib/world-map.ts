@@ -0,0 +1,218 @@
+// Coarse world outline for the fleet map, bundled so the map needs no tile
+// server. Coastlines are hand-simplified to a few dozen points per landmass,
+// enough to place devices by country at fleet scale. Points are [lng, lat].
+
+type Ring = [number, number][];
+
+export const MAP_WIDTH = 1000;
+
+// Latitudes outside this band hold no devices worth the space
+const MAX_LAT = 84;
+const MIN_LAT = -58;
+
+export const MAP_HEIGHT = Math.round((MAP_WIDTH * (MAX_LAT - MIN_LAT)) / 360);
+
+const LAND: Ring[] = [
+  // North and Central America
+  [
+    [-168, 66], [-162, 70], [-156, 71.3], [-141, 69.7], [-128, 70], [-115, 68.5], [-95, 68], [-85, 69.5],
+    [-81, 67], [-90, 63.5], [-94, 59], [-92.5, 57], [-85, 55.3], [-82, 52.5], [-79.5, 54.5], [-77, 60],
+    [-78, 62.3], [-72, 61.8], [-65, 60], [-61.5, 56], [-57, 52], [-60, 50], [-66, 49.2], [-64.5, 48.2],
+    [-61, 45.5], [-66, 44.5], [-70, 43.5], [-70.5, 41.7], [-74, 40.5], [-76, 37], [-75.5, 35.2], [-78, 33.8],
+    [-81, 31.5], [-80, 27], [-80.5, 25.2], [-82.5, 27.8], [-84, 30], [-89, 30.3], [-94, 29.6], [-97.3, 27.5],
+    [-97.5, 24], [-96.5, 19.5], [-94.5, 18.2], [-91, 18.7], [-90.5, 21], [-87, 21.5], [-88, 17.5], [-84, 15.8],
+    [-83.5, 11], [-81.5, 8.8], [-79.5, 9.5], [-77.5, 8.5], [-78, 7], [-80.5, 7.5], [-83, 8.3], [-86, 11],
+    [-88, 13.2], [-92, 14.5], [-94.5, 16], [-97, 15.8], [-101, 17.5], [-105.5, 20], [-105.5, 23], [-109, 26.5],
+    [-112.8, 31.6], [-114.7, 31.5], [-112, 28], [-110, 23], [-112, 25], [-114, 28], [-115.8, 30.5], [-117.1, 32.5],
+    [-120.5, 34.5], [-122.5, 37.5], [-124, 40.5], [-124.5, 43], [-124, 46.3], [-124.7, 48.4], [-123, 49], [-127, 51],
+    [-130, 54.5], [-133, 57.5], [-137, 59], [-141, 60], [-147, 61], [-151, 59.5], [-154, 57.3], [-158, 56.5],
+    [-164, 54.5], [-158, 58.5], [-162, 60], [-165, 62], [-164.5, 64.5],
+  ],
+  // Baffin Island
+  [
+    [-62, 66.7], [-65, 64.5], [-68, 63], [-72, 64], [-78, 64.4], [-73, 66.6], [-73.5, 68.5], [-80, 69.8],
+    [-88, 70.5], [-90, 72.5], [-80, 73.7], [-72, 71.5], [-67, 69.5],
+  ],
+  // Victoria Island
+  [[-118, 69], [-101, 68.5], [-101, 71], [-106, 73], [-117, 72.5]],
+  // Ellesmere Island
+  [[-80, 76], [-90, 77], [-93, 79], [-85, 80.5], [-70, 82.8], [-62, 82.3], [-70, 80]],
+  // Greenland
+  [
+    [-73, 78], [-66, 80.5], [-60, 82], [-45, 82.8], [-30, 83.5], [-20, 82], [-18, 79.5], [-19, 76],
+    [-20, 72], [-22, 70], [-26, 68.2], [-33, 67.7], [-40, 65], [-43, 60], [-48, 61], [-51, 64],
+    [-53.5, 67], [-54, 70.5], [-56, 73.5], [-60, 76], [-67, 77],
+  ],
+  // Cuba
+  [[-84.9, 21.9], [-82, 23.2], [-77.2, 22], [-74.2, 20.2], [-77.7, 19.8], [-80.6, 21.7]],
+  // Hispaniola
+  [[-74.5, 18.4], [-72.8, 19.9], [-69.9, 19.7], [-68.3, 18.6], [-71.2, 17.7]],
+  // South America
+  [
+    [-77.5, 8.5], [-75, 10.8], [-72, 12], [-71, 10.5], [-68, 10.5], [-63, 10.7], [-60, 8.5], [-57, 6],
+    [-52, 4.8], [-50, 1.8], [-50, -0.5], [-44, -2.5], [-39, -3.5], [-35, -5.5], [-35, -9], [-38.5, -13],
+    [-39, -17.5], [-40.5, -21.5], [-44, -23], [-48.5, -26], [-48.8, -28.5], [-52, -32], [-54, -34.5], [-57, -35],
+    [-57, -37], [-58, -38.7], [-62, -39], [-65, -41], [-63.8, -42.5], [-65.5, -45], [-67.5, -46.5], [-65.8, -47.8],
+    [-68.5, -50.5], [-69, -52], [-68.5, -54.5], [-72, -54], [-75, -51], [-74, -46], [-73.5, -42], [-73.5, -37.5],
+    [-71.5, -32], [-71.3, -28], [-70.2, -23], [-70.3, -18.5], [-75, -15.5], [-77, -12], [-79, -8], [-81.2, -5.5],
+    [-80.3, -3.5], [-80, -2], [-80.5, 0], [-79, 1.5], [-77.5, 4], [-77.5, 6.5],
+  ],
+  // Iceland
+  [[-22, 64], [-24, 65.5], [-22, 66.4], [-16, 66.5], [-13.6, 65.2], [-14.5, 64.3], [-18, 63.4]],
+  // Great Britain
+  [
+    [-5.7, 50], [-3.5, 50.3], [1.4, 51.2], [1.7, 52.7], [0.3, 53.4], [-0.5, 54.5], [-1.6, 55.6], [-2, 57.6],
+    [-3.3, 58.6], [-5, 58.6], [-6.2, 56.8], [-5.6, 55.3], [-3.1, 54.9], [-3.4, 54], [-3, 53.3], [-4.7, 52.8],
+    [-5.2, 51.7], [-4.2, 51.5],
+  ],
+  // Ireland
+  [[-6, 52], [-6, 53.9], [-5.6, 54.6], [-6.5, 55.3], [-8.2, 55.2], [-10, 54.1], [-9.9, 53], [-10.3, 51.9], [-8.5, 51.6]],
+  // Eurasia, clockwise from Gibraltar
+  [
+    [-5.6, 36], [-9, 37], [-9.5, 39], [-8.8, 42], [-9, 43.2], [-8, 43.7], [-2, 43.4], [-1.5, 44.5],
+    [-1.2, 46], [-2.3, 47.2], [-4.5, 48], [-1.5, 48.7], [-1.5, 49.7], [1.5, 50.2], [3, 51.2], [4.5, 52.5],
+    [5.5, 53.3], [8.5, 53.6], [8.6, 55.5], [8.2, 57], [10.5, 57.7], [10.5, 56], [12, 54.2], [14, 54],
+    [18, 54.8], [21, 55.2], [21, 57], [24, 57.3], [24, 59.4], [28, 59.6], [25, 60.3], [22.5, 60],
+    [21.5, 61], [21.5, 63], [25, 65], [22, 65.8], [19, 63.5], [17.5, 62.5], [18.9, 60], [16.5, 57],
+    [14.5, 56], [12.8, 55.5], [12, 57.5], [11, 58.8], [10.5, 59.3], [8, 58], [5.5, 59], [5, 62],
+    [9, 63.5], [14, 66.5], [18, 69.5], [25, 71], [31, 70], [33, 69.3], [40, 67.8], [41, 66.5],
+    [35, 64.5], [37, 64], [43, 66.2], [44, 68.5], [53, 68.5], [59, 68.8], [68, 68.5], [73, 73],
+    [80, 73], [87, 75], [100, 76.5], [105, 77.5], [113, 75.5], [112, 73.8], [128, 73], [140, 72.5],
+    [150, 71.7], [160, 69.7], [170, 70], [180, 69], [180, 65.5], [178, 64.7], [175, 62], [170, 60],
+    [163, 60], [163, 58], [162, 55], [158, 51.5], [156.7, 51], [156, 57.5], [160, 61], [155, 59.3],
+    [148, 59.3], [143, 59.3], [137, 54], [141, 52.5], [140.5, 48.5], [135, 43.5], [131, 42.5], [129.5, 40.5],
+    [128, 38.5], [129.3, 35.2], [126.3, 34.5], [126.5, 37.5], [124.5, 39.7], [121.5, 38.9], [122.3, 40.5], [121, 41],
+    [117.8, 39], [119, 37], [122.5, 37], [120.5, 36], [119.3, 34.5], [121, 32], [122, 30], [120.5, 27],
+    [119, 25], [116, 22.8], [113, 22], [110.5, 20.5], [109, 21.5], [106, 19.5], [106.5, 18], [109, 15],
+    [109.2, 11.5], [106.5, 9], [105, 8.6], [104.8, 10.4], [103, 11], [101, 12.6], [100, 13.4], [99.2, 10.5],
+    [100.6, 7.2], [102.2, 6.1], [103.3, 3.8], [104.2, 1.4], [103.8, 1.3], [101.8, 2.5], [100.3, 5.4], [98.3, 8],
+    [98.6, 12.4], [96.5, 16.5], [94.3, 16], [94.5, 19], [92.3, 20.7], [91.8, 22.3], [90, 21.9], [88.2, 21.6],
+    [86.9, 20.5], [85, 19.3], [82.3, 16.6], [80.2, 15.5], [80.3, 13], [79.8, 10.3], [77.5, 8], [76.3, 9.5],
+    [75, 12.6], [73.5, 16], [72.8, 19], [72.6, 21.5], [70.2, 20.8], [68.8, 22.5], [67.5, 24], [66.5, 25.4],
+    [62, 25.1], [57.5, 25.6], [56.4, 27], [54, 26.6], [51.5, 27.9], [50, 30], [48, 30], [48.5, 28.5],
+    [50, 26], [51.6, 25], [51.6, 24], [54, 24.1], [56.3, 26.2], [56.5, 24.5], [58.8, 23.5], [59.8, 22.3],
+    [57.8, 19], [55, 17], [52, 15.6], [48.5, 14], [45, 12.8], [43.4, 12.7], [42.7, 15.5], [40, 20],
+    [39.1, 21.5], [37, 25], [35, 28], [34.9, 29.5], [34.2, 31.3], [35, 33], [35.9, 35.5], [36.2, 36.7],
+    [34.5, 36.8], [32.5, 36.1], [30.5, 36.3], [28, 36.7], [27.3, 37.5], [26.5, 39.5], [26.2, 40.3], [26, 40.8],
+    [24, 40], [22.8, 39], [24, 38], [23, 36.5], [21.7, 36.8], [21, 38.3], [19.4, 40.3], [19.5, 41.8],
+    [16, 43.5], [13.7, 45.6], [12.3, 45.2], [12.5, 44], [14, 42.5], [16, 41.4], [18.5, 40.1], [16.6, 38.4],
+    [15.6, 38], [15.7, 40], [14, 40.8], [12.3, 41.7], [10.5, 42.9], [8.8, 44.4], [7.5, 43.8], [5, 43.3],
+    [3.2, 43], [3.2, 41.9], [0.8, 41], [-0.3, 39.5], [0.2, 38.7], [-0.7, 37.6], [-2.2, 36.7], [-4.5, 36.7],
+  ],
+  // Sicily
+  [[12.4, 37.9], [15.6, 38.3], [15.1, 36.7]],
+  // Sardinia
+  [[8.2, 41], [9.7, 40.9], [9.6, 39.2], [8.4, 39]],
+  // Svalbard
+  [[11, 78.5], [18, 80.5], [27, 80], [22, 77.5], [17, 76.5]],
+  // Novaya Zemlya
+  [[52, 71.5], [58, 75], [68, 76.8], [60, 74], [56, 71]],
+  // Africa
+  [
+    [-5.9, 35.8], [-2, 35.1], [1, 36.5], [5, 36.8], [10, 37.3], [11, 36.8], [10.5, 34], [11.5, 33.1],
+    [15.2, 32.3], [19, 30.3], [20, 31.8], [23, 32.6], [25, 31.6], [29, 30.9], [32.3, 31.3], [32.6, 29.9],
+    [33.5, 27.5], [35.5, 24], [37.3, 21], [38.5, 18], [39.7, 15.5], [41.2, 14.2], [43.2, 11.5], [45, 10.4],
+    [51.2, 11.8], [51, 10.5], [49.5, 6.5], [48, 4.5], [46, 2], [43.5, -0.5], [41, -2], [39.5, -4.5],
+    [39.3, -7], [39.5, -10], [40.5, -11], [40.6, -15], [36.8, -18], [35.5, -22], [35.5, -24], [32.8, -26],
+    [32.5, -28.8], [30.5, -31], [27.5, -33.5], [25.5, -34], [22, -34.2], [20, -34.8], [18.4, -34.2], [18.2, -32],
+    [17, -29], [15.2, -27], [14.5, -22.5], [12, -18], [11.8, -16], [12.5, -13.5], [13.8, -11], [13, -8.5],
+    [12.2, -6], [11.8, -4], [9, -1], [9.5, 1], [9.8, 3.5], [8.5, 4.5], [6, 4.3], [4.5, 6.3],
+    [2, 6.3], [-1, 5.2], [-3, 5], [-5, 5.2], [-7.5, 4.4], [-9.5, 5.4], [-11.5, 6.9], [-13.2, 8.9],
+    [-15, 11], [-16.7, 12.4], [-17.5, 14.7], [-16.5, 16.5], [-16.2, 19.5], [-17, 21], [-15.5, 24], [-14.5, 26.2],
+    [-13, 27.7], [-10, 29.5], [-9.7, 31], [-9, 32.5], [-6.8, 34],
+  ],
+  // Madagascar
+  [
+    [49.3, -12], [50.5, -15.5], [49.8, -17], [48, -22], [47, -25], [45, -25.5], [43.6, -23.5], [43.3, -21.8],
+    [44.4, -19.5], [44, -17], [46.3, -15.8], [48, -13.6],
+  ],
+  // Sri Lanka
+  [[79.8, 6.2], [80.1, 9.8], [81.9, 7.3], [81.2, 6.2]],
+  // Taiwan
+  [[120.1, 23], [121.5, 25.3], [121.9, 24.6], [120.8, 21.9]],
+  // Honshu, Shikoku and Kyushu
+  [
+    [130.2, 31.2], [131.4, 31.4], [132, 33.8], [135, 33.5], [136.8, 34.3], [139, 34.7], [140.9, 35.7], [141, 38.3],
+    [142, 39.5], [141.4, 41.4], [140, 40.8], [139.7, 39.5], [138.5, 37.7], [136.8, 37.2], [135.8, 35.6], [133, 35.5],
+    [131, 34.4], [129.6, 33.2],
+  ],
+  // Hokkaido
+  [[140, 41.5], [141.2, 41.8], [143.2, 42], [145.5, 43.3], [144.5, 44], [141.7, 45.4], [141.5, 43.3], [140, 42.5]],
+  // Sakhalin
+  [[142, 46], [143.5, 46.5], [144.5, 49], [143, 53], [142.5, 54.2], [141.7, 52.5]],
+  // Luzon
+  [[120.6, 18.5], [122.3, 18.4], [122, 16.3], [121.6, 14.3], [124, 13], [123.5, 12.5], [121, 13.5], [120.4, 14.5], [119.8, 16.3]],
+  // Mindanao
+  [[122, 7], [123.5, 8.5], [125.5, 9.7], [126.6, 7.3], [125.4, 5.6], [124, 6.4]],
+  // Sumatra
+  [[95.3, 5.6], [97.5, 5.2], [100.3, 2], [103.8, -1], [106, -3], [105.8, -5.8], [104.5, -5.9], [102.3, -4], [100.4, -1], [98.7, 1.7]],
+  // Java
+  [[105.2, -6.8], [108.3, -6.2], [111, -6.4], [114.5, -7.7], [114.4, -8.7], [110.5, -8.2], [106.4, -7.4]],
+  // Borneo
+  [
+    [109, 1.5], [109.6, 2], [111.2, 2.5], [113, 3.2], [115.3, 5], [116.8, 7], [119.2, 5.3], [118, 4.3],
+    [118.5, 1], [117.5, 0], [116.5, -2.2], [116, -3.8], [114.5, -3.5], [111.8, -3], [110.1, -2], [109, 0],
+  ],
+  // Sulawesi
+  [
+    [119.5, -5.5], [120.4, -5.6], [120.8, -2.8], [121.6, -4.8], [123, -4.6], [121.3, -1.9], [123.3, -0.9], [121, -1],
+    [120.1, 0.4], [121, 1.3], [124.8, 1.5], [120.8, 0.8], [119.8, 0.2], [118.8, -2.8],
+  ],
+  // New Guinea
+  [
+    [131, -1.3], [134, -0.9], [135.5, -3.4], [138, -1.6], [141, -2.6], [145.8, -5], [147.5, -6.1], [147.1, -7.4],
+    [150, -10.3], [147, -10.1], [144, -7.8], [142.5, -9.3], [141, -9.1], [139, -8.1], [138, -8.4], [137.8, -5.3],
+    [134, -3.9], [132, -2.8],
+  ],
+  // Australia
+  [
+    [113.5, -22], [114, -26], [115, -30], [115, -33.5], [117.5, -35], [121, -33.8], [124, -33], [126, -32.2],
+    [129, -31.6], [131.5, -31.5], [134, -32.8], [135.8, -34.8], [137.5, -33], [138, -35.5], [140, -37.5], [143.5, -38.8],
+    [146.3, -39], [150, -37.5], [150.5, -35], [152, -32.7], [153.6, -28.5], [153, -25.5], [150.8, -22.6], [149, -20.5],
+    [146.3, -19], [145.3, -15], [143.6, -14], [142.5, -10.8], [141.5, -13.5], [141.5, -17], [140, -17.7], [136.8, -15.8],
+    [135.5, -15], [136.8, -12.2], [133, -11.3], [130, -12.5], [129.5, -14.9], [127, -13.8], [125, -14.5], [122.2, -17.5],
+    [121, -19.5], [117, -20.7],
+  ],
+  // Tasmania
+  [[144.6, -40.7], [148.3, -40.9], [148, -43.2], [146, -43.6]],
+  // New Zealand, North Island
+  [[172.7, -34.5], [174.5, -36], [175.9, -37.5], [178.5, -37.7], [177, -39.2], [176, -41.3], [174.7, -41.3], [175.1, -40], [173.8, -39.2], [174.5, -38]],
+  // New Zealand, South Island
+  [[172.7, -40.5], [174.2, -41.8], [173, -43.5], [171.2, -44.4], [169, -46.6], [166.5, -46], [168.5, -44], [171.5, -41.8]],
+];
+
+// Inland seas cut out of the Eurasia outline
+const WATER: Ring[] = [
+  // Black Sea
+  [
+    [27.5, 42], [28.5, 43.5], [29.7, 45.2], [31, 46.6], [33.5, 46], [33.6, 44.5], [35.5, 45], [36.5, 45.3],
+    [37.5, 47], [39.3, 47], [38, 45.3], [40, 43.4], [41.6, 41.6], [39, 41], [36, 41.7], [33, 42], [29, 41.1],
+  ],
+  // Caspian Sea
+  [[47, 43], [49.5, 46.5], [53, 46.8], [53, 45], [51, 44.5], [52.8, 41.5], [54, 40], [53, 37.5], [50.5, 37], [49, 38.3], [49.5, 40.3]],
+];
+
+/**
+ * Position of a coordinate on the map, in the MAP_WIDTH x MAP_HEIGHT
+ * equirectangular viewBox
+ */
+export function projectPoint(lng: number, lat: number): [number, number] {
+  const clamped = Math.min(MAX_LAT, Math.max(MIN_LAT, lat));
+  return [
+    ((lng + 180) / 360) * MAP_WIDTH,
+    ((MAX_LAT - clamped) / (MAX_LAT - MIN_LAT)) * MAP_HEIGHT,
+  ];
+}
+
+function toPath(rings: Ring[]): string {
+  return rings
+    .map((ring) => ring.map(([lng, lat], i) => {
+      const [x, y] = projectPoint(lng, lat);
+      return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    }).join('') + 'Z')
+    .join('');
+}
+
+// SVG path data, drawn land first and then water over it
+export const LAND_PATH = toPath(LAND);
+export const WATER_PATH = toPath(WATER);
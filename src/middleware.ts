@@ -1,9 +1,50 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyToken } from '@/lib/auth';
 
+// API routes reachable without an admin session. Login/signup issue their own
+// tokens; device and customer routes authenticate the Authorization header
+// themselves.
+const PUBLIC_API_ROUTES = [
+  '/api/auth/login',
+  '/api/auth/logout',
+  '/api/auth/signup',   // Bootstrap only; checks admins:manage once an owner exists
+  '/api/auth/customer/login',
+  '/api/auth/customer/signup',
+  '/api/devices/register',
+];
+
+function isPublicApiRoute(request: NextRequest): boolean {
+  const { pathname } = request.nextUrl;
+
+  if (PUBLIC_API_ROUTES.includes(pathname)) return true;
+
+  // Devices check in with their own key
+  if (pathname === '/api/devices/checkin' && request.method === 'POST') return true;
+
+  return false;
+}
+
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
+  // API routes: everything requires an admin session except the public routes
+  // above and bearer-authenticated requests, which route handlers verify
+  // against the kind of caller they accept.
+  if (pathname.startsWith('/api')) {
+    if (isPublicApiRoute(request) || request.headers.has('authorization')) {
+      return NextResponse.next();
+    }
+
+    const token = request.cookies.get('auth_token')?.value;
+    const payload = token ? await verifyToken(token) : null;
+
+    if (!payload || payload.type !== 'admin') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.next();
+  }
+
   // Only protect /dashboard routes
   if (pathname.startsWith('/dashboard')) {
     const token = request.cookies.get('auth_token')?.value;
@@ -19,8 +60,8 @@ export async function middleware(request: NextRequest) {
     // Verify token
     const payload = await verifyToken(token);
 
-    // Invalid token, redirect to login
-    if (!payload) {
+    // Invalid token (or a customer token), redirect to login
+    if (!payload || payload.type !== 'admin') {
       const url = request.nextUrl.clone();
       url.pathname = '/login';
       url.searchParams.set('from', pathname);
@@ -43,12 +84,11 @@ export const config = {
   matcher: [
     /*
      * Match all request paths except:
-     * - api (API routes)
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
      * - public files (public directory)
      */
-    '/((?!api|_next/static|_next/image|favicon.ico|.*\\.png|.*\\.svg).*)',
+    '/((?!_next/static|_next/image|favicon.ico|.*\\.png|.*\\.svg).*)',
   ],
 };
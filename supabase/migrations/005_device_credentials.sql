@@ -0,0 +1,17 @@
+-- Migration 005: Per-device API credentials
+-- Replaces the single shared DEVICE_API_KEY with a key issued to each device
+-- at registration. Only sha256 hashes of keys are stored.
+
+alter table devices
+  add column if not exists api_key_hash text,
+  add column if not exists api_key_pending_hash text,
+  add column if not exists api_key_issued_at timestamp with time zone,
+  add column if not exists api_key_rotate_requested_at timestamp with time zone,
+  add column if not exists api_key_revoked_at timestamp with time zone;
+
+-- Add comments for documentation
+comment on column devices.api_key_hash is 'sha256 of the device''s active API key';
+comment on column devices.api_key_pending_hash is 'sha256 of a rotated key the device has been sent but not yet used';
+comment on column devices.api_key_issued_at is 'When the active API key was issued';
+comment on column devices.api_key_rotate_requested_at is 'Set by an admin to issue a new key on the next check-in';
+comment on column devices.api_key_revoked_at is 'When the key was revoked; the shared legacy key is refused after this';
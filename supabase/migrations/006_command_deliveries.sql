@@ -0,0 +1,64 @@
+-- Migration 006: Per-device delivery tracking for broadcast commands
+-- Broadcast commands (null device_id) stay 'pending' while open; each device's
+-- copy is tracked here so every device receives a broadcast exactly once.
+
+create table if not exists command_deliveries (
+  id uuid primary key default uuid_generate_v4(),
+  command_id uuid not null references device_commands(id) on delete cascade,
+  device_id text not null references devices(device_id) on delete cascade,
+  status text default 'sent' check (status in ('sent', 'acknowledged', 'completed', 'failed')),
+  result text,                           -- Result/error message from device
+  sent_at timestamp with time zone default now(),
+  completed_at timestamp with time zone,
+  unique (command_id, device_id)
+);
+
+-- Indexes
+create index if not exists idx_command_deliveries_command on command_deliveries(command_id, status);
+create index if not exists idx_command_deliveries_device on command_deliveries(device_id, sent_at desc);
+
+-- View: delivery progress per broadcast. A broadcast targets every device
+-- that existed when it was created.
+create or replace view broadcast_delivery_summary as
+select
+  dc.id as command_id,
+  (select count(*) from devices d where d.created_at <= dc.created_at) as targeted,
+  count(cd.id) as delivered,
+  count(cd.id) filter (where cd.status = 'completed') as completed,
+  count(cd.id) filter (where cd.status = 'failed') as failed
+from device_commands dc
+left join command_deliveries cd on cd.command_id = dc.id
+where dc.device_id is null
+group by dc.id, dc.created_at;
+
+-- Function to get pending commands for a device (skips broadcasts it already received)
+create or replace function get_pending_commands(p_device_id text)
+returns table (
+  id uuid,
+  command_type text,
+  payload jsonb
+) as $$
+begin
+  return query
+  select dc.id, dc.command_type, dc.payload
+  from device_commands dc
+  where dc.status = 'pending'
+    and (
+      dc.device_id = p_device_id
+      or (
+        dc.device_id is null
+        and dc.created_at >= (select d.created_at from devices d where d.device_id = p_device_id)
+        and not exists (
+          select 1 from command_deliveries cd
+          where cd.command_id = dc.id and cd.device_id = p_device_id
+        )
+      )
+    )
+  order by dc.created_at asc
+  limit 10;
+end;
+$$ language plpgsql;
+
+-- Add comments for documentation
+comment on table command_deliveries is 'Per-device delivery state for broadcast commands';
+comment on view broadcast_delivery_summary is 'Delivered/completed/failed counts for each broadcast command';
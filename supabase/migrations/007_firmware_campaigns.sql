@@ -0,0 +1,69 @@
+-- Migration 007: Staged firmware rollout campaigns
+-- A campaign pushes one firmware image to a cohort of devices in waves and is
+-- paused automatically when too many updates fail.
+
+create table if not exists firmware_campaigns (
+  id uuid primary key default uuid_generate_v4(),
+  name text not null,
+  firmware_url text not null,
+  sha256 text not null,
+  target_version text not null,              -- Firmware string devices report once updated
+  -- Cohort filters (null = any)
+  cohort_percentage integer not null default 100 check (cohort_percentage between 1 and 100),
+  cohort_firmware text,
+  cohort_country text,
+  cohort_customer_user_id uuid references customer_users(id) on delete set null,
+  -- Waves: cumulative percentage of the cohort reached by the end of each wave
+  wave_percentages integer[] not null default '{5,25,50,100}',
+  current_wave integer not null default 0,   -- 0 = not started, 1 = first wave
+  auto_advance boolean not null default false,
+  -- Health
+  failure_threshold real not null default 0.1 check (failure_threshold > 0 and failure_threshold <= 1),
+  min_sample_size integer not null default 3,
+  update_timeout_minutes integer not null default 30,
+  status text not null default 'draft' check (status in ('draft', 'running', 'paused', 'completed', 'cancelled')),
+  pause_reason text,
+  created_at timestamp with time zone default now(),
+  started_at timestamp with time zone,
+  resumed_at timestamp with time zone,       -- Failure rate is measured from here after a resume
+  completed_at timestamp with time zone
+);
+
+-- Devices enrolled in a campaign, one row per device
+create table if not exists firmware_campaign_devices (
+  id uuid primary key default uuid_generate_v4(),
+  campaign_id uuid not null references firmware_campaigns(id) on delete cascade,
+  device_id text not null references devices(device_id) on delete cascade,
+  wave integer not null,
+  command_id uuid references device_commands(id) on delete set null,
+  status text not null default 'updating' check (status in ('updating', 'succeeded', 'failed')),
+  previous_firmware text,
+  previous_uptime integer,
+  failure_reason text,
+  started_at timestamp with time zone default now(),
+  finished_at timestamp with time zone,
+  unique (campaign_id, device_id)
+);
+
+-- Indexes
+create index if not exists idx_firmware_campaigns_status on firmware_campaigns(status);
+create index if not exists idx_campaign_devices_campaign on firmware_campaign_devices(campaign_id, status);
+create index if not exists idx_campaign_devices_device on firmware_campaign_devices(device_id, status);
+
+-- View: progress counts per campaign
+create or replace view firmware_campaign_progress as
+select
+  fc.id as campaign_id,
+  count(fcd.id) as enrolled,
+  count(fcd.id) filter (where fcd.status = 'updating') as updating,
+  count(fcd.id) filter (where fcd.status = 'succeeded') as succeeded,
+  count(fcd.id) filter (where fcd.status = 'failed') as failed
+from firmware_campaigns fc
+left join firmware_campaign_devices fcd on fcd.campaign_id = fc.id
+group by fc.id;
+
+-- Add comments for documentation
+comment on table firmware_campaigns is 'Staged firmware rollouts with automatic halt on failures';
+comment on table firmware_campaign_devices is 'Per-device state of a firmware rollout';
+comment on column firmware_campaigns.wave_percentages is 'Cumulative share of the cohort updated by the end of each wave';
+comment on column firmware_campaigns.failure_threshold is 'Failure rate (0-1) at which the campaign is paused';
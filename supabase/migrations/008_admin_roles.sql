@@ -0,0 +1,20 @@
+-- Migration 008: Role-based access control for admin users
+-- Roles: owner (everything, manages admins), operator (devices, commands incl.
+-- exec, firmware), support (read-only), billing (customer subscriptions)
+
+alter table users
+  add column if not exists role text;
+
+-- Existing admins keep full access
+update users set role = 'owner' where role is null;
+
+alter table users
+  alter column role set default 'support',
+  alter column role set not null;
+
+alter table users
+  add constraint valid_admin_role
+  check (role in ('owner', 'operator', 'support', 'billing'));
+
+-- Add comments for documentation
+comment on column users.role is 'Admin role: owner, operator, support (read-only) or billing';
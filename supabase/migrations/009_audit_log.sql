@@ -0,0 +1,44 @@
+-- Migration 009: Append-only audit log of admin and customer actions
+-- Every mutating API route records who did what to which record. Rows can be
+-- inserted but never changed or removed.
+
+create table if not exists audit_log (
+  id uuid primary key default uuid_generate_v4(),
+  created_at timestamp with time zone default now(),
+  actor_type text not null check (actor_type in ('admin', 'customer')),
+  actor_id uuid,                         -- users.id or customer_users.id
+  actor_name text,                       -- Username/email at the time of the action
+  action text not null,                  -- e.g. 'device.rename', 'command.create'
+  target_type text not null,             -- e.g. 'device', 'customer', 'command'
+  target_id text,
+  before jsonb,                          -- Changed fields before the action
+  after jsonb,                           -- Changed fields after the action
+  source_ip text
+);
+
+-- Indexes
+create index if not exists idx_audit_log_created on audit_log(created_at desc);
+create index if not exists idx_audit_log_actor on audit_log(actor_id, created_at desc);
+create index if not exists idx_audit_log_target on audit_log(target_type, target_id, created_at desc);
+create index if not exists idx_audit_log_action on audit_log(action, created_at desc);
+
+-- Append-only: reject updates and deletes, including from the service role
+create or replace function prevent_audit_log_changes()
+returns trigger as $$
+begin
+  raise exception 'audit_log is append-only';
+end;
+$$ language plpgsql;
+
+drop trigger if exists audit_log_append_only on audit_log;
+create trigger audit_log_append_only
+  before update or delete on audit_log
+  for each row execute function prevent_audit_log_changes();
+
+-- Truncate bypasses row triggers
+revoke truncate on audit_log from public, anon, authenticated, service_role;
+
+-- Add comments for documentation
+comment on table audit_log is 'Append-only record of admin and customer actions';
+comment on column audit_log.before is 'Values of the changed fields before the action (null on create)';
+comment on column audit_log.after is 'Values of the changed fields after the action (null on delete)';
@@ -0,0 +1,53 @@
+-- Migration 010: Alert rules and alert state
+-- Rules are evaluated on every check-in and on the periodic sweep. Each
+-- (rule, device) pair has at most one firing alert; it is resolved once the
+-- condition clears, and a new alert is opened if it trips again.
+
+create table if not exists alert_rules (
+  id uuid primary key default uuid_generate_v4(),
+  name text not null,
+  rule_type text not null check (rule_type in (
+    'offline',            -- No check-in for more than threshold minutes
+    'temperature',        -- tempCelsius above threshold
+    'disk_usage',         -- Disk usage above threshold percent
+    'block_spike',        -- Blocks in one check-in above threshold x the 24h average
+    'firmware_mismatch'   -- Firmware differs from expected_firmware
+  )),
+  threshold real,                        -- Unused for firmware_mismatch
+  expected_firmware text,                -- Only for firmware_mismatch
+  severity text not null default 'warning' check (severity in ('warning', 'critical')),
+  enabled boolean not null default true,
+  created_by uuid references users(id) on delete set null,
+  created_at timestamp with time zone default now(),
+  check (
+    (rule_type = 'firmware_mismatch' and expected_firmware is not null) or
+    (rule_type != 'firmware_mismatch' and threshold is not null)
+  )
+);
+
+create table if not exists alerts (
+  id uuid primary key default uuid_generate_v4(),
+  rule_id uuid not null references alert_rules(id) on delete cascade,
+  device_id text not null references devices(device_id) on delete cascade,
+  status text not null default 'firing' check (status in ('firing', 'resolved')),
+  message text not null,
+  value real,                            -- Measured value that tripped the rule
+  fired_at timestamp with time zone default now(),
+  last_evaluated_at timestamp with time zone default now(),
+  resolved_at timestamp with time zone,
+  acknowledged_at timestamp with time zone,
+  acknowledged_by uuid references users(id) on delete set null
+);
+
+-- Dedup: one open alert per rule and device
+create unique index if not exists idx_alerts_one_firing
+  on alerts(rule_id, device_id) where status = 'firing';
+
+-- Indexes
+create index if not exists idx_alerts_status on alerts(status, fired_at desc);
+create index if not exists idx_alerts_device on alerts(device_id, fired_at desc);
+create index if not exists idx_alert_rules_enabled on alert_rules(enabled, rule_type);
+
+-- Add comments for documentation
+comment on table alert_rules is 'User-defined health and block activity alert rules';
+comment on table alerts is 'Alert instances: firing until the rule condition clears, then resolved';
@@ -0,0 +1,37 @@
+-- Migration 011: Outbound webhooks
+-- Fleet events are POSTed as HMAC-signed JSON to configured endpoints. Each
+-- event/endpoint pair is one delivery row, retried with exponential backoff
+-- until it succeeds or runs out of attempts.
+
+create table if not exists webhook_endpoints (
+  id uuid primary key default uuid_generate_v4(),
+  name text not null,
+  url text not null,
+  secret text not null,                  -- HMAC key, needed in plaintext to sign
+  events text[] not null default '{}',   -- Subscribed event types, empty = all
+  enabled boolean not null default true,
+  created_by uuid references users(id) on delete set null,
+  created_at timestamp with time zone default now()
+);
+
+create table if not exists webhook_deliveries (
+  id uuid primary key default uuid_generate_v4(),
+  endpoint_id uuid not null references webhook_endpoints(id) on delete cascade,
+  event_type text not null,
+  payload jsonb not null,                -- Exact body sent, so retries are identical
+  status text not null default 'pending' check (status in ('pending', 'delivered', 'failed')),
+  attempts integer not null default 0,
+  next_attempt_at timestamp with time zone default now(),
+  last_status_code integer,
+  last_error text,
+  created_at timestamp with time zone default now(),
+  delivered_at timestamp with time zone
+);
+
+-- Indexes
+create index if not exists idx_webhook_deliveries_due on webhook_deliveries(next_attempt_at) where status = 'pending';
+create index if not exists idx_webhook_deliveries_endpoint on webhook_deliveries(endpoint_id, created_at desc);
+
+-- Add comments for documentation
+comment on table webhook_endpoints is 'Outbound webhook subscriptions for fleet events';
+comment on table webhook_deliveries is 'Delivery log: one row per event sent to an endpoint, with retry state';
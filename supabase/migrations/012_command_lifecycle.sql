@@ -0,0 +1,103 @@
+-- Migration 012: Command lifecycle
+-- Pending commands can carry a TTL and expire unsent. Once sent, a command
+-- must report a result within timeout_seconds or it is retried (direct
+-- commands with max_retries left) or failed. Pending commands can be cancelled.
+
+alter table device_commands
+  add column if not exists expires_at timestamp with time zone,        -- Pending past this = expired, null = never
+  add column if not exists timeout_seconds integer not null default 600, -- Deadline for a result after sending
+  add column if not exists max_retries integer not null default 0,
+  add column if not exists retry_count integer not null default 0,
+  add column if not exists acknowledged_at timestamp with time zone;
+
+alter table command_deliveries
+  add column if not exists acknowledged_at timestamp with time zone;
+
+-- New terminal states: expired (TTL passed before sending), cancelled (by an admin)
+alter table device_commands drop constraint if exists device_commands_status_check;
+alter table device_commands add constraint device_commands_status_check
+  check (status in ('pending', 'sent', 'acknowledged', 'completed', 'failed', 'expired', 'cancelled'));
+
+alter table device_commands add constraint device_commands_timeout_check
+  check (timeout_seconds > 0 and max_retries >= 0);
+
+-- Index for the timeout sweep
+create index if not exists idx_device_commands_in_flight on device_commands(sent_at)
+  where status in ('sent', 'acknowledged');
+
+-- Periodic sweep: expire, retry and time out commands. Returns one row per
+-- command (or broadcast delivery) changed, with outcome expired, retried or
+-- timed_out. For timed-out deliveries device_id is the receiving device.
+create or replace function expire_device_commands()
+returns table (
+  command_id uuid,
+  device_id text,
+  command_type text,
+  broadcast boolean,
+  outcome text
+) as $$
+#variable_conflict use_column
+begin
+  -- Pending commands (direct or broadcast) whose TTL has passed
+  return query
+  with expired as (
+    update device_commands dc
+    set status = 'expired', completed_at = now()
+    where dc.status = 'pending'
+      and dc.expires_at is not null
+      and dc.expires_at < now()
+    returning dc.id, dc.device_id, dc.command_type
+  )
+  select e.id, e.device_id, e.command_type, e.device_id is null, 'expired'::text from expired e;
+
+  -- Direct commands past their deadline with retries left go back in the queue
+  return query
+  with retried as (
+    update device_commands dc
+    set status = 'pending',
+        sent_at = null,
+        acknowledged_at = null,
+        retry_count = dc.retry_count + 1,
+        result = format('No result within %s seconds, retry %s of %s', dc.timeout_seconds, dc.retry_count + 1, dc.max_retries)
+    where dc.device_id is not null
+      and dc.status in ('sent', 'acknowledged')
+      and dc.sent_at < now() - make_interval(secs => dc.timeout_seconds)
+      and dc.retry_count < dc.max_retries
+    returning dc.id, dc.device_id, dc.command_type
+  )
+  select r.id, r.device_id, r.command_type, false, 'retried'::text from retried r;
+
+  -- The rest have failed
+  return query
+  with timed_out as (
+    update device_commands dc
+    set status = 'failed',
+        completed_at = now(),
+        result = format('No result within %s seconds', dc.timeout_seconds)
+    where dc.device_id is not null
+      and dc.status in ('sent', 'acknowledged')
+      and dc.sent_at < now() - make_interval(secs => dc.timeout_seconds)
+    returning dc.id, dc.device_id, dc.command_type
+  )
+  select t.id, t.device_id, t.command_type, false, 'timed_out'::text from timed_out t;
+
+  -- Broadcast deliveries are not retried
+  return query
+  with timed_out as (
+    update command_deliveries cd
+    set status = 'failed',
+        completed_at = now(),
+        result = format('No result within %s seconds', dc.timeout_seconds)
+    from device_commands dc
+    where dc.id = cd.command_id
+      and cd.status in ('sent', 'acknowledged')
+      and cd.sent_at < now() - make_interval(secs => dc.timeout_seconds)
+    returning cd.command_id, cd.device_id, dc.command_type
+  )
+  select t.command_id, t.device_id, t.command_type, true, 'timed_out'::text from timed_out t;
+end;
+$$ language plpgsql;
+
+comment on column device_commands.expires_at is 'Pending commands still unsent at this time become expired';
+comment on column device_commands.timeout_seconds is 'Seconds after sending before a command without a result is retried or failed';
+comment on function expire_device_commands is 'Expire, retry and time out commands; run from the periodic sweep';
@@ -0,0 +1,22 @@
+-- Migration 013: Structured command output
+-- Devices report exit code, stdout/stderr, duration and artifacts alongside
+-- the result message. The message stays in `result` as a one-line summary.
+
+alter table device_commands
+  add column if not exists output jsonb;
+
+alter table command_deliveries
+  add column if not exists output jsonb;
+
+-- output shape:
+-- {
+--   "exitCode": 0,
+--   "stdout": "...",
+--   "stderr": "...",
+--   "durationMs": 1234,
+--   "truncated": false,       -- true if the device or server cut stdout/stderr
+--   "artifacts": [{ "name": "dmesg.txt", "url": "https://...", "sizeBytes": 2048, "sha256": "..." }]
+-- }
+
+comment on column device_commands.output is 'Structured result reported by the device: exit code, stdout, stderr, duration, artifacts';
+comment on column command_deliveries.output is 'Structured result reported by the device for this broadcast delivery';
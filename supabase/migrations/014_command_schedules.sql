@@ -0,0 +1,35 @@
+-- Migration 014: Scheduled and recurring commands
+-- A schedule queues a device_commands row when it comes due: once at
+-- not_before, or on every match of a cron expression (UTC). The periodic
+-- sweep materializes due schedules and advances next_run_at.
+
+create table if not exists command_schedules (
+  id uuid primary key default uuid_generate_v4(),
+  name text not null,
+  device_id text references devices(device_id) on delete cascade,  -- null = all devices (broadcast)
+  command_type text not null,
+  payload jsonb not null default '{}',
+  cron text,                             -- e.g. '0 2 * * *'; null = one-off
+  not_before timestamp with time zone,   -- One-off run time, or earliest run for cron schedules
+  ttl_seconds integer check (ttl_seconds > 0),  -- Expiry of queued commands; null = until the next run
+  enabled boolean not null default true,
+  next_run_at timestamp with time zone,  -- null once a one-off has run or the schedule is disabled
+  last_run_at timestamp with time zone,
+  last_command_id uuid references device_commands(id) on delete set null,
+  created_by uuid references users(id) on delete set null,
+  created_at timestamp with time zone default now(),
+  check (cron is not null or not_before is not null)
+);
+
+-- Index for the sweep
+create index if not exists idx_command_schedules_due on command_schedules(next_run_at)
+  where enabled;
+
+-- Commands remember the schedule that queued them
+alter table device_commands
+  add column if not exists schedule_id uuid references command_schedules(id) on delete set null;
+
+create index if not exists idx_device_commands_schedule on device_commands(schedule_id, created_at desc)
+  where schedule_id is not null;
+
+comment on table command_schedules is 'One-off and cron schedules that queue device commands';
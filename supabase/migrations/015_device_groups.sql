@@ -0,0 +1,41 @@
+-- Migration 015: Device tags and groups
+-- Tags are free-form labels on a device. Groups are named device sets, either
+-- static (explicit members) or dynamic (a filter evaluated when used). Both
+-- can be used as command targets; a command sent to a group or tag is queued
+-- once per matching device, sharing a batch_id.
+
+alter table devices
+  add column if not exists tags text[] not null default '{}';
+
+create index if not exists idx_devices_tags on devices using gin(tags);
+
+create table if not exists device_groups (
+  id uuid primary key default uuid_generate_v4(),
+  name text not null unique,
+  description text,
+  kind text not null check (kind in ('static', 'dynamic')),
+  filter jsonb,                          -- Dynamic only: [{ "field": "firmware", "op": "<", "value": "1.4" }, ...], all must match
+  created_by uuid references users(id) on delete set null,
+  created_at timestamp with time zone default now(),
+  check ((kind = 'dynamic') = (filter is not null))
+);
+
+create table if not exists device_group_members (
+  group_id uuid not null references device_groups(id) on delete cascade,
+  device_id text not null references devices(device_id) on delete cascade,
+  added_at timestamp with time zone default now(),
+  primary key (group_id, device_id)
+);
+
+create index if not exists idx_device_group_members_device on device_group_members(device_id);
+
+-- Commands queued together for a group or tag target
+alter table device_commands
+  add column if not exists batch_id uuid,
+  add column if not exists group_id uuid references device_groups(id) on delete set null;
+
+create index if not exists idx_device_commands_batch on device_commands(batch_id)
+  where batch_id is not null;
+
+comment on column devices.tags is 'Free-form lowercase labels, usable as command targets';
+comment on table device_groups is 'Named device sets with static members or a dynamic filter';
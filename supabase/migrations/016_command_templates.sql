@@ -0,0 +1,32 @@
+-- Migration 016: Command templates
+-- Saved command payloads with named {placeholders}. Every change to a
+-- template's command type, payload or parameters is stored as a new version,
+-- and commands record the version they were rendered from.
+
+create table if not exists command_templates (
+  id uuid primary key default uuid_generate_v4(),
+  name text not null unique,
+  description text,
+  current_version integer not null default 1,
+  archived_at timestamp with time zone,  -- Hidden from pickers, kept for command history
+  created_by uuid references users(id) on delete set null,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now()
+);
+
+create table if not exists command_template_versions (
+  template_id uuid not null references command_templates(id) on delete cascade,
+  version integer not null,
+  command_type text not null,
+  payload jsonb not null default '{}'::jsonb,  -- String values may contain {param} placeholders
+  params jsonb not null default '[]'::jsonb,   -- [{ "name": "ip", "label": "DNS server", "type": "ip", "required": true }, ...]
+  created_by uuid references users(id) on delete set null,
+  created_at timestamp with time zone default now(),
+  primary key (template_id, version)
+);
+
+alter table device_commands
+  add column if not exists template_id uuid references command_templates(id) on delete set null,
+  add column if not exists template_version integer;
+
+comment on table command_templates is 'Named, versioned command payloads with parameters';
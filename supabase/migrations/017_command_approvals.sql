@@ -0,0 +1,92 @@
+-- Migration 017: Two-person approval for dangerous commands
+-- Scripts, firmware updates and fleet-wide broadcasts are created as
+-- pending_approval and are only delivered once a second admin approves them.
+-- A rejected command never leaves the server.
+
+alter table device_commands
+  add column if not exists requested_by uuid references users(id) on delete set null,
+  add column if not exists reviewed_by uuid references users(id) on delete set null,
+  add column if not exists reviewed_at timestamp with time zone,
+  add column if not exists review_note text;
+
+alter table device_commands drop constraint if exists device_commands_status_check;
+alter table device_commands add constraint device_commands_status_check
+  check (status in ('pending_approval', 'pending', 'sent', 'acknowledged', 'completed', 'failed', 'expired', 'cancelled', 'rejected'));
+
+-- Index for the approvals queue
+create index if not exists idx_device_commands_pending_approval on device_commands(created_at)
+  where status = 'pending_approval';
+
+-- Same as 012, but the TTL also runs out on commands still awaiting approval
+create or replace function expire_device_commands()
+returns table (
+  command_id uuid,
+  device_id text,
+  command_type text,
+  broadcast boolean,
+  outcome text
+) as $$
+#variable_conflict use_column
+begin
+  -- Pending or unapproved commands (direct or broadcast) whose TTL has passed
+  return query
+  with expired as (
+    update device_commands dc
+    set status = 'expired', completed_at = now()
+    where dc.status in ('pending', 'pending_approval')
+      and dc.expires_at is not null
+      and dc.expires_at < now()
+    returning dc.id, dc.device_id, dc.command_type
+  )
+  select e.id, e.device_id, e.command_type, e.device_id is null, 'expired'::text from expired e;
+
+  -- Direct commands past their deadline with retries left go back in the queue
+  return query
+  with retried as (
+    update device_commands dc
+    set status = 'pending',
+        sent_at = null,
+        acknowledged_at = null,
+        retry_count = dc.retry_count + 1,
+        result = format('No result within %s seconds, retry %s of %s', dc.timeout_seconds, dc.retry_count + 1, dc.max_retries)
+    where dc.device_id is not null
+      and dc.status in ('sent', 'acknowledged')
+      and dc.sent_at < now() - make_interval(secs => dc.timeout_seconds)
+      and dc.retry_count < dc.max_retries
+    returning dc.id, dc.device_id, dc.command_type
+  )
+  select r.id, r.device_id, r.command_type, false, 'retried'::text from retried r;
+
+  -- The rest have failed
+  return query
+  with timed_out as (
+    update device_commands dc
+    set status = 'failed',
+        completed_at = now(),
+        result = format('No result within %s seconds', dc.timeout_seconds)
+    where dc.device_id is not null
+      and dc.status in ('sent', 'acknowledged')
+      and dc.sent_at < now() - make_interval(secs => dc.timeout_seconds)
+    returning dc.id, dc.device_id, dc.command_type
+  )
+  select t.id, t.device_id, t.command_type, false, 'timed_out'::text from timed_out t;
+
+  -- Broadcast deliveries are not retried
+  return query
+  with timed_out as (
+    update command_deliveries cd
+    set status = 'failed',
+        completed_at = now(),
+        result = format('No result within %s seconds', dc.timeout_seconds)
+    from device_commands dc
+    where dc.id = cd.command_id
+      and cd.status in ('sent', 'acknowledged')
+      and cd.sent_at < now() - make_interval(secs => dc.timeout_seconds)
+    returning cd.command_id, cd.device_id, dc.command_type
+  )
+  select t.command_id, t.device_id, t.command_type, true, 'timed_out'::text from timed_out t;
+end;
+$$ language plpgsql;
+
+comment on column device_commands.requested_by is 'Admin who created the command; cannot also approve it';
+comment on column device_commands.reviewed_by is 'Admin who approved or rejected a pending_approval command';
@@ -0,0 +1,164 @@
+-- Migration 018: Metrics rollups and retention
+-- Raw check-in metrics (about one per minute) are kept for a day. They are
+-- rolled up into 5-minute buckets kept for a week, which are rolled up into
+-- hourly buckets kept for a year.
+
+create table if not exists device_metrics_rollups (
+  device_id text not null references devices(device_id) on delete cascade,
+  resolution text not null check (resolution in ('5m', '1h')),
+  bucket timestamp with time zone not null,  -- Start of the bucket
+  samples integer not null,                   -- Raw check-ins covered
+  cpu_load_avg real,
+  cpu_load_max real,
+  temp_celsius_avg real,
+  temp_celsius_max real,
+  mem_used_mb_avg real,
+  mem_used_mb_max integer,
+  mem_total_mb integer,
+  disk_used_mb_max integer,
+  disk_total_mb integer,
+  primary key (device_id, resolution, bucket)
+);
+
+create index if not exists idx_metrics_rollups_bucket on device_metrics_rollups(resolution, bucket);
+
+-- How far each resolution has been rolled up; buckets before this are final
+create table if not exists metrics_rollup_state (
+  resolution text primary key,
+  rolled_up_to timestamp with time zone not null
+);
+
+-- Periodic sweep: roll finished raw metrics into 5-minute buckets and finished
+-- 5-minute buckets into hours, then drop data past its retention. Only data
+-- already rolled up is pruned. Returns the rows written and deleted.
+create or replace function rollup_device_metrics()
+returns table (
+  five_minute_buckets integer,
+  hourly_buckets integer,
+  pruned integer
+) as $$
+declare
+  v_from timestamp with time zone;
+  v_to timestamp with time zone;
+  v_five integer := 0;
+  v_hourly integer := 0;
+  v_pruned integer := 0;
+  v_count integer;
+begin
+  -- Overlapping sweeps would only redo the same work
+  if not pg_try_advisory_xact_lock(hashtext('rollup_device_metrics')) then
+    return query select 0, 0, 0;
+    return;
+  end if;
+
+  -- Raw -> 5 minutes, up to the start of the current bucket
+  v_to := date_bin('5 minutes', now(), timestamp with time zone '2000-01-01');
+  select rolled_up_to into v_from from metrics_rollup_state where resolution = '5m';
+  if v_from is null then
+    select date_bin('5 minutes', min(created_at), timestamp with time zone '2000-01-01') into v_from from device_metrics;
+  end if;
+
+  if v_from is not null and v_from < v_to then
+    insert into device_metrics_rollups (
+      device_id, resolution, bucket, samples,
+      cpu_load_avg, cpu_load_max, temp_celsius_avg, temp_celsius_max,
+      mem_used_mb_avg, mem_used_mb_max, mem_total_mb, disk_used_mb_max, disk_total_mb
+    )
+    select
+      m.device_id, '5m', date_bin('5 minutes', m.created_at, timestamp with time zone '2000-01-01'), count(*),
+      avg(m.cpu_load), max(m.cpu_load), avg(m.temp_celsius), max(m.temp_celsius),
+      avg(m.mem_used_mb), max(m.mem_used_mb), max(m.mem_total_mb), max(m.disk_used_mb), max(m.disk_total_mb)
+    from device_metrics m
+    where m.device_id is not null
+      and m.created_at >= v_from
+      and m.created_at < v_to
+    group by 1, 3
+    on conflict (device_id, resolution, bucket) do update set
+      samples = excluded.samples,
+      cpu_load_avg = excluded.cpu_load_avg,
+      cpu_load_max = excluded.cpu_load_max,
+      temp_celsius_avg = excluded.temp_celsius_avg,
+      temp_celsius_max = excluded.temp_celsius_max,
+      mem_used_mb_avg = excluded.mem_used_mb_avg,
+      mem_used_mb_max = excluded.mem_used_mb_max,
+      mem_total_mb = excluded.mem_total_mb,
+      disk_used_mb_max = excluded.disk_used_mb_max,
+      disk_total_mb = excluded.disk_total_mb;
+    get diagnostics v_five = row_count;
+  end if;
+
+  if v_to is not null then
+    insert into metrics_rollup_state (resolution, rolled_up_to) values ('5m', v_to)
+    on conflict (resolution) do update set rolled_up_to = excluded.rolled_up_to;
+  end if;
+
+  -- 5 minutes -> hourly, up to the start of the current hour. Averages are
+  -- weighted by the check-ins behind each 5-minute bucket.
+  v_to := date_trunc('hour', v_to);
+  select rolled_up_to into v_from from metrics_rollup_state where resolution = '1h';
+  if v_from is null then
+    select date_trunc('hour', min(bucket)) into v_from from device_metrics_rollups where resolution = '5m';
+  end if;
+
+  if v_from is not null and v_from < v_to then
+    insert into device_metrics_rollups (
+      device_id, resolution, bucket, samples,
+      cpu_load_avg, cpu_load_max, temp_celsius_avg, temp_celsius_max,
+      mem_used_mb_avg, mem_used_mb_max, mem_total_mb, disk_used_mb_max, disk_total_mb
+    )
+    select
+      r.device_id, '1h', date_trunc('hour', r.bucket), sum(r.samples),
+      sum(r.cpu_load_avg * r.samples) / nullif(sum(r.samples) filter (where r.cpu_load_avg is not null), 0),
+      max(r.cpu_load_max),
+      sum(r.temp_celsius_avg * r.samples) / nullif(sum(r.samples) filter (where r.temp_celsius_avg is not null), 0),
+      max(r.temp_celsius_max),
+      sum(r.mem_used_mb_avg * r.samples) / nullif(sum(r.samples) filter (where r.mem_used_mb_avg is not null), 0),
+      max(r.mem_used_mb_max), max(r.mem_total_mb), max(r.disk_used_mb_max), max(r.disk_total_mb)
+    from device_metrics_rollups r
+    where r.resolution = '5m'
+      and r.bucket >= v_from
+      and r.bucket < v_to
+    group by 1, 3
+    on conflict (device_id, resolution, bucket) do update set
+      samples = excluded.samples,
+      cpu_load_avg = excluded.cpu_load_avg,
+      cpu_load_max = excluded.cpu_load_max,
+      temp_celsius_avg = excluded.temp_celsius_avg,
+      temp_celsius_max = excluded.temp_celsius_max,
+      mem_used_mb_avg = excluded.mem_used_mb_avg,
+      mem_used_mb_max = excluded.mem_used_mb_max,
+      mem_total_mb = excluded.mem_total_mb,
+      disk_used_mb_max = excluded.disk_used_mb_max,
+      disk_total_mb = excluded.disk_total_mb;
+    get diagnostics v_hourly = row_count;
+
+    insert into metrics_rollup_state (resolution, rolled_up_to) values ('1h', v_to)
+    on conflict (resolution) do update set rolled_up_to = excluded.rolled_up_to;
+  end if;
+
+  -- Retention, never past what the next resolution has absorbed
+  delete from device_metrics
+  where created_at < least(now() - interval '1 day',
+    (select rolled_up_to from metrics_rollup_state where resolution = '5m'));
+  get diagnostics v_count = row_count;
+  v_pruned := v_pruned + v_count;
+
+  delete from device_metrics_rollups
+  where resolution = '5m'
+    and bucket < least(now() - interval '7 days',
+      (select rolled_up_to from metrics_rollup_state where resolution = '1h'));
+  get diagnostics v_count = row_count;
+  v_pruned := v_pruned + v_count;
+
+  delete from device_metrics_rollups
+  where resolution = '1h'
+    and bucket < now() - interval '365 days';
+  get diagnostics v_count = row_count;
+  v_pruned := v_pruned + v_count;
+
+  return query select v_five, v_hourly, v_pruned;
+end;
+$$ language plpgsql;
+
+comment on table device_metrics_rollups is 'Downsampled device metrics: 5-minute buckets for a week, hourly for a year';
+comment on function rollup_device_metrics is 'Roll up and prune device metrics; run from the periodic sweep';
@@ -0,0 +1,177 @@
+-- Migration 019: Metrics charts
+-- WiFi signal is recorded with each check-in's metrics and rolled up with
+-- them, and block events can be summed into buckets matching the metrics
+-- resolutions for the device page charts.
+
+alter table device_metrics
+  add column if not exists wifi_signal integer;  -- dBm
+
+alter table device_metrics_rollups
+  add column if not exists wifi_signal_avg real,
+  add column if not exists wifi_signal_min integer;  -- Weakest signal in the bucket
+
+-- Same as 018, plus the WiFi signal columns
+create or replace function rollup_device_metrics()
+returns table (
+  five_minute_buckets integer,
+  hourly_buckets integer,
+  pruned integer
+) as $$
+declare
+  v_from timestamp with time zone;
+  v_to timestamp with time zone;
+  v_five integer := 0;
+  v_hourly integer := 0;
+  v_pruned integer := 0;
+  v_count integer;
+begin
+  -- Overlapping sweeps would only redo the same work
+  if not pg_try_advisory_xact_lock(hashtext('rollup_device_metrics')) then
+    return query select 0, 0, 0;
+    return;
+  end if;
+
+  -- Raw -> 5 minutes, up to the start of the current bucket
+  v_to := date_bin('5 minutes', now(), timestamp with time zone '2000-01-01');
+  select rolled_up_to into v_from from metrics_rollup_state where resolution = '5m';
+  if v_from is null then
+    select date_bin('5 minutes', min(created_at), timestamp with time zone '2000-01-01') into v_from from device_metrics;
+  end if;
+
+  if v_from is not null and v_from < v_to then
+    insert into device_metrics_rollups (
+      device_id, resolution, bucket, samples,
+      cpu_load_avg, cpu_load_max, temp_celsius_avg, temp_celsius_max,
+      mem_used_mb_avg, mem_used_mb_max, mem_total_mb, disk_used_mb_max, disk_total_mb,
+      wifi_signal_avg, wifi_signal_min
+    )
+    select
+      m.device_id, '5m', date_bin('5 minutes', m.created_at, timestamp with time zone '2000-01-01'), count(*),
+      avg(m.cpu_load), max(m.cpu_load), avg(m.temp_celsius), max(m.temp_celsius),
+      avg(m.mem_used_mb), max(m.mem_used_mb), max(m.mem_total_mb), max(m.disk_used_mb), max(m.disk_total_mb),
+      avg(m.wifi_signal), min(m.wifi_signal)
+    from device_metrics m
+    where m.device_id is not null
+      and m.created_at >= v_from
+      and m.created_at < v_to
+    group by 1, 3
+    on conflict (device_id, resolution, bucket) do update set
+      samples = excluded.samples,
+      cpu_load_avg = excluded.cpu_load_avg,
+      cpu_load_max = excluded.cpu_load_max,
+      temp_celsius_avg = excluded.temp_celsius_avg,
+      temp_celsius_max = excluded.temp_celsius_max,
+      mem_used_mb_avg = excluded.mem_used_mb_avg,
+      mem_used_mb_max = excluded.mem_used_mb_max,
+      mem_total_mb = excluded.mem_total_mb,
+      disk_used_mb_max = excluded.disk_used_mb_max,
+      disk_total_mb = excluded.disk_total_mb,
+      wifi_signal_avg = excluded.wifi_signal_avg,
+      wifi_signal_min = excluded.wifi_signal_min;
+    get diagnostics v_five = row_count;
+  end if;
+
+  if v_to is not null then
+    insert into metrics_rollup_state (resolution, rolled_up_to) values ('5m', v_to)
+    on conflict (resolution) do update set rolled_up_to = excluded.rolled_up_to;
+  end if;
+
+  -- 5 minutes -> hourly, up to the start of the current hour. Averages are
+  -- weighted by the check-ins behind each 5-minute bucket.
+  v_to := date_trunc('hour', v_to);
+  select rolled_up_to into v_from from metrics_rollup_state where resolution = '1h';
+  if v_from is null then
+    select date_trunc('hour', min(bucket)) into v_from from device_metrics_rollups where resolution = '5m';
+  end if;
+
+  if v_from is not null and v_from < v_to then
+    insert into device_metrics_rollups (
+      device_id, resolution, bucket, samples,
+      cpu_load_avg, cpu_load_max, temp_celsius_avg, temp_celsius_max,
+      mem_used_mb_avg, mem_used_mb_max, mem_total_mb, disk_used_mb_max, disk_total_mb,
+      wifi_signal_avg, wifi_signal_min
+    )
+    select
+      r.device_id, '1h', date_trunc('hour', r.bucket), sum(r.samples),
+      sum(r.cpu_load_avg * r.samples) / nullif(sum(r.samples) filter (where r.cpu_load_avg is not null), 0),
+      max(r.cpu_load_max),
+      sum(r.temp_celsius_avg * r.samples) / nullif(sum(r.samples) filter (where r.temp_celsius_avg is not null), 0),
+      max(r.temp_celsius_max),
+      sum(r.mem_used_mb_avg * r.samples) / nullif(sum(r.samples) filter (where r.mem_used_mb_avg is not null), 0),
+      max(r.mem_used_mb_max), max(r.mem_total_mb), max(r.disk_used_mb_max), max(r.disk_total_mb),
+      sum(r.wifi_signal_avg * r.samples) / nullif(sum(r.samples) filter (where r.wifi_signal_avg is not null), 0),
+      min(r.wifi_signal_min)
+    from device_metrics_rollups r
+    where r.resolution = '5m'
+      and r.bucket >= v_from
+      and r.bucket < v_to
+    group by 1, 3
+    on conflict (device_id, resolution, bucket) do update set
+      samples = excluded.samples,
+      cpu_load_avg = excluded.cpu_load_avg,
+      cpu_load_max = excluded.cpu_load_max,
+      temp_celsius_avg = excluded.temp_celsius_avg,
+      temp_celsius_max = excluded.temp_celsius_max,
+      mem_used_mb_avg = excluded.mem_used_mb_avg,
+      mem_used_mb_max = excluded.mem_used_mb_max,
+      mem_total_mb = excluded.mem_total_mb,
+      disk_used_mb_max = excluded.disk_used_mb_max,
+      disk_total_mb = excluded.disk_total_mb,
+      wifi_signal_avg = excluded.wifi_signal_avg,
+      wifi_signal_min = excluded.wifi_signal_min;
+    get diagnostics v_hourly = row_count;
+
+    insert into metrics_rollup_state (resolution, rolled_up_to) values ('1h', v_to)
+    on conflict (resolution) do update set rolled_up_to = excluded.rolled_up_to;
+  end if;
+
+  -- Retention, never past what the next resolution has absorbed
+  delete from device_metrics
+  where created_at < least(now() - interval '1 day',
+    (select rolled_up_to from metrics_rollup_state where resolution = '5m'));
+  get diagnostics v_count = row_count;
+  v_pruned := v_pruned + v_count;
+
+  delete from device_metrics_rollups
+  where resolution = '5m'
+    and bucket < least(now() - interval '7 days',
+      (select rolled_up_to from metrics_rollup_state where resolution = '1h'));
+  get diagnostics v_count = row_count;
+  v_pruned := v_pruned + v_count;
+
+  delete from device_metrics_rollups
+  where resolution = '1h'
+    and bucket < now() - interval '365 days';
+  get diagnostics v_count = row_count;
+  v_pruned := v_pruned + v_count;
+
+  return query select v_five, v_hourly, v_pruned;
+end;
+$$ language plpgsql;
+
+-- Blocks per bucket for one device, oldest first. Buckets without any
+-- block events are left out.
+create or replace function device_block_buckets(
+  p_device_id text,
+  p_from timestamp with time zone,
+  p_to timestamp with time zone,
+  p_bucket_seconds integer
+)
+returns table (
+  bucket timestamp with time zone,
+  inbound bigint,
+  outbound bigint
+) as $$
+  select
+    date_bin(make_interval(secs => p_bucket_seconds), e.created_at, timestamp with time zone '2000-01-01') as bucket,
+    sum(e.delta_inbound)::bigint,
+    sum(e.delta_outbound)::bigint
+  from block_events e
+  where e.device_id = p_device_id
+    and e.created_at >= p_from
+    and e.created_at < p_to
+  group by 1
+  order by 1;
+$$ language sql stable;
+
+comment on function device_block_buckets is 'Block event deltas summed per bucket, for metrics charts';
@@ -0,0 +1,130 @@
+-- Migration 020: Fleet analytics
+-- Block totals over any window (hourly_blocks only covers the last 24 hours),
+-- per-device block rates, and a history of how much of the fleet was online.
+
+-- Fleet status every 5 minutes, recorded by the periodic sweep and kept a year
+create table if not exists fleet_status_history (
+  bucket timestamp with time zone primary key,
+  total_devices integer not null,
+  online_devices integer not null,
+  warning_devices integer not null
+);
+
+create or replace function record_fleet_status()
+returns void as $$
+begin
+  insert into fleet_status_history (bucket, total_devices, online_devices, warning_devices)
+  select
+    date_bin('5 minutes', now(), timestamp with time zone '2000-01-01'),
+    count(*),
+    count(*) filter (where status = 'online'),
+    count(*) filter (where status = 'warning')
+  from devices
+  on conflict (bucket) do update set
+    total_devices = excluded.total_devices,
+    online_devices = excluded.online_devices,
+    warning_devices = excluded.warning_devices;
+
+  delete from fleet_status_history where bucket < now() - interval '365 days';
+end;
+$$ language plpgsql;
+
+-- Fleet-wide blocks per bucket, oldest first
+create or replace function fleet_block_buckets(
+  p_from timestamp with time zone,
+  p_to timestamp with time zone,
+  p_bucket_seconds integer
+)
+returns table (
+  bucket timestamp with time zone,
+  inbound bigint,
+  outbound bigint
+) as $$
+  select
+    date_bin(make_interval(secs => p_bucket_seconds), e.created_at, timestamp with time zone '2000-01-01') as bucket,
+    sum(e.delta_inbound)::bigint,
+    sum(e.delta_outbound)::bigint
+  from block_events e
+  where e.created_at >= p_from
+    and e.created_at < p_to
+  group by 1
+  order by 1;
+$$ language sql stable;
+
+-- Online and total devices per bucket, averaged over the 5-minute samples
+create or replace function fleet_status_buckets(
+  p_from timestamp with time zone,
+  p_to timestamp with time zone,
+  p_bucket_seconds integer
+)
+returns table (
+  bucket timestamp with time zone,
+  total_devices real,
+  online_devices real
+) as $$
+  select
+    date_bin(make_interval(secs => p_bucket_seconds), h.bucket, timestamp with time zone '2000-01-01') as bucket,
+    avg(h.total_devices)::real,
+    avg(h.online_devices)::real
+  from fleet_status_history h
+  where h.bucket >= p_from
+    and h.bucket < p_to
+  group by 1
+  order by 1;
+$$ language sql stable;
+
+-- Devices with the most blocks over a window, ordered by total or by rate.
+-- The rate divides by the hours the device reported metrics in the window
+-- (from the hourly rollups), so devices that were off for part of it compare
+-- fairly; devices with no reporting hours have no rate.
+create or replace function top_blocking_devices(
+  p_from timestamp with time zone,
+  p_to timestamp with time zone,
+  p_order text,
+  p_limit integer
+)
+returns table (
+  device_id text,
+  name text,
+  inbound bigint,
+  outbound bigint,
+  reporting_hours integer
+) as $$
+  with blocks as (
+    select e.device_id, sum(e.delta_inbound)::bigint as inbound, sum(e.delta_outbound)::bigint as outbound
+    from block_events e
+    where e.created_at >= p_from
+      and e.created_at < p_to
+    group by e.device_id
+  ),
+  hours as (
+    select r.device_id, count(*)::integer as reporting_hours
+    from device_metrics_rollups r
+    where r.resolution = '1h'
+      and r.bucket >= date_trunc('hour', p_from)
+      and r.bucket < p_to
+    group by r.device_id
+  )
+  select b.device_id, d.name, b.inbound, b.outbound, coalesce(h.reporting_hours, 0)
+  from blocks b
+  left join devices d on d.device_id = b.device_id
+  left join hours h on h.device_id = b.device_id
+  where p_order = 'total' or h.reporting_hours > 0
+  order by
+    case when p_order = 'rate' then (b.inbound + b.outbound)::real / h.reporting_hours
+         else (b.inbound + b.outbound)::real end desc
+  limit p_limit;
+$$ language sql stable;
+
+-- Devices per firmware version
+create or replace view firmware_distribution as
+select
+  coalesce(firmware, 'unknown') as firmware,
+  count(*) as devices,
+  count(*) filter (where status = 'online') as online_devices
+from devices
+group by 1
+order by 2 desc;
+
+comment on table fleet_status_history is 'Device counts by status every 5 minutes, for the online ratio chart';
+comment on function top_blocking_devices is 'Devices ranked by blocks or block rate over a window, for fleet analytics';
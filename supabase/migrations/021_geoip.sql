@@ -0,0 +1,10 @@
+-- Migration 021: Offline GeoIP
+-- Devices are located from local GeoIP databases instead of ip-api.com, which
+-- also give the country code and the network the device is on.
+
+alter table devices
+  add column if not exists public_country_code text,  -- ISO 3166-1 alpha-2
+  add column if not exists public_asn integer,
+  add column if not exists public_isp text;
+
+create index if not exists idx_devices_public_country_code on devices(public_country_code);
@@ -0,0 +1,38 @@
+-- Migration 022: Public IP and location history
+-- Each row is a stretch of check-ins from one public IP. A check-in extends
+-- the interval for its IP if that IP was seen in the last few minutes, and
+-- opens a new one otherwise, so a device moving networks leaves a trail of
+-- intervals and a device ID used from two places at once leaves two
+-- overlapping ones.
+
+create table if not exists device_network_history (
+  id uuid primary key default uuid_generate_v4(),
+  device_id text not null references devices(device_id) on delete cascade,
+  public_ip text not null,
+  asn integer,
+  isp text,
+  city text,
+  country text,
+  country_code text,
+  first_seen timestamp with time zone not null default now(),
+  last_seen timestamp with time zone not null default now(),
+  checkins integer not null default 1
+);
+
+create index if not exists idx_device_network_history_device
+  on device_network_history(device_id, last_seen desc);
+
+-- Network rules for alert_rules
+alter table alert_rules drop constraint if exists alert_rules_rule_type_check;
+alter table alert_rules add constraint alert_rules_rule_type_check
+  check (rule_type in (
+    'offline',            -- No check-in for more than threshold minutes
+    'temperature',        -- tempCelsius above threshold
+    'disk_usage',         -- Disk usage above threshold percent
+    'block_spike',        -- Blocks in one check-in above threshold x the 24h average
+    'firmware_mismatch',  -- Firmware differs from expected_firmware
+    'relocation',         -- Country changed within threshold hours of the last check-in elsewhere
+    'ip_conflict'         -- Checking in from two public IPs at once within the last threshold minutes
+  ));
+
+comment on table device_network_history is 'Per-device public IP, network and location intervals';
@@ -0,0 +1,163 @@
+-- Migration 023: Device status history and availability
+-- Every change of devices.status is logged by a trigger with its cause, so
+-- availability and downtime incidents can be computed for any window.
+-- Whatever changes the status sets status_reason alongside it to give the
+-- cause: check-ins set 'checkin' and mark_offline_devices 'missed_checkins'.
+
+alter table devices
+  add column if not exists status_reason text;
+
+create table if not exists device_status_history (
+  id uuid primary key default uuid_generate_v4(),
+  device_id text not null references devices(device_id) on delete cascade,
+  from_status text,                      -- Null for the first entry
+  to_status text not null check (to_status in ('online', 'offline', 'warning')),
+  cause text not null,                   -- checkin, missed_checkins, registered, baseline, manual, ...
+  changed_at timestamp with time zone not null default now(),  -- When the device changed state
+  recorded_at timestamp with time zone not null default now()  -- When the change was noticed
+);
+
+create index if not exists idx_device_status_history_device
+  on device_status_history(device_id, changed_at);
+create index if not exists idx_device_status_history_changed
+  on device_status_history(changed_at);
+
+create or replace function record_device_status_change()
+returns trigger as $$
+declare
+  v_cause text;
+  v_changed_at timestamp with time zone := now();
+  v_previous timestamp with time zone;
+begin
+  if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    v_cause := coalesce(new.status_reason, 'registered');
+  elsif new.status_reason is distinct from old.status_reason then
+    v_cause := coalesce(new.status_reason, 'manual');
+  else
+    -- Status changed without saying why
+    v_cause := 'manual';
+  end if;
+
+  -- A device that missed its check-ins went down after the last one, not
+  -- when the sweep noticed, but never before its previous change
+  if new.status = 'offline' and new.last_seen is not null then
+    select max(changed_at) into v_previous
+    from device_status_history
+    where device_id = new.device_id;
+
+    v_changed_at := greatest(least(new.last_seen, now()), coalesce(v_previous, new.last_seen));
+  end if;
+
+  insert into device_status_history (device_id, from_status, to_status, cause, changed_at)
+  values (
+    new.device_id,
+    case when tg_op = 'UPDATE' then old.status end,
+    new.status,
+    v_cause,
+    v_changed_at
+  );
+
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists devices_status_history on devices;
+create trigger devices_status_history
+  after insert or update of status on devices
+  for each row execute function record_device_status_change();
+
+-- Same as schema.sql, plus the cause for the status history
+create or replace function mark_offline_devices()
+returns void as $$
+begin
+  update devices
+  set status = 'offline',
+      status_reason = 'missed_checkins'
+  where last_seen < now() - interval '3 minutes'
+    and status != 'offline';
+end;
+$$ language plpgsql;
+
+-- Start every existing device's history from its current status
+insert into device_status_history (device_id, from_status, to_status, cause, changed_at)
+select d.device_id, null, d.status, 'baseline', now()
+from devices d
+where d.status is not null
+  and not exists (select 1 from device_status_history h where h.device_id = d.device_id);
+
+-- Time each device spent in each status within a window. Time before a
+-- device's first history entry isn't observed and doesn't count either way.
+create or replace function device_availability(
+  p_from timestamp with time zone,
+  p_to timestamp with time zone,
+  p_device_id text default null
+)
+returns table (
+  device_id text,
+  observed_seconds double precision,
+  offline_seconds double precision,
+  warning_seconds double precision,
+  incidents integer
+) as $$
+  with segments as (
+    select
+      h.device_id,
+      h.to_status,
+      greatest(h.changed_at, p_from) as seg_start,
+      least(coalesce(lead(h.changed_at) over w, now()), p_to) as seg_end
+    from device_status_history h
+    where h.changed_at < p_to
+      and (p_device_id is null or h.device_id = p_device_id)
+    window w as (partition by h.device_id order by h.changed_at, h.recorded_at)
+  )
+  select
+    s.device_id,
+    sum(extract(epoch from s.seg_end - s.seg_start))::double precision,
+    coalesce(sum(extract(epoch from s.seg_end - s.seg_start)) filter (where s.to_status = 'offline'), 0)::double precision,
+    coalesce(sum(extract(epoch from s.seg_end - s.seg_start)) filter (where s.to_status = 'warning'), 0)::double precision,
+    (count(*) filter (where s.to_status = 'offline'))::integer
+  from segments s
+  where s.seg_end > s.seg_start
+  group by s.device_id;
+$$ language sql stable;
+
+-- Offline periods overlapping a window, newest first. ended_at is null while
+-- the device is still offline; resolved_by is the cause of the change that
+-- brought it back.
+create or replace function device_downtime_incidents(
+  p_from timestamp with time zone,
+  p_to timestamp with time zone,
+  p_device_id text default null
+)
+returns table (
+  device_id text,
+  started_at timestamp with time zone,
+  ended_at timestamp with time zone,
+  cause text,
+  resolved_by text
+) as $$
+  select s.device_id, s.started_at, s.ended_at, s.cause, s.resolved_by
+  from (
+    select
+      h.device_id,
+      h.to_status,
+      h.changed_at as started_at,
+      lead(h.changed_at) over w as ended_at,
+      h.cause,
+      lead(h.cause) over w as resolved_by
+    from device_status_history h
+    where h.changed_at < p_to
+      and (p_device_id is null or h.device_id = p_device_id)
+    window w as (partition by h.device_id order by h.changed_at, h.recorded_at)
+  ) s
+  where s.to_status = 'offline'
+    and coalesce(s.ended_at, now()) > p_from
+  order by s.started_at desc;
+$$ language sql stable;
+
+comment on table device_status_history is 'Device status transitions with their cause, for availability reporting';
+comment on column devices.status_reason is 'Cause of the last status change, recorded in device_status_history';
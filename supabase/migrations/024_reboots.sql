@@ -0,0 +1,23 @@
+-- Migration 024: Reboot detection
+-- Check-ins compare the boot time implied by the reported uptime with the
+-- previous one. A later boot time means the device rebooted in between, which
+-- is recorded here and sets devices.last_reboot. A reboot is commanded if a
+-- reboot or firmware update command was handed to the device before it.
+-- Crash loops show on the device status as a 'crash_loop' warning, so they
+-- land in device_status_history like any other change.
+
+create table if not exists device_reboots (
+  id uuid primary key default uuid_generate_v4(),
+  device_id text not null references devices(device_id) on delete cascade,
+  rebooted_at timestamp with time zone not null,  -- Estimated from the reported uptime
+  detected_at timestamp with time zone not null default now(),
+  previous_uptime bigint,                          -- Seconds, at the last check-in before the reboot
+  uptime bigint not null,                          -- Seconds, at the check-in that noticed it
+  kind text not null check (kind in ('commanded', 'unexpected')),
+  command_id uuid references device_commands(id) on delete set null
+);
+
+create index if not exists idx_device_reboots_device
+  on device_reboots(device_id, rebooted_at desc);
+
+comment on table device_reboots is 'Device reboots detected from reported uptime, commanded or unexpected';
@@ -0,0 +1,8 @@
+-- Migration 025: Hold queued rollout commands while a campaign is paused
+-- Pausing a firmware campaign moves the update commands its devices haven't
+-- received yet to 'held', so they aren't handed out at the next check-in.
+-- Resuming puts them back in the queue.
+
+alter table device_commands drop constraint if exists device_commands_status_check;
+alter table device_commands add constraint device_commands_status_check
+  check (status in ('pending_approval', 'pending', 'held', 'sent', 'acknowledged', 'completed', 'failed', 'expired', 'cancelled', 'rejected'));
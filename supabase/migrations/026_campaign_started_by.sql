@@ -0,0 +1,9 @@
+-- Migration 026: Rollout waves go through command approval
+-- Each wave's update_firmware commands are queued as pending_approval under
+-- one batch, requested by the admin who started the campaign (or the wave),
+-- so a second admin has to approve every wave before it reaches devices.
+
+alter table firmware_campaigns
+  add column if not exists started_by uuid references users(id) on delete set null;
+
+comment on column firmware_campaigns.started_by is 'Admin who started the campaign; requester of automatically advanced waves';
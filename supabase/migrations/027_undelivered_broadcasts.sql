@@ -0,0 +1,39 @@
+-- Migration 027: Find a device's undelivered broadcasts in SQL
+-- Broadcasts without a TTL stay 'pending' indefinitely, so the check-in has to
+-- skip the ones a device already received before applying its limit.
+-- Otherwise the oldest delivered broadcasts fill the limit and newer ones
+-- never reach any device.
+
+create or replace function get_undelivered_broadcasts(
+  p_device_id text,
+  p_since timestamp with time zone,
+  p_now timestamp with time zone default now(),
+  p_limit integer default 10
+)
+returns table (
+  id uuid,
+  command_type text,
+  payload jsonb,
+  created_at timestamp with time zone
+) as $$
+begin
+  -- Broadcasts target the devices that existed when they were created
+  return query
+  select dc.id, dc.command_type, dc.payload, dc.created_at
+  from device_commands dc
+  where dc.device_id is null
+    and dc.status = 'pending'
+    and (dc.expires_at is null or dc.expires_at > p_now)
+    and dc.created_at >= p_since
+    and not exists (
+      select 1 from command_deliveries cd
+      where cd.command_id = dc.id and cd.device_id = p_device_id
+    )
+  order by dc.created_at asc
+  limit p_limit;
+end;
+$$ language plpgsql;
+
+-- Index for the open-broadcast scan
+create index if not exists idx_device_commands_open_broadcasts on device_commands(created_at)
+  where device_id is null and status = 'pending';
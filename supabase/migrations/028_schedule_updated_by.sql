@@ -0,0 +1,8 @@
+-- Migration 028: Remember who last edited a schedule
+-- Commands a schedule queues are requested by whoever last edited it, so an
+-- admin who changes another admin's schedule can't approve the result.
+
+alter table command_schedules
+  add column if not exists updated_by uuid references users(id) on delete set null;
+
+comment on column command_schedules.updated_by is 'Admin who last edited the schedule; requester of the commands it queues';
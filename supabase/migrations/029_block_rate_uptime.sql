@@ -0,0 +1,50 @@
+-- Migration 029: Block rate per hour online
+-- top_blocking_devices divided a device's blocks by the hours it had a metrics
+-- rollup, which leaves out devices that don't report metrics and undercounts
+-- the time of those that report them intermittently. The rate now divides by
+-- the time the status history (migration 023) shows the device up, online or
+-- warning, within the window.
+
+-- The result columns change, so the function is recreated
+drop function if exists top_blocking_devices(timestamp with time zone, timestamp with time zone, text, integer);
+
+-- Devices with the most blocks over a window, ordered by total or by rate.
+-- The rate divides by the hours the device was up in the window, so devices
+-- that were down for part of it compare fairly. Devices up for less than an
+-- hour, or with no status history in the window, have no rate.
+create or replace function top_blocking_devices(
+  p_from timestamp with time zone,
+  p_to timestamp with time zone,
+  p_order text,
+  p_limit integer
+)
+returns table (
+  device_id text,
+  name text,
+  inbound bigint,
+  outbound bigint,
+  online_hours double precision
+) as $$
+  with blocks as (
+    select e.device_id, sum(e.delta_inbound)::bigint as inbound, sum(e.delta_outbound)::bigint as outbound
+    from block_events e
+    where e.created_at >= p_from
+      and e.created_at < p_to
+    group by e.device_id
+  ),
+  uptime as (
+    select a.device_id, (a.observed_seconds - a.offline_seconds) / 3600 as online_hours
+    from device_availability(p_from, p_to) a
+  )
+  select b.device_id, d.name, b.inbound, b.outbound, coalesce(u.online_hours, 0)
+  from blocks b
+  left join devices d on d.device_id = b.device_id
+  left join uptime u on u.device_id = b.device_id
+  where p_order = 'total' or u.online_hours >= 1
+  order by
+    case when p_order = 'rate' then (b.inbound + b.outbound) / u.online_hours
+         else (b.inbound + b.outbound)::double precision end desc
+  limit p_limit;
+$$ language sql stable;
+
+comment on function top_blocking_devices is 'Devices ranked by blocks or by blocks per hour online over a window, for fleet analytics';
@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ADMIN_ID, request, type CallerKind } from "../callers";
+import { mockTable, resetTables } from "../supabase-mock";
+import { DELETE, GET } from "@/app/api/devices/[deviceId]/route";
+
+vi.mock("@/lib/supabase", () => import("../supabase-mock"));
+
+const params = { params: Promise.resolve({ deviceId: "dev-1" }) };
+
+describe("/api/devices/[deviceId]", () => {
+  beforeEach(() => {
+    resetTables();
+    mockTable("devices", {
+      data: [{ device_id: "dev-1", name: "Office", firmware: "1.4", status: "online", customer_user_id: null, public_ip: null }],
+    });
+  });
+
+  it("returns the device to an admin", async () => {
+    const res = await GET(await request("admin", "/api/devices/dev-1"), params);
+    expect(res.status).toBe(200);
+  });
+
+  it("deletes the device for an admin with devices:write", async () => {
+    const res = await DELETE(await request("admin", "/api/devices/dev-1", { method: "DELETE" }), params);
+    expect(res.status).toBe(200);
+  });
+
+  it("refuses DELETE to a read-only admin", async () => {
+    const res = await DELETE(await request("admin", "/api/devices/dev-1", { method: "DELETE", role: "support" }), params);
+    expect(res.status).toBe(403);
+  });
+
+  it("applies a role change without waiting for the session to expire", async () => {
+    const req = await request("admin", "/api/devices/dev-1", { method: "DELETE", role: "operator" });
+    mockTable("users", { data: [{ id: ADMIN_ID, role: "support" }] });
+
+    const res = await DELETE(req, params);
+    expect(res.status).toBe(403);
+  });
+
+  it.each<[CallerKind, number]>([
+    ["customer", 403],
+    ["device", 403],
+    ["anonymous", 401],
+  ])("rejects GET and DELETE from a %s caller", async (kind, status) => {
+    const get = await GET(await request(kind, "/api/devices/dev-1"), params);
+    expect(get.status).toBe(status);
+
+    const del = await DELETE(await request(kind, "/api/devices/dev-1", { method: "DELETE" }), params);
+    expect(del.status).toBe(status);
+  });
+});
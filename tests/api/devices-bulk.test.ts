@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { request, type CallerKind } from "../callers";
+import { mockTable, recordedQueries, resetTables, tableRows } from "../supabase-mock";
+import { POST } from "@/app/api/devices/bulk/route";
+
+vi.mock("@/lib/supabase", () => import("../supabase-mock"));
+
+const fleet = Array.from({ length: 10 }, (_, i) => ({
+  device_id: `dev-${i + 1}`,
+  name: `Device ${i + 1}`,
+  tags: [],
+  customer_user_id: null,
+}));
+
+describe("POST /api/devices/bulk", () => {
+  beforeEach(() => {
+    resetTables();
+    mockTable("devices", { data: fleet });
+  });
+
+  it("holds a reboot of the whole fleet for approval", async () => {
+    const res = await POST(await request("admin", "/api/devices/bulk", {
+      method: "POST",
+      body: { action: "reboot", deviceIds: fleet.map((d) => d.device_id) },
+    }));
+    expect(res.status).toBe(200);
+    expect((await res.json()).approvalRequired).toBe(true);
+    expect(new Set(tableRows("device_commands").map((c) => c.status))).toEqual(new Set(["pending_approval"]));
+  });
+
+  it("queues a reboot of a few devices without approval", async () => {
+    const res = await POST(await request("admin", "/api/devices/bulk", {
+      method: "POST",
+      body: { action: "reboot", deviceIds: ["dev-1", "dev-2"] },
+    }));
+    expect(res.status).toBe(200);
+    expect((await res.json()).approvalRequired).toBe(false);
+    expect(tableRows("device_commands").map((c) => c.status)).toEqual(["pending", "pending"]);
+  });
+
+  it("refuses a bulk reboot to an admin without commands:send", async () => {
+    const res = await POST(await request("admin", "/api/devices/bulk", {
+      method: "POST",
+      role: "support",
+      body: { action: "reboot", deviceIds: ["dev-1"] },
+    }));
+    expect(res.status).toBe(403);
+    expect(tableRows("device_commands")).toEqual([]);
+  });
+
+  it.each<[CallerKind, number]>([
+    ["customer", 403],
+    ["device", 403],
+    ["anonymous", 401],
+  ])("rejects a %s caller before reading the body", async (kind, status) => {
+    const malformed = await POST(await request(kind, "/api/devices/bulk", { method: "POST", rawBody: "{" }));
+    expect(malformed.status).toBe(status);
+
+    const reboot = await POST(await request(kind, "/api/devices/bulk", {
+      method: "POST",
+      body: { action: "reboot", deviceIds: ["dev-1"] },
+    }));
+    expect(reboot.status).toBe(status);
+    expect(recordedQueries("devices")).toHaveLength(0);
+  });
+});
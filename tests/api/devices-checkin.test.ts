@@ -0,0 +1,32 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { request } from "../callers";
+import { mockTable, resetTables } from "../supabase-mock";
+import { GET } from "@/app/api/devices/checkin/route";
+
+vi.mock("@/lib/supabase", () => import("../supabase-mock"));
+
+describe("GET /api/devices/checkin", () => {
+  beforeEach(() => resetTables());
+
+  it("lists devices for an admin", async () => {
+    mockTable("devices", { data: [{ device_id: "dev-1", name: "Office", status: "online", last_seen: "2026-01-01T00:00:00Z" }] });
+
+    const res = await GET(await request("admin", "/api/devices/checkin"));
+    expect(res.status).toBe(200);
+  });
+
+  it("rejects a customer bearer token", async () => {
+    const res = await GET(await request("customer", "/api/devices/checkin"));
+    expect(res.status).toBe(403);
+  });
+
+  it("rejects a device key", async () => {
+    const res = await GET(await request("device", "/api/devices/checkin"));
+    expect(res.status).toBe(403);
+  });
+
+  it("rejects an anonymous caller", async () => {
+    const res = await GET(await request("anonymous", "/api/devices/checkin"));
+    expect(res.status).toBe(401);
+  });
+});
@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { request, type CallerKind } from "../callers";
+import { mockTable, recordedQueries, resetTables, tableRows } from "../supabase-mock";
+import { PATCH } from "@/app/api/devices/commands/[commandId]/route";
+
+vi.mock("@/lib/supabase", () => import("../supabase-mock"));
+
+const paramsFor = (commandId: string) => ({ params: Promise.resolve({ commandId }) });
+
+function command(id: string, type: string, status: string) {
+  return { id, device_id: "dev-1", command_type: type, status, batch_id: null, requested_by: null };
+}
+
+describe("PATCH /api/devices/commands/[commandId]", () => {
+  beforeEach(() => {
+    resetTables();
+    mockTable("device_commands", {
+      data: [command("cmd-reboot", "reboot", "pending"), command("cmd-exec", "exec", "pending_approval")],
+    });
+  });
+
+  it("cancels a pending command for an admin", async () => {
+    const res = await PATCH(
+      await request("admin", "/api/devices/commands/cmd-reboot", { method: "PATCH", body: { action: "cancel" } }),
+      paramsFor("cmd-reboot")
+    );
+    expect(res.status).toBe(200);
+    expect(tableRows("device_commands")[0].status).toBe("cancelled");
+  });
+
+  it("refuses to review a script for an admin without commands:exec", async () => {
+    const res = await PATCH(
+      await request("admin", "/api/devices/commands/cmd-exec", { method: "PATCH", role: "support", body: { action: "approve" } }),
+      paramsFor("cmd-exec")
+    );
+    expect(res.status).toBe(403);
+    expect(tableRows("device_commands")[1].status).toBe("pending_approval");
+  });
+
+  it.each<[CallerKind, number]>([
+    ["customer", 403],
+    ["device", 403],
+    ["anonymous", 401],
+  ])("rejects a %s caller before reading the body or the command", async (kind, status) => {
+    const malformed = await PATCH(
+      await request(kind, "/api/devices/commands/cmd-reboot", { method: "PATCH", rawBody: "{" }),
+      paramsFor("cmd-reboot")
+    );
+    expect(malformed.status).toBe(status);
+
+    const missing = await PATCH(
+      await request(kind, "/api/devices/commands/missing", { method: "PATCH", body: { action: "cancel" } }),
+      paramsFor("missing")
+    );
+    expect(missing.status).toBe(status);
+
+    expect(recordedQueries("device_commands")).toHaveLength(0);
+  });
+});
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { request, type CallerKind } from "../callers";
+import { mockTable, resetTables, tableRows } from "../supabase-mock";
+import { GET, POST } from "@/app/api/devices/commands/route";
+
+vi.mock("@/lib/supabase", () => import("../supabase-mock"));
+
+const reboot = { type: "reboot", deviceId: "dev-1" };
+
+describe("/api/devices/commands", () => {
+  beforeEach(() => {
+    resetTables();
+    mockTable("devices", { data: [{ device_id: "dev-1" }] });
+    mockTable("device_commands", {
+      data: [{
+        id: "cmd-1",
+        command_type: "reboot",
+        device_id: "dev-1",
+        payload: {},
+        status: "pending",
+        created_at: "2026-01-01T00:00:00Z",
+        expires_at: null,
+        timeout_seconds: 600,
+        max_retries: 0,
+        batch_id: null,
+        template_id: null,
+        template_version: null,
+        requested_by: null,
+      }],
+    });
+  });
+
+  it("lists commands for an admin", async () => {
+    const res = await GET(await request("admin", "/api/devices/commands"));
+    expect(res.status).toBe(200);
+  });
+
+  it("queues a command for an admin", async () => {
+    const res = await POST(await request("admin", "/api/devices/commands", { method: "POST", body: reboot }));
+    expect(res.status).toBe(200);
+  });
+
+  it("refuses a script to an admin without commands:exec", async () => {
+    const res = await POST(await request("admin", "/api/devices/commands", {
+      method: "POST",
+      role: "support",
+      body: { type: "exec", deviceId: "dev-1", payload: { script: "uptime" } },
+    }));
+    expect(res.status).toBe(403);
+  });
+
+  it("holds a reboot to a tag covering most of the fleet for approval", async () => {
+    mockTable("devices", {
+      data: [
+        { device_id: "dev-1", tags: ["lab"] },
+        { device_id: "dev-2", tags: ["lab"] },
+        { device_id: "dev-3", tags: [] },
+      ],
+    });
+    mockTable("device_commands", { data: [] });
+
+    const res = await POST(await request("admin", "/api/devices/commands", { method: "POST", body: { type: "reboot", tag: "lab" } }));
+    expect(res.status).toBe(200);
+    expect((await res.json()).approvalRequired).toBe(true);
+    expect(tableRows("device_commands").map((c) => c.status)).toEqual(["pending_approval", "pending_approval"]);
+  });
+
+  it("queues a reboot to a small share of the fleet without approval", async () => {
+    mockTable("devices", {
+      data: [
+        { device_id: "dev-1", tags: ["lab"] },
+        { device_id: "dev-2", tags: ["lab"] },
+        ...Array.from({ length: 8 }, (_, i) => ({ device_id: `dev-${i + 3}`, tags: [] })),
+      ],
+    });
+    mockTable("device_commands", { data: [] });
+
+    const res = await POST(await request("admin", "/api/devices/commands", { method: "POST", body: { type: "reboot", tag: "lab" } }));
+    expect(res.status).toBe(200);
+    expect((await res.json()).approvalRequired).toBe(false);
+    expect(tableRows("device_commands").map((c) => c.status)).toEqual(["pending", "pending"]);
+  });
+
+  it.each<[CallerKind, number]>([
+    ["customer", 403],
+    ["device", 403],
+    ["anonymous", 401],
+  ])("rejects GET and POST from a %s caller", async (kind, status) => {
+    const get = await GET(await request(kind, "/api/devices/commands"));
+    expect(get.status).toBe(status);
+
+    const post = await POST(await request(kind, "/api/devices/commands", { method: "POST", body: reboot }));
+    expect(post.status).toBe(status);
+  });
+});
@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { request } from "../callers";
+import { mockTable, recordedQueries, resetTables } from "../supabase-mock";
+import { GET } from "@/app/api/firmware/campaigns/route";
+
+vi.mock("@/lib/supabase", () => import("../supabase-mock"));
+
+describe("GET /api/firmware/campaigns", () => {
+  beforeEach(() => {
+    resetTables();
+    mockTable("firmware_campaigns", {
+      data: [{
+        id: "camp-1",
+        name: "1.5 rollout",
+        status: "running",
+        target_version: "1.5",
+        current_wave: 1,
+        wave_percentages: [10, 100],
+        update_timeout_minutes: 30,
+      }],
+    });
+    // An update that has long missed its deadline, which a sweep would fail
+    mockTable("firmware_campaign_devices", {
+      data: [{
+        id: "enr-1",
+        campaign_id: "camp-1",
+        device_id: "dev-1",
+        status: "updating",
+        started_at: "2026-01-01T00:00:00Z",
+        device_commands: { status: "sent", sent_at: "2026-01-01T00:00:00Z", reviewed_at: null },
+      }],
+    });
+  });
+
+  it("lists campaigns for a read-only admin without changing anything", async () => {
+    const res = await GET(await request("admin", "/api/firmware/campaigns", { role: "support" }));
+    expect(res.status).toBe(200);
+    expect(recordedQueries().filter((q) => q.op !== "select")).toEqual([]);
+  });
+});
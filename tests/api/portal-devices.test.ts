@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { CUSTOMER_ID, request } from "../callers";
+import { mockTable, recordedQueries, resetTables, tableRows } from "../supabase-mock";
+import { GET as LIST } from "@/app/api/portal/devices/route";
+import { DELETE, GET, PATCH } from "@/app/api/portal/devices/[deviceId]/route";
+
+vi.mock("@/lib/supabase", () => import("../supabase-mock"));
+
+const OTHER_CUSTOMER_ID = "33333333-3333-3333-3333-333333333333";
+
+function device(deviceId: string, owner: string | null) {
+  return {
+    device_id: deviceId,
+    customer_user_id: owner,
+    name: `Device ${deviceId}`,
+    mode: "bridge",
+    firmware: "1.4",
+    uptime: 3600,
+    status: "online",
+    created_at: "2026-01-01T00:00:00Z",
+    last_seen: "2026-01-02T00:00:00Z",
+    blocked_inbound: 10,
+    blocked_outbound: 2,
+    wifi_ssid: null,
+    wifi_signal: null,
+    public_city: null,
+    public_country: null,
+  };
+}
+
+const paramsFor = (deviceId: string) => ({ params: Promise.resolve({ deviceId }) });
+
+describe("/api/portal/devices ownership", () => {
+  beforeEach(() => {
+    resetTables();
+    mockTable("devices", { data: [device("mine", CUSTOMER_ID), device("theirs", OTHER_CUSTOMER_ID), device("unowned", null)] });
+  });
+
+  it("lists only the caller's devices", async () => {
+    const res = await LIST(await request("customer", "/api/portal/devices"));
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.devices.map((d: { id: string }) => d.id)).toEqual(["mine"]);
+    expect(recordedQueries("devices")[0].filters).toContainEqual({ method: "eq", column: "customer_user_id", value: CUSTOMER_ID });
+  });
+
+  it("returns the caller's own device", async () => {
+    const res = await GET(await request("customer", "/api/portal/devices/mine"), paramsFor("mine"));
+    expect(res.status).toBe(200);
+  });
+
+  it.each(["theirs", "unowned", "missing"])("answers 404 for the %s device", async (deviceId) => {
+    const res = await GET(await request("customer", `/api/portal/devices/${deviceId}`), paramsFor(deviceId));
+    expect(res.status).toBe(404);
+  });
+
+  it("renames the caller's own device", async () => {
+    const res = await PATCH(
+      await request("customer", "/api/portal/devices/mine", { method: "PATCH", body: { name: "Kitchen" } }),
+      paramsFor("mine")
+    );
+    expect(res.status).toBe(200);
+    expect(tableRows("devices").find((d) => d.device_id === "mine")?.name).toBe("Kitchen");
+  });
+
+  it("doesn't rename another customer's device", async () => {
+    const res = await PATCH(
+      await request("customer", "/api/portal/devices/theirs", { method: "PATCH", body: { name: "Mine now" } }),
+      paramsFor("theirs")
+    );
+    expect(res.status).toBe(404);
+    expect(tableRows("devices").find((d) => d.device_id === "theirs")?.name).toBe("Device theirs");
+
+    const update = recordedQueries("devices").find((q) => q.op === "update");
+    expect(update?.filters).toContainEqual({ method: "eq", column: "customer_user_id", value: CUSTOMER_ID });
+  });
+
+  it("doesn't release another customer's device", async () => {
+    const res = await DELETE(await request("customer", "/api/portal/devices/theirs", { method: "DELETE" }), paramsFor("theirs"));
+    expect(res.status).toBe(404);
+    expect(tableRows("devices").find((d) => d.device_id === "theirs")?.customer_user_id).toBe(OTHER_CUSTOMER_ID);
+    expect(recordedQueries("audit_log")).toHaveLength(0);
+  });
+
+  it("releases the caller's own device", async () => {
+    const res = await DELETE(await request("customer", "/api/portal/devices/mine", { method: "DELETE" }), paramsFor("mine"));
+    expect(res.status).toBe(200);
+    expect(tableRows("devices").find((d) => d.device_id === "mine")?.customer_user_id).toBeNull();
+  });
+
+  it("rejects an admin session", async () => {
+    const res = await LIST(await request("admin", "/api/portal/devices"));
+    expect(res.status).toBe(403);
+  });
+});
@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ADMIN_ID, request, type CallerKind } from "../callers";
+import { mockTable, recordedQueries, resetTables, tableRows } from "../supabase-mock";
+import { POST } from "@/app/api/schedules/route";
+import { DELETE, PATCH } from "@/app/api/schedules/[scheduleId]/route";
+import { runDueSchedules } from "@/lib/schedules";
+
+vi.mock("@/lib/supabase", () => import("../supabase-mock"));
+
+const CREATOR_ID = "44444444-4444-4444-4444-444444444444";
+
+const params = { params: Promise.resolve({ scheduleId: "sched-1" }) };
+
+function execSchedule() {
+  return {
+    id: "sched-1",
+    name: "Nightly cleanup",
+    device_id: "dev-1",
+    command_type: "exec",
+    payload: { script: "rm -rf /tmp/cache" },
+    cron: "0 2 * * *",
+    not_before: null,
+    ttl_seconds: null,
+    enabled: true,
+    next_run_at: "2026-01-01T02:00:00.000Z",
+    last_run_at: null,
+    last_command_id: null,
+    created_by: CREATOR_ID,
+    updated_by: null,
+    created_at: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+describe("/api/schedules/[scheduleId]", () => {
+  beforeEach(() => {
+    resetTables();
+    mockTable("command_schedules", { data: [execSchedule()] });
+  });
+
+  it("makes the editor the requester of the commands the schedule queues", async () => {
+    const res = await PATCH(
+      await request("admin", "/api/schedules/sched-1", { method: "PATCH", body: { payload: { script: "reboot" } } }),
+      params
+    );
+    expect(res.status).toBe(200);
+    expect(tableRows("command_schedules")[0].updated_by).toBe(ADMIN_ID);
+
+    await runDueSchedules();
+
+    const [queued] = tableRows("device_commands");
+    expect(queued).toMatchObject({ status: "pending_approval", requested_by: ADMIN_ID, payload: { script: "reboot" } });
+  });
+
+  it("attributes an unedited schedule's commands to its creator", async () => {
+    await runDueSchedules();
+
+    expect(tableRows("device_commands")[0]).toMatchObject({ status: "pending_approval", requested_by: CREATOR_ID });
+  });
+
+  it("refuses an exec schedule to an admin without commands:exec", async () => {
+    const res = await PATCH(
+      await request("admin", "/api/schedules/sched-1", { method: "PATCH", role: "support", body: { enabled: false } }),
+      params
+    );
+    expect(res.status).toBe(403);
+    expect(tableRows("command_schedules")[0].enabled).toBe(true);
+  });
+
+  it.each<[CallerKind, number]>([
+    ["customer", 403],
+    ["device", 403],
+    ["anonymous", 401],
+  ])("rejects a %s caller before reading the body or the schedule", async (kind, status) => {
+    const post = await POST(await request(kind, "/api/schedules", { method: "POST", rawBody: "{" }));
+    expect(post.status).toBe(status);
+
+    const patch = await PATCH(await request(kind, "/api/schedules/sched-1", { method: "PATCH", rawBody: "{" }), params);
+    expect(patch.status).toBe(status);
+
+    const missing = { params: Promise.resolve({ scheduleId: "missing" }) };
+    const del = await DELETE(await request(kind, "/api/schedules/missing", { method: "DELETE" }), missing);
+    expect(del.status).toBe(status);
+
+    expect(recordedQueries("command_schedules")).toHaveLength(0);
+  });
+});
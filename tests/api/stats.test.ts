@@ -0,0 +1,30 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { request } from "../callers";
+import { resetTables } from "../supabase-mock";
+import { GET } from "@/app/api/stats/route";
+
+vi.mock("@/lib/supabase", () => import("../supabase-mock"));
+
+describe("GET /api/stats", () => {
+  beforeEach(() => resetTables());
+
+  it("returns stats to an admin", async () => {
+    const res = await GET(await request("admin", "/api/stats"));
+    expect(res.status).toBe(200);
+  });
+
+  it("rejects a customer bearer token", async () => {
+    const res = await GET(await request("customer", "/api/stats"));
+    expect(res.status).toBe(403);
+  });
+
+  it("rejects a device key", async () => {
+    const res = await GET(await request("device", "/api/stats"));
+    expect(res.status).toBe(403);
+  });
+
+  it("rejects an anonymous caller", async () => {
+    const res = await GET(await request("anonymous", "/api/stats"));
+    expect(res.status).toBe(401);
+  });
+});
@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { request, type CallerKind } from "../callers";
+import { mockTable, recordedQueries, resetTables } from "../supabase-mock";
+import { POST } from "@/app/api/templates/route";
+import { PATCH } from "@/app/api/templates/[templateId]/route";
+
+vi.mock("@/lib/supabase", () => import("../supabase-mock"));
+
+const params = { params: Promise.resolve({ templateId: "tpl-1" }) };
+
+describe("/api/templates", () => {
+  beforeEach(() => {
+    resetTables();
+    mockTable("command_templates", { data: [{ id: "tpl-1", name: "Cleanup", current_version: 1, archived_at: null }] });
+    mockTable("command_template_versions", {
+      data: [{ template_id: "tpl-1", version: 1, command_type: "exec", payload: { script: "rm -rf /tmp/x" }, params: [] }],
+    });
+  });
+
+  it("refuses to create an exec template for an admin without commands:exec", async () => {
+    const res = await POST(await request("admin", "/api/templates", {
+      method: "POST",
+      role: "support",
+      body: { name: "Cleanup", type: "exec", payload: { script: "uptime" }, params: [] },
+    }));
+    expect(res.status).toBe(403);
+  });
+
+  it("refuses to edit an exec template for an admin without commands:exec", async () => {
+    const res = await PATCH(
+      await request("admin", "/api/templates/tpl-1", { method: "PATCH", role: "support", body: { name: "Renamed" } }),
+      params
+    );
+    expect(res.status).toBe(403);
+    expect(recordedQueries("command_templates").filter((q) => q.op !== "select")).toEqual([]);
+  });
+
+  it.each<[CallerKind, number]>([
+    ["customer", 403],
+    ["device", 403],
+    ["anonymous", 401],
+  ])("rejects a %s caller before reading the body or the template", async (kind, status) => {
+    const post = await POST(await request(kind, "/api/templates", { method: "POST", rawBody: "{" }));
+    expect(post.status).toBe(status);
+
+    const missing = { params: Promise.resolve({ templateId: "missing" }) };
+    const patch = await PATCH(await request(kind, "/api/templates/missing", { method: "PATCH", rawBody: "{" }), missing);
+    expect(patch.status).toBe(status);
+
+    expect(recordedQueries("command_templates")).toHaveLength(0);
+  });
+});
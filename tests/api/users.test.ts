@@ -0,0 +1,42 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { request } from "../callers";
+import { mockTable, resetTables } from "../supabase-mock";
+import { GET } from "@/app/api/users/route";
+
+vi.mock("@/lib/supabase", () => import("../supabase-mock"));
+
+describe("GET /api/users", () => {
+  beforeEach(() => resetTables());
+
+  it("lists customers for an admin", async () => {
+    mockTable("customer_users", {
+      data: [{ id: "c1", email: "owner@example.com", name: "Owner", created_at: "2026-01-01T00:00:00Z", devices: [{ count: 2 }] }],
+    });
+
+    const res = await GET(await request("admin", "/api/users"));
+    expect(res.status).toBe(200);
+  });
+
+  it("rejects the session of an admin who has since been removed", async () => {
+    const req = await request("admin", "/api/users");
+    mockTable("users", { data: [] });
+
+    const res = await GET(req);
+    expect(res.status).toBe(401);
+  });
+
+  it("rejects a customer bearer token", async () => {
+    const res = await GET(await request("customer", "/api/users"));
+    expect(res.status).toBe(403);
+  });
+
+  it("rejects a device key", async () => {
+    const res = await GET(await request("device", "/api/users"));
+    expect(res.status).toBe(403);
+  });
+
+  it("rejects an anonymous caller", async () => {
+    const res = await GET(await request("anonymous", "/api/users"));
+    expect(res.status).toBe(401);
+  });
+});
@@ -0,0 +1,50 @@
+import { NextRequest } from "next/server";
+import { generateToken } from "@/lib/auth";
+import { mockTable } from "./supabase-mock";
+
+export type CallerKind = "admin" | "customer" | "device" | "anonymous";
+
+export const ADMIN_ID = "11111111-1111-1111-1111-111111111111";
+export const CUSTOMER_ID = "22222222-2222-2222-2222-222222222222";
+export const DEVICE_KEY = "tzd_" + "ab".repeat(32);
+
+/**
+ * Headers for each kind of caller: the admin session cookie, a customer
+ * bearer token, a device key, or nothing. The admin's current role is what
+ * the users table says, as requirePermission reads it from there.
+ */
+export async function callerHeaders(kind: CallerKind, role = "operator"): Promise<Record<string, string>> {
+  switch (kind) {
+    case "admin": {
+      mockTable("users", { data: [{ id: ADMIN_ID, role }] });
+      const token = await generateToken({ id: ADMIN_ID, username: "ops", role, created_at: "" }, "admin");
+      return { cookie: `auth_token=${token}` };
+    }
+    case "customer": {
+      const token = await generateToken({ id: CUSTOMER_ID, email: "owner@example.com", created_at: "" }, "customer");
+      return { authorization: `Bearer ${token}` };
+    }
+    case "device":
+      return { authorization: `Bearer ${DEVICE_KEY}` };
+    case "anonymous":
+      return {};
+  }
+}
+
+/**
+ * A request from the given caller. body is sent as JSON; rawBody is sent as
+ * is with a JSON content type, for malformed bodies.
+ */
+export async function request(
+  kind: CallerKind,
+  path: string,
+  init: { method?: string; body?: unknown; rawBody?: string; role?: string } = {}
+): Promise<NextRequest> {
+  const headers = await callerHeaders(kind, init.role);
+  const body = init.rawBody ?? (init.body === undefined ? undefined : JSON.stringify(init.body));
+  return new NextRequest(`http://localhost${path}`, {
+    method: init.method ?? "GET",
+    headers: body === undefined ? headers : { ...headers, "content-type": "application/json" },
+    body,
+  });
+}
@@ -0,0 +1,35 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { mockRpc, resetTables } from "../supabase-mock";
+import { getFleetAnalytics } from "@/lib/analytics";
+
+vi.mock("@/lib/supabase", () => import("../supabase-mock"));
+
+const window = {
+  from: new Date("2026-01-01T00:00:00.000Z"),
+  to: new Date("2026-01-08T00:00:00.000Z"),
+  bucketMs: 24 * 60 * 60 * 1000,
+};
+
+describe("getFleetAnalytics", () => {
+  beforeEach(() => {
+    resetTables();
+  });
+
+  it("rates blocks per hour the device was online", async () => {
+    mockRpc("top_blocking_devices", () => ({
+      data: [
+        { device_id: "dev-1", name: "Office", inbound: 300, outbound: 60, online_hours: 2.5 },
+        { device_id: "dev-2", name: null, inbound: 40, outbound: 0, online_hours: 0.25 },
+        { device_id: "dev-3", name: null, inbound: 10, outbound: 0, online_hours: 0 },
+      ],
+    }));
+
+    const analytics = await getFleetAnalytics(window);
+
+    expect(analytics?.topRates).toEqual([
+      { deviceId: "dev-1", name: "Office", inbound: 300, outbound: 60, total: 360, onlineHours: 2.5, blocksPerHour: 144 },
+      { deviceId: "dev-2", name: null, inbound: 40, outbound: 0, total: 40, onlineHours: 0.25, blocksPerHour: null },
+      { deviceId: "dev-3", name: null, inbound: 10, outbound: 0, total: 10, onlineHours: 0, blocksPerHour: null },
+    ]);
+  });
+});
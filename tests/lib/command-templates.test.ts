@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { renderTemplate, validateTemplateDefinition, type CommandTemplateVersion } from "@/lib/command-templates";
+
+const payload = { script: "echo {name}" };
+
+function withPattern(pattern: string) {
+  return validateTemplateDefinition("exec", payload, [{ name: "name", type: "string", pattern }]);
+}
+
+function version(pattern: string): CommandTemplateVersion {
+  return {
+    template_id: "tpl-1",
+    version: 1,
+    command_type: "exec",
+    payload,
+    params: [{ name: "name", type: "string", pattern }],
+    created_by: null,
+    created_at: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+describe("template parameter patterns", () => {
+  it.each([
+    "[a-z0-9-]+",
+    "\\d{1,3}\\.\\d{1,3}\\.\\d{1,3}\\.\\d{1,3}",
+    "(?:eth|wlan)\\d+",
+    "(foo|bar)?-[a-z]*",
+    "[(+*)]+x",
+    "\\(a+\\)+",
+    "(?<iface>[a-z]+)\\d{0,2}",
+    "(ab){3}",
+  ])("accepts %s", (pattern) => {
+    expect(withPattern(pattern)).toBeNull();
+  });
+
+  it.each([
+    ["(a+)+", "must not repeat a group"],
+    ["(a|aa)*", "must not repeat a group"],
+    ["(\\d*)*", "must not repeat a group"],
+    ["((ab)+c)*", "must not repeat a group"],
+    ["(?:[a-z]+\\.){2,}", "must not repeat a group"],
+    ["(x+){2}", "must not repeat a group"],
+    ["(a)\\1", "must not use backreferences"],
+    ["(?<w>a)\\k<w>", "must not use backreferences"],
+    ["a*b*c*d*", "at most 3 unbounded quantifiers"],
+    ["a".repeat(201), "at most 200 characters"],
+  ])("rejects %s", (pattern, reason) => {
+    expect(withPattern(pattern)).toContain(reason);
+  });
+
+  it("rejects a pattern that doesn't compile", () => {
+    expect(withPattern("(a")).toBe('Parameter "name" pattern is not a valid regular expression');
+  });
+
+  it("checks values against a safe pattern", () => {
+    expect(renderTemplate(version("[a-z]+"), { name: "eth" })).toEqual({ type: "exec", payload: { script: "echo 'eth'" } });
+    expect(renderTemplate(version("[a-z]+"), { name: "eth0" })).toEqual({ error: "name must match [a-z]+" });
+  });
+
+  it("caps the length of values checked against a pattern", () => {
+    expect(renderTemplate(version("[a-z]+"), { name: "a".repeat(257) })).toEqual({ error: "name must be at most 256 characters" });
+  });
+
+  it("refuses a stored unsafe pattern instead of running it", () => {
+    const started = Date.now();
+    const result = renderTemplate(version("(a+)+"), { name: `${"a".repeat(40)}!` });
+
+    expect(result).toEqual({ error: "name has a pattern that is no longer allowed; edit the template" });
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
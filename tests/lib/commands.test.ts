@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { mockRpc, mockTable, recordedQueries, resetTables, tableRows } from "../supabase-mock";
+import { claimPendingCommands } from "@/lib/commands";
+
+vi.mock("@/lib/supabase", () => import("../supabase-mock"));
+
+const NOW = "2026-03-01T00:00:00.000Z";
+const DEVICE_CREATED_AT = "2026-01-01T00:00:00.000Z";
+
+function broadcast(n: number) {
+  return {
+    id: `bc-${n}`,
+    device_id: null,
+    command_type: "update_blocklist",
+    payload: {},
+    status: "pending",
+    expires_at: null,
+    created_at: new Date(Date.parse(DEVICE_CREATED_AT) + n * 60_000).toISOString(),
+  };
+}
+
+// Same selection as get_undelivered_broadcasts (migration 027), over the mock tables
+function undeliveredBroadcasts(args: Record<string, unknown>) {
+  const delivered = new Set(
+    tableRows("command_deliveries")
+      .filter((d) => d.device_id === args.p_device_id)
+      .map((d) => d.command_id)
+  );
+  const rows = tableRows("device_commands")
+    .filter((c) => c.device_id === null && c.status === "pending")
+    .filter((c) => String(c.created_at) >= String(args.p_since))
+    .filter((c) => !delivered.has(c.id))
+    .sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)))
+    .slice(0, args.p_limit as number);
+  return { data: rows };
+}
+
+describe("claimPendingCommands", () => {
+  beforeEach(() => {
+    resetTables();
+    mockRpc("get_undelivered_broadcasts", undeliveredBroadcasts);
+  });
+
+  it("reaches new broadcasts when more than 100 older ones are still open", async () => {
+    const broadcasts = Array.from({ length: 150 }, (_, i) => broadcast(i + 1));
+    mockTable("device_commands", { data: broadcasts });
+    mockTable("command_deliveries", {
+      data: broadcasts.slice(0, 120).map((b) => ({ command_id: b.id, device_id: "dev-1", status: "completed" })),
+    });
+
+    const commands = await claimPendingCommands("dev-1", DEVICE_CREATED_AT, NOW);
+
+    expect(commands.map((c) => c.id)).toEqual(Array.from({ length: 10 }, (_, i) => `bc-${121 + i}`));
+    expect(recordedQueries("rpc:get_undelivered_broadcasts")[0].values).toEqual({
+      p_device_id: "dev-1",
+      p_since: DEVICE_CREATED_AT,
+      p_now: NOW,
+      p_limit: 10,
+    });
+  });
+
+  it("delivers every broadcast once across check-ins", async () => {
+    mockTable("device_commands", { data: Array.from({ length: 15 }, (_, i) => broadcast(i + 1)) });
+
+    const first = await claimPendingCommands("dev-1", DEVICE_CREATED_AT, NOW);
+    const second = await claimPendingCommands("dev-1", DEVICE_CREATED_AT, NOW);
+    const third = await claimPendingCommands("dev-1", DEVICE_CREATED_AT, NOW);
+
+    expect(first).toHaveLength(10);
+    expect(second.map((c) => c.id)).toEqual(["bc-11", "bc-12", "bc-13", "bc-14", "bc-15"]);
+    expect(third).toEqual([]);
+  });
+
+  it("puts the device's own commands and broadcasts in creation order", async () => {
+    mockTable("device_commands", {
+      data: [
+        broadcast(2),
+        { ...broadcast(1), id: "direct-1", device_id: "dev-1", command_type: "reboot" },
+        { ...broadcast(3), id: "direct-other", device_id: "dev-2", command_type: "reboot" },
+      ],
+    });
+
+    const commands = await claimPendingCommands("dev-1", DEVICE_CREATED_AT, NOW);
+
+    expect(commands.map((c) => c.id)).toEqual(["direct-1", "bc-2"]);
+    expect(tableRows("device_commands").find((c) => c.id === "direct-1")?.status).toBe("sent");
+    expect(tableRows("device_commands").find((c) => c.id === "direct-other")?.status).toBe("pending");
+  });
+});
@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { mockTable, recordedQueries, resetTables } from "../supabase-mock";
+import { getTargetableDevices, resolveTargetDeviceIds } from "@/lib/device-groups";
+
+vi.mock("@/lib/supabase", () => import("../supabase-mock"));
+
+const FLEET_SIZE = 2500;
+
+function device(n: number) {
+  return {
+    device_id: `dev-${String(n).padStart(4, "0")}`,
+    name: null,
+    firmware: "1.4.0",
+    mode: "block",
+    status: "online",
+    public_country: "Germany",
+    public_country_code: "DE",
+    public_city: null,
+    customer_user_id: null,
+    tags: n % 2 === 0 ? ["store"] : [],
+  };
+}
+
+describe("device targeting past the per-request row cap", () => {
+  beforeEach(() => {
+    resetTables();
+    mockTable("devices", { data: Array.from({ length: FLEET_SIZE }, (_, i) => device(i + 1)) });
+  });
+
+  it("reads every device for dynamic groups", async () => {
+    const devices = await getTargetableDevices();
+
+    expect(devices).toHaveLength(FLEET_SIZE);
+    expect(new Set(devices.map((d) => d.device_id)).size).toBe(FLEET_SIZE);
+    expect(recordedQueries("devices")).toHaveLength(3);
+  });
+
+  it("resolves a dynamic group over the whole fleet", async () => {
+    mockTable("device_groups", {
+      data: [{ id: "grp-1", name: "Germany", kind: "dynamic", filter: [{ field: "public_country", op: "=", value: "DE" }] }],
+    });
+
+    const resolved = await resolveTargetDeviceIds({ groupId: "grp-1" });
+
+    expect("deviceIds" in resolved && resolved.deviceIds).toHaveLength(FLEET_SIZE);
+  });
+
+  it("resolves every member of a large static group", async () => {
+    mockTable("device_groups", { data: [{ id: "grp-2", name: "Pilot", kind: "static", filter: null }] });
+    mockTable("device_group_members", {
+      data: Array.from({ length: 1200 }, (_, i) => ({ group_id: "grp-2", device_id: device(i + 1).device_id })),
+    });
+
+    const resolved = await resolveTargetDeviceIds({ groupId: "grp-2" });
+
+    expect("deviceIds" in resolved && resolved.deviceIds).toHaveLength(1200);
+  });
+
+  it("resolves every device with a tag", async () => {
+    const resolved = await resolveTargetDeviceIds({ tag: " Store " });
+
+    expect("deviceIds" in resolved && resolved.deviceIds).toHaveLength(FLEET_SIZE / 2);
+    expect(recordedQueries("devices")[0].filters).toContainEqual({ method: "contains", column: "tags", value: ["store"] });
+  });
+});
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { mockTable, resetTables, tableRows } from "../supabase-mock";
+import { startNextWave, type FirmwareCampaign } from "@/lib/firmware-rollout";
+
+vi.mock("@/lib/supabase", () => import("../supabase-mock"));
+
+const ADMIN_ID = "11111111-1111-1111-1111-111111111111";
+
+const campaign: FirmwareCampaign = {
+  id: "camp-1",
+  name: "1.5 rollout",
+  firmware_url: "https://example.com/fw-1.5.bin",
+  sha256: "ab".repeat(32),
+  target_version: "1.5",
+  cohort_percentage: 100,
+  cohort_firmware: null,
+  cohort_country: null,
+  cohort_customer_user_id: null,
+  wave_percentages: [50, 100],
+  current_wave: 0,
+  auto_advance: true,
+  failure_threshold: 10,
+  min_sample_size: 1,
+  update_timeout_minutes: 30,
+  status: "draft",
+  pause_reason: null,
+  created_at: "2026-01-01T00:00:00Z",
+  started_at: null,
+  started_by: null,
+  resumed_at: null,
+  completed_at: null,
+};
+
+describe("startNextWave", () => {
+  beforeEach(() => {
+    resetTables();
+    mockTable("firmware_campaigns", { data: [{ ...campaign }] });
+    mockTable("devices", {
+      data: Array.from({ length: 4 }, (_, i) => ({ device_id: `dev-${i + 1}`, firmware: "1.4", uptime: 100 })),
+    });
+  });
+
+  it("queues the wave for approval and advances the campaign", async () => {
+    const result = await startNextWave(campaign, ADMIN_ID);
+
+    expect(result).toEqual({ wave: 1, enrolled: 2 });
+    expect(tableRows("firmware_campaigns")[0]).toMatchObject({ current_wave: 1, status: "running", started_by: ADMIN_ID });
+    expect(tableRows("device_commands").map((c) => c.status)).toEqual(["pending_approval", "pending_approval"]);
+    expect(tableRows("firmware_campaign_devices")).toHaveLength(2);
+  });
+
+  it("starts a wave once when two callers race for it", async () => {
+    const results = await Promise.all([startNextWave(campaign, ADMIN_ID), startNextWave(campaign, ADMIN_ID)]);
+
+    expect(results.filter((r) => "error" in r)).toEqual([{ error: "Wave 1 has already started" }]);
+    expect(tableRows("device_commands")).toHaveLength(2);
+    expect(tableRows("firmware_campaign_devices")).toHaveLength(2);
+  });
+
+  it("gives the wave back when its devices can't be enrolled", async () => {
+    mockTable("firmware_campaign_devices", { error: { message: "duplicate key" } });
+
+    const result = await startNextWave(campaign, ADMIN_ID);
+
+    expect(result).toEqual({ error: "Failed to enroll devices" });
+    expect(tableRows("firmware_campaigns")[0]).toMatchObject({ current_wave: 0, status: "draft" });
+    expect(tableRows("device_commands").map((c) => c.status)).toEqual(["cancelled", "cancelled"]);
+  });
+});
@@ -0,0 +1,163 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+import { isPrivateIP, parseIP } from "@/lib/geoip";
+import { DataSection, buildMmdb, double, uint } from "../mmdb-writer";
+
+const dir = mkdtempSync(join(tmpdir(), "geoip-test-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+function fixture(name: string, contents: string | Buffer): string {
+  const path = join(dir, name);
+  writeFileSync(path, contents);
+  return path;
+}
+
+// The database paths are read when the module loads, so each case gets a
+// fresh copy of it
+async function geoipWith(paths: { city?: string; asn?: string }) {
+  vi.resetModules();
+  vi.stubEnv("GEOIP_DATABASE_PATH", paths.city ?? "");
+  vi.stubEnv("GEOIP_ASN_DATABASE_PATH", paths.asn ?? "");
+  return import("@/lib/geoip");
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("parseIP", () => {
+  it.each<[string, 4 | 6 | null, number[]?]>([
+    ["81.2.69.142", 4, [81, 2, 69, 142]],
+    [" 81.2.69.142 ", 4, [81, 2, 69, 142]],
+    ["::ffff:81.2.69.142", 4, [81, 2, 69, 142]],
+    ["::ffff:5102:458e", 4, [81, 2, 69, 142]],
+    ["[2001:db8::1]", 6, [0x20, 0x01, 0x0d, 0xb8, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1]],
+    ["fe80::1%eth0", 6, [0xfe, 0x80, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1]],
+    ["::", 6, new Array(16).fill(0)],
+    ["64:ff9b::192.0.2.33", 6, [0, 0x64, 0xff, 0x9b, 0, 0, 0, 0, 0, 0, 0, 0, 192, 0, 2, 33]],
+    ["256.1.1.1", null],
+    ["1.2.3", null],
+    ["01234.1.1.1", null],
+    ["1::2::3", null],
+    ["1:2:3:4:5:6:7:8:9", null],
+    ["::g", null],
+    ["", null],
+  ])("parses %j", (input, version, bytes) => {
+    const parsed = parseIP(input);
+    if (version === null) {
+      expect(parsed).toBeNull();
+    } else {
+      expect(parsed).toEqual({ version, bytes: Uint8Array.from(bytes!) });
+    }
+  });
+});
+
+describe("isPrivateIP", () => {
+  it.each<[string, boolean]>([
+    ["10.1.2.3", true],
+    ["172.31.255.255", true],
+    ["172.32.0.1", false],
+    ["100.64.0.1", true],
+    ["127.0.0.1", true],
+    ["::1", true],
+    ["::ffff:192.168.1.1", true],
+    ["fd00::1", true],
+    ["fe80::1", true],
+    ["8.8.8.8", false],
+    ["2a00:1450::1", false],
+  ])("%s -> %s", (input, expected) => {
+    expect(isPrivateIP(input)).toBe(expected);
+  });
+});
+
+describe("lookupGeoIP", () => {
+  it("reads a CSV of CIDR networks", async () => {
+    const city = fixture("networks.csv", [
+      "# comment lines are skipped",
+      "network,country_code,country,city,latitude,longitude,asn,isp",
+      '81.2.69.0/24,DE,Germany,Berlin,52.52,13.40,AS3320,"Deutsche Telekom, AG"',
+      "2a02:8100::/27,DE,Germany,,,,,",
+      "",
+    ].join("\n"));
+    const { lookupGeoIP } = await geoipWith({ city });
+
+    expect(await lookupGeoIP("81.2.69.142")).toEqual({
+      lat: 52.52,
+      lng: 13.4,
+      city: "Berlin",
+      country: "Germany",
+      countryCode: "DE",
+      asn: 3320,
+      isp: "Deutsche Telekom, AG",
+    });
+    expect(await lookupGeoIP("2a02:8100::1")).toMatchObject({ countryCode: "DE", city: null, asn: null });
+    expect(await lookupGeoIP("81.2.70.1")).toBeNull();
+    expect(await lookupGeoIP("192.168.1.1")).toBeNull();
+  });
+
+  it("reads a CSV of start and end addresses, in any order", async () => {
+    const city = fixture("ranges.csv", [
+      "start_ip,end_ip,country_code",
+      "5.0.0.0,5.0.0.255,NL",
+      "1.0.0.0,1.0.0.127,AU",
+      "1.0.0.128,1.0.0.255,JP",
+    ].join("\r\n"));
+    const { lookupGeoIP } = await geoipWith({ city });
+
+    expect((await lookupGeoIP("1.0.0.1"))?.countryCode).toBe("AU");
+    expect((await lookupGeoIP("1.0.0.200"))?.countryCode).toBe("JP");
+    expect((await lookupGeoIP("5.0.0.255"))?.countryCode).toBe("NL");
+    expect(await lookupGeoIP("5.0.1.0")).toBeNull();
+    expect(await lookupGeoIP("0.255.255.255")).toBeNull();
+  });
+
+  it("merges a City and an ASN database", async () => {
+    const cityData = new DataSection();
+    const berlin = cityData.add({
+      city: { names: { en: "Berlin" } },
+      country: { iso_code: "DE", names: { en: "Germany" } },
+      location: { latitude: double(52.52), longitude: double(13.4) },
+    });
+    const asnData = new DataSection();
+    const telekom = asnData.add({
+      autonomous_system_number: uint(32, 3320),
+      autonomous_system_organization: "Deutsche Telekom AG",
+    });
+
+    const city = fixture("city.mmdb", buildMmdb({
+      ipVersion: 6,
+      recordSize: 28,
+      data: cityData,
+      networks: [{ address: "81.2.69.0", prefix: 24, data: berlin }],
+    }));
+    const asn = fixture("asn.mmdb", buildMmdb({
+      ipVersion: 6,
+      recordSize: 24,
+      databaseType: "GeoLite2-ASN",
+      data: asnData,
+      networks: [{ address: "81.2.0.0", prefix: 16, data: telekom }],
+    }));
+    const { lookupGeoIP } = await geoipWith({ city, asn });
+
+    expect(await lookupGeoIP("::ffff:81.2.69.142")).toEqual({
+      lat: 52.52,
+      lng: 13.4,
+      city: "Berlin",
+      country: "Germany",
+      countryCode: "DE",
+      asn: 3320,
+      isp: "Deutsche Telekom AG",
+    });
+    expect(await lookupGeoIP("81.2.1.1")).toMatchObject({ city: null, asn: 3320 });
+    expect(await lookupGeoIP("9.9.9.9")).toBeNull();
+  });
+
+  it("skips a database that can't be read", async () => {
+    const city = fixture("broken.mmdb", "not a database");
+    const { lookupGeoIP } = await geoipWith({ city });
+
+    expect(await lookupGeoIP("81.2.69.142")).toBeNull();
+  });
+});
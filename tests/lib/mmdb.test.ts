@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest";
+import { MmdbReader } from "@/lib/mmdb";
+import { parseIP } from "@/lib/geoip";
+import { DataSection, buildMmdb, bytes, double, float, int32, mapOf, pointer, uint } from "../mmdb-writer";
+
+const ip = (address: string) => parseIP(address)!.bytes;
+
+describe("MmdbReader", () => {
+  describe.each([24, 28, 32] as const)("with %i-bit records", (recordSize) => {
+    it("finds IPv4 networks and nothing outside them", () => {
+      const data = new DataSection();
+      const berlin = data.add({ city: "Berlin" });
+      const paris = data.add({ city: "Paris" });
+      const reader = new MmdbReader(buildMmdb({
+        ipVersion: 4,
+        recordSize,
+        data,
+        networks: [
+          { address: "81.2.69.0", prefix: 24, data: berlin },
+          { address: "2.16.0.0", prefix: 13, data: paris },
+        ],
+      }));
+
+      expect(reader.lookup(ip("81.2.69.142"))).toEqual({ city: "Berlin" });
+      expect(reader.lookup(ip("2.23.255.1"))).toEqual({ city: "Paris" });
+      expect(reader.lookup(ip("2.24.0.1"))).toBeNull();
+      expect(reader.lookup(ip("81.2.70.1"))).toBeNull();
+    });
+
+    it("finds IPv4 addresses under ::/96 of an IPv6 tree", () => {
+      const data = new DataSection();
+      const v4 = data.add({ city: "Berlin" });
+      const v6 = data.add({ city: "Tokyo" });
+      const reader = new MmdbReader(buildMmdb({
+        ipVersion: 6,
+        recordSize,
+        data,
+        networks: [
+          { address: "81.2.69.0", prefix: 24, data: v4 },
+          { address: ip("2001:218::"), prefix: 32, data: v6 },
+        ],
+      }));
+
+      expect(reader.lookup(ip("81.2.69.142"))).toEqual({ city: "Berlin" });
+      expect(reader.lookup(ip("::ffff:81.2.69.142"))).toEqual({ city: "Berlin" });
+      expect(reader.lookup(ip("::5102:458e"))).toEqual({ city: "Berlin" });
+      expect(reader.lookup(ip("2001:218:1::1"))).toEqual({ city: "Tokyo" });
+      expect(reader.lookup(ip("2001:219::1"))).toBeNull();
+      expect(reader.lookup(ip("9.9.9.9"))).toBeNull();
+    });
+  });
+
+  it("follows records beyond 24 bits in a 28-bit tree", () => {
+    const data = new DataSection();
+    data.add(bytes(Buffer.alloc(1 << 24)));
+    const far = data.add({ city: "Far" });
+    const reader = new MmdbReader(buildMmdb({
+      ipVersion: 4,
+      recordSize: 28,
+      data,
+      networks: [
+        { address: "10.0.0.0", prefix: 8, data: far },
+        { address: "128.0.0.0", prefix: 1, data: far },
+      ],
+    }));
+
+    expect(reader.lookup(ip("10.1.2.3"))).toEqual({ city: "Far" });
+    expect(reader.lookup(ip("200.1.2.3"))).toEqual({ city: "Far" });
+  });
+
+  it("has no IPv6 records in an IPv4 database", () => {
+    const data = new DataSection();
+    const reader = new MmdbReader(buildMmdb({
+      ipVersion: 4,
+      recordSize: 24,
+      data,
+      networks: [{ address: "0.0.0.0", prefix: 1, data: data.add("anything") }],
+    }));
+
+    expect(reader.lookup(ip("::1"))).toBeNull();
+  });
+
+  it("reads the metadata", () => {
+    const data = new DataSection();
+    const reader = new MmdbReader(buildMmdb({
+      ipVersion: 6,
+      recordSize: 24,
+      data,
+      databaseType: "GeoLite2-ASN",
+      networks: [{ address: "1.0.0.0", prefix: 8, data: data.add("x") }],
+    }));
+
+    expect(reader.metadata).toMatchObject({ ip_version: 6, record_size: 24, database_type: "GeoLite2-ASN", build_epoch: 1767225600 });
+  });
+
+  it("rejects a file without the metadata marker", () => {
+    expect(() => new MmdbReader(Buffer.from("not a database"))).toThrow(/metadata marker/);
+  });
+
+  it("decodes every data type", () => {
+    const data = new DataSection();
+    const record = data.add({
+      empty: "",
+      short: "x".repeat(28),
+      size29: "y".repeat(29),
+      size285: "z".repeat(300),
+      size65821: "w".repeat(70000),
+      utf8: "Zürich",
+      uint16zero: uint(16, 0),
+      uint16one: uint(16, 200),
+      uint16two: uint(16, 65535),
+      uint32: uint(32, 4294967295),
+      uint64: uint(64, 2 ** 40),
+      uint64max: uint(64, BigInt("18446744073709551615")),
+      uint128: uint(128, BigInt(2) ** BigInt(100)),
+      negative: int32(-5),
+      positive: int32(7),
+      pi: double(3.141592653589793),
+      ratio: float(0.5),
+      yes: true,
+      no: false,
+      raw: bytes(Buffer.from([1, 2, 3])),
+      list: ["a", uint(16, 1), [true]],
+      nested: { names: { en: "Germany", de: "Deutschland" } },
+    });
+    const reader = new MmdbReader(buildMmdb({
+      ipVersion: 4,
+      recordSize: 24,
+      data,
+      networks: [{ address: "1.0.0.0", prefix: 8, data: record }],
+    }));
+
+    expect(reader.lookup(ip("1.2.3.4"))).toEqual({
+      empty: "",
+      short: "x".repeat(28),
+      size29: "y".repeat(29),
+      size285: "z".repeat(300),
+      size65821: "w".repeat(70000),
+      utf8: "Zürich",
+      uint16zero: 0,
+      uint16one: 200,
+      uint16two: 65535,
+      uint32: 4294967295,
+      uint64: 2 ** 40,
+      uint64max: BigInt("18446744073709551615"),
+      uint128: BigInt(2) ** BigInt(100),
+      negative: -5,
+      positive: 7,
+      pi: 3.141592653589793,
+      ratio: 0.5,
+      yes: true,
+      no: false,
+      raw: Buffer.from([1, 2, 3]),
+      list: ["a", 1, [true]],
+      nested: { names: { en: "Germany", de: "Deutschland" } },
+    });
+  });
+
+  it("follows pointers of every size, for keys and values", () => {
+    const data = new DataSection();
+    const country = data.add({ iso_code: "DE", names: { en: "Germany" } });
+    const key = data.add("country");
+    data.add(bytes(Buffer.alloc(3000)));
+    const mid = data.add({ city: "Mid" });
+    data.add(bytes(Buffer.alloc(530000)));
+    const far = data.add({ city: "Far" });
+
+    const record = data.add(mapOf([
+      ["near", pointer(country, 0)],
+      ["mid", pointer(mid, 1)],
+      ["far", pointer(far, 2)],
+      ["absolute", pointer(country, 3)],
+      ["list", [pointer(key), pointer(mid)]],
+      [pointer(key), "under a pointer key"],
+    ]));
+    const reader = new MmdbReader(buildMmdb({
+      ipVersion: 4,
+      recordSize: 24,
+      data,
+      networks: [
+        { address: "1.0.0.0", prefix: 8, data: record },
+        { address: "2.0.0.0", prefix: 8, data: far },
+      ],
+    }));
+
+    expect(mid).toBeGreaterThanOrEqual(2048);
+    expect(far).toBeGreaterThanOrEqual(526336);
+    expect(reader.lookup(ip("1.1.1.1"))).toEqual({
+      near: { iso_code: "DE", names: { en: "Germany" } },
+      mid: { city: "Mid" },
+      far: { city: "Far" },
+      absolute: { iso_code: "DE", names: { en: "Germany" } },
+      list: ["country", { city: "Mid" }],
+      country: "under a pointer key",
+    });
+    expect(reader.lookup(ip("2.2.2.2"))).toEqual({ city: "Far" });
+  });
+});
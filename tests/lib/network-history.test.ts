@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { findInterleavedIPs, toNetworkHistoryResponse, type NetworkInterval } from "@/lib/network-history";
+
+const START = Date.parse("2026-03-01T00:00:00Z");
+const at = (minute: number) => new Date(START + minute * 60_000).toISOString();
+
+const A = "203.0.113.1";
+const B = "198.51.100.2";
+const C = "192.0.2.3";
+
+/**
+ * Intervals (newest first) for check-ins given as [minute, ip], built the way
+ * recordNetworkCheckin builds them: a check-in extends the latest interval
+ * only if it came from the same IP within 10 minutes
+ */
+function intervalsFor(checkins: [number, string][]): NetworkInterval[] {
+  const intervals: NetworkInterval[] = [];
+  for (const [minute, ip] of checkins) {
+    const latest = intervals[intervals.length - 1];
+    if (latest?.public_ip === ip && START + minute * 60_000 - Date.parse(latest.last_seen) <= 10 * 60_000) {
+      latest.last_seen = at(minute);
+      latest.checkins++;
+      continue;
+    }
+    intervals.push({
+      id: `i-${intervals.length + 1}`,
+      device_id: "dev-1",
+      public_ip: ip,
+      asn: null,
+      isp: null,
+      city: null,
+      country: null,
+      country_code: null,
+      first_seen: at(minute),
+      last_seen: at(minute),
+      checkins: 1,
+    });
+  }
+  return intervals.reverse();
+}
+
+// One check-in a minute from the given IPs in turn
+const everyMinute = (...ips: string[]): [number, string][] => ips.map((ip, minute) => [minute, ip]);
+
+describe("findInterleavedIPs", () => {
+  it.each<[string, [number, string][], string[]]>([
+    ["a steady IP", everyMinute(A, A, A, A, A, A), []],
+    ["a single switch to a new IP", everyMinute(A, A, A, B, B, B), []],
+    ["failover to another IP and back", everyMinute(A, A, B, B, B, A, A), []],
+    ["failover and back, twice with a quiet spell between", [...everyMinute(A, B, A), [30, B], [31, A]], []],
+    ["two IPs taking turns", everyMinute(A, B, A, B, A, B), [A, B]],
+    ["two IPs taking turns in runs", everyMinute(A, A, B, B, A, A, B, B), [A, B]],
+    ["turns separated by gaps over 10 minutes", [[0, A], [15, B], [30, A], [45, B]], []],
+    ["a third IP seen once among two taking turns", everyMinute(C, A, B, A, B), [A, B]],
+  ])("%s", (_, checkins, expected) => {
+    const intervals = intervalsFor(checkins);
+    const now = intervals[0].last_seen;
+
+    expect(findInterleavedIPs(intervals, 60, now).sort()).toEqual([...expected].sort());
+  });
+
+  it("ignores turns that ended before the window", () => {
+    const intervals = intervalsFor([...everyMinute(A, B, A, B), [120, A]]);
+
+    expect(findInterleavedIPs(intervals, 30, at(120))).toEqual([]);
+    expect(findInterleavedIPs(intervals, 180, at(120)).sort()).toEqual([A, B].sort());
+  });
+});
+
+describe("toNetworkHistoryResponse", () => {
+  it("flags only the intervals that took turns", () => {
+    const history = toNetworkHistoryResponse(intervalsFor([[0, C], [20, A], [21, B], [22, A], [23, B]]));
+
+    expect(history.map((h) => [h.publicIp, h.concurrent])).toEqual([
+      [B, true],
+      [A, true],
+      [B, true],
+      [A, true],
+      [C, false],
+    ]);
+  });
+
+  it("flags a change of country from the previous located interval", () => {
+    const intervals = intervalsFor(everyMinute(A, B, C));
+    intervals[2].country_code = "DE";
+    intervals[0].country_code = "FR";
+
+    expect(toNetworkHistoryResponse(intervals).map((h) => h.countryChanged)).toEqual([true, false, false]);
+  });
+});
@@ -0,0 +1,265 @@
+// Builds MaxMind DB files for tests, written from the spec
+// (https://maxmind.github.io/MaxMind-DB/) independently of src/lib/mmdb.ts.
+// Values are encoded as JS strings, booleans, arrays and plain objects, or
+// through the typed helpers below for the other types and for pointers.
+
+type Typed =
+  | { kind: "uint"; bits: 16 | 32 | 64 | 128; value: bigint }
+  | { kind: "int32"; value: number }
+  | { kind: "double"; value: number }
+  | { kind: "float"; value: number }
+  | { kind: "bytes"; value: Buffer }
+  | { kind: "pointer"; offset: number; size?: 0 | 1 | 2 | 3 }
+  | { kind: "map"; entries: [WritableValue, WritableValue][] };
+
+export type WritableValue = string | boolean | Typed | WritableValue[] | { [key: string]: WritableValue };
+
+export const uint = (bits: 16 | 32 | 64 | 128, value: number | bigint): Typed => ({ kind: "uint", bits, value: BigInt(value) });
+export const int32 = (value: number): Typed => ({ kind: "int32", value });
+export const double = (value: number): Typed => ({ kind: "double", value });
+export const float = (value: number): Typed => ({ kind: "float", value });
+export const bytes = (value: Buffer): Typed => ({ kind: "bytes", value });
+/** A pointer to an offset in the data section, in the given encoding size */
+export const pointer = (offset: number, size?: 0 | 1 | 2 | 3): Typed => ({ kind: "pointer", offset, size });
+/** A map given as entries, so keys can be pointers too */
+export const mapOf = (entries: [WritableValue, WritableValue][]): Typed => ({ kind: "map", entries });
+
+const TYPE_NUMBERS = { pointer: 1, string: 2, double: 3, bytes: 4, uint16: 5, uint32: 6, map: 7, int32: 8, uint64: 9, uint128: 10, array: 11, boolean: 14, float: 15 };
+
+function control(type: number, size: number): Buffer {
+  let sizeField: number;
+  let sizeBytes: Buffer;
+  if (size < 29) {
+    sizeField = size;
+    sizeBytes = Buffer.alloc(0);
+  } else if (size < 285) {
+    sizeField = 29;
+    sizeBytes = Buffer.from([size - 29]);
+  } else if (size < 65821) {
+    sizeField = 30;
+    sizeBytes = Buffer.alloc(2);
+    sizeBytes.writeUInt16BE(size - 285);
+  } else {
+    sizeField = 31;
+    sizeBytes = Buffer.alloc(3);
+    sizeBytes.writeUIntBE(size - 65821, 0, 3);
+  }
+
+  const head = type <= 7
+    ? Buffer.from([(type << 5) | sizeField])
+    : Buffer.from([sizeField, type - 7]);
+  return Buffer.concat([head, sizeBytes]);
+}
+
+function unsignedBytes(value: bigint): Buffer {
+  const out: number[] = [];
+  for (let v = value; v > BigInt(0); v >>= BigInt(8)) {
+    out.unshift(Number(v & BigInt(0xff)));
+  }
+  return Buffer.from(out);
+}
+
+function encodePointer(offset: number, size?: 0 | 1 | 2 | 3): Buffer {
+  const ss = size ?? (offset < 2048 ? 0 : offset < 526336 ? 1 : offset < 134744064 ? 2 : 3);
+  switch (ss) {
+    case 0:
+      return Buffer.from([0x20 | (offset >> 8), offset & 0xff]);
+    case 1: {
+      const q = offset - 2048;
+      return Buffer.from([0x28 | (q >> 16), (q >> 8) & 0xff, q & 0xff]);
+    }
+    case 2: {
+      const q = offset - 526336;
+      return Buffer.from([0x30 | (q >> 24), (q >> 16) & 0xff, (q >> 8) & 0xff, q & 0xff]);
+    }
+    default: {
+      const out = Buffer.alloc(5);
+      out[0] = 0x38;
+      out.writeUInt32BE(offset, 1);
+      return out;
+    }
+  }
+}
+
+export function encodeValue(value: WritableValue): Buffer {
+  if (typeof value === "string") {
+    const text = Buffer.from(value, "utf8");
+    return Buffer.concat([control(TYPE_NUMBERS.string, text.length), text]);
+  }
+  if (typeof value === "boolean") {
+    return control(TYPE_NUMBERS.boolean, value ? 1 : 0);
+  }
+  if (Array.isArray(value)) {
+    return Buffer.concat([control(TYPE_NUMBERS.array, value.length), ...value.map(encodeValue)]);
+  }
+  if ("kind" in value && typeof value.kind === "string") {
+    const typed = value as Typed;
+    switch (typed.kind) {
+      case "uint": {
+        const payload = unsignedBytes(typed.value);
+        return Buffer.concat([control(TYPE_NUMBERS[`uint${typed.bits}`], payload.length), payload]);
+      }
+      case "int32": {
+        // Negative values need all four bytes; others as few as they fit in
+        const payload = typed.value < 0
+          ? Buffer.from(Uint8Array.of(...new Uint8Array(new Int32Array([typed.value]).buffer).reverse()))
+          : unsignedBytes(BigInt(typed.value));
+        return Buffer.concat([control(TYPE_NUMBERS.int32, payload.length), payload]);
+      }
+      case "double": {
+        const payload = Buffer.alloc(8);
+        payload.writeDoubleBE(typed.value);
+        return Buffer.concat([control(TYPE_NUMBERS.double, 8), payload]);
+      }
+      case "float": {
+        const payload = Buffer.alloc(4);
+        payload.writeFloatBE(typed.value);
+        return Buffer.concat([control(TYPE_NUMBERS.float, 4), payload]);
+      }
+      case "bytes":
+        return Buffer.concat([control(TYPE_NUMBERS.bytes, typed.value.length), typed.value]);
+      case "pointer":
+        return encodePointer(typed.offset, typed.size);
+      case "map":
+        return Buffer.concat([
+          control(TYPE_NUMBERS.map, typed.entries.length),
+          ...typed.entries.flatMap(([k, v]) => [encodeValue(k), encodeValue(v)]),
+        ]);
+    }
+  }
+
+  const entries = Object.entries(value as { [key: string]: WritableValue });
+  return Buffer.concat([
+    control(TYPE_NUMBERS.map, entries.length),
+    ...entries.flatMap(([k, v]) => [encodeValue(k), encodeValue(v)]),
+  ]);
+}
+
+/** Data section built value by value, so records can point at earlier values */
+export class DataSection {
+  private parts: Buffer[] = [];
+  private length = 0;
+
+  /** Append a value and return its offset */
+  add(value: WritableValue): number {
+    const offset = this.length;
+    const encoded = encodeValue(value);
+    this.parts.push(encoded);
+    this.length += encoded.length;
+    return offset;
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.concat(this.parts);
+  }
+}
+
+export interface Network {
+  // Dotted IPv4 or a full 16-byte IPv6 address as bytes
+  address: string | Uint8Array;
+  prefix: number;
+  // Offset of the network's record in the data section
+  data: number;
+}
+
+interface TreeNode {
+  children: [TreeNode | number | null, TreeNode | number | null];
+}
+
+function addressBytes(address: string | Uint8Array, ipVersion: 4 | 6): { bytes: Uint8Array; shift: number } {
+  const raw = typeof address === "string" ? Uint8Array.from(address.split(".").map(Number)) : address;
+  // IPv4 networks in an IPv6 tree live under ::/96
+  if (raw.length === 4 && ipVersion === 6) {
+    return { bytes: Uint8Array.from([...new Array(12).fill(0), ...raw]), shift: 96 };
+  }
+  return { bytes: raw, shift: 0 };
+}
+
+/**
+ * A complete .mmdb file holding the given networks
+ */
+export function buildMmdb(options: {
+  ipVersion: 4 | 6;
+  recordSize: 24 | 28 | 32;
+  networks: Network[];
+  data: DataSection;
+  databaseType?: string;
+}): Buffer {
+  const root: TreeNode = { children: [null, null] };
+
+  for (const network of options.networks) {
+    const { bytes, shift } = addressBytes(network.address, options.ipVersion);
+    const prefix = network.prefix + shift;
+    let node = root;
+    for (let i = 0; i < prefix; i++) {
+      const bit = (bytes[i >> 3] >> (7 - (i & 7))) & 1;
+      if (i === prefix - 1) {
+        node.children[bit] = network.data;
+        break;
+      }
+      let next = node.children[bit];
+      if (typeof next !== "object" || next === null) {
+        next = { children: [null, null] };
+        node.children[bit] = next;
+      }
+      node = next;
+    }
+  }
+
+  const nodes: TreeNode[] = [];
+  const queue = [root];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    nodes.push(node);
+    for (const child of node.children) {
+      if (child !== null && typeof child === "object") queue.push(child);
+    }
+  }
+
+  const nodeCount = nodes.length;
+  const recordValue = (child: TreeNode | number | null) =>
+    child === null ? nodeCount : typeof child === "number" ? nodeCount + 16 + child : nodes.indexOf(child);
+
+  const nodeBytes = (options.recordSize * 2) / 8;
+  const tree = Buffer.alloc(nodeCount * nodeBytes);
+  nodes.forEach((node, index) => {
+    const [left, right] = node.children.map(recordValue);
+    const at = index * nodeBytes;
+    switch (options.recordSize) {
+      case 24:
+        tree.writeUIntBE(left, at, 3);
+        tree.writeUIntBE(right, at + 3, 3);
+        break;
+      case 28:
+        tree.writeUIntBE(left & 0xffffff, at, 3);
+        tree[at + 3] = ((left >>> 24) << 4) | (right >>> 24);
+        tree.writeUIntBE(right & 0xffffff, at + 4, 3);
+        break;
+      case 32:
+        tree.writeUInt32BE(left, at);
+        tree.writeUInt32BE(right, at + 4);
+        break;
+    }
+  });
+
+  const metadata = encodeValue({
+    node_count: uint(32, nodeCount),
+    record_size: uint(16, options.recordSize),
+    ip_version: uint(16, options.ipVersion),
+    database_type: options.databaseType ?? "Test-City",
+    languages: ["en"],
+    binary_format_major_version: uint(16, 2),
+    binary_format_minor_version: uint(16, 0),
+    build_epoch: uint(64, 1767225600),
+    description: { en: "Test database" },
+  });
+
+  return Buffer.concat([
+    tree,
+    Buffer.alloc(16),
+    options.data.toBuffer(),
+    Buffer.from([0xab, 0xcd, 0xef]),
+    Buffer.from("MaxMind.com"),
+    metadata,
+  ]);
+}
@@ -0,0 +1,211 @@
+// Stand-in for @/lib/supabase. Each table holds the rows given to mockTable
+// (none by default) and queries run against them: eq/neq/in/is, the range
+// comparisons and contains narrow the rows, limit/range cut them, and
+// insert/update/delete change them. Filters the stand-in can't evaluate
+// (or, not, filters on embedded tables) are recorded but don't narrow.
+// Every query is recorded, so tests can assert on the filters a route used.
+// .single() resolves to the first row, or PGRST116 when there is none.
+// Like PostgREST's default max-rows, a select returns at most 1000 rows.
+
+type Row = Record<string, unknown>;
+
+interface MockResult {
+  data?: unknown;
+  error?: unknown;
+  count?: number | null;
+}
+
+export interface Filter {
+  method: string;
+  column: string;
+  value: unknown;
+}
+
+export interface RecordedQuery {
+  table: string;
+  op: "select" | "insert" | "upsert" | "update" | "delete";
+  values?: unknown;
+  filters: Filter[];
+}
+
+const MAX_ROWS = 1000;
+
+const tables = new Map<string, MockResult>();
+const rpcs = new Map<string, (args: Row) => MockResult>();
+const recorded: RecordedQuery[] = [];
+
+export function mockTable(table: string, result: MockResult): void {
+  tables.set(table, result);
+}
+
+/** Answer rpc(fn, args) by calling handler with the arguments */
+export function mockRpc(fn: string, handler: (args: Row) => MockResult): void {
+  rpcs.set(fn, handler);
+}
+
+export function resetTables(): void {
+  tables.clear();
+  rpcs.clear();
+  recorded.length = 0;
+}
+
+/** The queries run so far, optionally only those on one table */
+export function recordedQueries(table?: string): RecordedQuery[] {
+  return table ? recorded.filter((q) => q.table === table) : [...recorded];
+}
+
+/** The rows a table holds now, after any mutations */
+export function tableRows(table: string): Row[] {
+  const data = tables.get(table)?.data;
+  return Array.isArray(data) ? (data as Row[]) : [];
+}
+
+function compare(a: unknown, b: unknown): number {
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+function matches(row: Row, filter: Filter): boolean {
+  const { method, column, value } = filter;
+  if (column.includes(".")) return true;
+  const actual = row[column];
+  switch (method) {
+    case "eq":
+      return actual === value;
+    case "neq":
+      return actual !== value;
+    case "in":
+      return (value as unknown[]).includes(actual);
+    case "is":
+      return value === null ? actual == null : actual === value;
+    case "gt":
+      return actual != null && compare(actual, value) > 0;
+    case "gte":
+      return actual != null && compare(actual, value) >= 0;
+    case "lt":
+      return actual != null && compare(actual, value) < 0;
+    case "lte":
+      return actual != null && compare(actual, value) <= 0;
+    case "contains":
+      return Array.isArray(actual) && (value as unknown[]).every((v) => actual.includes(v));
+    default:
+      return true;
+  }
+}
+
+const FILTERS = new Set(["eq", "neq", "in", "is", "gt", "gte", "lt", "lte", "contains", "like", "ilike", "not", "overlaps"]);
+
+function query(table: string): unknown {
+  const q: RecordedQuery = { table, op: "select", filters: [] };
+  let bounds: [number, number] | null = null;
+  recorded.push(q);
+
+  function run(): { data: unknown; error: unknown; count: number | null } {
+    const stored = tables.get(table) ?? {};
+    if (stored.error) {
+      return { data: null, error: stored.error, count: null };
+    }
+
+    const data = stored.data ?? [];
+    if (!Array.isArray(data)) {
+      return { data, error: null, count: stored.count ?? null };
+    }
+
+    if (q.op === "insert" || q.op === "upsert") {
+      const added = (Array.isArray(q.values) ? q.values : [q.values]) as Row[];
+      tables.set(table, { ...stored, data: [...data, ...added] });
+      return { data: added, error: null, count: null };
+    }
+
+    const hit = (data as Row[]).filter((row) => q.filters.every((f) => matches(row, f)));
+
+    if (q.op === "update") {
+      const changed = hit.map((row) => ({ ...row, ...(q.values as Row) }));
+      tables.set(table, { ...stored, data: (data as Row[]).map((row) => changed[hit.indexOf(row)] ?? row) });
+      return { data: changed, error: null, count: null };
+    }
+
+    if (q.op === "delete") {
+      tables.set(table, { ...stored, data: (data as Row[]).filter((row) => !hit.includes(row)) });
+      return { data: hit, error: null, count: null };
+    }
+
+    const rows = bounds ? hit.slice(bounds[0], bounds[1] + 1) : hit;
+    return { data: rows.slice(0, MAX_ROWS), error: null, count: stored.count ?? hit.length };
+  }
+
+  function single(allowNone: boolean) {
+    const result = run();
+    if (result.error) return { data: null, error: result.error, count: null };
+    const row = Array.isArray(result.data) ? result.data[0] ?? null : result.data;
+    if (row === null && !allowNone) {
+      return { data: null, error: { code: "PGRST116", message: "No rows" }, count: null };
+    }
+    return { data: row, error: null, count: result.count };
+  }
+
+  const builder: unknown = new Proxy({}, {
+    get(_, prop) {
+      if (prop === "then") {
+        return (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+          Promise.resolve().then(run).then(resolve, reject);
+      }
+      if (prop === "single" || prop === "maybeSingle") {
+        return () => Promise.resolve().then(() => single(prop === "maybeSingle"));
+      }
+      if (prop === "insert" || prop === "upsert" || prop === "update") {
+        return (values: unknown) => {
+          q.op = prop;
+          q.values = values;
+          return builder;
+        };
+      }
+      if (prop === "delete") {
+        return () => {
+          q.op = "delete";
+          return builder;
+        };
+      }
+      if (prop === "limit") {
+        return (n: number) => {
+          bounds = [0, n - 1];
+          return builder;
+        };
+      }
+      if (prop === "range") {
+        return (from: number, to: number) => {
+          bounds = [from, to];
+          return builder;
+        };
+      }
+      if (typeof prop === "string" && FILTERS.has(prop)) {
+        return (column: string, value: unknown) => {
+          q.filters.push({ method: prop, column, value });
+          return builder;
+        };
+      }
+      if (prop === "or") {
+        return (value: string) => {
+          q.filters.push({ method: "or", column: "", value });
+          return builder;
+        };
+      }
+      return () => builder;
+    },
+  });
+  return builder;
+}
+
+export const supabase = {
+  from: (table: string) => query(table),
+  rpc: (fn: string, args: Row = {}) => {
+    recorded.push({ table: `rpc:${fn}`, op: "select", values: args, filters: [] });
+    const handler = rpcs.get(fn);
+    const result = handler ? handler(args) : tables.get(`rpc:${fn}`) ?? {};
+    const outcome = { data: result.data ?? [], error: result.error ?? null, count: result.count ?? null };
+    // rpc() results are awaited directly or narrowed with .single()
+    return Object.assign(Promise.resolve(outcome), {
+      single: () => Promise.resolve(outcome),
+      returns: () => Promise.resolve(outcome),
+    });
+  },
+};